@@ -0,0 +1,158 @@
+import { useQuery } from '@tanstack/react-query';
+import { Loader2, Check } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+
+interface CandidateEvaluation {
+  operatorId: number;
+  operatorName: string;
+  uph: number | null;
+  observations: number;
+  inferredFrom?: string | null;
+  hoursAssigned: number;
+  maxHours: number;
+  utilization: number;
+  expectedHours: number | null;
+  score: number | null;
+  components: {
+    uph: number;
+    reliability: number;
+    capacity: number;
+    workload: number;
+    lateness: number;
+  } | null;
+  projectedFinish: string | null;
+  daysLate: number;
+  selected: boolean;
+  rejectedReason: string | null;
+}
+
+interface AssignmentDecisionResponse {
+  workOrderId: number;
+  operatorId: number;
+  operatorName: string | null;
+  assignedBy: string | null;
+  isAutoAssigned: boolean | null;
+  autoAssignReason: string | null;
+  decision: {
+    moNumber: string;
+    workCenter: string;
+    routing: string;
+    priority: string;
+    dueDate: string | null;
+    chosenOperatorId: number | null;
+    candidates: CandidateEvaluation[];
+    rebalancedFrom?: { operatorId: number; operatorName: string; reason: string };
+    decidedAt: string;
+  } | null;
+}
+
+const formatComponent = (value: number | undefined) =>
+  value === undefined ? '—' : value.toFixed(2);
+
+export function AssignmentDecisionPanel({ workOrderId }: { workOrderId: number }) {
+  const { data, isLoading, error } = useQuery<AssignmentDecisionResponse>({
+    queryKey: [`/api/assignments/${workOrderId}/decision`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-3">
+        <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return <p className="py-2 text-xs text-gray-500">No assignment details available</p>;
+  }
+
+  const { decision } = data;
+  if (!decision) {
+    return (
+      <p className="py-2 text-xs text-gray-500">
+        Assigned by {data.assignedBy || 'dashboard'}
+        {data.autoAssignReason && ` · ${data.autoAssignReason}`}. No candidate breakdown was recorded.
+      </p>
+    );
+  }
+
+  // A supervisor may have changed the operator after auto-assign decided
+  const overridden = decision.chosenOperatorId !== null && decision.chosenOperatorId !== data.operatorId;
+  const autoPick = decision.candidates.find(candidate => candidate.operatorId === decision.chosenOperatorId);
+
+  return (
+    <div className="py-2 space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+        <Badge variant="outline" className="text-xs">{decision.priority} priority</Badge>
+        {decision.dueDate && <span>Due {new Date(decision.dueDate).toLocaleDateString()}</span>}
+        <span>Decided {new Date(decision.decidedAt).toLocaleString()}</span>
+      </div>
+      {overridden && (
+        <p className="text-xs text-amber-700">
+          Manually reassigned to {data.operatorName}; auto-assign had picked {autoPick?.operatorName || 'another operator'}.
+        </p>
+      )}
+      {decision.rebalancedFrom && (
+        <p className="text-xs text-blue-700">
+          Rebalanced from {decision.rebalancedFrom.operatorName}: {decision.rebalancedFrom.reason}
+        </p>
+      )}
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-500 uppercase">
+            <th className="text-left py-1">Operator</th>
+            <th className="text-right py-1">UPH</th>
+            <th className="text-right py-1">Obs</th>
+            <th className="text-right py-1">Util</th>
+            <th className="text-right py-1" title="UPH / reliability / capacity / workload / lateness">Components</th>
+            <th className="text-right py-1">Score</th>
+          </tr>
+        </thead>
+        <tbody>
+          {decision.candidates.map(candidate => (
+            <tr
+              key={candidate.operatorId}
+              className={`border-t border-gray-50 align-top ${candidate.selected ? 'bg-green-50' : ''}`}
+            >
+              <td className="py-1">
+                <div className="flex items-center gap-1 font-medium text-gray-900">
+                  {candidate.selected && <Check className="h-3 w-3 text-green-600" />}
+                  {candidate.operatorName}
+                </div>
+                {candidate.rejectedReason && (
+                  <div className="text-gray-500">{candidate.rejectedReason}</div>
+                )}
+                {candidate.daysLate > 0 && (
+                  <div className="text-red-600">Projected {candidate.daysLate.toFixed(1)} days late</div>
+                )}
+                {candidate.inferredFrom && (
+                  <div className="text-amber-600">UPH {candidate.inferredFrom}</div>
+                )}
+              </td>
+              <td className="py-1 text-right">
+                {candidate.uph !== null ? candidate.uph.toFixed(1) : '—'}
+                {candidate.inferredFrom && <span className="text-amber-600" title="Inferred">*</span>}
+              </td>
+              <td className="py-1 text-right">{candidate.observations}</td>
+              <td className="py-1 text-right">{Math.round(candidate.utilization)}%</td>
+              <td className="py-1 text-right font-mono text-gray-600">
+                {candidate.components
+                  ? [
+                      candidate.components.uph,
+                      candidate.components.reliability,
+                      candidate.components.capacity,
+                      candidate.components.workload,
+                      candidate.components.lateness
+                    ].map(formatComponent).join(' / ')
+                  : '—'}
+              </td>
+              <td className="py-1 text-right font-medium">
+                {candidate.score !== null ? candidate.score.toFixed(3) : '—'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
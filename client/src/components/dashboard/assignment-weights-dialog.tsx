@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, RotateCcw, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface AssignmentWeights {
+  uph: number;
+  reliability: number;
+  capacity: number;
+  workload: number;
+  lateness: number;
+  priority: number;
+}
+
+interface WeightsResponse {
+  weights: AssignmentWeights;
+  defaults: AssignmentWeights;
+}
+
+const WEIGHT_FIELDS: Array<{ key: keyof AssignmentWeights; label: string; description: string }> = [
+  { key: 'uph', label: 'UPH', description: 'Prefer faster operators' },
+  { key: 'reliability', label: 'Data reliability', description: 'Prefer UPH backed by more observations' },
+  { key: 'capacity', label: 'Remaining capacity', description: 'Prefer operators with hours left this week' },
+  { key: 'workload', label: 'Workload balance', description: 'Prefer less loaded operators' },
+  { key: 'lateness', label: 'Lateness penalty', description: 'Penalize assignments projected to finish after the MO due date' },
+  { key: 'priority', label: 'Priority emphasis', description: 'How much High priority MOs amplify the lateness penalty' },
+];
+
+interface AssignmentWeightsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function AssignmentWeightsDialog({ open, onOpenChange }: AssignmentWeightsDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [localWeights, setLocalWeights] = useState<AssignmentWeights | null>(null);
+
+  const { data, isLoading } = useQuery<WeightsResponse>({
+    queryKey: ['/api/auto-assign/weights'],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (data?.weights) {
+      setLocalWeights(data.weights);
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (weights: AssignmentWeights) => {
+      const response = await apiRequest('PUT', '/api/auto-assign/weights', { weights });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auto-assign/weights'] });
+      toast({
+        title: "Weights Saved",
+        description: "Auto-assign will use the new weights on its next run",
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Save Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Assignment Weights</DialogTitle>
+          <DialogDescription>
+            Tune how auto-assign trades off speed, balance and due dates
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !localWeights ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-5 py-2">
+            {WEIGHT_FIELDS.map(field => (
+              <div key={field.key} className="space-y-2">
+                <div className="flex justify-between">
+                  <Label>{field.label}</Label>
+                  <span className="text-sm font-mono">{localWeights[field.key].toFixed(2)}</span>
+                </div>
+                <Slider
+                  value={[localWeights[field.key]]}
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  onValueChange={([value]) => setLocalWeights(prev => prev ? { ...prev, [field.key]: value } : prev)}
+                />
+                <p className="text-xs text-muted-foreground">{field.description}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => data?.defaults && setLocalWeights(data.defaults)}
+            disabled={!data?.defaults || saveMutation.isPending}
+          >
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Reset to Defaults
+          </Button>
+          <Button
+            onClick={() => localWeights && saveMutation.mutate(localWeights)}
+            disabled={!localWeights || saveMutation.isPending}
+          >
+            {saveMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
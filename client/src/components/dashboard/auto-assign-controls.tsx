@@ -9,7 +9,11 @@ import {
   AlertCircle,
   CheckCircle2,
   Info,
-  XCircle
+  XCircle,
+  CalendarClock,
+  SlidersHorizontal,
+  FlaskConical,
+  ListPlus
 } from 'lucide-react';
 import { Progress } from '@/components/ui/progress';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
@@ -33,6 +37,15 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AssignmentWeightsDialog } from './assignment-weights-dialog';
+import { ScenarioSandboxDialog } from './scenario-sandbox-dialog';
 
 interface RoutingAssignmentResult {
   routing: string;
@@ -44,6 +57,67 @@ interface RoutingAssignmentResult {
   error?: string;
 }
 
+interface ScheduleResult {
+  horizonStart: string;
+  horizonEnd: string;
+  slots: Array<{
+    workOrderId: number;
+    operatorId: number;
+    moNumber: string;
+    start: string;
+    end: string;
+    hours: number;
+  }>;
+  unscheduled: Array<{ workOrderId: number; operatorId: number; moNumber: string; reason: string }>;
+  moCompletions: Array<{
+    moNumber: string;
+    dueDate: string | null;
+    projectedFinish: string | null;
+    status: 'on_time' | 'late' | 'no_due_date' | 'unscheduled';
+    daysLate: number;
+    criticalPath: Array<{ workOrderId: number; workCenter: string; operatorId: number; start: string; end: string }>;
+  }>;
+  lateMos: string[];
+}
+
+interface SolverReport {
+  solver: 'greedy' | 'optimal';
+  totalHours: number;
+  assignedCount: number;
+  unassignedCount: number;
+  provenOptimal: boolean;
+  nodesExplored: number;
+  durationMs: number;
+  greedy: { totalHours: number; assignedCount: number; overCapacityHours: number };
+  gapHours: number;
+  gapPercent: number;
+}
+
+interface ChangeReport {
+  mode: 'full' | 'incremental';
+  since: string | null;
+  newWorkOrders: number;
+  changes: Array<{
+    workOrderId: number;
+    moNumber: string | null;
+    change: 'added' | 'moved' | 'rescheduled' | 'dropped' | 'unassigned';
+    fromOperatorName: string | null;
+    toOperatorName: string | null;
+    previousStart: string | null;
+    scheduledStart: string | null;
+    reason: string;
+  }>;
+  unchanged: number;
+}
+
+const CHANGE_STYLES: Record<ChangeReport['changes'][number]['change'], string> = {
+  added: 'text-green-700',
+  moved: 'text-amber-700',
+  rescheduled: 'text-blue-700',
+  dropped: 'text-gray-500',
+  unassigned: 'text-red-600'
+};
+
 interface AssignmentResult {
   success: boolean;
   assignments: Array<{
@@ -53,6 +127,8 @@ interface AssignmentResult {
     reason: string;
     expectedUph: number;
     expectedHours: number;
+    expectedHoursLow?: number | null;
+    expectedHoursHigh?: number | null;
     confidence: number;
   }>;
   unassigned: number[];
@@ -67,8 +143,12 @@ interface AssignmentResult {
   }>;
   summary: string;
   totalHoursOptimized: number;
+  totalTardiness?: number;
   operatorUtilization: Map<number, number>;
   routingResults?: RoutingAssignmentResult[];
+  schedule?: ScheduleResult;
+  solverReport?: SolverReport;
+  changeReport?: ChangeReport;
   progress?: {
     current: number;
     total: number;
@@ -79,15 +159,19 @@ interface AssignmentResult {
 export function AutoAssignControls() {
   const [showResults, setShowResults] = useState(false);
   const [showProgress, setShowProgress] = useState(false);
+  const [showWeights, setShowWeights] = useState(false);
+  const [showScenarios, setShowScenarios] = useState(false);
+  const [solver, setSolver] = useState<'greedy' | 'optimal'>('greedy');
   const [lastResult, setLastResult] = useState<AssignmentResult | null>(null);
   const [currentProgress, setCurrentProgress] = useState(0);
   const [currentRouting, setCurrentRouting] = useState('');
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
-  // Auto-assign mutation
+  // Auto-assign mutation ("schedule" mode also sequences assignments into dated slots;
+  // incremental runs only slot work orders created since the last run)
   const autoAssignMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async ({ mode = 'assign', incremental = false }: { mode?: 'assign' | 'schedule'; incremental?: boolean } = {}) => {
       setShowProgress(true);
       setCurrentProgress(0);
       setCurrentRouting('Analyzing work orders...');
@@ -136,6 +220,7 @@ export function AutoAssignControls() {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           credentials: 'include',
+          body: JSON.stringify({ mode, solver, incremental }),
           signal: controller.signal
         });
         
@@ -216,6 +301,13 @@ export function AutoAssignControls() {
             ),
           });
         }
+      } else if (data.success && data.assignments?.length === 0 && data.schedule) {
+        // Nothing new to assign, but existing assignments were scheduled
+        setShowResults(true);
+        toast({
+          title: "Schedule Updated",
+          description: `${data.schedule.slots.length} assignments scheduled, ${data.schedule.lateMos.length} MOs projected late`,
+        });
       } else if (data.success && data.assignments?.length === 0) {
         // Success but no assignments made
         toast({
@@ -260,7 +352,7 @@ export function AutoAssignControls() {
   // Regenerate assignments mutation
   const regenerateMutation = useMutation({
     mutationFn: async () => {
-      const result = await apiRequest('POST', '/api/auto-assign/regenerate');
+      const result = await apiRequest('POST', '/api/auto-assign/regenerate', { solver });
       return result;
     },
     onSuccess: (data: any) => {
@@ -316,7 +408,7 @@ export function AutoAssignControls() {
       <div className="flex items-center gap-2">
         <TooltipProvider>
         <Button
-          onClick={() => autoAssignMutation.mutate()}
+          onClick={() => autoAssignMutation.mutate({ mode: 'assign' })}
           disabled={isLoading}
           className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white"
         >
@@ -333,6 +425,89 @@ export function AutoAssignControls() {
           )}
         </Button>
 
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                onClick={() => autoAssignMutation.mutate({ mode: 'schedule' })}
+                disabled={isLoading}
+                variant="outline"
+                size="icon"
+              >
+                <CalendarClock className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Assign and schedule across days</p>
+            </TooltipContent>
+          </Tooltip>
+
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                onClick={() => autoAssignMutation.mutate({ mode: 'schedule', incremental: true })}
+                disabled={isLoading}
+                variant="outline"
+                size="icon"
+              >
+                <ListPlus className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Slot in new work orders only, keeping existing slots</p>
+            </TooltipContent>
+          </Tooltip>
+
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <div>
+                <Select value={solver} onValueChange={(value) => setSolver(value as 'greedy' | 'optimal')} disabled={isLoading}>
+                  <SelectTrigger className="h-9 w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="greedy">Greedy</SelectItem>
+                    <SelectItem value="optimal">Optimal</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Assignment solver: greedy by work center, or optimal (fewest total hours within capacity)</p>
+            </TooltipContent>
+          </Tooltip>
+
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                onClick={() => setShowWeights(true)}
+                disabled={isLoading}
+                variant="outline"
+                size="icon"
+              >
+                <SlidersHorizontal className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Tune assignment weights</p>
+            </TooltipContent>
+          </Tooltip>
+
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                onClick={() => setShowScenarios(true)}
+                disabled={isLoading}
+                variant="outline"
+                size="icon"
+              >
+                <FlaskConical className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>What-if scenarios</p>
+            </TooltipContent>
+          </Tooltip>
+
           {lastResult && lastResult.assignments && lastResult.assignments.length > 0 && (
             <Tooltip>
               <TooltipTrigger asChild>
@@ -370,6 +545,9 @@ export function AutoAssignControls() {
         </TooltipProvider>
       </div>
 
+      <AssignmentWeightsDialog open={showWeights} onOpenChange={setShowWeights} />
+      <ScenarioSandboxDialog open={showScenarios} onOpenChange={setShowScenarios} />
+
       {/* Progress Dialog */}
       <Dialog open={showProgress} onOpenChange={setShowProgress}>
         <DialogContent className="sm:max-w-md">
@@ -416,7 +594,7 @@ export function AutoAssignControls() {
           {lastResult && (
             <div className="space-y-4">
               {/* Summary Stats */}
-              <div className="grid grid-cols-3 gap-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                 <Alert>
                   <CheckCircle2 className="h-4 w-4" />
                   <AlertTitle>Assigned</AlertTitle>
@@ -442,8 +620,76 @@ export function AutoAssignControls() {
                     {(lastResult.totalHoursOptimized || 0).toFixed(1)} hours optimized
                   </AlertDescription>
                 </Alert>
+
+                <Alert variant={(lastResult.totalTardiness || 0) > 0 ? 'destructive' : 'default'}>
+                  <CalendarClock className="h-4 w-4" />
+                  <AlertTitle>Tardiness</AlertTitle>
+                  <AlertDescription>
+                    {(lastResult.totalTardiness || 0).toFixed(1)} days late in total
+                  </AlertDescription>
+                </Alert>
               </div>
 
+              {/* Solver comparison against the greedy plan */}
+              {lastResult.solverReport && (
+                <Alert>
+                  <Info className="h-4 w-4" />
+                  <AlertTitle>
+                    {lastResult.solverReport.provenOptimal ? 'Optimal plan' : 'Best plan found (search limit reached)'}
+                  </AlertTitle>
+                  <AlertDescription>
+                    {lastResult.solverReport.totalHours.toFixed(1)}h for {lastResult.solverReport.assignedCount} work orders vs greedy{' '}
+                    {lastResult.solverReport.greedy.totalHours.toFixed(1)}h for {lastResult.solverReport.greedy.assignedCount}
+                    {' '}({lastResult.solverReport.gapPercent.toFixed(1)}% gap)
+                    {lastResult.solverReport.greedy.overCapacityHours > 0 &&
+                      ` · greedy overbooked operators by ${lastResult.solverReport.greedy.overCapacityHours.toFixed(1)}h`}
+                    {lastResult.solverReport.unassignedCount > 0 &&
+                      ` · ${lastResult.solverReport.unassignedCount} left for lack of capacity`}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {/* What this run changed in the live plan */}
+              {lastResult.changeReport && (
+                <div className="space-y-2">
+                  <h4 className="font-semibold">
+                    Plan Changes
+                    {lastResult.changeReport.mode === 'incremental' && (
+                      <span className="ml-2 text-sm font-normal text-muted-foreground">
+                        {lastResult.changeReport.newWorkOrders} new work orders
+                        {lastResult.changeReport.since &&
+                          ` since ${new Date(lastResult.changeReport.since).toLocaleString()}`}
+                      </span>
+                    )}
+                  </h4>
+                  <p className="text-sm text-muted-foreground">
+                    {lastResult.changeReport.changes.length} changed · {lastResult.changeReport.unchanged} existing assignments unchanged
+                  </p>
+                  {lastResult.changeReport.changes.length > 0 && (
+                    <div className="max-h-60 overflow-y-auto border rounded-lg divide-y">
+                      {lastResult.changeReport.changes.map(change => (
+                        <div key={`${change.change}-${change.workOrderId}`} className="p-2 text-sm">
+                          <div className="flex items-center justify-between">
+                            <span className="font-medium">{change.moNumber || `WO${change.workOrderId}`}</span>
+                            <span className={`text-xs uppercase font-semibold ${CHANGE_STYLES[change.change]}`}>
+                              {change.change}
+                            </span>
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {change.fromOperatorName && change.toOperatorName && change.fromOperatorName !== change.toOperatorName
+                              ? `${change.fromOperatorName} → ${change.toOperatorName}`
+                              : change.toOperatorName || change.fromOperatorName || 'No operator'}
+                            {change.change === 'rescheduled' && change.scheduledStart &&
+                              ` · ${change.previousStart ? new Date(change.previousStart).toLocaleString() : 'unscheduled'} → ${new Date(change.scheduledStart).toLocaleString()}`}
+                          </div>
+                          <div className="text-xs text-gray-600">{change.reason}</div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Routing Results */}
               {lastResult.routingResults && lastResult.routingResults.length > 0 && (
                 <div className="space-y-2">
@@ -503,6 +749,11 @@ export function AutoAssignControls() {
                           <div className="text-right text-sm">
                             <p>{assignment.expectedUph.toFixed(1)} UPH</p>
                             <p>{assignment.expectedHours.toFixed(1)}h</p>
+                            {assignment.expectedHoursLow != null && assignment.expectedHoursHigh != null && (
+                              <p className="text-xs text-muted-foreground" title="From the UPH 95% interval">
+                                {assignment.expectedHoursLow.toFixed(1)}–{assignment.expectedHoursHigh.toFixed(1)}h
+                              </p>
+                            )}
                             <p className="text-xs text-muted-foreground">
                               {(assignment.confidence * 100).toFixed(0)}% confidence
                             </p>
@@ -546,6 +797,46 @@ export function AutoAssignControls() {
                 </div>
               )}
 
+              {/* Schedule: projected MO completion against due dates */}
+              {lastResult.schedule && lastResult.schedule.moCompletions.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-semibold">
+                    Schedule ({new Date(lastResult.schedule.horizonStart).toLocaleDateString()} – {new Date(lastResult.schedule.horizonEnd).toLocaleDateString()})
+                  </h4>
+                  <p className="text-sm text-muted-foreground">
+                    {lastResult.schedule.slots.length} assignments scheduled • {lastResult.schedule.lateMos.length} MOs projected late • {lastResult.schedule.unscheduled.length} beyond horizon
+                  </p>
+                  <div className="space-y-1 max-h-64 overflow-y-auto">
+                    {lastResult.schedule.moCompletions.map((mo) => (
+                      <div
+                        key={mo.moNumber}
+                        className={`border rounded px-3 py-2 text-sm ${
+                          mo.status === 'late' ? 'border-red-200 bg-red-50' :
+                          mo.status === 'unscheduled' ? 'border-yellow-200 bg-yellow-50' : ''
+                        }`}
+                      >
+                        <div className="flex justify-between items-center">
+                          <span className="font-medium">{mo.moNumber}</span>
+                          <span className="text-muted-foreground">
+                            Due {mo.dueDate ? new Date(mo.dueDate).toLocaleDateString() : '—'} • Finish {mo.projectedFinish ? new Date(mo.projectedFinish).toLocaleString() : 'not scheduled'}
+                            {mo.status === 'late' && (
+                              <span className="ml-2 text-red-600 font-medium">{mo.daysLate}d late</span>
+                            )}
+                          </span>
+                        </div>
+                        {mo.criticalPath.length > 1 && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Critical path: {mo.criticalPath.map(step =>
+                              `${step.workCenter} (${new Date(step.start).toLocaleDateString()}–${new Date(step.end).toLocaleDateString()})`
+                            ).join(' → ')}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Operator Utilization */}
               {lastResult.operatorUtilization && lastResult.operatorUtilization.size > 0 && (
                 <div className="space-y-2">
@@ -2,7 +2,9 @@ import React, { useState, useEffect, useRef } from 'react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { Badge } from '@/components/ui/badge';
-import { Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Sparkles, Pin, PinOff } from 'lucide-react';
+import { queryClient } from '@/lib/queryClient';
 
 interface QualifiedOperator {
   id: number;
@@ -104,6 +106,7 @@ export function OperatorDropdown({
   const [qualifiedOperators, setQualifiedOperators] = useState<QualifiedOperator[]>([]);
   const [loading, setLoading] = useState(false);
   const [estimatedHours, setEstimatedHours] = useState<number | null>(null);
+  const [lockOverride, setLockOverride] = useState<boolean | null>(null);
   const { toast } = useToast();
 
   // Prevent multiple rapid API calls with abort controller
@@ -304,6 +307,60 @@ export function OperatorDropdown({
   // For single work order, check if it's auto-assigned
   const currentAssignment = workOrderId && assignments ? assignments.get(workOrderId) : null;
   const isCurrentAutoAssigned = currentAssignment?.isAutoAssigned || false;
+  
+  // Assigned, unfinished work orders behind this dropdown that can be pinned
+  const lockableWorkOrderIds = workOrderIds
+    ? bulkAssignmentInfo.filter(info => info.assignment && !info.isFinished).map(info => info.workOrderId)
+    : (workOrderId && currentOperatorId ? [workOrderId] : []);
+  const serverLocked = lockableWorkOrderIds.length > 0 &&
+    lockableWorkOrderIds.every(id => assignments?.get(id)?.isLocked);
+  const isCurrentLocked = lockOverride ?? serverLocked;
+
+  // Refetched assignments take over from the optimistic toggle
+  useEffect(() => {
+    setLockOverride(null);
+  }, [serverLocked]);
+
+  // Pin/unpin the assignments so auto-assign treats them as fixed
+  const handleToggleLock = async () => {
+    if (lockableWorkOrderIds.length === 0) return;
+    const locked = !isCurrentLocked;
+    
+    try {
+      const responses = await Promise.all(lockableWorkOrderIds.map(id =>
+        fetch(`/api/assignments/${id}/lock`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ locked })
+        })
+      ));
+      
+      if (responses.every(response => response.ok)) {
+        setLockOverride(locked);
+        queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+        toast({
+          title: locked ? "Assignment Pinned" : "Assignment Unpinned",
+          description: locked
+            ? "Auto-assign will keep this operator on this work order"
+            : "Auto-assign may move this work order again",
+          duration: 3000
+        });
+      } else {
+        toast({
+          title: "Pin Failed",
+          description: "Failed to update pin for some work orders",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      console.error('Lock error:', error);
+      toast({
+        title: "Pin Error",
+        description: "Network error occurred",
+        variant: "destructive"
+      });
+    }
+  };
 
   // If all work orders are finished, show the finished operators
   if (allFinished && uniqueFinishedOperators.length > 0) {
@@ -339,6 +396,7 @@ export function OperatorDropdown({
 
   return (
     <div className={`space-y-1 ${className || ''}`}>
+      <div className="flex items-center gap-1">
       <Select 
         key={`${workCenter}-${routing}-${qualifiedOperators.length}`} // Force re-render when operators change
         value={workOrderIds ? (uniqueOperators.length > 0 ? "bulk-assigned" : "") : (currentOperatorId?.toString() || "")} 
@@ -375,6 +433,7 @@ export function OperatorDropdown({
                   if (!operatorDetails) {
                     return (
                       <div className="flex items-center space-x-1">
+                        {isCurrentLocked && <Pin className="w-3 h-3 text-blue-600" />}
                         {hasAutoAssignment && <Sparkles className="w-3 h-3 text-purple-600" />}
                         <span className="text-green-700">{formatOperatorName(operatorName)} assigned</span>
                       </div>
@@ -384,6 +443,7 @@ export function OperatorDropdown({
                   return (
                     <div className="flex items-center justify-between w-full min-w-0">
                       <div className="flex items-center space-x-1">
+                        {isCurrentLocked && <Pin className="w-3 h-3 text-blue-600" />}
                         {hasAutoAssignment && <Sparkles className="w-3 h-3 text-purple-600" />}
                         <span className="truncate text-green-700">{formatOperatorName(operatorDetails.name)} assigned</span>
                       </div>
@@ -417,6 +477,7 @@ export function OperatorDropdown({
                 return (
                   <div className="flex items-center justify-between w-full min-w-0">
                     <div className="flex items-center space-x-1">
+                      {isCurrentLocked && <Pin className="w-3 h-3 text-blue-600" />}
                       {isCurrentAutoAssigned && <Sparkles className="w-3 h-3 text-purple-600" />}
                       <span className="truncate text-green-700">{formatOperatorName(currentOperator.name)}</span>
                     </div>
@@ -530,6 +591,21 @@ export function OperatorDropdown({
         </SelectContent>
       </Select>
       
+      {/* Pin toggle for assigned work orders */}
+      {lockableWorkOrderIds.length > 0 && !allFinished && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className={`h-8 w-8 shrink-0 ${isCurrentLocked ? 'text-blue-600' : 'text-muted-foreground'}`}
+          onClick={handleToggleLock}
+          title={isCurrentLocked ? "Unpin assignment" : "Pin assignment so auto-assign never moves it"}
+          disabled={loading}
+        >
+          {isCurrentLocked ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+        </Button>
+      )}
+      </div>
+      
       {/* Show estimated time when operator is selected */}
       {estimatedHours !== null && (
         <div className="text-xs text-green-600 font-medium">
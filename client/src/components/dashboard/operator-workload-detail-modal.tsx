@@ -1,12 +1,14 @@
 import React, { useState } from 'react';
-import { X, ChevronRight, ChevronDown, Clock, Package } from 'lucide-react';
+import { X, ChevronRight, ChevronDown, Clock, Package, HelpCircle } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { useQuery } from '@tanstack/react-query';
+import { AssignmentDecisionPanel } from './assignment-decision-panel';
 
 interface WorkOrderDetail {
+  workOrderId?: number;
   moNumber: string;
   quantity: number;
   estimatedHours: number;
@@ -39,6 +41,7 @@ export function OperatorWorkloadDetailModal({
   operator 
 }: OperatorWorkloadDetailModalProps) {
   const [expandedRoutings, setExpandedRoutings] = useState<Set<string>>(new Set());
+  const [explainedWorkOrder, setExplainedWorkOrder] = useState<number | null>(null);
 
   // Fetch production orders data to get MO details
   const { data: productionOrdersData } = useQuery({
@@ -149,6 +152,7 @@ export function OperatorWorkloadDetailModal({
       
       // Use enriched assignment data directly
       grouped.get(routing)!.push({
+        workOrderId: assignment.workOrderId,
         moNumber: assignment.moNumber || 'Unknown',
         quantity: moQuantity, // Use MO quantity instead of WO quantity
         estimatedHours: estimatedHours,
@@ -373,18 +377,43 @@ export function OperatorWorkloadDetailModal({
                             <th className="text-left py-2">Work Center</th>
                             <th className="text-right py-2">Quantity</th>
                             <th className="text-right py-2">Expected Hours</th>
+                            <th className="py-2"></th>
                           </tr>
                         </thead>
                         <tbody>
                           {workOrders.map((wo, idx) => (
-                            <tr key={idx} className="border-t border-gray-50">
-                              <td className="py-2 text-gray-900">{wo.moNumber}</td>
-                              <td className="py-2 text-gray-600">{wo.workCenter}</td>
-                              <td className="py-2 text-right text-gray-900">{wo.quantity}</td>
-                              <td className="py-2 text-right font-medium text-gray-900">
-                                {wo.estimatedHours.toFixed(1)}h
-                              </td>
-                            </tr>
+                            <React.Fragment key={idx}>
+                              <tr className="border-t border-gray-50">
+                                <td className="py-2 text-gray-900">{wo.moNumber}</td>
+                                <td className="py-2 text-gray-600">{wo.workCenter}</td>
+                                <td className="py-2 text-right text-gray-900">{wo.quantity}</td>
+                                <td className="py-2 text-right font-medium text-gray-900">
+                                  {wo.estimatedHours.toFixed(1)}h
+                                </td>
+                                <td className="py-2 text-right">
+                                  {wo.workOrderId && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="h-6 px-2 text-xs"
+                                      onClick={() => setExplainedWorkOrder(
+                                        explainedWorkOrder === wo.workOrderId ? null : wo.workOrderId!
+                                      )}
+                                    >
+                                      <HelpCircle className="w-3 h-3 mr-1" />
+                                      Why?
+                                    </Button>
+                                  )}
+                                </td>
+                              </tr>
+                              {wo.workOrderId && explainedWorkOrder === wo.workOrderId && (
+                                <tr>
+                                  <td colSpan={5} className="bg-gray-50 px-2">
+                                    <AssignmentDecisionPanel workOrderId={wo.workOrderId} />
+                                  </td>
+                                </tr>
+                              )}
+                            </React.Fragment>
                           ))}
                         </tbody>
                       </table>
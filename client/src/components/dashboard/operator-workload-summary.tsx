@@ -20,6 +20,7 @@ interface OperatorData {
   id: number;
   name: string;
   availableHours: number;
+  scheduledHours?: number | null; // Calendar hours this week (shifts, time off, holidays)
   observations?: number;
 }
 
@@ -97,7 +98,7 @@ export function OperatorWorkloadSummary({ assignments, assignmentsData }: Operat
         totalAssignments: 0,
         totalEstimatedHours: 0,
         totalCompletedHours: 0, // Add completed hours tracking
-        availableHours: op.availableHours || 40, // Default 40h/week
+        availableHours: op.scheduledHours ?? (op.availableHours || 40), // Calendar hours, else flat weekly hours
         observations: op.observations || 0,
         assignments: [],
         productSummary: new Map() // Group by product routing
@@ -263,7 +264,10 @@ export function OperatorWorkloadSummary({ assignments, assignmentsData }: Operat
 
     // Convert to array and add calculated fields
     return Array.from(operatorMap.values()).map(operator => {
-      const capacityPercent = Math.round((operator.totalEstimatedHours / operator.availableHours) * 100);
+      // An operator off all week is over capacity as soon as anything is assigned
+      const capacityPercent = operator.availableHours > 0
+        ? Math.round((operator.totalEstimatedHours / operator.availableHours) * 100)
+        : (operator.totalEstimatedHours > 0 ? 100 : 0);
       
       // Calculate total observations from UPH data
       let totalObservations = 0;
@@ -397,7 +401,7 @@ export function OperatorWorkloadSummary({ assignments, assignmentsData }: Operat
                       </div>
                     )}
                   </div>
-                  <div className="text-xs text-gray-500">of {operator.availableHours}h available</div>
+                  <div className="text-xs text-gray-500">of {Number(operator.availableHours.toFixed(1))}h available</div>
                 </div>
               </div>
             </div>
@@ -0,0 +1,337 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Plus, Rocket, Trash2, GitCompare } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface ScenarioMetrics {
+  assignmentCount: number;
+  newAssignmentCount: number;
+  totalHours: number;
+  totalTardiness: number;
+  hoursByOperator: Record<number, number>;
+  lateMos: string[];
+  unassigned: Array<{ workOrderId: number; moNumber: string; workCenter: string; reason: string }>;
+  solver?: 'greedy' | 'optimal';
+}
+
+interface Scenario {
+  id: number;
+  name: string;
+  description: string | null;
+  status: 'draft' | 'promoted';
+  strategy: 'fill' | 'regenerate';
+  metrics: ScenarioMetrics | null;
+  createdBy: string | null;
+  createdAt: string;
+  promotedAt: string | null;
+}
+
+interface ScenarioComparison {
+  a: Scenario;
+  b: Scenario;
+  operatorHours: Array<{ operatorId: number; operatorName: string; hoursA: number; hoursB: number; delta: number }>;
+  lateMos: { onlyA: string[]; onlyB: string[]; both: string[] };
+  unassigned: { onlyA: number[]; onlyB: number[]; both: number[] };
+  changedAssignments: Array<{ workOrderId: number; operatorA: number | null; operatorB: number | null }>;
+  totals: { hoursA: number; hoursB: number; tardinessA: number; tardinessB: number };
+}
+
+interface ScenarioSandboxDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ScenarioSandboxDialog({ open, onOpenChange }: ScenarioSandboxDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [strategy, setStrategy] = useState<'fill' | 'regenerate'>('fill');
+  const [solver, setSolver] = useState<'greedy' | 'optimal'>('greedy');
+  const [selected, setSelected] = useState<number[]>([]);
+
+  const { data: scenarios = [], isLoading } = useQuery<Scenario[]>({
+    queryKey: ['/api/scenarios'],
+    enabled: open,
+  });
+
+  const compareKey = selected.length === 2 ? `/api/scenarios/compare?a=${selected[0]}&b=${selected[1]}` : null;
+  const { data: comparison, isFetching: isComparing } = useQuery<ScenarioComparison>({
+    queryKey: [compareKey],
+    enabled: open && !!compareKey,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/scenarios', { name, strategy, solver });
+      return response.json();
+    },
+    onSuccess: (scenario: Scenario) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/scenarios'] });
+      setName('');
+      toast({
+        title: "Scenario Saved",
+        description: `"${scenario.name}" planned ${scenario.metrics?.newAssignmentCount ?? 0} new assignments`,
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Scenario Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const promoteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/scenarios/${id}/promote`);
+      return response.json();
+    },
+    onSuccess: (data: { promoted: number; replaced: number }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/scenarios'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/production-orders'] });
+      toast({
+        title: "Scenario Promoted",
+        description: `${data.promoted} assignments are now live (${data.replaced} replaced)`,
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Promote Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/scenarios/${id}`);
+      return id;
+    },
+    onSuccess: (id: number) => {
+      setSelected(prev => prev.filter(s => s !== id));
+      queryClient.invalidateQueries({ queryKey: ['/api/scenarios'] });
+    },
+    onError: (error) => {
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelected(prev => {
+      if (!checked) return prev.filter(s => s !== id);
+      // Keep the two most recent picks for comparison
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const isBusy = createMutation.isPending || promoteMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>What-If Scenarios</DialogTitle>
+          <DialogDescription>
+            Plan assignments without changing the live floor, compare two plans, then promote one
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* New scenario */}
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="scenario-name">Scenario name</Label>
+            <Input
+              id="scenario-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Monday plan, heavier lateness weight"
+            />
+          </div>
+          <div className="w-56 space-y-1">
+            <Label>Strategy</Label>
+            <Select value={strategy} onValueChange={(value) => setStrategy(value as 'fill' | 'regenerate')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="fill">Fill unassigned only</SelectItem>
+                <SelectItem value="regenerate">Regenerate AI assignments</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="w-40 space-y-1">
+            <Label>Solver</Label>
+            <Select value={solver} onValueChange={(value) => setSolver(value as 'greedy' | 'optimal')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="greedy">Greedy</SelectItem>
+                <SelectItem value="optimal">Optimal</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={() => createMutation.mutate()} disabled={!name.trim() || isBusy}>
+            {createMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Plus className="mr-2 h-4 w-4" />
+            )}
+            Plan Scenario
+          </Button>
+        </div>
+
+        {/* Saved scenarios */}
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : scenarios.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">No scenarios yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Name</TableHead>
+                <TableHead>Strategy</TableHead>
+                <TableHead className="text-right">Assignments</TableHead>
+                <TableHead className="text-right">Hours</TableHead>
+                <TableHead className="text-right">Late MOs</TableHead>
+                <TableHead className="text-right">Unassigned</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {scenarios.map(scenario => (
+                <TableRow key={scenario.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selected.includes(scenario.id)}
+                      onCheckedChange={(checked) => toggleSelected(scenario.id, checked === true)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{scenario.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(scenario.createdAt).toLocaleString()}
+                      {scenario.createdBy && ` · ${scenario.createdBy}`}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{scenario.strategy}</Badge>
+                    {scenario.metrics?.solver === 'optimal' && <Badge variant="outline" className="ml-1">optimal</Badge>}
+                    {scenario.status === 'promoted' && <Badge className="ml-1">promoted</Badge>}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {scenario.metrics?.assignmentCount ?? 0}
+                    <span className="text-xs text-muted-foreground"> (+{scenario.metrics?.newAssignmentCount ?? 0})</span>
+                  </TableCell>
+                  <TableCell className="text-right">{(scenario.metrics?.totalHours ?? 0).toFixed(1)}h</TableCell>
+                  <TableCell className="text-right">{scenario.metrics?.lateMos.length ?? 0}</TableCell>
+                  <TableCell className="text-right">{scenario.metrics?.unassigned.length ?? 0}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => promoteMutation.mutate(scenario.id)}
+                      disabled={isBusy}
+                    >
+                      <Rocket className="mr-1 h-3 w-3" />
+                      Promote
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-red-600 hover:text-red-700"
+                      onClick={() => deleteMutation.mutate(scenario.id)}
+                      disabled={isBusy}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {/* Side-by-side comparison */}
+        {selected.length === 2 && (
+          <div className="space-y-4 border-t pt-4">
+            <h4 className="font-semibold flex items-center gap-2">
+              <GitCompare className="h-4 w-4" />
+              Comparison
+              {isComparing && <Loader2 className="h-4 w-4 animate-spin" />}
+            </h4>
+
+            {comparison && (
+              <>
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div className="border rounded-lg p-3">
+                    <p className="font-medium">A: {comparison.a.name}</p>
+                    <p>{comparison.totals.hoursA.toFixed(1)}h · {comparison.totals.tardinessA.toFixed(1)} days late</p>
+                  </div>
+                  <div className="border rounded-lg p-3">
+                    <p className="font-medium">B: {comparison.b.name}</p>
+                    <p>{comparison.totals.hoursB.toFixed(1)}h · {comparison.totals.tardinessB.toFixed(1)} days late</p>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <p className="font-medium mb-1">Late MOs</p>
+                    <p>Only in A: {comparison.lateMos.onlyA.join(', ') || 'none'}</p>
+                    <p>Only in B: {comparison.lateMos.onlyB.join(', ') || 'none'}</p>
+                    <p className="text-muted-foreground">Late in both: {comparison.lateMos.both.length}</p>
+                  </div>
+                  <div>
+                    <p className="font-medium mb-1">Unassigned work orders</p>
+                    <p>Only in A: {comparison.unassigned.onlyA.length}</p>
+                    <p>Only in B: {comparison.unassigned.onlyB.length}</p>
+                    <p className="text-muted-foreground">
+                      Unassigned in both: {comparison.unassigned.both.length} · Different operator: {comparison.changedAssignments.length}
+                    </p>
+                  </div>
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Operator</TableHead>
+                      <TableHead className="text-right">Hours A</TableHead>
+                      <TableHead className="text-right">Hours B</TableHead>
+                      <TableHead className="text-right">Δ</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {comparison.operatorHours.map(row => (
+                      <TableRow key={row.operatorId}>
+                        <TableCell>{row.operatorName}</TableCell>
+                        <TableCell className="text-right">{row.hoursA.toFixed(1)}</TableCell>
+                        <TableCell className="text-right">{row.hoursB.toFixed(1)}</TableCell>
+                        <TableCell className={`text-right ${row.delta > 0 ? 'text-orange-600' : row.delta < 0 ? 'text-green-600' : ''}`}>
+                          {row.delta > 0 ? '+' : ''}{row.delta.toFixed(1)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
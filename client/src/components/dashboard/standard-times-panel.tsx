@@ -0,0 +1,228 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Ruler, Save, X } from 'lucide-react';
+
+interface StandardTime {
+  routing: string;
+  operation: string;
+  workCenter: string | null;
+  sequence: number | null;
+  observations: number;
+  p25: number | null;
+  median: number | null;
+  p75: number | null;
+  computedMinutesPerUnit: number | null;
+  override: { id: number; minutesPerUnit: number; note: string | null; updatedBy: string | null } | null;
+  minutesPerUnit: number | null;
+  source: 'override' | 'computed' | 'none';
+}
+
+interface StandardTimeConfig {
+  targetPercentile: number;
+  minObservations: number;
+}
+
+interface StandardTimesPanelProps {
+  routings: string[];
+}
+
+const PERCENTILE_OPTIONS = ['25', '40', '50', '60', '70', '80', '90'];
+
+const formatMinutes = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+export function StandardTimesPanel({ routings }: StandardTimesPanelProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [routing, setRouting] = useState<string>(routings[0] ?? '');
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const { data, isLoading } = useQuery<{ standards: StandardTime[]; config: StandardTimeConfig }>({
+    queryKey: ['/api/standard-times', routing],
+    queryFn: async () => {
+      const response = await fetch(`/api/standard-times?${new URLSearchParams({ routing })}`);
+      if (!response.ok) throw new Error('Failed to fetch standard times');
+      return response.json();
+    },
+    enabled: !!routing
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: 'Save Failed', description: error.message, variant: 'destructive' });
+  };
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['/api/standard-times'] });
+
+  const configMutation = useMutation({
+    mutationFn: async (config: StandardTimeConfig) => {
+      const response = await apiRequest('PUT', '/api/standard-times/config', { config });
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError
+  });
+
+  const overrideMutation = useMutation({
+    mutationFn: async (standard: StandardTime & { draft: string }) => {
+      const response = await apiRequest('PUT', '/api/standard-times/overrides', {
+        routing: standard.routing,
+        operation: standard.operation,
+        workCenter: standard.workCenter,
+        minutesPerUnit: parseFloat(standard.draft)
+      });
+      return response.json();
+    },
+    onSuccess: (_, standard) => {
+      setDrafts(current => {
+        const { [standard.operation]: _saved, ...rest } = current;
+        return rest;
+      });
+      refresh();
+      toast({ title: 'Standard Saved', description: `${standard.operation} now uses ${standard.draft} min/unit` });
+    },
+    onError
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/standard-times/overrides/${id}`);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError
+  });
+
+  const standards = data?.standards ?? [];
+  const config = data?.config;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Ruler className="h-5 w-5" />
+          Standard Times
+        </CardTitle>
+        <CardDescription>
+          Minutes per unit for each routing step, used to estimate MOs before an operator is assigned.
+          Enter a value to override the computed standard.
+        </CardDescription>
+        <div className="flex flex-wrap items-center gap-2 pt-2">
+          <Select value={routing} onValueChange={setRouting}>
+            <SelectTrigger className="w-[260px]">
+              <SelectValue placeholder="Routing" />
+            </SelectTrigger>
+            <SelectContent>
+              {routings.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {config && (
+            <Select
+              value={String(config.targetPercentile)}
+              onValueChange={value => configMutation.mutate({ ...config, targetPercentile: parseInt(value) })}
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from(new Set([...PERCENTILE_OPTIONS, String(config.targetPercentile)])).map(option => (
+                  <SelectItem key={option} value={option}>Target: p{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : standards.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No routing steps or work cycles found for this routing.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Step</TableHead>
+                <TableHead>Work Center</TableHead>
+                <TableHead className="text-right">MOs</TableHead>
+                <TableHead className="text-right">p25 / p50 / p75</TableHead>
+                <TableHead className="text-right">Computed</TableHead>
+                <TableHead>Standard (min/unit)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {standards.map(standard => {
+                const draft = drafts[standard.operation];
+                return (
+                  <TableRow key={standard.operation}>
+                    <TableCell>
+                      {standard.operation}
+                      {standard.sequence === null && (
+                        <span className="ml-2 text-xs text-muted-foreground">(not a routing step)</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{standard.workCenter ?? '—'}</TableCell>
+                    <TableCell className="text-right">{standard.observations}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {formatMinutes(standard.p25)} / {formatMinutes(standard.median)} / {formatMinutes(standard.p75)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatMinutes(standard.computedMinutesPerUnit)}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          className="w-24"
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={draft ?? (standard.override ? String(standard.override.minutesPerUnit) : '')}
+                          placeholder={formatMinutes(standard.computedMinutesPerUnit)}
+                          onChange={event => setDrafts(current => ({ ...current, [standard.operation]: event.target.value }))}
+                        />
+                        {draft !== undefined && parseFloat(draft) > 0 && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={overrideMutation.isPending}
+                            onClick={() => overrideMutation.mutate({ ...standard, draft })}
+                          >
+                            <Save className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {standard.override && draft === undefined && (
+                          <>
+                            <Badge variant="secondary" title={standard.override.note ?? undefined}>
+                              override{standard.override.updatedBy ? ` · ${standard.override.updatedBy}` : ''}
+                            </Badge>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              disabled={clearMutation.isPending}
+                              onClick={() => clearMutation.mutate(standard.override!.id)}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,7 +2,7 @@ import React from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { Calculator, Clock, Package } from 'lucide-react';
+import { Calculator, Clock, Package, TrendingUp } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
 import { format } from 'date-fns';
 
@@ -21,12 +21,25 @@ interface WorkCycleDetail {
   woNumber: string;
   workOrderId?: number;
   moQuantity: number;
+  quantityShare?: number;
   totalDurationHours: number;
   uph: number;
   createDate?: string;
   actualWorkCenter: string;
   operations: string;
   cycleCount: number;
+  excluded?: 'implausible' | 'outlier' | null;
+}
+
+interface LearningCurve {
+  steadyStateUph: number;
+  initialUph: number;
+  points: number;
+  projectedUph: number;
+  mosToRamp: number;
+  remainingRampMos: number;
+  rSquared: number;
+  ramp: number[];
 }
 
 export function UphCalculationModal({
@@ -57,6 +70,8 @@ export function UphCalculationModal({
   const totalQuantity = cyclesData?.summary?.totalQuantity || 0;
   const totalHours = cyclesData?.summary?.totalDurationHours || 0;
   const calculatedUph = cyclesData?.summary?.averageUph || 0;
+  const cycleWeighted = cyclesData?.summary?.method === 'cycle_weighted';
+  const learning: LearningCurve | null = cyclesData?.summary?.learning ?? null;
 
   return (
     <Dialog open={isOpen} onOpenChange={() => onClose()}>
@@ -105,17 +120,59 @@ export function UphCalculationModal({
             </div>
           </div>
 
-          {/* Calculation Formula - BLUE methodology */}
+          {/* Calculation Formula - from the UPH engine's method */}
           <div className="bg-blue-50 p-4 rounded-lg mb-6 border-2 border-blue-200">
-            <p className="text-sm font-medium text-blue-800 mb-2">✓ Calculation Formula (BLUE - Correct Method):</p>
-            <p className="font-mono text-lg text-blue-900">
-              UPH = Average of Individual MO UPH = {cyclesData?.summary?.moCount || 0} MOs averaged = <strong>{calculatedUph?.toFixed(2) || '0.00'}</strong>
-            </p>
-            <p className="text-xs text-blue-600 mt-2">
-              Each Manufacturing Order is calculated individually (MO Quantity ÷ MO Duration), then averaged across all MOs.
+            <p className="text-sm font-medium text-blue-800 mb-2">
+              ✓ Calculation Formula{cyclesData?.summary?.version && ` (UPH engine v${cyclesData.summary.version} · ${cyclesData.summary.configuration})`}:
             </p>
+            {cycleWeighted ? (
+              <>
+                <p className="font-mono text-lg text-blue-900">
+                  UPH = Total Units ÷ Total Hours = {totalQuantity?.toLocaleString() || '0'} ÷ {totalHours?.toFixed(2) || '0.00'} = <strong>{calculatedUph?.toFixed(2) || '0.00'}</strong>
+                </p>
+                <p className="text-xs text-blue-600 mt-2">
+                  Units done in each work cycle are summed and divided by the hours logged, so longer cycles weigh more.
+                </p>
+              </>
+            ) : (
+              <>
+                <p className="font-mono text-lg text-blue-900">
+                  UPH = Average of Individual MO UPH = {cyclesData?.summary?.moCount || 0} MOs averaged = <strong>{calculatedUph?.toFixed(2) || '0.00'}</strong>
+                </p>
+                <p className="text-xs text-blue-600 mt-2">
+                  Each Manufacturing Order is calculated individually (MO Quantity ÷ MO Duration), then averaged across all MOs.
+                </p>
+              </>
+            )}
+            {cyclesData?.summary?.excludedCount > 0 && (
+              <p className="text-xs text-amber-700 mt-2">
+                {cyclesData.summary.excludedCount} row(s) excluded as outliers or implausible values are shown greyed out.
+              </p>
+            )}
           </div>
 
+          {/* Learning curve - fitted when the operator is still visibly improving on this routing */}
+          {learning && (
+            <div className="bg-amber-50 p-4 rounded-lg mb-6 border-2 border-amber-200">
+              <p className="text-sm font-medium text-amber-800 mb-2 flex items-center gap-2">
+                <TrendingUp className="w-4 h-4" />
+                Learning Curve ({learning.points} MOs in completion order, R² {learning.rSquared.toFixed(2)})
+              </p>
+              <p className="font-mono text-sm text-amber-900">
+                {learning.initialUph.toFixed(1)} UPH on the first MO → {learning.steadyStateUph.toFixed(1)} UPH steady state
+              </p>
+              <p className="font-mono text-sm text-amber-900">
+                Next MO: <strong>{learning.projectedUph.toFixed(1)} UPH</strong> (planning starts from this, not the {calculatedUph.toFixed(1)} average)
+              </p>
+              <p className="text-xs text-amber-700 mt-2">
+                {learning.remainingRampMos > 0
+                  ? `About ${learning.remainingRampMos} more MOs to reach 90% of steady state (${learning.mosToRamp} in total).`
+                  : `Reached 90% of steady state by MO ${learning.mosToRamp}.`}
+                {' '}Expected ramp: {learning.ramp.map(uph => uph.toFixed(1)).join(' → ')}
+              </p>
+            </div>
+          )}
+
           {/* Detailed Work Cycles Table */}
           <div>
             <h3 className="text-sm font-medium mb-2">Work Cycles Used in Calculation:</h3>
@@ -144,7 +201,7 @@ export function UphCalculationModal({
                   </TableHeader>
                   <TableBody>
                     {cyclesData.cycles.map((cycle: WorkCycleDetail, index: number) => (
-                      <TableRow key={`${cycle.productionId}-${index}`}>
+                      <TableRow key={`${cycle.productionId}-${index}`} className={cycle.excluded ? 'opacity-50' : undefined}>
                         <TableCell className="text-sm">
                           {cycle.createDate ? format(new Date(cycle.createDate), 'MMM d, yyyy') : 'N/A'}
                         </TableCell>
@@ -174,10 +231,19 @@ export function UphCalculationModal({
                         </TableCell>
                         <TableCell className="text-sm">{cycle.actualWorkCenter}</TableCell>
                         <TableCell className="text-sm">{cycle.operations}</TableCell>
-                        <TableCell className="text-right">{cycle.moQuantity?.toLocaleString() || '0'}</TableCell>
+                        <TableCell className="text-right">
+                          {cycle.moQuantity?.toLocaleString(undefined, { maximumFractionDigits: 0 }) || '0'}
+                          {cycle.quantityShare !== undefined && cycle.quantityShare < 0.995 && (
+                            <span className="block text-xs text-muted-foreground" title="Work order shared with other operators">
+                              {(cycle.quantityShare * 100).toFixed(0)}% share
+                            </span>
+                          )}
+                        </TableCell>
                         <TableCell className="text-right">{cycle.totalDurationHours?.toFixed(2) || '0.00'}</TableCell>
                         <TableCell className="text-right">
-                          <Badge variant="outline">{cycle.uph?.toFixed(1) || '0.0'}</Badge>
+                          <Badge variant="outline" title={cycle.excluded ? `Excluded: ${cycle.excluded}` : undefined}>
+                            {cycle.uph?.toFixed(1) || '0.0'}
+                          </Badge>
                         </TableCell>
                       </TableRow>
                     ))}
@@ -192,8 +258,8 @@ export function UphCalculationModal({
           {/* Statistics */}
           {cyclesData?.cycles && cyclesData.cycles.length > 0 && (
             <div className="mt-4 text-sm text-muted-foreground">
-              <p><strong>Total Manufacturing Orders:</strong> {cyclesData.cycles.length}</p>
-              <p><strong>Total Work Cycles:</strong> {cyclesData.cycles.reduce((sum, mo) => sum + (mo.cycleCount || 0), 0)}</p>
+              <p><strong>{cycleWeighted ? 'Work Cycles Used' : 'Manufacturing Orders Used'}:</strong> {cyclesData.summary?.moCount || 0}</p>
+              <p><strong>Total Work Cycles:</strong> {cyclesData.summary?.totalCycles || 0}</p>
               <p><strong>Date Range:</strong> {
                 (() => {
                   const validDates = cyclesData.cycles
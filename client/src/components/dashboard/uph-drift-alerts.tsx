@@ -0,0 +1,129 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { formatDistanceToNow } from 'date-fns';
+import { Check, Loader2, RefreshCw, TrendingDown } from 'lucide-react';
+
+interface UphDriftAlert {
+  id: number;
+  operatorName: string;
+  workCenter: string;
+  routing: string;
+  baselineUph: number;
+  recentUph: number;
+  change: number;
+  statistic: number;
+  baselineMos: number;
+  recentMos: number;
+  status: 'open' | 'acknowledged' | 'resolved';
+  detectedAt: string;
+  notifiedAt: string | null;
+  acknowledgedBy: string | null;
+}
+
+/**
+ * Operators whose recent UPH on a routing dropped well below their own
+ * baseline. Hidden while there is nothing to look at.
+ */
+export function UphDriftAlerts() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data } = useQuery<{ alerts: UphDriftAlert[] }>({
+    queryKey: ['/api/uph/drift-alerts'],
+    refetchInterval: 5 * 60 * 1000,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: 'Drift Alerts', description: error.message, variant: 'destructive' });
+  };
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/uph/drift-alerts/${id}/acknowledge`);
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/uph/drift-alerts'] }),
+    onError,
+  });
+
+  const checkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/uph/drift-alerts/check');
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/uph/drift-alerts'] }),
+    onError,
+  });
+
+  const alerts = data?.alerts ?? [];
+  if (alerts.length === 0) return null;
+
+  return (
+    <Card className="mb-6 border-amber-300">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <TrendingDown className="h-5 w-5 text-amber-600" />
+              UPH Drift Alerts ({alerts.length})
+            </CardTitle>
+            <CardDescription>
+              Recent MOs well below the operator's own baseline: possible injury, equipment problem or data issue
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => checkMutation.mutate()}
+            disabled={checkMutation.isPending}
+          >
+            {checkMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-1" />
+            )}
+            Check Now
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {alerts.map(alert => (
+          <div key={alert.id} className="flex items-center justify-between gap-4 p-2 border rounded text-sm">
+            <div className="flex items-center gap-3">
+              <Badge variant="destructive">{(alert.change * 100).toFixed(0)}%</Badge>
+              <div>
+                <div className="font-medium">
+                  {alert.operatorName} · {alert.routing} ({alert.workCenter})
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {alert.recentUph.toFixed(1)} UPH over the last {alert.recentMos} MOs vs {alert.baselineUph.toFixed(1)} baseline
+                  ({alert.baselineMos} MOs) · detected {formatDistanceToNow(new Date(alert.detectedAt), { addSuffix: true })}
+                  {alert.notifiedAt && ' · sent to Slack'}
+                </div>
+              </div>
+            </div>
+            {alert.status === 'acknowledged' ? (
+              <span className="text-xs text-muted-foreground">
+                Acknowledged{alert.acknowledgedBy ? ` by ${alert.acknowledgedBy}` : ''}
+              </span>
+            ) : (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => acknowledgeMutation.mutate(alert.id)}
+                disabled={acknowledgeMutation.isPending}
+              >
+                <Check className="h-4 w-4 mr-1" />
+                Acknowledge
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
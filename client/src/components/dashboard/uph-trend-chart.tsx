@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CartesianGrid, Legend, Line, LineChart, ReferenceDot, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { format } from 'date-fns';
+import { LineChart as LineChartIcon, Loader2 } from 'lucide-react';
+
+interface TrendPoint {
+  periodStart: string;
+  uph: number;
+  rawUph: number;
+  ciLow: number | null;
+  ciHigh: number | null;
+  observations: number | null;
+  engineVersion: string | null;
+}
+
+interface ChangePoint {
+  periodStart: string;
+  before: number;
+  after: number;
+  change: number;
+  engineChanged: boolean;
+}
+
+interface UphTrend {
+  operatorName: string;
+  workCenter: string;
+  routing: string;
+  points: TrendPoint[];
+  changePoints: ChangePoint[];
+}
+
+interface UphTrendChartProps {
+  routings: string[];
+  workCenters: string[];
+}
+
+const LINE_COLORS = ['#2563eb', '#16a34a', '#d97706', '#9333ea', '#dc2626', '#0891b2', '#4b5563', '#db2777'];
+const WEEK_OPTIONS = ['12', '26', '52'];
+
+export function UphTrendChart({ routings, workCenters }: UphTrendChartProps) {
+  const [routing, setRouting] = useState<string>(routings[0] ?? '');
+  const [workCenter, setWorkCenter] = useState<string>(workCenters[0] ?? 'Assembly');
+  const [weeks, setWeeks] = useState<string>('26');
+
+  // One line per operator on the selected routing and work center
+  const { data, isLoading } = useQuery<{ trends: UphTrend[] }>({
+    queryKey: ['/api/uph/trends', routing, workCenter, weeks],
+    queryFn: async () => {
+      const params = new URLSearchParams({ routing, workCenter, weeks });
+      const response = await fetch(`/api/uph/trends?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch UPH trends');
+      return response.json();
+    },
+    enabled: !!routing && !!workCenter
+  });
+
+  const trends = data?.trends ?? [];
+  const periods = Array.from(new Set(trends.flatMap(trend => trend.points.map(point => point.periodStart)))).sort();
+  const chartData = periods.map(periodStart => {
+    const row: Record<string, string | number | null> = { periodStart };
+    trends.forEach(trend => {
+      const point = trend.points.find(p => p.periodStart === periodStart);
+      row[trend.operatorName] = point ? Math.round(point.uph * 10) / 10 : null;
+    });
+    return row;
+  });
+  const changes = trends.flatMap(trend =>
+    trend.changePoints.map(change => ({ ...change, operatorName: trend.operatorName }))
+  );
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LineChartIcon className="h-5 w-5" />
+          UPH Trend
+        </CardTitle>
+        <CardDescription>
+          Weekly snapshots of each operator's UPH. Circled points mark where an operator's level shifted.
+        </CardDescription>
+        <div className="flex flex-wrap gap-2 pt-2">
+          <Select value={routing} onValueChange={setRouting}>
+            <SelectTrigger className="w-[260px]">
+              <SelectValue placeholder="Routing" />
+            </SelectTrigger>
+            <SelectContent>
+              {routings.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={workCenter} onValueChange={setWorkCenter}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Work center" />
+            </SelectTrigger>
+            <SelectContent>
+              {workCenters.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={weeks} onValueChange={setWeeks}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEEK_OPTIONS.map(option => (
+                <SelectItem key={option} value={option}>Last {option} weeks</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : periods.length < 2 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Not enough weekly snapshots yet for this routing and work center.
+          </div>
+        ) : (
+          <>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="periodStart" tickFormatter={value => format(new Date(value), 'MMM d')} />
+                <YAxis />
+                <Tooltip labelFormatter={value => `Week of ${format(new Date(value), 'MMM d, yyyy')}`} />
+                <Legend />
+                {trends.map((trend, index) => (
+                  <Line
+                    key={trend.operatorName}
+                    type="monotone"
+                    dataKey={trend.operatorName}
+                    stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                    dot={false}
+                    connectNulls
+                  />
+                ))}
+                {changes.map(change => (
+                  <ReferenceDot
+                    key={`${change.operatorName}-${change.periodStart}`}
+                    x={change.periodStart}
+                    y={Math.round(change.after * 10) / 10}
+                    r={6}
+                    fill="none"
+                    stroke={change.change >= 0 ? '#16a34a' : '#dc2626'}
+                    strokeWidth={2}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+            {changes.length > 0 && (
+              <div className="mt-4 space-y-1 text-sm">
+                {changes.map(change => (
+                  <div key={`${change.operatorName}-${change.periodStart}`} className="flex items-center gap-2">
+                    <Badge variant={change.change >= 0 ? 'default' : 'destructive'}>
+                      {change.change >= 0 ? '+' : ''}{(change.change * 100).toFixed(0)}%
+                    </Badge>
+                    <span>
+                      {change.operatorName}: {change.before.toFixed(1)} → {change.after.toFixed(1)} UPH from the week of {format(new Date(change.periodStart), 'MMM d, yyyy')}
+                    </span>
+                    {change.engineChanged && (
+                      <span className="text-xs text-amber-600">(UPH engine changed that week)</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -24,6 +24,15 @@ interface ImportStatus {
   lastUpdate: string | null;
 }
 
+interface WebhookStatus {
+  configured: boolean;
+  fallback: {
+    webhooksQuiet: boolean;
+    lastWebhookAt: string | null;
+    lastPollTime: string | null;
+  };
+}
+
 export function LiveStatusIndicator() {
   const [isOpen, setIsOpen] = useState(false);
 
@@ -34,6 +43,13 @@ export function LiveStatusIndicator() {
     refetchOnWindowFocus: true,
   });
 
+  // Whether Fulfil changes are arriving by webhook or being polled
+  const { data: webhookStatus } = useQuery<WebhookStatus>({
+    queryKey: ["/api/fulfil/webhooks/status"],
+    refetchInterval: 60000,
+    enabled: isOpen,
+  });
+
   const getStatusColor = () => {
     if (importStatus?.status === 'error') return 'text-red-500';
     if (importStatus?.status === 'importing') return 'text-yellow-500';
@@ -153,6 +169,25 @@ export function LiveStatusIndicator() {
               )}
             </div>
           )}
+
+          {webhookStatus && (
+            <div className="text-xs text-gray-500 border-t pt-2">
+              {webhookStatus.configured && !webhookStatus.fallback.webhooksQuiet ? (
+                <p>Fulfil updates: live via webhooks</p>
+              ) : (
+                <p>
+                  Fulfil updates: polling
+                  {webhookStatus.configured ? " (webhooks quiet)" : " (webhooks not configured)"}
+                </p>
+              )}
+              {webhookStatus.fallback.lastWebhookAt && (
+                <p>Last webhook: {new Date(webhookStatus.fallback.lastWebhookAt).toLocaleTimeString()}</p>
+              )}
+              {webhookStatus.fallback.lastPollTime && (
+                <p>Last poll: {new Date(webhookStatus.fallback.lastPollTime).toLocaleTimeString()}</p>
+              )}
+            </div>
+          )}
         </div>
       </PopoverContent>
     </Popover>
@@ -0,0 +1,132 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { GraduationCap, Loader2, RefreshCw } from "lucide-react";
+
+interface TrainingCandidate {
+  operatorId: number;
+  operatorName: string;
+  hasWorkCenter: boolean;
+  relativePerformance: number;
+  estimatedUph: number | null;
+  reliefHours: number | null;
+  spareHours: number;
+  similarRoutings: Array<{ routing: string; uph: number; peerMedianUph: number; similarity: number }>;
+}
+
+interface RoutingBottleneck {
+  routing: string;
+  workCenter: string;
+  unassignedWorkOrders: number;
+  unassignedQuantity: number;
+  skillGap: number;
+  capacityShortfall: number;
+  qualifiedOperators: Array<{ operatorId: number; operatorName: string; uph: number; spareHours: number }>;
+  candidates: TrainingCandidate[];
+}
+
+interface CrossTrainingReport {
+  generatedAt: string;
+  planningDays: number;
+  unassignedWorkOrders: number;
+  bottlenecks: RoutingBottleneck[];
+}
+
+export default function CrossTrainingReport() {
+  // Runs a dry-run auto-assign, so only on request
+  const { data: report, isFetching, error, refetch } = useQuery<CrossTrainingReport>({
+    queryKey: ["/api/cross-training"],
+    enabled: false,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <GraduationCap className="h-5 w-5 mr-2" />
+            Cross-Training Recommendations
+          </span>
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+            {isFetching ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-1" />
+            )}
+            {report ? "Refresh" : "Analyze Backlog"}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">Failed to build the cross-training report</p>}
+        {!report && !isFetching && !error && (
+          <p className="text-sm text-gray-500">
+            Plans the current backlog without saving and lists routings short of qualified operators
+          </p>
+        )}
+        {report && report.bottlenecks.length === 0 && (
+          <p className="text-sm text-gray-500">
+            No routings are short of qualified operators for the next {report.planningDays} days
+          </p>
+        )}
+        {report?.bottlenecks.map(bottleneck => (
+          <div key={`${bottleneck.workCenter}-${bottleneck.routing}`} className="border rounded-lg p-3 space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="font-medium">
+                {bottleneck.routing} <span className="text-gray-500">· {bottleneck.workCenter}</span>
+              </div>
+              <div className="flex gap-2">
+                <Badge variant="destructive">{bottleneck.unassignedWorkOrders} unassigned</Badge>
+                <Badge variant="outline">{bottleneck.unassignedQuantity} units</Badge>
+                <Badge variant="outline">{bottleneck.qualifiedOperators.length} qualified</Badge>
+              </div>
+            </div>
+            <p className="text-xs text-gray-600">
+              {bottleneck.skillGap > 0 && `${bottleneck.skillGap} with no operator having UPH data`}
+              {bottleneck.skillGap > 0 && bottleneck.capacityShortfall > 0 && " · "}
+              {bottleneck.capacityShortfall > 0 && `${bottleneck.capacityShortfall} because qualified operators are full`}
+              {bottleneck.qualifiedOperators.length > 0 &&
+                ` · Qualified: ${bottleneck.qualifiedOperators.map(q => `${q.operatorName} (${q.uph.toFixed(1)} UPH)`).join(", ")}`}
+            </p>
+            {bottleneck.candidates.length === 0 ? (
+              <p className="text-xs text-gray-500">No operators have UPH history on similar routings</p>
+            ) : (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-gray-500 uppercase">
+                    <th className="text-left py-1">Train</th>
+                    <th className="text-right py-1" title="UPH vs peer median on similar routings">Relative</th>
+                    <th className="text-right py-1">Est. UPH</th>
+                    <th className="text-right py-1">Spare</th>
+                    <th className="text-left py-1 pl-3">Similar routings</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {bottleneck.candidates.map(candidate => (
+                    <tr key={candidate.operatorId} className="border-t border-gray-50 align-top">
+                      <td className="py-1 font-medium text-gray-900">
+                        {candidate.operatorName}
+                        {!candidate.hasWorkCenter && (
+                          <span className="ml-1 text-amber-700">(new work center)</span>
+                        )}
+                      </td>
+                      <td className="py-1 text-right">{Math.round(candidate.relativePerformance * 100)}%</td>
+                      <td className="py-1 text-right">
+                        {candidate.estimatedUph !== null ? candidate.estimatedUph.toFixed(1) : "—"}
+                      </td>
+                      <td className="py-1 text-right">{Math.max(0, candidate.spareHours).toFixed(1)}h</td>
+                      <td className="py-1 pl-3 text-gray-600">
+                        {candidate.similarRoutings.map(s => `${s.routing} ${s.uph.toFixed(1)}`).join(", ")}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CalendarDays, Plus, Save, Trash2 } from "lucide-react";
+
+interface ShiftDay {
+  dayOfWeek: number;
+  startTime: string | null;
+  hours: number;
+}
+
+interface TimeOffEntry {
+  id: number;
+  startDate: string;
+  endDate: string;
+  hoursPerDay: number | null;
+  reason: string | null;
+}
+
+interface CalendarResponse {
+  shifts: ShiftDay[];
+  timeOff: TimeOffEntry[];
+  scheduledHours: number;
+  capacityDays: number;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+interface OperatorCalendarProps {
+  operatorId: number;
+  weeklyHours: number; // operators.availableHours fallback
+}
+
+export default function OperatorCalendar({ operatorId, weeklyHours }: OperatorCalendarProps) {
+  const { toast } = useToast();
+  const calendarKey = `/api/operators/${operatorId}/calendar`;
+  const [pattern, setPattern] = useState<Record<number, { startTime: string; hours: string }>>({});
+  const [patternChanged, setPatternChanged] = useState(false);
+  const [newTimeOff, setNewTimeOff] = useState({ startDate: "", endDate: "", hoursPerDay: "", reason: "" });
+
+  const { data: calendar } = useQuery<CalendarResponse>({
+    queryKey: [calendarKey],
+  });
+
+  // Load the saved pattern; without one, show the Monday–Friday fallback
+  useEffect(() => {
+    if (!calendar) return;
+    const next: Record<number, { startTime: string; hours: string }> = {};
+    if (calendar.shifts.length > 0) {
+      calendar.shifts.forEach(shift => {
+        next[shift.dayOfWeek] = { startTime: shift.startTime || "08:00", hours: String(shift.hours) };
+      });
+    } else {
+      [1, 2, 3, 4, 5].forEach(day => {
+        next[day] = { startTime: "08:00", hours: String(weeklyHours / 5) };
+      });
+    }
+    setPattern(next);
+    setPatternChanged(false);
+  }, [calendar, weeklyHours]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [calendarKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/operators"] });
+  };
+
+  const saveShiftsMutation = useMutation({
+    mutationFn: async () => {
+      const shifts = Object.entries(pattern)
+        .filter(([, shift]) => parseFloat(shift.hours) > 0)
+        .map(([day, shift]) => ({ dayOfWeek: Number(day), startTime: shift.startTime, hours: parseFloat(shift.hours) }));
+      const response = await apiRequest("PUT", `/api/operators/${operatorId}/shifts`, { shifts });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Shift pattern saved" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save shift pattern", variant: "destructive" });
+    },
+  });
+
+  const addTimeOffMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/operators/${operatorId}/time-off`, {
+        startDate: newTimeOff.startDate,
+        endDate: newTimeOff.endDate || newTimeOff.startDate,
+        hoursPerDay: newTimeOff.hoursPerDay || null,
+        reason: newTimeOff.reason || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setNewTimeOff({ startDate: "", endDate: "", hoursPerDay: "", reason: "" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to add time off", variant: "destructive" });
+    },
+  });
+
+  const deleteTimeOffMutation = useMutation({
+    mutationFn: async (entryId: number) => {
+      await apiRequest("DELETE", `/api/operators/${operatorId}/time-off/${entryId}`);
+    },
+    onSuccess: invalidate,
+  });
+
+  const updateDay = (day: number, field: "startTime" | "hours", value: string) => {
+    setPattern(prev => ({
+      ...prev,
+      [day]: { startTime: prev[day]?.startTime || "08:00", hours: prev[day]?.hours || "0", [field]: value },
+    }));
+    setPatternChanged(true);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium flex items-center">
+          <CalendarDays className="h-4 w-4 mr-1" />
+          Shift & Time Off
+        </Label>
+        {calendar && (
+          <Badge variant="outline" className="text-xs">
+            {Number(calendar.scheduledHours.toFixed(1))}h next {calendar.capacityDays} days
+          </Badge>
+        )}
+      </div>
+
+      {/* Weekly shift pattern */}
+      <div className="grid grid-cols-7 gap-1">
+        {WEEKDAYS.map((label, day) => (
+          <div key={day} className="space-y-1 text-center">
+            <div className="text-xs text-gray-500">{label}</div>
+            <Input
+              type="number"
+              min={0}
+              max={24}
+              step={0.5}
+              value={pattern[day]?.hours ?? "0"}
+              onChange={(e) => updateDay(day, "hours", e.target.value)}
+              className="h-8 text-xs px-1 text-center"
+              aria-label={`${label} hours`}
+            />
+            <Input
+              type="time"
+              value={pattern[day]?.startTime ?? "08:00"}
+              onChange={(e) => updateDay(day, "startTime", e.target.value)}
+              className="h-8 text-xs px-1"
+              aria-label={`${label} start time`}
+            />
+          </div>
+        ))}
+      </div>
+      {patternChanged && (
+        <Button size="sm" variant="outline" onClick={() => saveShiftsMutation.mutate()} disabled={saveShiftsMutation.isPending}>
+          <Save className="h-3 w-3 mr-1" />
+          Save Shift Pattern
+        </Button>
+      )}
+
+      {/* Time off */}
+      <div className="space-y-2">
+        {calendar?.timeOff.map(entry => (
+          <div key={entry.id} className="flex items-center justify-between p-2 border rounded text-sm">
+            <span>
+              {entry.startDate}{entry.endDate !== entry.startDate && ` → ${entry.endDate}`}
+              <span className="text-gray-500">
+                {" "}· {entry.hoursPerDay ? `${entry.hoursPerDay}h/day` : "full day"}
+                {entry.reason && ` · ${entry.reason}`}
+              </span>
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 text-red-600"
+              onClick={() => deleteTimeOffMutation.mutate(entry.id)}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+        <div className="grid grid-cols-5 gap-1">
+          <Input
+            type="date"
+            value={newTimeOff.startDate}
+            onChange={(e) => setNewTimeOff(prev => ({ ...prev, startDate: e.target.value }))}
+            className="h-8 text-xs col-span-1"
+            aria-label="Time off start"
+          />
+          <Input
+            type="date"
+            value={newTimeOff.endDate}
+            onChange={(e) => setNewTimeOff(prev => ({ ...prev, endDate: e.target.value }))}
+            className="h-8 text-xs col-span-1"
+            aria-label="Time off end"
+          />
+          <Input
+            type="number"
+            min={0}
+            step={0.5}
+            placeholder="Full day"
+            value={newTimeOff.hoursPerDay}
+            onChange={(e) => setNewTimeOff(prev => ({ ...prev, hoursPerDay: e.target.value }))}
+            className="h-8 text-xs"
+            aria-label="Hours off per day"
+          />
+          <Input
+            placeholder="PTO"
+            value={newTimeOff.reason}
+            onChange={(e) => setNewTimeOff(prev => ({ ...prev, reason: e.target.value }))}
+            className="h-8 text-xs"
+            aria-label="Reason"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8"
+            onClick={() => addTimeOffMutation.mutate()}
+            disabled={!newTimeOff.startDate || addTimeOffMutation.isPending}
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Add
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
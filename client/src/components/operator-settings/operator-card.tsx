@@ -10,6 +10,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { User, Activity, Clock, Save } from "lucide-react";
+import OperatorCalendar from "./operator-calendar";
 
 interface Operator {
   id: number;
@@ -357,6 +358,9 @@ export default function OperatorCard({
           </div>
         </div>
 
+        {/* Shift pattern and time off */}
+        <OperatorCalendar operatorId={operator.id} weeklyHours={operator.availableHours || 40} />
+
         {/* Save Button */}
         {hasChanges && (
           <Button 
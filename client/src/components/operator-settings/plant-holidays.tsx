@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CalendarOff, Plus, Trash2 } from "lucide-react";
+
+interface PlantHoliday {
+  id: number;
+  date: string;
+  name: string;
+}
+
+export default function PlantHolidays() {
+  const { toast } = useToast();
+  const [date, setDate] = useState("");
+  const [name, setName] = useState("");
+
+  const { data: holidays = [] } = useQuery<PlantHoliday[]>({
+    queryKey: ["/api/holidays"],
+  });
+
+  // Holidays change every operator's available hours
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/holidays"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/operators"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/holidays", { date, name });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setDate("");
+      setName("");
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to add holiday", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/holidays/${id}`);
+    },
+    onSuccess: invalidate,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <CalendarOff className="h-5 w-5 mr-2" />
+          Plant Holidays ({holidays.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {holidays.map(holiday => (
+            <div key={holiday.id} className="flex items-center gap-2 px-3 py-1 border rounded text-sm">
+              <span className="font-medium">{holiday.date}</span>
+              <span className="text-gray-500">{holiday.name}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-red-600"
+                onClick={() => deleteMutation.mutate(holiday.id)}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          {holidays.length === 0 && (
+            <p className="text-sm text-gray-500">No plant holidays scheduled</p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="w-44"
+            aria-label="Holiday date"
+          />
+          <Input
+            placeholder="Holiday name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="max-w-xs"
+          />
+          <Button
+            variant="outline"
+            onClick={() => addMutation.mutate()}
+            disabled={!date || !name || addMutation.isPending}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Holiday
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { History, Plus, Trash2 } from "lucide-react";
+
+type UphWindow =
+  | { type: "operator" }
+  | { type: "days"; days: number }
+  | { type: "mos"; count: number }
+  | { type: "all" };
+
+interface UphWindowPolicy {
+  id: number;
+  workCenter: string | null;
+  routing: string | null;
+  window: UphWindow;
+}
+
+interface UphWindowPoliciesProps {
+  routings: string[];
+}
+
+const WORK_CENTERS = ["Cutting", "Assembly", "Packaging"];
+const ANY = "__any__";
+
+function describeWindow(window: UphWindow): string {
+  if (window.type === "days") return `Last ${window.days} days`;
+  if (window.type === "mos") return `Last ${window.count} MOs`;
+  if (window.type === "all") return "All history";
+  return "Operator's window";
+}
+
+export default function UphWindowPolicies({ routings }: UphWindowPoliciesProps) {
+  const { toast } = useToast();
+  const [workCenter, setWorkCenter] = useState(ANY);
+  const [routing, setRouting] = useState(ANY);
+  const [windowType, setWindowType] = useState<"days" | "mos" | "all">("mos");
+  const [size, setSize] = useState("10");
+
+  const { data } = useQuery<{ policies: UphWindowPolicy[]; defaultWindow: UphWindow }>({
+    queryKey: ["/api/uph/window-policies"],
+  });
+  const policies = data?.policies ?? [];
+
+  // Policies change stored UPH everywhere it is shown
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/uph/window-policies"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/uph/table-data"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/uph/standardized"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/uph/window-policies", {
+        workCenter: workCenter === ANY ? null : workCenter,
+        routing: routing === ANY ? null : routing,
+        windowType,
+        windowDays: windowType === "days" ? parseInt(size) : undefined,
+        windowMos: windowType === "mos" ? parseInt(size) : undefined,
+      });
+      return response.json();
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/uph/window-policies/${id}`);
+    },
+    onSuccess: invalidate,
+  });
+
+  const canSave = (workCenter !== ANY || routing !== ANY) && (windowType === "all" || parseInt(size) > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <History className="h-5 w-5 mr-2" />
+          UPH Windows ({policies.length})
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          Which history counts toward UPH for a work center or routing. The most specific policy wins;
+          everything else uses the default ({data ? describeWindow(data.defaultWindow) : "…"}).
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {policies.map(policy => (
+            <div key={policy.id} className="flex items-center gap-2 px-3 py-1 border rounded text-sm">
+              <span className="font-medium">
+                {[policy.workCenter ?? "Any work center", policy.routing ?? "any routing"].join(" · ")}
+              </span>
+              <span className="text-gray-500">{describeWindow(policy.window)}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-red-600"
+                onClick={() => deleteMutation.mutate(policy.id)}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          {policies.length === 0 && (
+            <p className="text-sm text-gray-500">No window policies; every work center uses the default</p>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={workCenter} onValueChange={setWorkCenter}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any work center</SelectItem>
+              {WORK_CENTERS.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={routing} onValueChange={setRouting}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any routing</SelectItem>
+              {routings.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={windowType} onValueChange={(value) => setWindowType(value as "days" | "mos" | "all")}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="mos">Last N MOs</SelectItem>
+              <SelectItem value="days">Last N days</SelectItem>
+              <SelectItem value="all">All history</SelectItem>
+            </SelectContent>
+          </Select>
+          {windowType !== "all" && (
+            <Input
+              type="number"
+              min="1"
+              value={size}
+              onChange={(e) => setSize(e.target.value)}
+              className="w-24"
+              aria-label={windowType === "mos" ? "Number of MOs" : "Number of days"}
+            />
+          )}
+          <Button
+            variant="outline"
+            onClick={() => saveMutation.mutate()}
+            disabled={!canSave || saveMutation.isPending}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Save Window
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
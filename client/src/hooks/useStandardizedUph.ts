@@ -10,7 +10,7 @@ export interface StandardizedUphParams {
   productName?: string;
   workCenterCategory?: 'Cutting' | 'Assembly' | 'Packaging';
   operatorId?: number;
-  windowDays?: 7 | 30 | 180;
+  windowDays?: number; // Omit to use the window policies
 }
 
 export interface StandardizedUphResult {
@@ -21,7 +21,8 @@ export interface StandardizedUphResult {
   averageUph: number;
   moCount: number;
   totalObservations: number;
-  windowDays: number;
+  windowDays: number | null;
+  windowMos?: number | null;
   dataAvailable: boolean;
   message?: string;
 }
@@ -29,7 +30,7 @@ export interface StandardizedUphResult {
 export interface StandardizedUphResponse {
   success: boolean;
   data: StandardizedUphResult[];
-  windowDays: number;
+  windowDays: number | null;
   timestamp: string;
 }
 
@@ -42,7 +43,7 @@ export function useStandardizedUph(params: StandardizedUphParams = {}) {
     params.productName,
     params.workCenterCategory,
     params.operatorId,
-    params.windowDays || 30
+    params.windowDays
   ];
   
   return useQuery<StandardizedUphResponse>({
@@ -52,7 +53,7 @@ export function useStandardizedUph(params: StandardizedUphParams = {}) {
       if (params.productName) queryParams.append("productName", params.productName);
       if (params.workCenterCategory) queryParams.append("workCenterCategory", params.workCenterCategory);
       if (params.operatorId) queryParams.append("operatorId", params.operatorId.toString());
-      queryParams.append("windowDays", (params.windowDays || 30).toString());
+      if (params.windowDays) queryParams.append("windowDays", params.windowDays.toString());
       
       return apiRequest("GET", `/api/uph/standardized?${queryParams.toString()}`);
     },
@@ -67,7 +68,7 @@ export function useOperatorUph(
   operatorId: number,
   productName: string,
   workCenterCategory: 'Cutting' | 'Assembly' | 'Packaging',
-  windowDays: 7 | 30 | 180 = 30
+  windowDays?: number
 ) {
   const queryKey = [
     `/api/uph/standardized/operator/${operatorId}`,
@@ -79,11 +80,8 @@ export function useOperatorUph(
   return useQuery({
     queryKey,
     queryFn: async () => {
-      const queryParams = new URLSearchParams({
-        productName,
-        workCenterCategory,
-        windowDays: windowDays.toString()
-      });
+      const queryParams = new URLSearchParams({ productName, workCenterCategory });
+      if (windowDays) queryParams.append("windowDays", windowDays.toString());
       
       return apiRequest("GET", `/api/uph/standardized/operator/${operatorId}?${queryParams.toString()}`);
     },
@@ -7,6 +7,7 @@ import { MultiSelect } from "@/components/ui/multiselect";
 import ProductionGrid from "@/components/dashboard/production-grid";
 import { OperatorWorkloadSummary } from "@/components/dashboard/operator-workload-summary";
 import { AutoAssignControls } from "@/components/dashboard/auto-assign-controls";
+import { UphDriftAlerts } from "@/components/dashboard/uph-drift-alerts";
 import {
   Dialog,
   DialogContent,
@@ -221,6 +222,9 @@ export default function Dashboard() {
 
       {/* Main content */}
       <div className="max-w-7xl mx-auto px-6 py-6">
+        {/* Operators whose UPH dropped well below their baseline */}
+        <UphDriftAlerts />
+
         {/* Operator Workload Summary */}
         <OperatorWorkloadSummary assignments={assignmentsMap} assignmentsData={assignmentsData} />
         
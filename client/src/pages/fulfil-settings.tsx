@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Settings, Database, Key, CheckCircle, XCircle, RefreshCw, Users, Upload, Loader2, Clock, Calculator, Activity, AlertTriangle, AlertCircle } from "lucide-react";
+import { Settings, Database, Key, CheckCircle, XCircle, RefreshCw, Users, Upload, Loader2, Clock, Calculator, Activity, AlertTriangle, AlertCircle, UserCheck, Eye } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -13,6 +13,23 @@ import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 
 
+interface WritebackResult {
+  dryRun: boolean;
+  items: Array<{
+    workOrderId: number;
+    workOrderName: string | null;
+    operatorName: string | null;
+    currentEmployeeName: string | null;
+    action: "write" | "unchanged" | "conflict" | "skip";
+    reason: string;
+  }>;
+  written: number;
+  overwritten: number;
+  conflicts: number;
+  failed: number;
+  errors: string[];
+}
+
 export default function FulfilSettings() {
   const { toast } = useToast();
   const [selectedFiles, setSelectedFiles] = useState<{
@@ -21,7 +38,7 @@ export default function FulfilSettings() {
     workCycles?: File;
   }>({});
 
-  const { data: settings, isLoading } = useQuery({
+  const { data: settings, isLoading } = useQuery<{ baseUrl: string; hasApiKey: boolean }>({
     queryKey: ["/api/fulfil/settings"],
   });
 
@@ -235,6 +252,117 @@ export default function FulfilSettings() {
     },
   });
 
+  // Incremental sync state per Fulfil model
+  const { data: syncState } = useQuery<{
+    running: boolean;
+    states: Array<{
+      model: string;
+      highWaterMark: string | null;
+      lastRunAt?: string | null;
+      lastSuccessAt?: string | null;
+      lastError?: string | null;
+      recordsSynced?: number | null;
+    }>;
+  }>({
+    queryKey: ["/api/fulfil/sync-state"],
+    refetchInterval: 30000,
+  });
+
+  const incrementalSyncMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/fulfil/sync-incremental", {});
+      return response.json();
+    },
+    onSuccess: (data: { models: Array<{ model: string; inserted: number; updated: number; error?: string }> }) => {
+      const failed = data.models.filter(m => m.error);
+      toast({
+        title: failed.length > 0 ? "Incremental Sync Incomplete" : "Incremental Sync Complete",
+        description: data.models
+          .map(m => m.error ? `${m.model}: ${m.error}` : `${m.model}: ${m.inserted} new, ${m.updated} updated`)
+          .join(" · "),
+        variant: failed.length > 0 ? "destructive" : "default",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/fulfil/sync-state"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/fulfil/sync-stats"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Incremental Sync Failed",
+        description: error instanceof Error ? error.message : "Failed to sync changes from Fulfil",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Operator write-back: push planner assignments to Fulfil work orders
+  const [writebackPreview, setWritebackPreview] = useState<WritebackResult | null>(null);
+  const [overwriteConflicts, setOverwriteConflicts] = useState(false);
+
+  const { data: writebackConfig } = useQuery<{ config: { enabled: boolean }; running: boolean }>({
+    queryKey: ["/api/fulfil/operator-writeback/config"],
+  });
+
+  const { data: writebackLog } = useQuery<{
+    entries: Array<{
+      id: number;
+      workOrderId: number;
+      workOrderName: string | null;
+      operatorName: string | null;
+      previousEmployeeName: string | null;
+      status: "written" | "conflict" | "failed";
+      overwrote: boolean;
+      error: string | null;
+      pushedBy: string | null;
+      createdAt: string;
+    }>;
+  }>({
+    queryKey: ["/api/fulfil/operator-writeback/log?limit=10"],
+  });
+
+  const writebackConfigMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      const response = await apiRequest("PUT", "/api/fulfil/operator-writeback/config", { enabled });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/fulfil/operator-writeback/config"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Save Write-back Setting",
+        description: error instanceof Error ? error.message : "Could not save the setting",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const writebackMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const response = await apiRequest("POST", "/api/fulfil/operator-writeback/push", { dryRun, overwriteConflicts });
+      return response.json() as Promise<WritebackResult>;
+    },
+    onSuccess: (data) => {
+      if (data.dryRun) {
+        setWritebackPreview(data);
+        return;
+      }
+      setWritebackPreview(null);
+      toast({
+        title: data.failed > 0 ? "Write-back Incomplete" : "Operators Written to Fulfil",
+        description: `${data.written} written (${data.overwritten} overwritten), ${data.conflicts} conflicts left alone, ${data.failed} failed`,
+        variant: data.failed > 0 ? "destructive" : "default",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/fulfil/operator-writeback/log?limit=10"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Write-back Failed",
+        description: error instanceof Error ? error.message : "Failed to write operators to Fulfil",
+        variant: "destructive",
+      });
+    },
+  });
+
   const reconcileMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest("POST", "/api/fulfil/reconcile-work-cycles", {});
@@ -493,7 +621,7 @@ export default function FulfilSettings() {
               <Label htmlFor="baseUrl">Base URL</Label>
               <Input
                 id="baseUrl"
-                value="https://apc.fulfil.io"
+                value={settings?.baseUrl ?? "https://apc.fulfil.io"}
                 disabled
                 className="mt-2 bg-gray-50"
               />
@@ -826,6 +954,149 @@ export default function FulfilSettings() {
         </Card>
       </div>
 
+      {/* Incremental Sync */}
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Clock className="mr-2" />
+            Incremental Sync
+          </CardTitle>
+          <CardDescription>
+            Pull only production orders, work orders and work cycles changed in Fulfil since the last sync
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            {syncState?.states.map(state => (
+              <div key={state.model} className="flex items-center justify-between text-sm border rounded p-2">
+                <span className="font-mono">{state.model}</span>
+                <span className="text-gray-600">
+                  {state.highWaterMark
+                    ? `Changes up to ${new Date(state.highWaterMark).toLocaleString()}`
+                    : "Never synced (next run pulls everything)"}
+                </span>
+                {state.lastError ? (
+                  <Badge variant="destructive" title={state.lastError}>Failed</Badge>
+                ) : state.lastSuccessAt ? (
+                  <Badge variant="secondary">{state.recordsSynced ?? 0} last run</Badge>
+                ) : null}
+              </div>
+            ))}
+          </div>
+
+          <Button
+            onClick={() => incrementalSyncMutation.mutate()}
+            disabled={incrementalSyncMutation.isPending || syncState?.running || importStatus?.isImporting}
+            className="w-full"
+          >
+            {incrementalSyncMutation.isPending || syncState?.running ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="w-4 h-4 mr-2" />
+            )}
+            {incrementalSyncMutation.isPending || syncState?.running ? "Syncing..." : "Sync Changes from Fulfil"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Operator Write-back */}
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <UserCheck className="mr-2" />
+            Operator Write-back
+          </CardTitle>
+          <CardDescription>
+            Set the operator on Fulfil work orders from the planner's assignments. Work orders Fulfil already gives to someone else are left alone unless you overwrite them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="writebackEnabled"
+              checked={writebackConfig?.config.enabled ?? false}
+              onCheckedChange={(enabled) => writebackConfigMutation.mutate(enabled)}
+              disabled={writebackConfigMutation.isPending}
+            />
+            <Label htmlFor="writebackEnabled">Allow pushing operators to Fulfil</Label>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Switch id="overwriteConflicts" checked={overwriteConflicts} onCheckedChange={setOverwriteConflicts} />
+            <Label htmlFor="overwriteConflicts">Overwrite operators already set in Fulfil</Label>
+          </div>
+
+          <div className="flex space-x-3">
+            <Button
+              variant="outline"
+              onClick={() => writebackMutation.mutate(true)}
+              disabled={writebackMutation.isPending}
+              className="flex-1"
+            >
+              <Eye className="w-4 h-4 mr-2" />
+              Preview Changes
+            </Button>
+            <Button
+              onClick={() => writebackMutation.mutate(false)}
+              disabled={writebackMutation.isPending || writebackConfig?.running || !writebackConfig?.config.enabled}
+              className="flex-1"
+            >
+              {writebackMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="w-4 h-4 mr-2" />
+              )}
+              Push to Fulfil
+            </Button>
+          </div>
+
+          {writebackPreview && (
+            <div className="space-y-2">
+              <div className="text-sm text-gray-600">
+                {writebackPreview.items.filter(item => item.action === "write").length} to write
+                {" · "}{writebackPreview.conflicts} conflicts
+                {" · "}{writebackPreview.items.filter(item => item.action === "unchanged").length} unchanged
+                {" · "}{writebackPreview.items.filter(item => item.action === "skip").length} skipped
+              </div>
+              <div className="max-h-64 overflow-y-auto space-y-1">
+                {writebackPreview.items.filter(item => item.action !== "unchanged").map(item => (
+                  <div key={item.workOrderId} className="flex items-center justify-between text-sm border rounded p-2">
+                    <span className="font-mono">{item.workOrderName ?? item.workOrderId}</span>
+                    <span className="text-gray-600">
+                      {item.operatorName ?? "Unknown"}
+                      {item.currentEmployeeName ? ` (Fulfil: ${item.currentEmployeeName})` : ""}
+                    </span>
+                    <Badge
+                      variant={item.action === "conflict" ? "destructive" : item.action === "write" ? "default" : "secondary"}
+                      title={item.reason}
+                    >
+                      {item.action}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {writebackLog && writebackLog.entries.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-sm font-medium">Recent writes</div>
+              {writebackLog.entries.map(entry => (
+                <div key={entry.id} className="flex items-center justify-between text-xs text-gray-600">
+                  <span>
+                    {entry.workOrderName ?? entry.workOrderId} → {entry.operatorName ?? "Unknown"}
+                    {entry.overwrote && entry.previousEmployeeName ? ` (replaced ${entry.previousEmployeeName})` : ""}
+                  </span>
+                  <span title={entry.error ?? undefined}>
+                    {entry.status} · {new Date(entry.createdAt).toLocaleString()}{entry.pushedBy ? ` · ${entry.pushedBy}` : ""}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Work Cycles Import Operations */}
       <Card className="mt-6">
         <CardHeader>
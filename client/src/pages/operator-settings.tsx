@@ -8,6 +8,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { RefreshCw, User, Users, Grid, List } from "lucide-react";
 import OperatorCard from "@/components/operator-settings/operator-card";
+import PlantHolidays from "@/components/operator-settings/plant-holidays";
+import CrossTrainingReport from "@/components/operator-settings/cross-training-report";
+import UphWindowPolicies from "@/components/operator-settings/uph-window-policies";
 
 interface Operator {
   id: number;
@@ -279,6 +282,12 @@ export default function OperatorSettings() {
         </div>
       </div>
 
+      <PlantHolidays />
+
+      <UphWindowPolicies routings={getAllAvailableRoutings()} />
+
+      <CrossTrainingReport />
+
       {viewMode === "list" ? (
         /* List View */
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -10,6 +10,8 @@ import { useState } from "react";
 import { ChevronDown, ChevronRight, Loader2, Users, Target, TrendingUp, RefreshCw, Calculator, Search } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { UphCalculationModal } from "@/components/dashboard/uph-calculation-modal";
+import { UphTrendChart } from "@/components/dashboard/uph-trend-chart";
+import { StandardTimesPanel } from "@/components/dashboard/standard-times-panel";
 import { useStandardizedUph, useUphCalculationJob, transformUphDataForTable } from "@/hooks/useStandardizedUph";
 
 interface OperatorPerformance {
@@ -17,9 +19,38 @@ interface OperatorPerformance {
   operatorName: string;
   workCenterPerformance: Record<string, number | null>;
   workCenterUphValues?: Record<string, number[]>;
+  workCenterSources?: Record<string, { method: string | null; version: string | null } | null>;
+  workCenterIntervals?: Record<string, {
+    low: number;
+    high: number;
+    rawUph: number;
+    observations: number;
+    steadyStateUph?: number | null;
+    rampMosRemaining?: number | null;
+  } | null>;
   totalObservations: number;
 }
 
+interface UphEngineInfo {
+  version: string;
+  methods: Array<{ name: string; description: string }>;
+  outlierPolicies: string[];
+  config: {
+    method: string;
+    window: { type: 'operator' } | { type: 'days'; days: number } | { type: 'mos'; count: number } | { type: 'all' };
+    outliers: string;
+  };
+  configuration: string;
+}
+
+const ENGINE_WINDOWS: Record<string, { window: string; windowDays?: number; label: string }> = {
+  operator: { window: 'operator', label: "Operator's window" },
+  '30': { window: 'days', windowDays: 30, label: 'Last 30 days' },
+  '90': { window: 'days', windowDays: 90, label: 'Last 90 days' },
+  '180': { window: 'days', windowDays: 180, label: 'Last 180 days' },
+  all: { window: 'all', label: 'All history' },
+};
+
 interface UphTableData {
   routings: Array<{
     routingName: string;
@@ -35,6 +66,7 @@ interface UphTableData {
     noDataReason?: string;
   };
   workCenters: string[];
+  engine?: { version: string; method: string; configuration: string };
 }
 
 interface RawUphData {
@@ -292,10 +324,42 @@ export default function UphAnalytics() {
     return result;
   })();
 
+  // UPH engine version and configured method
+  const { data: engineInfo } = useQuery<UphEngineInfo>({
+    queryKey: ["/api/uph/engine"],
+  });
+
+  const engineWindowKey = (() => {
+    const window = engineInfo?.config.window;
+    if (!window) return 'operator';
+    if (window.type === 'days') return String(window.days);
+    return window.type;
+  })();
+
+  // Saving the config rebuilds stored UPH with the new method
+  const engineConfigMutation = useMutation({
+    mutationFn: async (changes: { method?: string; outliers?: string; windowKey?: string }) => {
+      const windowKey = changes.windowKey ?? engineWindowKey;
+      const { window, windowDays } = ENGINE_WINDOWS[windowKey] ?? ENGINE_WINDOWS.operator;
+      const response = await apiRequest("PUT", "/api/uph/engine/config", {
+        method: changes.method ?? engineInfo?.config.method,
+        outliers: changes.outliers ?? engineInfo?.config.outliers,
+        window,
+        windowDays,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/uph/engine"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/uph/table-data"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/uph/standardized"] });
+    },
+  });
+
   // Use standardized UPH calculation job
   const { calculate, isCalculating, status: jobStatus } = useUphCalculationJob();
 
-  // AI anomaly detection (keep for now)
+  // Statistical anomaly detection
   const detectAnomaliesMutation = useMutation({
     mutationFn: () => apiRequest("POST", "/api/uph/detect-anomalies"),
     onSuccess: (data) => {
@@ -303,7 +367,7 @@ export default function UphAnalytics() {
     },
   });
 
-  // Clean UPH calculation with AI filtering (keep for now)
+  // Clean UPH calculation with outlying cycles excluded
   const calculateCleanUphMutation = useMutation({
     mutationFn: () => apiRequest("POST", "/api/uph/calculate-clean"),
     onSuccess: (data) => {
@@ -315,7 +379,8 @@ export default function UphAnalytics() {
   // Check if any operation is running
   const isAnyOperationRunning = isCalculating || 
                                 detectAnomaliesMutation.isPending || 
-                                calculateCleanUphMutation.isPending;
+                                calculateCleanUphMutation.isPending ||
+                                engineConfigMutation.isPending;
 
   // Refresh handler - refreshes the UPH data
   const handleRefresh = () => {
@@ -419,6 +484,11 @@ export default function UphAnalytics() {
         <div>
           <h1 className="text-2xl font-bold text-gray-900">UPH Analytics</h1>
           <p className="text-gray-600">Units Per Hour performance metrics organized by product routing</p>
+          {engineInfo && (
+            <Badge variant="outline" className="mt-2" title={engineInfo.methods.find(m => m.name === engineInfo.config.method)?.description}>
+              UPH engine v{engineInfo.version} · {engineInfo.configuration}
+            </Badge>
+          )}
           
           {/* Unified Status Indicator */}
           {isAnyOperationRunning && (
@@ -433,6 +503,55 @@ export default function UphAnalytics() {
         </div>
         
         <div className="flex items-center gap-4">
+          {/* UPH engine method, window and outlier policy */}
+          {engineInfo && (
+            <div className="flex items-center gap-2">
+              <Select
+                value={engineInfo.config.method}
+                onValueChange={(method) => engineConfigMutation.mutate({ method })}
+                disabled={engineConfigMutation.isPending}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {engineInfo.methods.map((method) => (
+                    <SelectItem key={method.name} value={method.name}>
+                      {method.name === 'mo_weighted' ? 'MO-weighted' : 'Cycle-weighted'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={engineWindowKey in ENGINE_WINDOWS ? engineWindowKey : undefined}
+                onValueChange={(windowKey) => engineConfigMutation.mutate({ windowKey })}
+                disabled={engineConfigMutation.isPending}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder={`Last ${engineWindowKey} days`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ENGINE_WINDOWS).map(([key, option]) => (
+                    <SelectItem key={key} value={key}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={engineInfo.config.outliers}
+                onValueChange={(outliers) => engineConfigMutation.mutate({ outliers })}
+                disabled={engineConfigMutation.isPending}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No outlier filter</SelectItem>
+                  <SelectItem value="sigma">Mean ± 2σ</SelectItem>
+                  <SelectItem value="iqr">1.5 × IQR</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           {/* Refresh Button */}
           <Button
             onClick={handleRefresh}
@@ -509,6 +628,7 @@ export default function UphAnalytics() {
           </CardTitle>
           <CardDescription>
             UPH metrics organized by product routing. Click chevrons to expand operator details.
+            Operator values are shrunk toward the routing average when based on few observations, with the 95% range shown below.
             {uphData?.summary?.noDataReason && (
               <div className="mt-2 p-3 bg-amber-50 border border-amber-200 rounded-md">
                 <p className="text-amber-800 text-sm">{uphData.summary.noDataReason}</p>
@@ -592,6 +712,20 @@ export default function UphAnalytics() {
                                           if (value === min && max !== min) return "ring-1 ring-red-500";
                                           return "";
                                         })()}`}
+                                        title={(() => {
+                                          const source = operator.workCenterSources?.[wc];
+                                          if (!source) return undefined;
+                                          const interval = operator.workCenterIntervals?.[wc];
+                                          const detail = interval
+                                            ? `95% interval ${interval.low.toFixed(1)}–${interval.high.toFixed(1)}; own UPH ${interval.rawUph.toFixed(1)} from ${interval.observations} observations\n`
+                                            : "";
+                                          const ramp = interval?.steadyStateUph != null
+                                            ? `Learning curve: heading for ${interval.steadyStateUph.toFixed(1)} UPH${interval.rampMosRemaining ? `, ${interval.rampMosRemaining} more MOs to 90%` : ""}\n`
+                                            : "";
+                                          return detail + ramp + (source.version
+                                            ? `${source.method} (engine v${source.version})`
+                                            : "Stored by a legacy calculator");
+                                        })()}
                                         onClick={() => {
                                           if (operator.workCenterPerformance[wc]) {
                                             setSelectedUphDetails({
@@ -605,6 +739,14 @@ export default function UphAnalytics() {
                                       >
                                         {formatUph(operator.workCenterPerformance[wc])}
                                       </Badge>
+                                      {operator.workCenterIntervals?.[wc] && (
+                                        <div className="text-[11px] text-muted-foreground">
+                                          {operator.workCenterIntervals[wc]!.low.toFixed(1)}–{operator.workCenterIntervals[wc]!.high.toFixed(1)}
+                                          {!!operator.workCenterIntervals[wc]!.rampMosRemaining && (
+                                            <span className="text-amber-600"> · ramping</span>
+                                          )}
+                                        </div>
+                                      )}
                                     </td>
                                   ))}
                                   <td className="text-center py-2">
@@ -643,6 +785,19 @@ export default function UphAnalytics() {
           )}
         </CardContent>
       </Card>
+      {/* Weekly UPH trend per operator */}
+      {uphData?.routings && uphData.routings.length > 0 && (
+        <UphTrendChart
+          routings={uphData.routings.map((routing: { routingName: string }) => routing.routingName).sort()}
+          workCenters={getOrderedWorkCenters(uphData.workCenters)}
+        />
+      )}
+      {/* Standard minutes per unit per routing step */}
+      {uphData?.routings && uphData.routings.length > 0 && (
+        <StandardTimesPanel
+          routings={uphData.routings.map((routing: { routingName: string }) => routing.routingName).sort()}
+        />
+      )}
       {/* Work Center Averages Summary */}
       {uphData?.summary?.avgUphByCeter && Object.keys(uphData.summary.avgUphByCeter).length > 0 && (
         <Card className="mt-6">
@@ -0,0 +1,43 @@
+-- Remove duplicate Fulfil ids so the unique indexes the incremental sync upserts
+-- against (IDX_work_orders_fulfil_id, IDX_work_cycles_cycle_id) can be created.
+-- Run once against an existing database before `npm run db:push`:
+--   psql "$DATABASE_URL" -f migrations/dedupe-fulfil-ids.sql
+-- Safe to re-run: with no duplicates left it only confirms the indexes exist.
+
+BEGIN;
+
+-- Work orders: keep the newest row per Fulfil work order. Nothing references
+-- work_orders.id (assignments use the Fulfil id), so older copies can go.
+DELETE FROM work_orders older
+USING work_orders newer
+WHERE older.fulfil_id IS NOT NULL
+  AND newer.fulfil_id = older.fulfil_id
+  AND newer.id > older.id;
+
+-- Work cycles imported twice: same cycle id and the same work, operator,
+-- duration and quantity. Keep the newest copy.
+DELETE FROM work_cycles older
+USING work_cycles newer
+WHERE older.work_cycles_id IS NOT NULL
+  AND newer.work_cycles_id = older.work_cycles_id
+  AND newer.id > older.id
+  AND newer.work_id IS NOT DISTINCT FROM older.work_id
+  AND newer.work_cycles_operator_rec_name IS NOT DISTINCT FROM older.work_cycles_operator_rec_name
+  AND newer.duration_sec IS NOT DISTINCT FROM older.duration_sec
+  AND newer.work_cycles_quantity_done IS NOT DISTINCT FROM older.work_cycles_quantity_done;
+
+-- Distinct cycles still sharing an id were written by the retired CSV
+-- consolidation workflows, which stored the work order id (or a random number)
+-- as the cycle id. Their real cycle id is unknown: keep the rows for UPH
+-- history but clear the id on all but the newest, so the sync never matches them.
+UPDATE work_cycles older
+SET work_cycles_id = NULL
+FROM work_cycles newer
+WHERE older.work_cycles_id IS NOT NULL
+  AND newer.work_cycles_id = older.work_cycles_id
+  AND newer.id > older.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "IDX_work_orders_fulfil_id" ON work_orders (fulfil_id);
+CREATE UNIQUE INDEX IF NOT EXISTS "IDX_work_cycles_cycle_id" ON work_cycles (work_cycles_id);
+
+COMMIT;
@@ -1,6 +1,53 @@
 import { db } from "./db.js";
 import { workOrders, operators, workOrderAssignments, productionOrders, uphData } from "../shared/schema.js";
-import { eq, and, inArray, isNull, isNotNull, gt, sql, desc } from "drizzle-orm";
+import { eq, and, or, inArray, isNull, isNotNull, gt, sql, desc } from "drizzle-orm";
+import {
+  scheduleTasks,
+  persistSchedule,
+  resolveDueDate,
+  type ScheduleTask,
+  type ScheduledSlot,
+  type ScheduleResult
+} from "./services/finiteScheduler.js";
+import { loadRoutingSteps, resolveStepSequence } from "./services/routingPrecedence.js";
+import { loadOperatorCalendar, DEFAULT_CAPACITY_DAYS } from "./services/operatorCalendar.js";
+import {
+  evaluateCandidate,
+  finalizeDecision,
+  markRebalanced,
+  markSolved,
+  type AssignmentDecision
+} from "./services/assignmentDecisions.js";
+import {
+  getSolver,
+  compareWithGreedy,
+  type SolverName,
+  type SolverReport,
+  type SolverTask
+} from "./services/assignmentSolver.js";
+import {
+  getPlanningWatermark,
+  savePlanningWatermark,
+  buildChangeReport,
+  type ChangeReport
+} from "./services/incrementalPlanning.js";
+import {
+  scoreCandidate,
+  compareByUrgency,
+  normalizePriority,
+  normalizeWeights,
+  getAssignmentWeights,
+  projectFinish,
+  type AssignmentWeights,
+  type MoPriority
+} from "./services/assignmentObjective.js";
+import {
+  getProductFamilies,
+  inferUph,
+  describeInferredUph,
+  type FamilyUphRow,
+  type InferredUph
+} from "./services/productFamilies.js";
 
 // Helper function to group work orders by routing
 function groupWorkOrdersByRouting(workOrdersData: any[]) {
@@ -37,10 +84,21 @@ interface OperatorProfile {
   name: string;
   skills: string[];
   currentCapacity: number;
-  maxHours: number;
+  maxHours: number; // Calendar hours available over the capacity window
+  dailyHours: (day: Date) => number;
   hoursAssigned: number;
   activeAssignments: number;
-  uphData: Map<string, { uph: number; observations: number }>;
+  uphData: Map<string, OperatorUph>;
+}
+
+// Shrunk UPH estimate with its 95% interval, as stored by the UPH engine, or
+// an estimate inferred from related routings (no observations, no interval)
+interface OperatorUph {
+  uph: number;
+  observations: number;
+  uphLow: number | null;
+  uphHigh: number | null;
+  inferred: InferredUph | null;
 }
 
 interface WorkOrderData {
@@ -52,6 +110,8 @@ interface WorkOrderData {
   operation: string;
   expectedHours: number;
   sequence: number;
+  dueDate: Date | null;
+  priority: MoPriority;
 }
 
 interface RoutingAssignmentResult {
@@ -84,7 +144,62 @@ interface UnassignedWorkOrderDetail {
   reason: string;
 }
 
-interface AutoAssignResult {
+interface IndexedWorkOrder {
+  moNumber: string;
+  routing: string;
+  workCenter: string;
+  dueDate: Date | null;
+  sequence: number;
+}
+
+export interface AutoAssignOptions {
+  // "schedule" additionally sequences all active assignments into dated slots
+  mode?: 'assign' | 'schedule';
+  horizonDays?: number; // Also the capacity window for operator hours (default one week)
+  startDate?: Date;
+  // Overrides the planner-saved objective weights for this run
+  weights?: Partial<AssignmentWeights>;
+  // Plan without writing to work_order_assignments; the full plan is returned in `plan`
+  dryRun?: boolean;
+  // Plan as if existing AI auto-assignments had been cleared (regenerate)
+  replaceAutoAssignments?: boolean;
+  // "greedy" (default) walks work centers and rebalances; "optimal" re-solves the
+  // greedy plan's work orders for minimum total hours within operator capacity
+  solver?: SolverName;
+  // Only fetch and slot work orders created since `since` (default: the last run),
+  // plus those earlier runs left unassigned; live assignments keep their operator and schedule slot
+  incremental?: boolean;
+  since?: Date;
+}
+
+// One row of a complete assignment plan: kept live assignments plus newly planned ones
+export interface PlannedAssignment {
+  workOrderId: number;
+  operatorId: number;
+  estimatedHours: number;
+  assignedBy: string;
+  isAutoAssigned: boolean;
+  autoAssignReason: string | null;
+  autoAssignConfidence: number | null;
+  autoAssignDecision: AssignmentDecision | null;
+  isNew: boolean;
+}
+
+interface ExistingAssignment {
+  workOrderId: number;
+  operatorId: number;
+  estimatedHours: number | null;
+  assignedBy: string | null;
+  isLocked: boolean | null;
+  isAutoAssigned: boolean | null;
+  autoAssignReason: string | null;
+  autoAssignConfidence: number | null;
+  autoAssignDecision: unknown;
+  scheduledStart: Date | null;
+  scheduledEnd: Date | null;
+}
+
+export interface AutoAssignResult {
   success: boolean;
   assignments: Array<{
     workOrderId: number;
@@ -93,14 +208,22 @@ interface AutoAssignResult {
     reason: string;
     expectedUph: number;
     expectedHours: number;
+    expectedHoursLow: number | null; // From the UPH 95% interval
+    expectedHoursHigh: number | null;
     confidence: number;
   }>;
   unassigned: number[];
   unassignedDetails?: UnassignedWorkOrderDetail[];
   summary: string;
   totalHoursOptimized: number;
+  totalTardiness: number; // Days late summed over MOs (scheduled) or assigned work orders (projected)
+  weights?: AssignmentWeights;
   operatorUtilization: Map<number, number>;
   workCenterResults?: WorkCenterAssignmentResult[];
+  schedule?: ScheduleResult;
+  plan?: PlannedAssignment[];
+  solverReport?: SolverReport;
+  changeReport?: ChangeReport;
   progress?: {
     current: number;
     total: number;
@@ -110,107 +233,18 @@ interface AutoAssignResult {
 
 
 
-// Helper function to get UPH for an operator on a specific work center and routing
-async function getOperatorUPH(
-  operatorId: number,
-  operatorName: string,
-  workCenter: string,
-  routing: string
-): Promise<number | null> {
-  try {
-    // Handle routing mapping for products that use different manufacturing routing
-    // Lifetime Air Harness products use Lifetime Harness routing for manufacturing
-    const routingsToCheck = [routing];
-    if (routing === 'Lifetime Air Harness') {
-      routingsToCheck.push('Lifetime Harness');
-    }
-    
-    // First try exact routing match using name-based lookup
-    for (const checkRouting of routingsToCheck) {
-      const uphResults = await db
-        .select()
-        .from(uphData)
-        .where(
-          and(
-            eq(uphData.operatorName, operatorName),
-            eq(uphData.workCenter, workCenter),
-            eq(uphData.productRouting, checkRouting)
-          )
-        )
-        .limit(1);
-
-      if (uphResults.length > 0 && uphResults[0].uph) {
-        return uphResults[0].uph;
-      }
-
-      // Check alternate work centers
-      const alternateWorkCenters = workCenter === "Assembly" ? ["Sewing", "Rope"] : [];
-      for (const altWC of alternateWorkCenters) {
-        const altUphResults = await db
-          .select()
-          .from(uphData)
-          .where(
-            and(
-              eq(uphData.operatorName, operatorName),
-              eq(uphData.workCenter, altWC),
-              eq(uphData.productRouting, checkRouting)
-            )
-          )
-          .limit(1);
-
-        if (altUphResults.length > 0 && altUphResults[0].uph) {
-          return altUphResults[0].uph;
-        }
-      }
-    }
-
-    // If no exact routing match, fall back to average UPH for the work center
-    const avgUphResults = await db
-      .select({
-        avgUph: sql<number>`AVG(${uphData.uph})`
-      })
-      .from(uphData)
-      .where(
-        and(
-          eq(uphData.operatorName, operatorName),
-          eq(uphData.workCenter, workCenter)
-        )
-      );
-
-    if (avgUphResults.length > 0 && avgUphResults[0].avgUph) {
-      return avgUphResults[0].avgUph;
-    }
-
-    // Check alternate work centers for average
-    if (workCenter === "Assembly") {
-      const altAvgResults = await db
-        .select({
-          avgUph: sql<number>`AVG(${uphData.uph})`
-        })
-        .from(uphData)
-        .where(
-          and(
-            eq(uphData.operatorName, operatorName),
-            inArray(uphData.workCenter, ["Sewing", "Rope"])
-          )
-        );
-
-      if (altAvgResults.length > 0 && altAvgResults[0].avgUph) {
-        return altAvgResults[0].avgUph;
-      }
-    }
-
-    return null;
-  } catch (error) {
-    console.error("Error fetching operator UPH:", error);
-    return null;
-  }
+// Assignments a supervisor has not pinned (null on rows created before locking existed)
+function isUnlocked() {
+  return or(isNull(workOrderAssignments.isLocked), eq(workOrderAssignments.isLocked, false));
 }
 
-// Analyze overloaded operators and recommend rebalancing
+// Analyze overloaded operators and recommend rebalancing.
+// Only newly planned work orders can move; existing and locked assignments
+// count toward operator hours but are never reassigned.
 async function rebalanceOverloadedOperators(
   assignments: Map<number, WorkOrderData[]>,
-  operatorProfiles: Map<number, OperatorProfile>
+  operatorProfiles: Map<number, OperatorProfile>,
+  weights: AssignmentWeights
 ): Promise<Map<number, number>> {
   const reassignments = new Map<number, number>();
   
@@ -285,7 +319,7 @@ async function rebalanceOverloadedOperators(
         
         // Find best underutilized operator for this work order
         let bestTargetOperator = null;
-        let bestScore = -1;
+        let bestScore = -Infinity;
         
         for (const underutilizedOpId of underutilizedOperators) {
           const targetProfile = operatorProfiles.get(underutilizedOpId)!;
@@ -299,17 +333,17 @@ async function rebalanceOverloadedOperators(
           const uphData = targetProfile.uphData.get(uphKey);
           if (!uphData || uphData.uph <= 0) continue;
           
-          // Calculate reassignment score (higher is better)
-          let score = 0;
-          
-          // Prefer operators with lower current utilization
-          score += (100 - targetUtilization) / 100 * 0.4;
-          
-          // Prefer operators with good UPH for this work order
-          score += Math.min(uphData.uph / 50, 1) * 0.3;
-          
-          // Prefer operators with reliable data (more observations)
-          score += Math.min(uphData.observations / 10, 1) * 0.3;
+          // Calculate reassignment score (higher is better) with the same objective as assignment
+          const { total: score } = scoreCandidate({
+            uph: uphData.uph,
+            observations: uphData.observations,
+            hoursAssigned: targetProfile.hoursAssigned,
+            maxHours: targetProfile.maxHours,
+            dailyHours: targetProfile.dailyHours,
+            expectedHours: workOrder.quantity / uphData.uph,
+            dueDate: workOrder.dueDate,
+            priority: workOrder.priority
+          }, weights);
           
           if (score > bestScore) {
             bestScore = score;
@@ -336,16 +370,33 @@ async function rebalanceOverloadedOperators(
   return reassignments;
 }
 
-export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
+export async function autoAssignWorkOrders(options: AutoAssignOptions = {}): Promise<AutoAssignResult> {
   try {
     // Step 1: Get all production orders directly from Fulfil service
     const { FulfilCurrentService } = await import('./fulfil-current.js');
     const fulfilService = new FulfilCurrentService();
     
+    // Incremental runs only look at work orders created since the previous run
+    const runStartedAt = new Date();
+    let since: Date | null = null;
+    let pendingWorkOrderIds: number[] = [];
+    if (options.incremental) {
+      const watermark = await getPlanningWatermark();
+      since = options.since ?? watermark?.lastRunAt ?? null;
+      // Work orders earlier runs left unassigned are older than the watermark but still need an operator
+      pendingWorkOrderIds = watermark?.pendingWorkOrderIds ?? [];
+      if (!since) {
+        console.log(`Incremental auto-assign: no previous run recorded, considering all work orders`);
+      }
+    }
+    
     let allProductionOrders = [];
     try {
-      allProductionOrders = await fulfilService.getCurrentProductionOrders();
-      console.log(`Auto-assign: Fetched ${allProductionOrders.length} production orders from Fulfil`);
+      allProductionOrders = await fulfilService.getCurrentProductionOrders({
+        createdSince: since ?? undefined,
+        includeWorkOrderIds: pendingWorkOrderIds
+      });
+      console.log(`Auto-assign: Fetched ${allProductionOrders.length} production orders from Fulfil${since ? ` created since ${since.toISOString()}` : ''}`);
     } catch (error) {
       console.error("Failed to fetch production orders for auto-assign:", error);
       throw new Error("Failed to fetch production orders from Fulfil API");
@@ -353,11 +404,41 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
     
     const allWorkOrders = [];
     
+    // Index every in-flight work order so existing assignments can be scheduled alongside new ones
+    const workOrderIndex = new Map<number, IndexedWorkOrder>();
+    
+    // Routing steps define which work orders of an MO must finish before others start
+    const routingSteps = await loadRoutingSteps();
+    
     // Get existing assignments to skip already assigned work orders
-    const existingAssignments = await db
-      .select({ workOrderId: workOrderAssignments.workOrderId })
+    let existingAssignments: ExistingAssignment[] = await db
+      .select({
+        workOrderId: workOrderAssignments.workOrderId,
+        operatorId: workOrderAssignments.operatorId,
+        estimatedHours: workOrderAssignments.estimatedHours,
+        assignedBy: workOrderAssignments.assignedBy,
+        isLocked: workOrderAssignments.isLocked,
+        isAutoAssigned: workOrderAssignments.isAutoAssigned,
+        autoAssignReason: workOrderAssignments.autoAssignReason,
+        autoAssignConfidence: workOrderAssignments.autoAssignConfidence,
+        autoAssignDecision: workOrderAssignments.autoAssignDecision,
+        scheduledStart: workOrderAssignments.scheduledStart,
+        scheduledEnd: workOrderAssignments.scheduledEnd
+      })
       .from(workOrderAssignments)
       .where(eq(workOrderAssignments.isActive, true));
+    // The live plan before this run, for the change report
+    const liveAssignments = existingAssignments;
+    
+    // Locked (pinned) assignments always stay as fixed constraints; incremental
+    // runs never clear already-communicated assignments
+    if (options.replaceAutoAssignments && !options.incremental) {
+      existingAssignments = existingAssignments.filter(a => a.isLocked || a.assignedBy !== "AI Auto-Assign");
+    }
+    const lockedCount = existingAssignments.filter(a => a.isLocked).length;
+    if (lockedCount > 0) {
+      console.log(`🔒 ${lockedCount} locked assignments kept fixed`);
+    }
     
     const assignedWorkOrderIds = new Set(existingAssignments.map(a => a.workOrderId));
     console.log(`Found ${existingAssignments.length} existing active assignments to skip`);
@@ -367,6 +448,20 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
       if (po.workOrders && Array.isArray(po.workOrders)) {
         for (const wo of po.workOrders) {
           const workOrderId = parseInt(wo.id);
+          const dueDate = resolveDueDate(po.planned_date, po.dueDate);
+          const sequence = resolveStepSequence(
+            routingSteps.get(po.routing),
+            wo.originalWorkCenter || wo.workCenter || '',
+            wo.operation || ''
+          );
+          
+          workOrderIndex.set(workOrderId, {
+            moNumber: po.moNumber,
+            routing: po.routing,
+            workCenter: wo.workCenter || wo.originalWorkCenter || 'Unknown',
+            dueDate,
+            sequence
+          });
           
           // Skip if already assigned
           if (assignedWorkOrderIds.has(workOrderId)) {
@@ -385,9 +480,11 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
               quantity: po.quantity,
               workCenter: wo.workCenter || wo.originalWorkCenter,
               operation: wo.operation,
-              sequence: 1,
+              sequence,
               productionOrderId: po.id,
-              state: wo.state
+              state: wo.state,
+              dueDate,
+              priority: normalizePriority(po.priority)
             });
           }
         }
@@ -405,18 +502,41 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
     
     if (unassignedWorkOrders.length === 0) {
       console.log(`🚨 DEBUG AUTO-ASSIGN: No unassigned work orders - returning success with empty assignments`);
+      const schedule = options.mode === 'schedule'
+        ? await scheduleActiveAssignments([], existingAssignments, workOrderIndex, options)
+        : undefined;
+      if (!options.dryRun) {
+        await savePlanningWatermark(runStartedAt);
+      }
       return {
         success: true,
         assignments: [],
         unassigned: [],
-        summary: "No unassigned work orders found",
+        summary: options.incremental ? "No new work orders to slot in" : "No unassigned work orders found",
         totalHoursOptimized: 0,
-        operatorUtilization: new Map()
+        totalTardiness: 0,
+        operatorUtilization: new Map(),
+        schedule,
+        plan: options.dryRun ? buildPlan(existingAssignments, []) : undefined,
+        changeReport: buildChangeReport({
+          mode: options.incremental ? 'incremental' : 'full',
+          since,
+          newWorkOrders: 0,
+          before: liveAssignments,
+          after: planRowsAfter(existingAssignments, [], schedule),
+          unassigned: [],
+          decisions: new Map(),
+          moNumbers: new Map([...workOrderIndex].map(([id, indexed]) => [id, indexed.moNumber])),
+          operatorNames: new Map()
+        })
       };
     }
     
     console.log(`🔍 DEBUG AUTO-ASSIGN: Found ${unassignedWorkOrders.length} unassigned work orders:`, unassignedWorkOrders.map(wo => `WO${wo.workOrderId} (${wo.workCenter}/${wo.routing})`));
 
+    // Objective weights: explicit overrides for this run, else the planner-saved weights
+    const weights = options.weights ? normalizeWeights(options.weights) : await getAssignmentWeights();
+    
     // Step 2: Get all active operators with their UPH data
     const activeOperators = await db
       .select()
@@ -432,41 +552,56 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
     // Build operator profiles with UPH data
     const operatorProfiles = new Map<number, OperatorProfile>();
     
-    // Get existing assignments to calculate current workload
-    const existingAssignmentHours = await db
-      .select({
-        operatorId: workOrderAssignments.operatorId,
-        estimatedHours: workOrderAssignments.estimatedHours
-      })
-      .from(workOrderAssignments)
-      .where(eq(workOrderAssignments.isActive, true));
+    // Real available hours from shift calendars, time off and holidays over the capacity window
+    const capacityStart = options.startDate ?? new Date();
+    const capacityDays = options.horizonDays ?? DEFAULT_CAPACITY_DAYS;
+    const calendar = await loadOperatorCalendar(activeOperators.map(op => op.id), { start: capacityStart, days: capacityDays });
     
-    // Group existing hours by operator
+    // Group existing hours by operator to calculate current workload
     const operatorCurrentHours = new Map<number, number>();
-    for (const assignment of existingAssignmentHours) {
+    for (const assignment of existingAssignments) {
       const current = operatorCurrentHours.get(assignment.operatorId) || 0;
       operatorCurrentHours.set(assignment.operatorId, current + (assignment.estimatedHours || 0));
     }
     
     console.log(`🔍 DEBUG EXISTING OPERATOR HOURS:`, Array.from(operatorCurrentHours.entries()).map(([id, hours]) => `OP${id}:${hours}h`));
     
+    const allUphRecords = await db.select().from(uphData);
+    const familyRows = allUphRecords.map(toFamilyRow);
+    const families = await getProductFamilies();
+    const demandedRoutings = new Set(unassignedWorkOrders.map(wo => `${wo.workCenter}|${wo.routing}`));
+    
     for (const op of activeOperators) {
-      const operatorUphMap = new Map<string, { uph: number; observations: number }>();
+      const operatorUphMap = new Map<string, OperatorUph>();
       
-      // Get all UPH data for this operator using name-based lookup
-      const operatorUphData = await db
-        .select()
-        .from(uphData)
-        .where(eq(uphData.operatorName, op.name));
+      // All UPH data for this operator using name-based lookup
+      const operatorUphData = allUphRecords.filter(record => record.operatorName === op.name);
       
       for (const uphRecord of operatorUphData) {
         const key = `${uphRecord.workCenter}-${uphRecord.productRouting}`;
         operatorUphMap.set(key, {
-          uph: uphRecord.uph || 0,
-          observations: uphRecord.observationCount || 0
+          uph: uphRecord.shrunkUph ?? uphRecord.uph ?? 0,
+          observations: uphRecord.observationCount || 0,
+          uphLow: uphRecord.uphCiLow,
+          uphHigh: uphRecord.uphCiHigh,
+          inferred: null
         });
       }
       
+      // Routings in the backlog this operator never ran at a work center they
+      // have enabled: infer UPH from related routings so they are not skipped
+      for (const demanded of demandedRoutings) {
+        const [workCenter, routing] = demanded.split('|');
+        const key = `${workCenter}-${routing}`;
+        if (operatorUphMap.has(key) || !hasWorkCenterEnabled(op.workCenters || [], workCenter)) continue;
+        
+        const inferred = inferUph({ operatorName: op.name, workCenter, routing }, familyRows, families);
+        if (inferred) {
+          operatorUphMap.set(key, { uph: inferred.uph, observations: 0, uphLow: null, uphHigh: null, inferred });
+          console.log(`🧬 ${op.name}: ${routing} (${workCenter}) ${inferred.uph.toFixed(1)} UPH ${describeInferredUph(inferred)}`);
+        }
+      }
+      
       // Debug Cutting UPH data
       if (op.workCenters?.includes('Cutting')) {
         const cuttingKeys = Array.from(operatorUphMap.keys()).filter(k => k.startsWith('Cutting-'));
@@ -474,7 +609,12 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
       }
       
       const currentHoursAssigned = operatorCurrentHours.get(op.id) || 0;
-      const maxHours = op.availableHours || 40;
+      const maxHours = calendar.hoursBetween(op.id, capacityStart, capacityDays);
+      
+      if (maxHours <= 0) {
+        console.log(`🗓️ Skipping ${op.name}: no working hours in the next ${capacityDays} days`);
+        continue;
+      }
       
       console.log(`🔍 DEBUG OPERATOR PROFILE: ${op.name} - Current: ${currentHoursAssigned}h, Max: ${maxHours}h, Available: ${maxHours - currentHoursAssigned}h`);
       
@@ -484,6 +624,7 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
         skills: [...(op.workCenters || []), ...(op.routings || [])],
         currentCapacity: (currentHoursAssigned / maxHours) * 100,
         maxHours: maxHours,
+        dailyHours: (day: Date) => calendar.hoursOn(op.id, day),
         hoursAssigned: currentHoursAssigned, // Include existing assignments
         activeAssignments: 0,
         uphData: operatorUphMap
@@ -497,6 +638,8 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
     // Step 4: Process work centers in specific order: Assembly, Cutting, Packaging
     const allAssignments = new Map<number, WorkOrderData[]>();
     const successfulAssignments: number[] = [];
+    // Every candidate considered per work order, stored with the assignment
+    const decisions = new Map<number, AssignmentDecision>();
     const failedAssignments: number[] = [];
     
     // Define processing order
@@ -528,9 +671,14 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
         workCenter: wo.workCenter,
         operation: wo.operation,
         expectedHours: 0, // Will be calculated based on UPH
-        sequence: wo.sequence
+        sequence: wo.sequence,
+        dueDate: wo.dueDate,
+        priority: wo.priority
       }));
       
+      // Urgent work orders (High priority, then earliest due) pick operators first
+      workOrderData.sort(compareByUrgency);
+      
       // Get operators with experience in this work center
       const qualifiedOperators = [];
       const operatorsWithWorkCenterExperience = [];
@@ -541,17 +689,7 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
         const operator = activeOperators.find(op => op.id === opId);
         if (!operator) continue;
         
-        const operatorWorkCenters = operator.workCenters || [];
-        let hasWorkCenter = false;
-        
-        // Handle Assembly work center - operator can have Assembly, Sewing, or Rope
-        if (workCenter === 'Assembly') {
-          hasWorkCenter = operatorWorkCenters.includes('Assembly') || 
-                         operatorWorkCenters.includes('Sewing') || 
-                         operatorWorkCenters.includes('Rope');
-        } else {
-          hasWorkCenter = operatorWorkCenters.includes(workCenter);
-        }
+        const hasWorkCenter = hasWorkCenterEnabled(operator.workCenters || [], workCenter);
         
         if (!hasWorkCenter) {
           continue; // Skip this operator if they don't have the work center enabled
@@ -630,8 +768,16 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
           // Rule-based assignment algorithm
           for (const workOrder of workOrderData) {
             let bestOperator = null;
-            let bestScore = -1;
+            let bestScore = -Infinity;
             let expectedHours = 0;
+            const candidates = [];
+            
+            // Operators with the work center enabled but no UPH history there are never scored
+            for (const enabledOp of operatorsWithWorkCenterEnabled) {
+              const operatorProfile = operatorProfiles.get(enabledOp.id);
+              if (!operatorProfile || qualifiedOperators.some(op => op.id === enabledOp.id)) continue;
+              candidates.push(evaluateCandidate(operatorProfile, null, null, null, `No UPH history in ${workCenter}`));
+            }
             
             // Find best operator for this work order
             for (const qualifiedOp of qualifiedOperators) {
@@ -641,30 +787,29 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
               const uphKey = `${workCenter}-${workOrder.routing}`;
               const uphEntry = operatorProfile.uphData.get(uphKey);
               
-              if (!uphEntry || uphEntry.uph <= 0) continue;
+              if (!uphEntry || uphEntry.uph <= 0) {
+                candidates.push(evaluateCandidate(operatorProfile, null, null, null, `No UPH for ${workOrder.routing} in ${workCenter}`));
+                continue;
+              }
               
               const woExpectedHours = workOrder.quantity / uphEntry.uph;
-              const remainingHours = operatorProfile.maxHours - operatorProfile.hoursAssigned;
               
               // Don't skip based on capacity - allow all assignments
               
-              // Calculate operator score (higher is better)
-              let score = 0;
-              
-              // Factor 1: UPH performance (30% weight)
-              score += (uphEntry.uph / 100) * 0.3;
-              
-              // Factor 2: Reliability based on observations (25% weight)
-              const reliabilityScore = Math.min(uphEntry.observations / 10, 1);
-              score += reliabilityScore * 0.25;
-              
-              // Factor 3: Available capacity (25% weight)
-              const capacityScore = remainingHours / operatorProfile.maxHours;
-              score += capacityScore * 0.25;
-              
-              // Factor 4: Current workload balance (20% weight) - prefer less loaded operators
-              const workloadScore = 1 - (operatorProfile.hoursAssigned / operatorProfile.maxHours);
-              score += workloadScore * 0.2;
+              // Calculate operator score (higher is better): UPH, reliability, capacity,
+              // workload balance and a priority-weighted lateness penalty
+              const candidateScore = scoreCandidate({
+                uph: uphEntry.uph,
+                observations: uphEntry.observations,
+                hoursAssigned: operatorProfile.hoursAssigned,
+                maxHours: operatorProfile.maxHours,
+                dailyHours: operatorProfile.dailyHours,
+                expectedHours: woExpectedHours,
+                dueDate: workOrder.dueDate,
+                priority: workOrder.priority
+              }, weights);
+              const score = candidateScore.total;
+              candidates.push(evaluateCandidate(operatorProfile, uphEntry, woExpectedHours, candidateScore));
               
               if (score > bestScore) {
                 bestScore = score;
@@ -673,13 +818,30 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
               }
             }
             
+            decisions.set(workOrder.workOrderId, finalizeDecision({
+              workOrderId: workOrder.workOrderId,
+              moNumber: workOrder.moNumber,
+              workCenter,
+              routing: workOrder.routing,
+              quantity: workOrder.quantity,
+              dueDate: workOrder.dueDate ? workOrder.dueDate.toISOString() : null,
+              priority: workOrder.priority,
+              weights,
+              candidates
+            }, bestOperator?.id ?? null));
+            
             if (bestOperator) {
+              const bestUph = bestOperator.uphData.get(`${workCenter}-${workOrder.routing}`);
+              const range = hoursRange(workOrder.quantity, bestUph);
               assignments.push({
                 workOrderId: workOrder.workOrderId,
                 operatorId: bestOperator.id,
                 expectedHours: expectedHours,
-                reasoning: `Best fit: ${bestOperator.name} (${bestOperator.uphData.get(`${workCenter}-${workOrder.routing}`)?.uph.toFixed(1)} UPH, ${expectedHours.toFixed(1)}h needed)`,
-                confidence: Math.min(bestScore, 1)
+                reasoning: `Best fit: ${bestOperator.name} (${bestUph?.uph.toFixed(1)} UPH` +
+                  (bestUph?.inferred ? ` ${describeInferredUph(bestUph.inferred)}` : '') +
+                  `, ${expectedHours.toFixed(1)}h needed` +
+                  (range ? `, ${range.low.toFixed(1)}–${range.high.toFixed(1)}h)` : ')'),
+                confidence: Math.max(0, Math.min(bestScore, 1))
               });
               
               // Update operator's assigned hours for next iterations
@@ -737,7 +899,7 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
     }
     
     // Step 5: Check for overloaded operators and rebalance if needed
-    const reassignments = await rebalanceOverloadedOperators(allAssignments, operatorProfiles);
+    const reassignments = await rebalanceOverloadedOperators(allAssignments, operatorProfiles, weights);
     
     // Apply reassignments
     for (const [workOrderId, newOperatorId] of reassignments) {
@@ -779,6 +941,80 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
           newProfile.hoursAssigned += workOrderData.expectedHours;
           newProfile.activeAssignments++;
         }
+        
+        const decision = decisions.get(workOrderId);
+        if (decision && currentProfile && newProfile) {
+          // Rebalance targets only need UPH for the routing, so they may not be recorded candidates yet
+          if (!decision.candidates.some(candidate => candidate.operatorId === newOperatorId)) {
+            const uphEntry = newProfile.uphData.get(`${workOrderData.workCenter}-${workOrderData.routing}`) ?? null;
+            decision.candidates.push(evaluateCandidate(newProfile, uphEntry, workOrderData.expectedHours, null));
+          }
+          decisions.set(workOrderId, markRebalanced(
+            decision,
+            newOperatorId,
+            currentProfile,
+            `Over 90% of available hours; moved to ${newProfile.name} during rebalancing`
+          ));
+        }
+      }
+    }
+    
+    // Step 5b: Optionally re-solve the new work orders with a solver backend
+    let solverReport: SolverReport | undefined;
+    const solverUnassigned = new Set<number>();
+    if (options.solver && options.solver !== 'greedy') {
+      const greedyPlan = new Map<number, number>();
+      const workOrderById = new Map<number, WorkOrderData>();
+      for (const [opId, workOrdersList] of allAssignments) {
+        for (const wo of workOrdersList) {
+          greedyPlan.set(wo.workOrderId, opId);
+          workOrderById.set(wo.workOrderId, wo);
+        }
+      }
+      
+      // Skill constraint: operators scored for the work order; hours from their UPH
+      const tasks: SolverTask[] = [...workOrderById.keys()].map(workOrderId => ({
+        workOrderId,
+        options: (decisions.get(workOrderId)?.candidates || [])
+          .filter(candidate => candidate.score !== null && candidate.expectedHours !== null)
+          .map(candidate => ({ operatorId: candidate.operatorId, hours: candidate.expectedHours! }))
+      }));
+      const capacity = new Map([...operatorProfiles.values()].map(profile => [
+        profile.id,
+        Math.max(0, profile.maxHours - (operatorCurrentHours.get(profile.id) || 0))
+      ]));
+      const problem = { tasks, capacity };
+      const taskById = new Map(tasks.map(task => [task.workOrderId, task]));
+      
+      const solution = getSolver(options.solver).solve(problem);
+      solverReport = compareWithGreedy(problem, solution, greedyPlan);
+      console.log(`🧮 ${options.solver} solver: ${solution.totalHours.toFixed(1)}h vs greedy ${solverReport.greedy.totalHours.toFixed(1)}h (gap ${solverReport.gapPercent.toFixed(1)}%, ${solution.provenOptimal ? 'proven optimal' : 'node limit reached'}, ${solution.nodesExplored} nodes)`);
+      
+      // Rebuild operator loads from the solver's plan
+      allAssignments.clear();
+      for (const profile of operatorProfiles.values()) {
+        profile.hoursAssigned = operatorCurrentHours.get(profile.id) || 0;
+        profile.activeAssignments = 0;
+      }
+      for (const [workOrderId, operatorId] of solution.assignments) {
+        const wo = workOrderById.get(workOrderId)!;
+        const profile = operatorProfiles.get(operatorId)!;
+        wo.expectedHours = taskById.get(workOrderId)!.options.find(option => option.operatorId === operatorId)!.hours;
+        profile.hoursAssigned += wo.expectedHours;
+        profile.activeAssignments++;
+        if (!allAssignments.has(operatorId)) allAssignments.set(operatorId, []);
+        allAssignments.get(operatorId)!.push(wo);
+      }
+      for (const workOrderId of solution.unassigned) {
+        solverUnassigned.add(workOrderId);
+        failedAssignments.push(workOrderId);
+      }
+      
+      for (const workOrderId of workOrderById.keys()) {
+        const decision = decisions.get(workOrderId);
+        if (decision) {
+          decisions.set(workOrderId, markSolved(decision, solution.assignments.get(workOrderId) ?? null, options.solver));
+        }
       }
     }
     
@@ -794,7 +1030,9 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
           isActive: true,
           isAutoAssigned: true,
           autoAssignReason: `Assigned based on UPH performance for ${wo.workCenter} work center`,
-          autoAssignConfidence: 0.85
+          autoAssignConfidence: 0.85,
+          autoAssignDecision: decisions.get(wo.workOrderId) ?? null,
+          estimatedHours: wo.expectedHours
         });
       }
     }
@@ -803,7 +1041,12 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
     let savedCount = 0;
     const actualSavedAssignments: number[] = [];
     
-    if (assignmentRecords.length > 0) {
+    if (options.dryRun) {
+      // Dry run: nothing is written, every planned record counts as placed
+      savedCount = assignmentRecords.length;
+      actualSavedAssignments.push(...assignmentRecords.map(record => record.workOrderId));
+      console.log(`Dry run: planned ${savedCount} assignments without saving`);
+    } else if (assignmentRecords.length > 0) {
       console.log(`Saving ${assignmentRecords.length} assignments to database...`);
       
       // First, clear any existing AI assignments for these work orders
@@ -814,7 +1057,8 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
           .where(
             and(
               inArray(workOrderAssignments.workOrderId, workOrderIds),
-              eq(workOrderAssignments.assignedBy, "AI Auto-Assign")
+              eq(workOrderAssignments.assignedBy, "AI Auto-Assign"),
+              isUnlocked()
             )
           );
       } catch (deleteError) {
@@ -877,7 +1121,9 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
       });
       
       let reason = "";
-      if (!hasQualifiedOperators) {
+      if (solverUnassigned.has(workOrderId)) {
+        reason = `No operator capacity left in the ${capacityDays}-day horizon (${options.solver} solver)`;
+      } else if (!hasQualifiedOperators) {
         unassignableWorkOrders.push(workOrderId);
         reason = `No operators with UPH data for ${wo.routing} - ${wo.workCenter}`;
         console.log(`No operators with historical data for: ${wo.routing} - ${wo.workCenter}`);
@@ -902,13 +1148,61 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
     // Calculate actual failed assignments (excluding unassignable)
     const actualFailures = failedAssignments.filter(id => !unassignableWorkOrders.includes(id));
     
+    // Step 7: Optionally sequence every active assignment onto operator calendars
+    let schedule: ScheduleResult | undefined;
+    if (options.mode === 'schedule') {
+      const newTasks: ScheduleTask[] = assignmentRecords
+        .filter(record => actualSavedAssignments.includes(record.workOrderId))
+        .map(record => {
+          const indexed = workOrderIndex.get(record.workOrderId);
+          return {
+            workOrderId: record.workOrderId,
+            operatorId: record.operatorId,
+            moNumber: indexed?.moNumber || `WO${record.workOrderId}`,
+            workCenter: indexed?.workCenter || 'Unknown',
+            routing: indexed?.routing || 'Unknown',
+            expectedHours: record.estimatedHours || 0,
+            dueDate: indexed?.dueDate || null,
+            sequence: indexed?.sequence
+          };
+        });
+      schedule = await scheduleActiveAssignments(newTasks, existingAssignments, workOrderIndex, options);
+    }
+    
+    // Exactly which assignments this run added, moved or rescheduled, and why
+    const savedRecords = assignmentRecords.filter(record => actualSavedAssignments.includes(record.workOrderId));
+    const changeReport = buildChangeReport({
+      mode: options.incremental ? 'incremental' : 'full',
+      since,
+      newWorkOrders: unassignedWorkOrders.length,
+      before: liveAssignments,
+      after: planRowsAfter(existingAssignments, savedRecords, schedule),
+      unassigned: unassignedDetails.filter(detail => !actualSavedAssignments.includes(detail.workOrderId)),
+      decisions,
+      moNumbers: new Map([...workOrderIndex].map(([id, indexed]) => [id, indexed.moNumber])),
+      operatorNames: new Map([...operatorProfiles.values()].map(profile => [profile.id, profile.name]))
+    });
+    if (!options.dryRun) {
+      const stillUnassigned = unassignedWorkOrders
+        .map(wo => wo.workOrderId)
+        .filter(workOrderId => !actualSavedAssignments.includes(workOrderId));
+      await savePlanningWatermark(runStartedAt, stillUnassigned);
+    }
+    
+    // Tardiness: from the schedule when one was built, otherwise projected from each operator's queue
+    const totalTardiness = schedule
+      ? schedule.moCompletions.reduce((sum, mo) => sum + mo.daysLate, 0)
+      : projectTardiness(allAssignments, operatorCurrentHours, operatorProfiles);
+    
     // Create detailed summary
     let summary = "";
     const successfulWorkCenters = workCenterResults.filter(r => r.success);
     const failedWorkCenters = workCenterResults.filter(r => !r.success);
     
     if (savedCount > 0) {
-      summary += `Successfully saved ${savedCount} work order assignments.`;
+      summary += options.dryRun
+        ? `Planned ${savedCount} work order assignments (not saved).`
+        : `Successfully saved ${savedCount} work order assignments.`;
     }
     
     if (failedWorkCenters.length > 0) {
@@ -919,9 +1213,19 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
       summary += ` ${unassignableWorkOrders.length} work orders couldn't be assigned (no operators with historical data).`;
     }
     
+    if (options.incremental) {
+      const moved = changeReport.changes.filter(change => change.change === 'moved' || change.change === 'rescheduled').length;
+      summary += ` Incremental run: ${changeReport.newWorkOrders} new work orders, ${moved} existing assignments changed, ${changeReport.unchanged} unchanged.`;
+    }
+    
+    if (solverReport) {
+      summary += ` ${solverReport.solver} solver: ${solverReport.totalHours.toFixed(1)}h vs ${solverReport.greedy.totalHours.toFixed(1)}h greedy (${solverReport.gapPercent.toFixed(1)}% gap${solverReport.provenOptimal ? '' : ', best found'}).`;
+    }
+    
     // Success is determined by actual saved assignments, not just AI planning
     // Even if some work centers fail, we consider it a success if ANY assignments were made
     const isSuccess = savedCount > 0;
+    const plan = options.dryRun ? buildPlan(existingAssignments, assignmentRecords) : undefined;
     
     // Ensure summary is never undefined
     if (!summary) {
@@ -946,6 +1250,9 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
       if (actualSavedAssignments.includes(record.workOrderId)) {
         const operator = [...operatorProfiles.values()].find(op => op.id === record.operatorId);
         const workOrder = [...allAssignments.values()].flat().find(wo => wo.workOrderId === record.workOrderId);
+        const range = workOrder
+          ? hoursRange(workOrder.quantity, operator?.uphData.get(`${workOrder.workCenter}-${workOrder.routing}`))
+          : null;
         
         detailedAssignments.push({
           workOrderId: record.workOrderId,
@@ -954,6 +1261,8 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
           reason: record.autoAssignReason,
           expectedUph: workOrder?.expectedHours && workOrder.quantity ? Math.round(workOrder.quantity / workOrder.expectedHours) : 0,
           expectedHours: workOrder?.expectedHours || 0,
+          expectedHoursLow: range?.low ?? null,
+          expectedHoursHigh: range?.high ?? null,
           confidence: record.autoAssignConfidence
         });
       }
@@ -970,8 +1279,14 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
         unassignedDetails: unassignedDetails,
         summary: summary.trim() || (isSuccess ? "Auto-assign completed" : "No assignments could be made"),
         totalHoursOptimized,
+        totalTardiness,
+        weights,
         operatorUtilization,
         workCenterResults,
+        schedule,
+        plan,
+        solverReport,
+        changeReport,
         progress: {
           current: workCenterOrder.length,
           total: workCenterOrder.length
@@ -987,8 +1302,14 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
       unassignedDetails: unassignedDetails,
       summary: summary.trim() || (isSuccess ? "Auto-assign completed" : "No assignments could be made"),
       totalHoursOptimized,
+      totalTardiness,
+      weights,
       operatorUtilization,
       workCenterResults,
+      schedule,
+      plan,
+      solverReport,
+      changeReport,
       progress: {
         current: workCenterOrder.length,
         total: workCenterOrder.length
@@ -1003,28 +1324,243 @@ export async function autoAssignWorkOrders(): Promise<AutoAssignResult> {
       unassignedDetails: [],
       summary: error instanceof Error ? error.message : "Auto-assign failed",
       totalHoursOptimized: 0,
+      totalTardiness: 0,
       operatorUtilization: new Map()
     };
   }
 }
 
+// Replay each operator's new work orders in urgency order behind their existing
+// backlog and sum the projected days late against due dates
+function projectTardiness(
+  assignments: Map<number, WorkOrderData[]>,
+  existingHours: Map<number, number>,
+  operatorProfiles: Map<number, OperatorProfile>
+): number {
+  const now = new Date();
+  let totalDaysLate = 0;
+  
+  for (const [operatorId, workOrdersList] of assignments) {
+    const profile = operatorProfiles.get(operatorId);
+    if (!profile) continue;
+    
+    let backlog = existingHours.get(operatorId) || 0;
+    for (const wo of [...workOrdersList].sort(compareByUrgency)) {
+      backlog += wo.expectedHours;
+      if (!wo.dueDate) continue;
+      
+      const finish = projectFinish(now, backlog, profile.dailyHours);
+      if (finish > wo.dueDate) {
+        totalDaysLate += (finish.getTime() - wo.dueDate.getTime()) / (24 * 60 * 60 * 1000);
+      }
+    }
+  }
+  
+  return Math.round(totalDaysLate * 10) / 10;
+}
+
+// Handle Assembly work center - operator can have Assembly, Sewing, or Rope
+function hasWorkCenterEnabled(operatorWorkCenters: string[], workCenter: string): boolean {
+  if (workCenter === 'Assembly') {
+    return operatorWorkCenters.includes('Assembly') ||
+      operatorWorkCenters.includes('Sewing') ||
+      operatorWorkCenters.includes('Rope');
+  }
+  return operatorWorkCenters.includes(workCenter);
+}
+
+function toFamilyRow(record: typeof uphData.$inferSelect): FamilyUphRow {
+  return {
+    operatorName: record.operatorName,
+    workCenter: record.workCenter,
+    routing: record.productRouting,
+    uph: record.shrunkUph ?? record.uph,
+    observations: record.observationCount || 0
+  };
+}
+
+// Hours a work order could take across the UPH interval (fast end first)
+function hoursRange(quantity: number, uph: OperatorUph | undefined): { low: number; high: number } | null {
+  if (!uph || !uph.uphHigh || !uph.uphLow || uph.uphLow <= 0) return null;
+  return { low: quantity / uph.uphHigh, high: quantity / uph.uphLow };
+}
+
+// Operator and slot per work order after a run. Slots are left undefined when
+// the run did not schedule, so the change report ignores them.
+function planRowsAfter(
+  existing: ExistingAssignment[],
+  records: Array<{ workOrderId: number; operatorId: number }>,
+  schedule: ScheduleResult | undefined
+): Array<{ workOrderId: number; operatorId: number; scheduledStart?: Date | null; scheduledEnd?: Date | null }> {
+  const newIds = new Set(records.map(record => record.workOrderId));
+  const slots = new Map((schedule?.slots || []).map(slot => [slot.workOrderId, slot]));
+  const unscheduled = new Set((schedule?.unscheduled || []).map(item => item.workOrderId));
+  
+  const timesFor = (workOrderId: number, previous?: ExistingAssignment) => {
+    if (!schedule) return {};
+    const slot = slots.get(workOrderId);
+    if (slot) return { scheduledStart: slot.start, scheduledEnd: slot.end };
+    if (unscheduled.has(workOrderId)) return { scheduledStart: null, scheduledEnd: null };
+    return { scheduledStart: previous?.scheduledStart ?? null, scheduledEnd: previous?.scheduledEnd ?? null };
+  };
+  
+  return [
+    ...existing
+      .filter(assignment => !newIds.has(assignment.workOrderId))
+      .map(assignment => ({
+        workOrderId: assignment.workOrderId,
+        operatorId: assignment.operatorId,
+        ...timesFor(assignment.workOrderId, assignment)
+      })),
+    ...records.map(record => ({
+      workOrderId: record.workOrderId,
+      operatorId: record.operatorId,
+      ...timesFor(record.workOrderId)
+    }))
+  ];
+}
+
+// Combine kept live assignments with newly planned records into one complete plan
+function buildPlan(
+  existing: ExistingAssignment[],
+  records: Array<{
+    workOrderId: number;
+    operatorId: number;
+    estimatedHours: number;
+    assignedBy: string;
+    isAutoAssigned: boolean;
+    autoAssignReason: string;
+    autoAssignConfidence: number;
+    autoAssignDecision: AssignmentDecision | null;
+  }>
+): PlannedAssignment[] {
+  const newIds = new Set(records.map(record => record.workOrderId));
+  
+  return [
+    ...existing
+      .filter(assignment => !newIds.has(assignment.workOrderId))
+      .map(assignment => ({
+        workOrderId: assignment.workOrderId,
+        operatorId: assignment.operatorId,
+        estimatedHours: assignment.estimatedHours || 0,
+        assignedBy: assignment.assignedBy || "dashboard",
+        isAutoAssigned: assignment.isAutoAssigned || false,
+        autoAssignReason: assignment.autoAssignReason,
+        autoAssignConfidence: assignment.autoAssignConfidence,
+        autoAssignDecision: (assignment.autoAssignDecision as AssignmentDecision | null) ?? null,
+        isNew: false
+      })),
+    ...records.map(record => ({
+      workOrderId: record.workOrderId,
+      operatorId: record.operatorId,
+      estimatedHours: record.estimatedHours || 0,
+      assignedBy: record.assignedBy,
+      isAutoAssigned: record.isAutoAssigned,
+      autoAssignReason: record.autoAssignReason,
+      autoAssignConfidence: record.autoAssignConfidence,
+      autoAssignDecision: record.autoAssignDecision,
+      isNew: true
+    }))
+  ];
+}
+
+// Sequence existing active assignments plus newly made ones into dated slots
+async function scheduleActiveAssignments(
+  newTasks: ScheduleTask[],
+  existing: ExistingAssignment[],
+  workOrderIndex: Map<number, IndexedWorkOrder>,
+  options: AutoAssignOptions
+): Promise<ScheduleResult> {
+  const newIds = new Set(newTasks.map(task => task.workOrderId));
+  
+  const tasks: ScheduleTask[] = [...newTasks];
+  const fixedSlots: ScheduledSlot[] = [];
+  for (const assignment of existing) {
+    if (newIds.has(assignment.workOrderId)) continue;
+    const indexed = workOrderIndex.get(assignment.workOrderId);
+    
+    // Incremental runs keep already-communicated slots where they are
+    if (options.incremental && assignment.scheduledStart && assignment.scheduledEnd) {
+      fixedSlots.push({
+        workOrderId: assignment.workOrderId,
+        operatorId: assignment.operatorId,
+        moNumber: indexed?.moNumber || `WO${assignment.workOrderId}`,
+        workCenter: indexed?.workCenter || 'Unknown',
+        routing: indexed?.routing || 'Unknown',
+        sequence: indexed?.sequence ?? 0,
+        hours: assignment.estimatedHours || 0,
+        start: assignment.scheduledStart,
+        end: assignment.scheduledEnd,
+        predecessorWorkOrderId: null
+      });
+      continue;
+    }
+    
+    // Assignments for work orders no longer in flight don't need a slot
+    if (!indexed) continue;
+    
+    tasks.push({
+      workOrderId: assignment.workOrderId,
+      operatorId: assignment.operatorId,
+      moNumber: indexed.moNumber,
+      workCenter: indexed.workCenter,
+      routing: indexed.routing,
+      expectedHours: assignment.estimatedHours || 0,
+      dueDate: indexed.dueDate,
+      sequence: indexed.sequence
+    });
+  }
+  
+  const activeOperators = await db
+    .select({ id: operators.id })
+    .from(operators)
+    .where(eq(operators.isActive, true));
+  
+  const calendar = await loadOperatorCalendar(activeOperators.map(op => op.id), {
+    start: options.startDate,
+    days: options.horizonDays ?? 14
+  });
+  const schedule = scheduleTasks(tasks, {
+    startDate: options.startDate,
+    horizonDays: options.horizonDays,
+    dailyCapacity: calendar.hoursOn,
+    shiftStartHourFor: calendar.shiftStartHourOn,
+    fixedSlots
+  });
+  
+  if (options.dryRun) {
+    console.log(`📅 Dry run: ${schedule.slots.length} slots planned; ${schedule.lateMos.length} MOs projected late`);
+    return schedule;
+  }
+  
+  const persisted = await persistSchedule(schedule);
+  console.log(`📅 Scheduled ${persisted} assignments; ${schedule.unscheduled.length} beyond horizon; ${schedule.lateMos.length} MOs projected late`);
+  
+  return schedule;
+}
+
 // Try different assignment strategies
-export async function regenerateAssignments(): Promise<AutoAssignResult> {
-  // Clear existing auto-assignments
+export async function regenerateAssignments(options: AutoAssignOptions = {}): Promise<AutoAssignResult> {
+  // A dry run plans against a virtual clear instead of deleting rows
+  if (options.dryRun) {
+    return autoAssignWorkOrders({ ...options, replaceAutoAssignments: true });
+  }
+  
+  // Clear existing auto-assignments, keeping locked ones
   await db
     .delete(workOrderAssignments)
-    .where(eq(workOrderAssignments.assignedBy, "AI Auto-Assign"));
+    .where(and(eq(workOrderAssignments.assignedBy, "AI Auto-Assign"), isUnlocked()));
     
   // Run auto-assign with higher temperature for variation
-  return autoAssignWorkOrders();
+  return autoAssignWorkOrders(options);
 }
 
-// Clear all assignments
+// Clear all assignments except locked ones
 export async function clearAllAssignments(): Promise<{ success: boolean; cleared: number }> {
   try {
     const result = await db
       .delete(workOrderAssignments)
-      .where(eq(workOrderAssignments.isActive, true));
+      .where(and(eq(workOrderAssignments.isActive, true), isUnlocked()));
       
     return {
       success: true,
@@ -1039,13 +1575,13 @@ export async function clearAllAssignments(): Promise<{ success: boolean; cleared
   }
 }
 
-// Clear assignments by optional work center and routing filter
+// Clear assignments by optional work center and routing filter, keeping locked ones
 export async function clearAssignmentsByFilter({
   workCenter,
   routing,
 }: { workCenter?: string; routing?: string }): Promise<{ success: boolean; cleared: number }> {
   try {
-    const conditions = [] as any[];
+    const conditions = [isUnlocked()] as any[];
 
     if (workCenter) {
       conditions.push(
@@ -1064,7 +1600,7 @@ export async function clearAssignmentsByFilter({
       );
     }
 
-    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+    const whereClause = and(...conditions);
 
     const result = await db.delete(workOrderAssignments).where(whereClause);
 
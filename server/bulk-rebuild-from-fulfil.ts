@@ -1,5 +1,6 @@
 import { sql } from "drizzle-orm";
 import { db } from './db.js';
+import { getFulfilBaseUrl } from './fulfil-transport.js';
 
 /**
  * CRITICAL: Bulk Rebuild Corrupted Data from Fulfil API
@@ -51,7 +52,7 @@ async function fetchBulkWorkCyclesFromAPI(): Promise<FulfilWorkCycle[]> {
 
   console.log("🔄 FETCHING BULK WORK CYCLES FROM FULFIL API");
   
-  const url = 'https://apc.fulfil.io/api/v2/model/production.work.cycles';
+  const url = `${getFulfilBaseUrl()}/api/v2/model/production.work.cycles`;
   
   const requestBody = {
     method: 'search_read',
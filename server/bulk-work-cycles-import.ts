@@ -1,8 +1,8 @@
 import { db } from "./db.js";
 import { workCycles, operators } from "../shared/schema.js";
 import { eq } from "drizzle-orm";
+import { getFulfilBaseUrl } from "./fulfil-transport.js";
 
-const FULFIL_BASE_URL = "https://apc.fulfil.io";
 const BATCH_SIZE = 500; // Larger batch size for efficiency
 const RATE_LIMIT_DELAY = 500; // 500ms between requests
 
@@ -73,7 +73,7 @@ export async function bulkImportAllWorkCycles() {
       }
 
       // Fetch batch from Fulfil - using production.work.cycle for duration data
-      const response = await fetch(`${FULFIL_BASE_URL}/api/v2/model/production.work.cycle/search_read`, {
+      const response = await fetch(`${getFulfilBaseUrl()}/api/v2/model/production.work.cycle/search_read`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
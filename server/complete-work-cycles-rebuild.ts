@@ -1,5 +1,6 @@
 import { sql } from "drizzle-orm";
 import { db } from './db.js';
+import { getFulfilBaseUrl } from './fulfil-transport.js';
 
 /**
  * CRITICAL: Complete Work Cycles Rebuild from Fulfil API
@@ -65,7 +66,7 @@ async function fetchWorkCyclesPage(offset: number, limit: number): Promise<Fulfi
     throw new Error("FULFIL_ACCESS_TOKEN not found in environment");
   }
 
-  const url = 'https://apc.fulfil.io/model/production.work.cycles/search_read';
+  const url = `${getFulfilBaseUrl()}/model/production.work.cycles/search_read`;
   
   const requestBody = {
     filters: [['state', '=', 'done']], // Only completed cycles
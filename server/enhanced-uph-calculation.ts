@@ -1,143 +1,27 @@
 import { db } from "./db.js";
-import { workCycles, uphData } from "../shared/schema.js";
+import { uphData } from "../shared/schema.js";
 import { eq } from "drizzle-orm";
-import { parseRecName } from "./rec-name-parser.js";
+import { refreshUphData, UPH_ENGINE_DATA_SOURCE } from "./services/uphEngine.js";
 
 /**
- * Enhanced UPH calculation using rec_name field for proper work center aggregation
- * This implementation uses the rec_name field to automatically separate operations:
- * - All "Cutting" operations → Cutting work center
- * - All "Packaging" operations → Packaging work center  
- * - Everything else (Sewing, Assembly, Grommet, Zipper Pull) → Assembly work center
+ * Enhanced UPH calculation, now a full refresh of the stored UPH table by the
+ * UPH engine (Sewing, Rope and Assembly still roll up into Assembly)
  */
 export async function calculateEnhancedUPH() {
-  console.log("🚀 Starting enhanced UPH calculation using rec_name field aggregation...");
+  console.log("🚀 Starting enhanced UPH calculation via the UPH engine...");
   
   try {
-    // Get all work cycles with rec_name data
-    const allCycles = await db.select().from(workCycles);
-    console.log(`📊 Processing ${allCycles.length} work cycles with rec_name parsing`);
-    
-    // Group and aggregate by operator + work center + MO using rec_name parsing
-    const aggregatedData = new Map<string, {
-      operatorName: string;
-      workCenter: string;
-      manufacturingOrder: string;
-      totalDuration: number;
-      totalQuantity: number;
-      cycleCount: number;
-      operations: Set<string>;
-    }>();
-    
-    for (const cycle of allCycles) {
-      if (!cycle.work_cycles_rec_name || !cycle.work_cycles_duration || !cycle.work_cycles_operator_rec_name) {
-        continue;
-      }
-      
-      // Extract operation from work_cycles_rec_name and MO from work_production_number
-      const recNameParts = cycle.work_cycles_rec_name.split('|').map(p => p.trim());
-      const operation = recNameParts[0]; // First part is the operation
-      const manufacturingOrderNumber = cycle.work_production_number; // Use the dedicated MO field
-      
-      if (!manufacturingOrderNumber || !operation) {
-        console.log(`⚠️ Skipping cycle - missing MO or operation:`, { operation, manufacturingOrderNumber });
-        continue;
-      }
-      
-      // Consolidate work centers based on operation type
-      let workCenter = 'Assembly'; // Default fallback
-      if (operation.toLowerCase().includes('cutting')) {
-        workCenter = 'Cutting';
-      } else if (operation.toLowerCase().includes('packaging')) {
-        workCenter = 'Packaging';
-      } else {
-        // Sewing, Assembly, Grommet, Zipper Pull all go to Assembly
-        workCenter = 'Assembly';
-      }
-      
-      const operatorName = cycle.work_cycles_operator_rec_name;
-      const key = `${operatorName}|${workCenter}|${manufacturingOrderNumber}`;
-      
-      if (!aggregatedData.has(key)) {
-        aggregatedData.set(key, {
-          operatorName,
-          workCenter,
-          manufacturingOrder: manufacturingOrderNumber,
-          totalDuration: 0,
-          totalQuantity: 0,
-          cycleCount: 0,
-          operations: new Set()
-        });
-      }
-      
-      const data = aggregatedData.get(key)!;
-      data.totalDuration += cycle.work_cycles_duration;
-      data.totalQuantity += cycle.work_cycles_quantity_done || 1; // Default to 1 if no quantity specified
-      data.cycleCount += 1;
-      data.operations.add(operation);
-    }
-    
-    console.log(`🔄 Aggregated ${allCycles.length} cycles into ${aggregatedData.size} operator+workCenter+MO combinations`);
-    
-    // Calculate UPH for each aggregated group
-    const uphCalculations = [];
-    for (const [key, data] of aggregatedData) {
-      if (data.totalDuration <= 0 || data.totalQuantity <= 0) {
-        continue;
-      }
-      
-      const durationHours = data.totalDuration / 3600; // Convert seconds to hours
-      const uph = data.totalQuantity / durationHours;
-      
-      // Filter realistic UPH values (between 1 and 500)
-      if (uph >= 1 && uph <= 500) {
-        uphCalculations.push({
-          operatorName: data.operatorName,
-          workCenter: data.workCenter,
-          operation: Array.from(data.operations).join(', '), // Combined operations
-          productRouting: data.manufacturingOrder,
-          uph: Math.round(uph * 100) / 100, // Round to 2 decimal places
-          observationCount: data.cycleCount,
-          totalDurationHours: Math.round(durationHours * 100) / 100,
-          totalQuantity: data.totalQuantity,
-          dataSource: 'work_cycles_enhanced',
-          calculationPeriod: 30
-        });
-      }
-    }
-    
-    console.log(`📈 Generated ${uphCalculations.length} valid UPH calculations from enhanced rec_name aggregation`);
-    
-    // Clear existing enhanced UPH data
-    await db.delete(uphData).where(eq(uphData.dataSource, 'work_cycles_enhanced'));
-    
-    // Insert new enhanced UPH calculations in batches
-    if (uphCalculations.length > 0) {
-      const batchSize = 100;
-      let insertedCount = 0;
-      
-      for (let i = 0; i < uphCalculations.length; i += batchSize) {
-        const batch = uphCalculations.slice(i, i + batchSize);
-        try {
-          await db.insert(uphData).values(batch);
-          insertedCount += batch.length;
-          console.log(`✅ Inserted batch ${Math.floor(i/batchSize) + 1}: ${batch.length} records (total: ${insertedCount}/${uphCalculations.length})`);
-        } catch (error) {
-          console.error(`❌ Failed to insert batch ${Math.floor(i/batchSize) + 1}:`, error);
-        }
-      }
-      
-      console.log(`✅ Stored ${insertedCount} enhanced UPH calculations in database`);
-    }
+    const refresh = await refreshUphData();
+    const storedRows = await db.select().from(uphData).where(eq(uphData.dataSource, UPH_ENGINE_DATA_SOURCE));
     
     // Return summary statistics
-    const workCenterStats = uphCalculations.reduce((acc, calc) => {
-      if (!acc[calc.workCenter]) {
-        acc[calc.workCenter] = { count: 0, avgUph: 0, totalObs: 0 };
+    const workCenterStats = storedRows.reduce((acc, row) => {
+      if (!acc[row.workCenter]) {
+        acc[row.workCenter] = { count: 0, avgUph: 0, totalObs: 0 };
       }
-      acc[calc.workCenter].count += 1;
-      acc[calc.workCenter].avgUph += calc.uph;
-      acc[calc.workCenter].totalObs += calc.observationCount;
+      acc[row.workCenter].count += 1;
+      acc[row.workCenter].avgUph += row.uph;
+      acc[row.workCenter].totalObs += row.observationCount || 0;
       return acc;
     }, {} as Record<string, { count: number; avgUph: number; totalObs: number }>);
     
@@ -148,11 +32,13 @@ export async function calculateEnhancedUPH() {
     
     return {
       success: true,
-      totalCyclesProcessed: allCycles.length,
-      aggregatedGroups: aggregatedData.size,
-      validUphCalculations: uphCalculations.length,
+      totalCyclesProcessed: refresh.cyclesProcessed,
+      aggregatedGroups: refresh.combinations,
+      validUphCalculations: refresh.combinations,
       workCenterStats,
-      message: `Enhanced UPH calculation complete: ${uphCalculations.length} calculations stored using rec_name field aggregation`
+      method: refresh.config.method,
+      version: refresh.version,
+      message: `Enhanced UPH calculation complete: ${refresh.combinations} calculations stored by UPH engine ${refresh.version}`
     };
     
   } catch (error) {
@@ -168,7 +54,7 @@ export async function getEnhancedUPHStats() {
   try {
     const enhancedUph = await db.select()
       .from(uphData)
-      .where(eq(uphData.dataSource, 'work_cycles_enhanced'));
+      .where(eq(uphData.dataSource, UPH_ENGINE_DATA_SOURCE));
     
     const stats = {
       totalCalculations: enhancedUph.length,
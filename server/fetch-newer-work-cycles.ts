@@ -1,9 +1,9 @@
 import { db } from "./db.js";
 import { workCycles } from "../shared/schema.js";
 import fetch from 'node-fetch';
+import { getFulfilBaseUrl } from './fulfil-transport.js';
 
 const FULFIL_API_KEY = process.env.FULFIL_ACCESS_TOKEN;
-const FULFIL_API_URL = 'https://apc.fulfil.io/api/v2';
 
 interface FulfilWorkCycle {
   id: number;
@@ -60,7 +60,7 @@ export async function importMultipleBatches(
       
       console.log(`Fetching batch ${batch + 1}/${maxBatches} (offset: ${offset})...`);
       
-      const response = await fetch(`${FULFIL_API_URL}/model/production.work.cycles/search_read`, {
+      const response = await fetch(`${getFulfilBaseUrl()}/api/v2/model/production.work.cycles/search_read`, {
         method: 'PUT',
         headers: {
           'X-API-KEY': FULFIL_API_KEY!,
@@ -196,7 +196,7 @@ export async function importMultipleBatches(
 
 export async function fetchNewerWorkCycles(limit: number = 100): Promise<FulfilWorkCycle[]> {
   // This is a simpler version for backward compatibility
-  const response = await fetch(`${FULFIL_API_URL}/model/production.work.cycles/search_read`, {
+  const response = await fetch(`${getFulfilBaseUrl()}/api/v2/model/production.work.cycles/search_read`, {
     method: 'PUT',
     headers: {
       'X-API-KEY': FULFIL_API_KEY!,
@@ -1,3 +1,5 @@
+import { FulfilAuthError, FulfilError, FulfilNotFoundError, FulfilServerError, FulfilTransport } from "./fulfil-transport.js";
+
 interface FulfilSettings {
   apiKey: string;
   baseUrl: string;
@@ -49,116 +51,67 @@ interface FulfilWorkCycle {
   production?: { id: number };
 }
 
+/**
+ * Fulfil model API. Requests go through the shared FulfilTransport, so
+ * every method throws a typed FulfilError when Fulfil cannot be reached or
+ * rejects the request; an empty result really means no data.
+ */
 export class FulfilAPIService {
-  private baseUrl: string;
-  private apiKey: string | null = null;
-  private headers: Record<string, string> = {
-    'Content-Type': 'application/json'
-  };
+  private transport: FulfilTransport;
 
-  constructor(baseUrl = "https://apc.fulfil.io") {
-    this.baseUrl = baseUrl;
-    
+  constructor(baseUrl?: string) {
     // Check for stored API key from environment
     const storedToken = process.env.FULFIL_ACCESS_TOKEN;
     console.log("Token found in environment:", storedToken ? "Yes" : "No");
-    if (storedToken) {
-      this.setApiKey(storedToken);
-    }
+    this.transport = new FulfilTransport({ baseUrl, apiKey: storedToken });
   }
 
   setApiKey(apiKey: string): void {
-    this.apiKey = apiKey.trim();
-    this.headers['X-API-KEY'] = this.apiKey;
+    this.transport.setApiKey(apiKey);
   }
 
   async testConnection(): Promise<{ connected: boolean; message: string }> {
-    try {
-      if (!this.apiKey) {
-        return { connected: false, message: "API key is required" };
-      }
+    if (!this.transport.hasApiKey()) {
+      return { connected: false, message: "API key is required" };
+    }
 
-      console.log("Testing connection with headers:", { ...this.headers, 'X-API-KEY': '[REDACTED]' });
-      
+    try {
       // Test with simple GET endpoint as per working Python code
-      const endpoint = `${this.baseUrl}/api/v2/model/production?per_page=1`;
-      
-      console.log("Testing endpoint:", endpoint);
-      
-      const response = await fetch(endpoint, {
-        method: 'GET',
-        headers: this.headers,
-        signal: AbortSignal.timeout(10000)
-      });
-
-      const responseText = await response.text();
-      console.log("Response details:", response.status, responseText);
-
-      if (response.status === 200) {
-        return { connected: true, message: "Successfully connected to Fulfil.io" };
-      } else if (response.status === 401) {
+      await this.transport.get('/api/v2/model/production?per_page=1', { timeoutMs: 10000, retries: 0 });
+      return { connected: true, message: "Successfully connected to Fulfil.io" };
+    } catch (error) {
+      console.error("Connection test failed:", error);
+      if (error instanceof FulfilAuthError) {
         return { connected: false, message: "Invalid API key or insufficient permissions" };
-      } else if (response.status === 405) {
+      } else if (error instanceof FulfilError && error.status === 405) {
         return { connected: false, message: "Method not allowed - verify API endpoints are correct" };
-      } else if (response.status === 500) {
-        return { connected: false, message: "Server error 500 - API key may be invalid or endpoint structure changed" };
-      } else {
-        return { connected: false, message: `Connection failed with status ${response.status}: ${responseText}` };
+      } else if (error instanceof FulfilError && error.status !== null) {
+        return { connected: false, message: `Connection failed: ${error.message}` };
       }
-    } catch (error) {
-      console.error("Connection test failed:", error);
       return { connected: false, message: "Connection test failed - please check your network and API key" };
     }
   }
 
   async getManufacturingOrdersCount(stateFilter?: string): Promise<number> {
-    try {
-      if (!this.apiKey) return 0;
-
-      const endpoint = `${this.baseUrl}/api/v2/model/production/count`;
-      
-      const response = await fetch(endpoint, {
-        method: 'GET',
-        headers: this.headers,
-        signal: AbortSignal.timeout(30000)
-      });
-
-      if (response.status !== 200) {
-        console.error(`Error counting MOs: ${response.status} - ${await response.text()}`);
-        return 0;
-      }
-
-      const result = await response.json();
-      return typeof result === 'number' ? result : (typeof result === 'object' && result.count ? result.count : 0);
-    } catch (error) {
-      console.error("Error counting manufacturing orders:", error);
-      return 0;
-    }
+    return this.getCount('/api/v2/model/production/count');
   }
 
   async getWorkOrdersCount(moId?: string): Promise<number> {
-    try {
-      if (!this.apiKey) return 0;
+    return this.getCount('/api/v2/model/production.work/count');
+  }
 
-      const endpoint = `${this.baseUrl}/api/v2/model/production.work/count`;
-      
-      const response = await fetch(endpoint, {
-        method: 'GET',
-        headers: this.headers,
-        signal: AbortSignal.timeout(30000)
-      });
-
-      if (response.status !== 200) {
-        console.error(`Error counting WOs: ${response.status} - ${await response.text()}`);
-        return 0;
-      }
+  // A count is a number or { count }; anything else is Fulfil misbehaving, not zero records
+  private async getCount(path: string): Promise<number> {
+    const result = await this.transport.get(path);
+    if (typeof result === 'number') return result;
+    if (typeof result?.count === 'number') return result.count;
+    throw new FulfilServerError(`Fulfil returned an unexpected count: ${JSON.stringify(result)}`, 200, `${this.transport.baseUrl}${path}`);
+  }
 
-      const result = await response.json();
-      return typeof result === 'number' ? result : (typeof result === 'object' && result.count ? result.count : 0);
-    } catch (error) {
-      console.error("Error counting work orders:", error);
-      return 0;
-    }
+  // A list endpoint answers with an array; anything else is Fulfil misbehaving, not an empty list
+  private expectList(result: unknown, path: string): any[] {
+    if (Array.isArray(result)) return result;
+    throw new FulfilServerError(`Fulfil returned an unexpected response: ${JSON.stringify(result)?.slice(0, 200)}`, 200, `${this.transport.baseUrl}${path}`);
   }
 
   /**
@@ -166,131 +119,81 @@ export class FulfilAPIService {
    * This matches the exact API structure provided by the user
    */
   async getCompletedWorkCycles(limit = 1000): Promise<any[]> {
-    try {
-      if (!this.apiKey) return [];
+    const requestBody = {
+      "filters": [
+        ['state', 'in', ['done', 'finished']]
+      ],
+      "fields": [
+        'id',
+        'operator_rec_name',
+        'rec_name',
+        'production',
+        'work_center_category',
+        'work_operation_rec_name',
+        'production_work_cycles_duration', 
+        'work_cycles_work_center_rec_name',
+        'state',
+        'production_routing_rec_name',
+        'production_quantity',
+        'create_date',
+        'production_planned_date',
+        'production_priority'
+      ],
+      "limit": limit
+    };
 
-      const endpoint = `${this.baseUrl}/api/v2/model/production.work/search_read`;
-      
-      const requestBody = {
-        "filters": [
-          ['state', 'in', ['done', 'finished']]
-        ],
-        "fields": [
-          'id',
-          'operator_rec_name',
-          'rec_name',
-          'production',
-          'work_center_category',
-          'work_operation_rec_name',
-          'production_work_cycles_duration', 
-          'work_cycles_work_center_rec_name',
-          'state',
-          'production_routing_rec_name',
-          'production_quantity',
-          'create_date',
-          'production_planned_date',
-          'production_priority'
-        ],
-        "limit": limit
-      };
+    console.log(`Fetching completed work cycles with limit ${limit}`);
 
-      console.log(`Fetching completed work cycles with limit ${limit}`);
-      
-      const response = await fetch(endpoint, {
-        method: 'PUT',
-        headers: this.headers,
-        body: JSON.stringify(requestBody),
-        signal: AbortSignal.timeout(60000)
-      });
-
-      if (response.status !== 200) {
-        const errorText = await response.text();
-        console.error(`Error fetching completed work cycles: ${response.status} - ${errorText}`);
-        return [];
-      }
+    const endpoint = '/api/v2/model/production.work/search_read';
+    const result = this.expectList(await this.transport.put(endpoint, requestBody, { timeoutMs: 60000 }), endpoint);
+    console.log(`Successfully fetched ${result.length} completed work cycles`);
 
-      const result = await response.json();
-      console.log(`Successfully fetched ${result.length || 0} completed work cycles`);
-      
-      return Array.isArray(result) ? result : [];
-    } catch (error) {
-      console.error("Error fetching completed work cycles:", error);
-      return [];
-    }
+    return result;
   }
 
   async getRecentManufacturingOrders(
     daysBack = 30, 
     limit = 500
   ): Promise<FulfilProductionOrder[]> {
-    try {
-      if (!this.apiKey) return [];
-
-      // Calculate date filter for recent records
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - daysBack);
-      const dateFilter = cutoffDate.toISOString().split('T')[0]; // YYYY-MM-DD format
+    // Calculate date filter for recent records
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - daysBack);
+    const dateFilter = cutoffDate.toISOString().split('T')[0]; // YYYY-MM-DD format
 
-      // Use POST search_read for proper filtering with date constraints
-      const endpoint = `${this.baseUrl}/api/v2/model/production.order/search_read`;
-      
-      const requestBody = {
-        fields: [
-          'id', 'rec_name', 'state', 'quantity', 'product.code', 
-          'routing.name', 'planned_date', 'create_date'
-        ],
-        filter: [
-          ['create_date', '>=', dateFilter],
-          '|',
-          ['planned_date', '>=', dateFilter],
-          '|', 
-          ['state', 'in', ['draft', 'waiting', 'assigned', 'running']]
-        ],
-        limit: limit
-      };
-
-      console.log(`Fetching recent production orders since ${dateFilter}`);
-      
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: this.headers,
-        body: JSON.stringify(requestBody),
-        signal: AbortSignal.timeout(30000)
-      });
-
-      if (response.status !== 200) {
-        console.error(`Error fetching recent production orders: ${response.status} - ${await response.text()}`);
-        return [];
-      }
-
-      const productionOrders = await response.json();
-      console.log(`Fetched ${Array.isArray(productionOrders) ? productionOrders.length : 'unknown'} recent production orders`);
-      
-      if (!Array.isArray(productionOrders)) {
-        console.error("Unexpected response format:", productionOrders);
-        return [];
-      }
-      
-      console.log("=== RECENT PRODUCTION ORDER SAMPLE ===");
-      console.log(JSON.stringify(productionOrders?.[0], null, 2));
-      console.log("=== END SAMPLE ===");
-
-      // Transform to our expected format
-      return productionOrders.map((po: any) => ({
-        id: po.id,
-        rec_name: po.rec_name || `MO${po.id}`,
-        state: po.state || 'unknown',
-        quantity: po.quantity || 0,
-        planned_date: po.planned_date,
-        product: po.product || {},
-        routing: po.routing || {},
-        create_date: po.create_date
-      }));
+    // Use POST search_read for proper filtering with date constraints
+    const endpoint = `/api/v2/model/production.order/search_read`;
+    
+    const requestBody = {
+      fields: [
+        'id', 'rec_name', 'state', 'quantity', 'product.code', 
+        'routing.name', 'planned_date', 'create_date'
+      ],
+      filter: [
+        ['create_date', '>=', dateFilter],
+        '|',
+        ['planned_date', '>=', dateFilter],
+        '|', 
+        ['state', 'in', ['draft', 'waiting', 'assigned', 'running']]
+      ],
+      limit: limit
+    };
 
-    } catch (error) {
-      console.error('Error fetching recent manufacturing orders:', error);
-      return [];
-    }
+    console.log(`Fetching recent production orders since ${dateFilter}`);
+    
+    const productionOrders = this.expectList(await this.transport.post(endpoint, requestBody), endpoint);
+    console.log(`Fetched ${productionOrders.length} recent production orders`);
+
+    // Transform to our expected format
+    return productionOrders.map((po: any) => ({
+      id: po.id,
+      rec_name: po.rec_name || `MO${po.id}`,
+      state: po.state || 'unknown',
+      quantity: po.quantity || 0,
+      planned_date: po.planned_date,
+      product: po.product || {},
+      routing: po.routing || {},
+      create_date: po.create_date
+    }));
   }
 
   async getManufacturingOrders(
@@ -306,418 +209,284 @@ export class FulfilAPIService {
     limit = 200, 
     offset = 0
   ): Promise<{ productionOrders: FulfilProductionOrder[], workOrders: FulfilWorkOrder[] }> {
-    try {
-      if (!this.apiKey) return { productionOrders: [], workOrders: [] };
-
-      // Use production.work GET endpoint with state filtering for active work orders
-      let endpoint = `${this.baseUrl}/api/v2/model/production.work`;
-      
-      const params = new URLSearchParams();
-      params.append('per_page', limit.toString());
-      // Filter for active work order states only (not completed work cycles)
-      params.append('state', 'request,draft,waiting,assigned,running');
-      if (offset > 0) {
-        params.append('page', Math.floor(offset / limit + 1).toString());
-      }
-
-      endpoint += `?${params.toString()}`;
+    // Use production.work GET endpoint with state filtering for active work orders
+    let endpoint = `/api/v2/model/production.work`;
+    
+    const params = new URLSearchParams();
+    params.append('per_page', limit.toString());
+    // Filter for active work order states only (not completed work cycles)
+    params.append('state', 'request,draft,waiting,assigned,running');
+    if (offset > 0) {
+      params.append('page', Math.floor(offset / limit + 1).toString());
+    }
 
-      console.log(`Fetching work orders and extracting production orders: ${endpoint}`);
-      
-      const response = await fetch(endpoint, {
-        method: 'GET',
-        headers: this.headers,
-        signal: AbortSignal.timeout(30000)
-      });
-
-      if (response.status !== 200) {
-        console.error(`Error fetching work orders: ${response.status} - ${await response.text()}`);
-        return { productionOrders: [], workOrders: [] };
-      }
+    endpoint += `?${params.toString()}`;
 
-      const workOrders = await response.json();
-      console.log(`Fetched ${Array.isArray(workOrders) ? workOrders.length : 'unknown'} work orders`);
-      
-      if (!Array.isArray(workOrders)) {
-        console.error("Unexpected response format:", workOrders);
-        return { productionOrders: [], workOrders: [] };
-      }
-      
-      // Extract unique production orders and prepare work orders
-      const productionOrdersMap = new Map();
-      const processedWorkOrders: FulfilWorkOrder[] = [];
-      
-      for (const wo of workOrders) {
-        // Parse production order ID from rec_name: "WO285 | Sewing - LH | MO5428"
-        if (wo.rec_name && typeof wo.rec_name === 'string') {
-          const parts = wo.rec_name.split(' | ');
+    console.log(`Fetching work orders and extracting production orders: ${endpoint}`);
+    
+    const workOrders = this.expectList(await this.transport.get(endpoint), endpoint);
+    console.log(`Fetched ${workOrders.length} work orders`);
+    
+    // Extract unique production orders and prepare work orders
+    const productionOrdersMap = new Map();
+    const processedWorkOrders: FulfilWorkOrder[] = [];
+    
+    for (const wo of workOrders) {
+      // Parse production order ID from rec_name: "WO285 | Sewing - LH | MO5428"
+      if (wo.rec_name && typeof wo.rec_name === 'string') {
+        const parts = wo.rec_name.split(' | ');
+        
+        if (parts.length >= 3) {
+          const moString = parts[2]; // e.g., "MO5428"
+          const moMatch = moString.match(/MO(\d+)/);
+          const operation = parts[1]; // e.g., "Sewing - LH"
+          const workCenter = operation.split(' - ')[0]; // e.g., "Sewing"
           
-          if (parts.length >= 3) {
-            const moString = parts[2]; // e.g., "MO5428"
-            const moMatch = moString.match(/MO(\d+)/);
-            const operation = parts[1]; // e.g., "Sewing - LH"
-            const workCenter = operation.split(' - ')[0]; // e.g., "Sewing"
+          if (moMatch) {
+            const prodId = parseInt(moMatch[1], 10); // Extract 5428 from "MO5428"
             
-            if (moMatch) {
-              const prodId = parseInt(moMatch[1], 10); // Extract 5428 from "MO5428"
-              
-              if (prodId) {
-                // Create production order if not exists
-                if (!productionOrdersMap.has(prodId)) {
-                  productionOrdersMap.set(prodId, {
-                    id: prodId,
-                    rec_name: `MO${prodId}`,
-                    state: 'assigned', // Default state for active planning
-                    quantity: 1, // Default quantity
-                    planned_date: wo.planned_date || null,
-                    routing: operation || 'Standard',
-                    product: {
-                      code: wo.product_code || `PROD-${prodId}`,
-                      name: wo.product_name || `Product ${prodId}`
-                    }
-                  });
-                }
-                
-                // Create work order for this production order
-                processedWorkOrders.push({
-                  id: wo.id,
-                  production: prodId, // Link to production order
-                  rec_name: wo.rec_name,
-                  state: wo.state || 'assigned',
-                  work_center: workCenter,
-                  work_center_name: workCenter,
-                  operation: operation,
-                  operation_name: operation,
-                  planned_date: wo.planned_date,
-                  quantity_done: wo.quantity_done || 0,
-                  routing: operation
+            if (prodId) {
+              // Create production order if not exists
+              if (!productionOrdersMap.has(prodId)) {
+                productionOrdersMap.set(prodId, {
+                  id: prodId,
+                  rec_name: `MO${prodId}`,
+                  state: 'assigned', // Default state for active planning
+                  quantity: 1, // Default quantity
+                  planned_date: wo.planned_date || null,
+                  routing: operation || 'Standard',
+                  product: {
+                    code: wo.product_code || `PROD-${prodId}`,
+                    name: wo.product_name || `Product ${prodId}`
+                  }
                 });
               }
+              
+              // Create work order for this production order
+              processedWorkOrders.push({
+                id: wo.id,
+                production: prodId, // Link to production order
+                rec_name: wo.rec_name,
+                state: wo.state || 'assigned',
+                work_center: workCenter,
+                work_center_name: workCenter,
+                operation: operation,
+                operation_name: operation,
+                planned_date: wo.planned_date,
+                quantity_done: wo.quantity_done || 0,
+                routing: operation
+              });
             }
           }
         }
       }
-
-      const uniqueProductionOrders = Array.from(productionOrdersMap.values());
-      console.log(`Extracted ${uniqueProductionOrders.length} production orders and ${processedWorkOrders.length} work orders`);
-      
-      return { 
-        productionOrders: uniqueProductionOrders, 
-        workOrders: processedWorkOrders 
-      };
-    } catch (error) {
-      console.error("Error fetching production orders with work orders:", error);
-      return { productionOrders: [], workOrders: [] };
     }
+
+    const uniqueProductionOrders = Array.from(productionOrdersMap.values());
+    console.log(`Extracted ${uniqueProductionOrders.length} production orders and ${processedWorkOrders.length} work orders`);
+    
+    return { 
+      productionOrders: uniqueProductionOrders, 
+      workOrders: processedWorkOrders 
+    };
   }
 
   async getCompletedWorkOrders(limit = 500, offset = 0): Promise<FulfilWorkOrder[]> {
-    try {
-      if (!this.apiKey) return [];
-
-      const endpoint = `${this.baseUrl}/api/v2/model/production.work/search_read`;
-      
-      const requestBody = {
-        filters: [
-          ['state', '=', 'done']  // Only get completed work orders
-        ],
-        fields: [
-          'id', 'production', 'work_center', 'operation', 'operator',  // ID fields
-          'state', 'quantity_done', 'planned_date', 'rec_name',
-          'create_date'  // Only essential fields
-        ],
-        limit: limit,
-        offset: offset
-      };
-
-      console.log(`Fetching completed work orders from: ${endpoint}`);
-      console.log("Request body:", JSON.stringify(requestBody, null, 2));
-
-      const response = await fetch(endpoint, {
-        method: 'PUT',
-        headers: this.headers,
-        body: JSON.stringify(requestBody),
-        signal: AbortSignal.timeout(30000)
-      });
+    const endpoint = `/api/v2/model/production.work/search_read`;
+    
+    const requestBody = {
+      filters: [
+        ['state', '=', 'done']  // Only get completed work orders
+      ],
+      fields: [
+        'id', 'production', 'work_center', 'operation', 'operator',  // ID fields
+        'state', 'quantity_done', 'planned_date', 'rec_name',
+        'create_date'  // Only essential fields
+      ],
+      limit: limit,
+      offset: offset
+    };
 
-      if (response.status !== 200) {
-        const errorText = await response.text();
-        console.error(`Error fetching completed WOs: ${response.status} - ${errorText}`);
-        return [];
-      }
+    console.log(`Fetching completed work orders from: ${endpoint}`);
+    console.log("Request body:", JSON.stringify(requestBody, null, 2));
 
-      const data = await response.json();
-      console.log(`Retrieved ${data.length} completed work orders`);
-      return data;
-    } catch (error) {
-      console.error("Error fetching completed work orders:", error);
-      return [];
-    }
+    const data = this.expectList(await this.transport.put(endpoint, requestBody), endpoint);
+    console.log(`Retrieved ${data.length} completed work orders`);
+    return data;
   }
 
   async getWorkOrders(stateFilter?: string, limit = 500, offset = 0): Promise<FulfilWorkOrder[]> {
-    try {
-      if (!this.apiKey) return [];
-
-      // Use search_read with PUT method to get complete fields
-      const endpoint = `${this.baseUrl}/api/v2/model/production.work/search_read`;
-      
-      // Build filters for states
-      let filters: any[] = [];
-      if (stateFilter) {
-        if (stateFilter === 'done') {
-          filters = [['state', '=', 'done']];
-        } else if (stateFilter === 'active') {
-          filters = [['state', 'in', ['request', 'draft', 'waiting', 'assigned', 'running']]];
-        } else {
-          filters = [['state', '=', stateFilter]];
-        }
+    // Use search_read with PUT method to get complete fields
+    const endpoint = `/api/v2/model/production.work/search_read`;
+    
+    // Build filters for states
+    let filters: any[] = [];
+    if (stateFilter) {
+      if (stateFilter === 'done') {
+        filters = [['state', '=', 'done']];
+      } else if (stateFilter === 'active') {
+        filters = [['state', 'in', ['request', 'draft', 'waiting', 'assigned', 'running']]];
+      } else {
+        filters = [['state', '=', stateFilter]];
       }
+    }
 
-      const requestBody = {
-        filters: filters,
-        fields: [
-          'id', 'rec_name', 'state', 'production', 'operation.name', 'work_center.name',
-          'operator.name', 'quantity_done', 'planned_date', 'priority', 'type', 'cost',
-          'create_date', 'write_date'
-        ],
-        limit: limit,
-        offset: offset
-      };
-
-      console.log(`Fetching complete WO data from: ${endpoint}`);
-      console.log("Request body:", JSON.stringify(requestBody, null, 2));
-      
-      const response = await fetch(endpoint, {
-        method: 'PUT',
-        headers: this.headers,
-        body: JSON.stringify(requestBody),
-        signal: AbortSignal.timeout(30000)
-      });
-
-      if (response.status !== 200) {
-        console.error(`Error fetching WOs: ${response.status} - ${await response.text()}`);
-        return [];
-      }
+    const requestBody = {
+      filters: filters,
+      fields: [
+        'id', 'rec_name', 'state', 'production', 'operation.name', 'work_center.name',
+        'operator.name', 'quantity_done', 'planned_date', 'priority', 'type', 'cost',
+        'create_date', 'write_date'
+      ],
+      limit: limit,
+      offset: offset
+    };
 
-      const data = await response.json();
-      console.log("Complete WO API Response sample:", JSON.stringify(data?.[0], null, 2));
-      return Array.isArray(data) ? data : [];
-    } catch (error) {
-      console.error("Error fetching work orders:", error);
-      return [];
-    }
+    console.log(`Fetching complete WO data from: ${endpoint}`);
+    console.log("Request body:", JSON.stringify(requestBody, null, 2));
+    
+    return this.expectList(await this.transport.put(endpoint, requestBody), endpoint);
   }
 
   async getWorkCycles(options: { state?: string; limit?: number; offset?: number } = {}): Promise<FulfilWorkCycle[]> {
-    try {
-      if (!this.apiKey) return [];
-
-      const { state = 'done', limit = 500, offset = 0 } = options;
-      const endpoint = `${this.baseUrl}/api/v2/model/production.work.cycle/search_read`;
-      
-      // Get all work cycles - no filtering at all to capture recent data
-      const filters: any[] = [];
-      
-      const requestBody = {
-        filters: filters,
-        fields: [
-          'id', 'rec_name', 'state', 'duration', 'write_date'
-        ],
-        limit: limit,
-        offset: offset,
-        order: [['id', 'DESC']]  // Get most recent work cycles first
-      };
-
-      console.log(`Fetching work cycles from: ${endpoint}`);
-      console.log("Request body:", JSON.stringify(requestBody, null, 2));
-
-      const response = await fetch(endpoint, {
-        method: 'PUT',
-        headers: this.headers,
-        body: JSON.stringify(requestBody),
-        signal: AbortSignal.timeout(30000)
-      });
+    const { state = 'done', limit = 500, offset = 0 } = options;
+    const endpoint = `/api/v2/model/production.work.cycle/search_read`;
+    
+    // Get all work cycles - no filtering at all to capture recent data
+    const filters: any[] = [];
+    
+    const requestBody = {
+      filters: filters,
+      fields: [
+        'id', 'rec_name', 'state', 'duration', 'write_date'
+      ],
+      limit: limit,
+      offset: offset,
+      order: [['id', 'DESC']]  // Get most recent work cycles first
+    };
 
-      if (response.status !== 200) {
-        const errorText = await response.text();
-        console.error(`Error fetching work cycles: ${response.status} - ${errorText}`);
-        return [];
-      }
+    console.log(`Fetching work cycles from: ${endpoint}`);
+    console.log("Request body:", JSON.stringify(requestBody, null, 2));
 
-      const data = await response.json();
-      console.log(`Retrieved ${data.length} work cycles`);
-      
-      // Debug: Log first few cycles to see the structure
-      if (data.length > 0) {
-        console.log('Sample work cycle data:', JSON.stringify(data[0], null, 2));
-        
-        // Look for Evan Crosby specifically
-        const evanCycles = data.filter(cycle => 
-          cycle.rec_name && cycle.rec_name.includes('Evan Crosby')
-        );
-        console.log(`Found ${evanCycles.length} cycles for Evan Crosby`);
-        if (evanCycles.length > 0) {
-          console.log('Latest Evan cycle:', JSON.stringify(evanCycles[0], null, 2));
+    const data = this.expectList(await this.transport.put(endpoint, requestBody), endpoint);
+    console.log(`Retrieved ${data.length} work cycles`);
+    
+    // Transform the response to match our interface
+    return data.map((cycle: any) => {
+      // Parse duration from Fulfil's timedelta format
+      let duration = 0;
+      const durationField = cycle['work/cycles/duration'];
+      if (durationField) {
+        if (typeof durationField === 'number') {
+          duration = durationField;
+        } else if (typeof durationField === 'object' && durationField.seconds) {
+          duration = durationField.seconds;
+        } else if (typeof durationField === 'string') {
+          duration = parseFloat(durationField);
         }
       }
-      
-      // Transform the response to match our interface
-      return data.map((cycle: any) => {
-        // Parse duration from Fulfil's timedelta format
-        let duration = 0;
-        const durationField = cycle['work/cycles/duration'];
-        if (durationField) {
-          if (typeof durationField === 'number') {
-            duration = durationField;
-          } else if (typeof durationField === 'object' && durationField.seconds) {
-            duration = durationField.seconds;
-          } else if (typeof durationField === 'string') {
-            duration = parseFloat(durationField);
-          }
-        }
 
-        // Parse operator and work center from rec_name (e.g., "Assembly - Rope | Evan Crosby | Rope")
-        const recParts = cycle.rec_name?.split(' | ') || [];
-        const operationName = recParts[0] || '';
-        const operatorName = recParts[1] || '';
-        const workCenterName = recParts[2] || '';
-
-        return {
-          id: cycle.id?.toString(),
-          rec_name: cycle.rec_name || `Cycle ${cycle.id}`,
-          state: cycle.state || 'unknown',
-          duration: duration,
-          operator: operatorName ? { 
-            rec_name: operatorName,
-            write_date: cycle.write_date 
-          } : undefined,
-          work_center: workCenterName ? { 
-            rec_name: workCenterName 
-          } : undefined,
-          production: { 
-            id: 0, // Will be populated later if needed
-            rec_name: `Production for ${operationName}`
-          }
-        };
-      });
-    } catch (error) {
-      console.error("Error fetching work cycles:", error);
-      return [];
-    }
+      // Parse operator and work center from rec_name (e.g., "Assembly - Rope | Evan Crosby | Rope")
+      const recParts = cycle.rec_name?.split(' | ') || [];
+      const operationName = recParts[0] || '';
+      const operatorName = recParts[1] || '';
+      const workCenterName = recParts[2] || '';
+
+      return {
+        id: cycle.id?.toString(),
+        rec_name: cycle.rec_name || `Cycle ${cycle.id}`,
+        state: cycle.state || 'unknown',
+        duration: duration,
+        operator: operatorName ? { 
+          rec_name: operatorName,
+          write_date: cycle.write_date 
+        } : undefined,
+        work_center: workCenterName ? { 
+          rec_name: workCenterName 
+        } : undefined,
+        production: { 
+          id: 0, // Will be populated later if needed
+          rec_name: `Production for ${operationName}`
+        }
+      };
+    });
   }
 
   async getAllManufacturingOrders(stateFilter?: string, batchSize = 500): Promise<FulfilProductionOrder[]> {
-    try {
-      const allRecords: FulfilProductionOrder[] = [];
-      let offset = 0;
-
-      while (true) {
-        const batch = await this.getManufacturingOrders(stateFilter, batchSize, offset);
-        
-        if (batch.length === 0) {
-          break;
-        }
+    const allRecords: FulfilProductionOrder[] = [];
+    let offset = 0;
 
-        allRecords.push(...batch);
-        
-        if (batch.length < batchSize) {
-          break;
-        }
+    while (true) {
+      const batch = await this.getManufacturingOrders(stateFilter, batchSize, offset);
+      
+      if (batch.length === 0) {
+        break;
+      }
 
-        offset += batchSize;
-        console.log(`Fetched batch: offset ${offset - batchSize}, got ${batch.length} records`);
+      allRecords.push(...batch);
+      
+      if (batch.length < batchSize) {
+        break;
       }
 
-      return allRecords;
-    } catch (error) {
-      console.error("Error in batch manufacturing orders fetch:", error);
-      return [];
+      offset += batchSize;
+      console.log(`Fetched batch: offset ${offset - batchSize}, got ${batch.length} records`);
     }
+
+    return allRecords;
   }
 
   async getAllWorkOrders(batchSize = 500): Promise<FulfilWorkOrder[]> {
-    try {
-      const allRecords: FulfilWorkOrder[] = [];
-      let offset = 0;
-
-      while (true) {
-        const batch = await this.getWorkOrders(undefined, batchSize, offset);
-        
-        if (batch.length === 0) {
-          break;
-        }
+    const allRecords: FulfilWorkOrder[] = [];
+    let offset = 0;
 
-        allRecords.push(...batch);
-        
-        if (batch.length < batchSize) {
-          break;
-        }
+    while (true) {
+      const batch = await this.getWorkOrders(undefined, batchSize, offset);
+      
+      if (batch.length === 0) {
+        break;
+      }
 
-        offset += batchSize;
-        console.log(`Fetched WO batch: offset ${offset - batchSize}, got ${batch.length} records`);
+      allRecords.push(...batch);
+      
+      if (batch.length < batchSize) {
+        break;
       }
 
-      return allRecords;
-    } catch (error) {
-      console.error("Error in batch work orders fetch:", error);
-      return [];
+      offset += batchSize;
+      console.log(`Fetched WO batch: offset ${offset - batchSize}, got ${batch.length} records`);
     }
+
+    return allRecords;
   }
 
   async getWorkOrderDetails(workOrderId: number): Promise<FulfilWorkOrder | null> {
+    const endpoint = `/api/v2/model/production.work/${workOrderId}`;
+    
     try {
-      if (!this.apiKey) return null;
-
-      const endpoint = `${this.baseUrl}/api/v2/model/production.work/${workOrderId}`;
-      
-      const response = await fetch(endpoint, {
-        method: 'GET',
-        headers: this.headers,
-        signal: AbortSignal.timeout(10000)
-      });
-
-      if (response.status !== 200) {
-        console.error(`Error fetching WO details: ${response.status}`);
-        return null;
-      }
-
-      const data = await response.json();
-      return data;
+      return await this.transport.get(endpoint, { timeoutMs: 10000 });
     } catch (error) {
-      console.error("Error fetching work order details:", error);
-      return null;
+      if (error instanceof FulfilNotFoundError) return null;
+      throw error;
     }
   }
 
   async getEmployeeDetails(employeeId: number): Promise<{ id: number; name: string; cost_per_hour?: number; active?: boolean } | null> {
+    const endpoint = `/api/v2/model/company.employee/${employeeId}`;
+    
+    let data;
     try {
-      if (!this.apiKey) return null;
-
-      const endpoint = `${this.baseUrl}/api/v2/model/company.employee/${employeeId}`;
-      
-      const response = await fetch(endpoint, {
-        method: 'GET',
-        headers: this.headers,
-        signal: AbortSignal.timeout(10000)
-      });
-
-      if (response.status !== 200) {
-        console.error(`Error fetching employee details: ${response.status}`);
-        return null;
-      }
-
-      const data = await response.json();
-      return {
-        id: data.id,
-        name: data.rec_name || data.name || `Employee ${data.id}`,
-        cost_per_hour: data.cost_per_hour,
-        active: data.active
-      };
+      data = await this.transport.get(endpoint, { timeoutMs: 10000 });
     } catch (error) {
-      console.error("Error fetching employee details:", error);
-      return null;
+      if (error instanceof FulfilNotFoundError) return null;
+      throw error;
     }
+    return {
+      id: data.id,
+      name: data.rec_name || data.name || `Employee ${data.id}`,
+      cost_per_hour: data.cost_per_hour,
+      active: data.active
+    };
   }
 
   // Convert Fulfil data to our internal format
@@ -811,169 +580,85 @@ export class FulfilAPIService {
   }
 
   async getOperations(): Promise<any[]> {
-    try {
-      if (!this.apiKey) return [];
-
-      // Use search_read to get complete operation data
-      const endpoint = `${this.baseUrl}/api/v2/model/production.routing.operation/search_read`;
-      
-      const requestBody = {
-        filters: [['active', '=', true]], // Only active operations
-        fields: [
-          'id', 'name', 'rec_name', 'work_center_category', 'active',
-          'start_ahead', 'private_notes', 'public_notes', 'metadata'
-        ],
-        limit: 100,
-        offset: 0
-      };
-
-      console.log(`Fetching operations from: ${endpoint}`);
-      console.log("Request body:", JSON.stringify(requestBody, null, 2));
-      
-      const response = await fetch(endpoint, {
-        method: 'PUT',
-        headers: this.headers,
-        body: JSON.stringify(requestBody),
-        signal: AbortSignal.timeout(30000)
-      });
-
-      if (response.status !== 200) {
-        console.error(`Error fetching operations: ${response.status} - ${await response.text()}`);
-        return [];
-      }
+    // Use search_read to get complete operation data
+    const endpoint = `/api/v2/model/production.routing.operation/search_read`;
+    
+    const requestBody = {
+      filters: [['active', '=', true]], // Only active operations
+      fields: [
+        'id', 'name', 'rec_name', 'work_center_category', 'active',
+        'start_ahead', 'private_notes', 'public_notes', 'metadata'
+      ],
+      limit: 100,
+      offset: 0
+    };
 
-      const data = await response.json();
-      console.log("Operations API Response sample:", JSON.stringify(data?.[0], null, 2));
-      return Array.isArray(data) ? data : [];
-    } catch (error) {
-      console.error("Error fetching operations:", error);
-      return [];
-    }
+    console.log(`Fetching operations from: ${endpoint}`);
+    console.log("Request body:", JSON.stringify(requestBody, null, 2));
+    
+    return this.expectList(await this.transport.put(endpoint, requestBody), endpoint);
   }
 
   async getRoutings(): Promise<any[]> {
-    try {
-      if (!this.apiKey) return [];
-
-      // Use search_read to get complete routing data
-      const endpoint = `${this.baseUrl}/api/v2/model/production.routing/search_read`;
-      
-      const requestBody = {
-        filters: [['active', '=', true]], // Only active routings
-        fields: [
-          'id', 'name', 'rec_name', 'active', 'steps',
-          'private_notes', 'public_notes', 'metadata'
-        ],
-        limit: 100,
-        offset: 0
-      };
-
-      console.log(`Fetching routings from: ${endpoint}`);
-      console.log("Request body:", JSON.stringify(requestBody, null, 2));
-      
-      const response = await fetch(endpoint, {
-        method: 'PUT',
-        headers: this.headers,
-        body: JSON.stringify(requestBody),
-        signal: AbortSignal.timeout(30000)
-      });
-
-      if (response.status !== 200) {
-        console.error(`Error fetching routings: ${response.status} - ${await response.text()}`);
-        return [];
-      }
+    // Use search_read to get complete routing data
+    const endpoint = `/api/v2/model/production.routing/search_read`;
+    
+    const requestBody = {
+      filters: [['active', '=', true]], // Only active routings
+      fields: [
+        'id', 'name', 'rec_name', 'active', 'steps',
+        'private_notes', 'public_notes', 'metadata'
+      ],
+      limit: 100,
+      offset: 0
+    };
 
-      const data = await response.json();
-      console.log("Routings API Response sample:", JSON.stringify(data?.[0], null, 2));
-      return Array.isArray(data) ? data : [];
-    } catch (error) {
-      console.error("Error fetching routings:", error);
-      return [];
-    }
+    console.log(`Fetching routings from: ${endpoint}`);
+    console.log("Request body:", JSON.stringify(requestBody, null, 2));
+    
+    return this.expectList(await this.transport.put(endpoint, requestBody), endpoint);
   }
 
   async getWorkCenters(): Promise<any[]> {
-    try {
-      if (!this.apiKey) return [];
-
-      // Use search_read to get complete work center data
-      const endpoint = `${this.baseUrl}/api/v2/model/production.work.center/search_read`;
-      
-      const requestBody = {
-        filters: [['active', '=', true]], // Only active work centers
-        fields: [
-          'id', 'name', 'rec_name', 'active', 'category',
-          'cost_method', 'cost_price', 'private_notes', 'public_notes',
-          'warehouse', 'parent', 'children', 'metadata'
-        ],
-        limit: 100,
-        offset: 0
-      };
-
-      console.log(`Fetching work centers from: ${endpoint}`);
-      console.log("Request body:", JSON.stringify(requestBody, null, 2));
-      
-      const response = await fetch(endpoint, {
-        method: 'PUT',
-        headers: this.headers,
-        body: JSON.stringify(requestBody),
-        signal: AbortSignal.timeout(30000)
-      });
-
-      if (response.status !== 200) {
-        console.error(`Error fetching work centers: ${response.status} - ${await response.text()}`);
-        return [];
-      }
+    // Use search_read to get complete work center data
+    const endpoint = `/api/v2/model/production.work.center/search_read`;
+    
+    const requestBody = {
+      filters: [['active', '=', true]], // Only active work centers
+      fields: [
+        'id', 'name', 'rec_name', 'active', 'category',
+        'cost_method', 'cost_price', 'private_notes', 'public_notes',
+        'warehouse', 'parent', 'children', 'metadata'
+      ],
+      limit: 100,
+      offset: 0
+    };
 
-      const data = await response.json();
-      console.log("Work Centers API Response sample:", JSON.stringify(data?.[0], null, 2));
-      return Array.isArray(data) ? data : [];
-    } catch (error) {
-      console.error("Error fetching work centers:", error);
-      return [];
-    }
+    console.log(`Fetching work centers from: ${endpoint}`);
+    console.log("Request body:", JSON.stringify(requestBody, null, 2));
+    
+    return this.expectList(await this.transport.put(endpoint, requestBody), endpoint);
   }
 
   async getProductionBatches(): Promise<any[]> {
-    try {
-      if (!this.apiKey) return [];
-
-      // Use search_read to get complete production batch data
-      const endpoint = `${this.baseUrl}/api/v2/model/production.batch/search_read`;
-      
-      const requestBody = {
-        filters: [], // Get all batches, no state filter needed
-        fields: [
-          'id', 'name', 'number', 'rec_name', 'state', 'priority',
-          'quantity', 'total_production_orders', 'productions',
-          'private_notes', 'public_notes', 'metadata',
-          'create_date', 'write_date'
-        ],
-        limit: 100,
-        offset: 0
-      };
-
-      console.log(`Fetching production batches from: ${endpoint}`);
-      console.log("Request body:", JSON.stringify(requestBody, null, 2));
-      
-      const response = await fetch(endpoint, {
-        method: 'PUT',
-        headers: this.headers,
-        body: JSON.stringify(requestBody),
-        signal: AbortSignal.timeout(30000)
-      });
-
-      if (response.status !== 200) {
-        console.error(`Error fetching production batches: ${response.status} - ${await response.text()}`);
-        return [];
-      }
+    // Use search_read to get complete production batch data
+    const endpoint = `/api/v2/model/production.batch/search_read`;
+    
+    const requestBody = {
+      filters: [], // Get all batches, no state filter needed
+      fields: [
+        'id', 'name', 'number', 'rec_name', 'state', 'priority',
+        'quantity', 'total_production_orders', 'productions',
+        'private_notes', 'public_notes', 'metadata',
+        'create_date', 'write_date'
+      ],
+      limit: 100,
+      offset: 0
+    };
 
-      const data = await response.json();
-      console.log("Production Batches API Response sample:", JSON.stringify(data?.[0], null, 2));
-      return Array.isArray(data) ? data : [];
-    } catch (error) {
-      console.error("Error fetching production batches:", error);
-      return [];
-    }
+    console.log(`Fetching production batches from: ${endpoint}`);
+    console.log("Request body:", JSON.stringify(requestBody, null, 2));
+    
+    return this.expectList(await this.transport.put(endpoint, requestBody), endpoint);
   }
 }
\ No newline at end of file
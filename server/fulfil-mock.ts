@@ -0,0 +1,292 @@
+/**
+ * Fulfil mock
+ * An in-memory stand-in for the parts of the Fulfil v2 API this app uses:
+ * search_read, count, model listing, record GETs and record updates. Seeded
+ * from the fixtures in server/fixtures/fulfil, it can be mounted on the dev
+ * server (FULFIL_MOCK=true) or handed to tests as a drop-in `fetch`, so
+ * imports, syncs and write-backs run end to end without touching production.
+ */
+
+import fs from "fs";
+import path from "path";
+import { Router } from "express";
+
+export const FULFIL_FIXTURE_DIR = path.resolve(import.meta.dirname, "fixtures", "fulfil");
+
+// Captured Fulfil responses that are not named after their model
+const CAPTURED_FIXTURES: Record<string, string> = {
+  "work_orders_response.json": "production.work",
+  "work_order_detail.json": "production.work"
+};
+
+// Many2one fields, so dotted field paths like "production.routing.rec_name" resolve
+const RELATIONS: Record<string, string> = {
+  production: "production",
+  work: "production.work",
+  operator: "company.employee",
+  employee: "company.employee",
+  work_center: "production.work.center",
+  operation: "production.routing.operation",
+  routing: "production.routing",
+  product: "product.product"
+};
+
+const DEFAULT_PER_PAGE = 50;
+
+export type FulfilRecord = Record<string, any> & { id: number };
+
+export interface FulfilMockResponse {
+  status: number;
+  body: unknown;
+}
+
+export interface FulfilMockRequest {
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+export class FulfilMock {
+  private models = new Map<string, Map<number, FulfilRecord>>();
+  readonly requests: FulfilMockRequest[] = [];
+
+  constructor(private apiKey: string | null = null) {}
+
+  /**
+   * Add records to a model. A record whose id is already there is merged
+   * into it, so a list capture and a detail capture combine.
+   */
+  seed(model: string, records: FulfilRecord | FulfilRecord[]): this {
+    const store = this.store(model);
+    for (const record of Array.isArray(records) ? records : [records]) {
+      store.set(record.id, { ...store.get(record.id), ...record });
+    }
+    return this;
+  }
+
+  records(model: string): FulfilRecord[] {
+    return Array.from(this.store(model).values());
+  }
+
+  reset(): void {
+    this.models.clear();
+    this.requests.length = 0;
+  }
+
+  /**
+   * Answer one request. `url` may be absolute or a path, with or without
+   * whatever prefix the mock is mounted under.
+   */
+  handle(method: string, url: string, body?: unknown, apiKey?: string | null): FulfilMockResponse {
+    const parsed = new URL(url, "http://fulfil.mock");
+    const route = parsed.pathname.slice(Math.max(0, parsed.pathname.indexOf("/api/v2/")));
+    this.requests.push({ method, path: route + parsed.search, body });
+
+    if (!apiKey || (this.apiKey && apiKey !== this.apiKey)) {
+      return { status: 401, body: { message: "Invalid API key" } };
+    }
+
+    const match = route.match(/^\/api\/v2\/model\/([a-z_.]+?)(?:\/(search_read|count|\d+))?\/?$/);
+    if (!match) return { status: 404, body: { message: `No mock for ${method} ${route}` } };
+
+    const [, model, action] = match;
+    const params = (body && typeof body === "object" ? body : {}) as Record<string, any>;
+
+    if (action === "search_read") {
+      if (method !== "PUT" && method !== "POST") return methodNotAllowed(method, route);
+      let records = this.search(model, params.filters ?? params.filter ?? []);
+      records = sortRecords(records, params.order ?? [["id", "ASC"]]);
+      const offset = Number(params.offset) || 0;
+      records = records.slice(offset, params.limit ? offset + Number(params.limit) : undefined);
+      const fields: string[] = params.fields ?? ["id", "rec_name"];
+      return { status: 200, body: records.map(record => this.read(model, record, fields)) };
+    }
+
+    if (action === "count") {
+      return { status: 200, body: this.search(model, params.filters ?? params.filter ?? []).length };
+    }
+
+    if (action && method === "PUT") {
+      const record = this.store(model).get(Number(action));
+      if (!record) return { status: 404, body: { message: `${model} ${action} not found` } };
+      Object.assign(record, params, { id: record.id, write_date: fulfilDateTime(new Date()) });
+      return { status: 200, body: record };
+    }
+
+    if (method !== "GET") return methodNotAllowed(method, route);
+
+    if (action) {
+      const record = this.store(model).get(Number(action));
+      return record
+        ? { status: 200, body: record }
+        : { status: 404, body: { message: `${model} ${action} not found` } };
+    }
+
+    // Listing: any query parameter other than paging is a comma-separated "in" filter
+    const perPage = Number(parsed.searchParams.get("per_page")) || DEFAULT_PER_PAGE;
+    const page = Math.max(1, Number(parsed.searchParams.get("page")) || 1);
+    const domain: any[] = [];
+    parsed.searchParams.forEach((value, key) => {
+      if (key !== "per_page" && key !== "page") domain.push([key, "in", value.split(",")]);
+    });
+    const records = sortRecords(this.search(model, domain), [["id", "ASC"]]).slice((page - 1) * perPage, page * perPage);
+    return { status: 200, body: records.map(record => ({ id: record.id, rec_name: record.rec_name ?? null })) };
+  }
+
+  /**
+   * Drop-in for the global fetch, e.g. `vi.stubGlobal('fetch', mock.fetch)`
+   */
+  fetch = async (input: string | URL | Request, init: RequestInit = {}): Promise<Response> => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+    const headers = new Headers(init.headers);
+    const body = typeof init.body === "string" && init.body ? JSON.parse(init.body) : undefined;
+    const result = this.handle((init.method ?? "GET").toUpperCase(), url, body, headers.get("x-api-key"));
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      headers: { "Content-Type": "application/json" }
+    });
+  };
+
+  private store(model: string): Map<number, FulfilRecord> {
+    let store = this.models.get(model);
+    if (!store) {
+      store = new Map();
+      this.models.set(model, store);
+    }
+    return store;
+  }
+
+  private search(model: string, domain: any[]): FulfilRecord[] {
+    return this.records(model).filter(record => this.matches(model, record, domain));
+  }
+
+  // A Tryton domain: a list of clauses joined by AND, optionally led by 'OR' or 'AND'
+  private matches(model: string, record: FulfilRecord, domain: any[]): boolean {
+    if (!Array.isArray(domain) || domain.length === 0) return true;
+    const [head, ...rest] = domain;
+    if (head === "OR") return rest.some(clause => this.matchesClause(model, record, clause));
+    return (head === "AND" ? rest : domain).every(clause => this.matchesClause(model, record, clause));
+  }
+
+  private matchesClause(model: string, record: FulfilRecord, clause: any): boolean {
+    if (!Array.isArray(clause)) return true;
+    if (clause.length === 0 || typeof clause[0] !== "string" || clause[0] === "OR" || clause[0] === "AND" || Array.isArray(clause[0])) {
+      return this.matches(model, record, clause);
+    }
+
+    const [fieldPath, operator, expected] = clause;
+    const actual = comparable(this.resolve(model, record, fieldPath));
+    switch (String(operator).toLowerCase()) {
+      case "=": return actual === comparable(expected);
+      case "!=": return actual !== comparable(expected);
+      case "in": return (expected as any[]).some(value => comparable(value) === actual);
+      case "not in": return !(expected as any[]).some(value => comparable(value) === actual);
+      case ">": return actual !== null && compareValues(actual, comparable(expected)) > 0;
+      case ">=": return actual !== null && compareValues(actual, comparable(expected)) >= 0;
+      case "<": return actual !== null && compareValues(actual, comparable(expected)) < 0;
+      case "<=": return actual !== null && compareValues(actual, comparable(expected)) <= 0;
+      case "like": return likePattern(expected, false).test(String(actual ?? ""));
+      case "ilike": return likePattern(expected, true).test(String(actual ?? ""));
+      default: return false;
+    }
+  }
+
+  private read(model: string, record: FulfilRecord, fields: string[]): Record<string, unknown> {
+    const row: Record<string, unknown> = { id: record.id };
+    for (const field of fields) {
+      row[field] = this.resolve(model, record, field) ?? null;
+    }
+    return row;
+  }
+
+  // "work.production.number": follow each many2one, falling back to a flat key on the record
+  private resolve(model: string, record: FulfilRecord, fieldPath: string): unknown {
+    if (fieldPath in record) return record[fieldPath];
+
+    const [field, ...rest] = fieldPath.split(".");
+    const value = record[field];
+    if (rest.length === 0 || value === null || value === undefined) return value;
+
+    const target = RELATIONS[field];
+    const related = target ? this.store(target).get(Number(value)) : undefined;
+    return related ? this.resolve(target, related, rest.join(".")) : undefined;
+  }
+}
+
+/**
+ * Seed a mock from a fixture directory. Files are named after their model
+ * (production.work.json), apart from the raw captures in CAPTURED_FIXTURES.
+ */
+export function loadFulfilFixtures(mock: FulfilMock, dir = FULFIL_FIXTURE_DIR): FulfilMock {
+  const files = fs.readdirSync(dir).filter(file => file.endsWith(".json")).sort();
+  // Model files first, so a detail capture is merged over the fixture record
+  for (const file of [...files.filter(f => !CAPTURED_FIXTURES[f]), ...files.filter(f => CAPTURED_FIXTURES[f])]) {
+    const model = CAPTURED_FIXTURES[file] ?? file.replace(/\.json$/, "");
+    mock.seed(model, JSON.parse(fs.readFileSync(path.join(dir, file), "utf8")));
+  }
+  return mock;
+}
+
+export function createSeededFulfilMock(apiKey: string | null = null): FulfilMock {
+  return loadFulfilFixtures(new FulfilMock(apiKey));
+}
+
+/**
+ * Express router serving the mock, for mounting under e.g. /fulfil-mock
+ */
+export function createFulfilMockRouter(mock: FulfilMock): Router {
+  const router = Router();
+  router.use((req, res) => {
+    const result = mock.handle(req.method, req.url, req.body, req.get("x-api-key") ?? null);
+    res.status(result.status).json(result.body);
+  });
+  return router;
+}
+
+function methodNotAllowed(method: string, route: string): FulfilMockResponse {
+  return { status: 405, body: { message: `${method} not allowed on ${route}` } };
+}
+
+function sortRecords(records: FulfilRecord[], order: Array<[string, string]>): FulfilRecord[] {
+  return [...records].sort((a, b) => {
+    for (const [field, direction] of order) {
+      const result = compareValues(comparable(a[field]), comparable(b[field]));
+      if (result === 0) continue;
+      return String(direction).toUpperCase() === "DESC" ? -result : result;
+    }
+    return 0;
+  });
+}
+
+function fulfilDateTime(date: Date): Record<string, unknown> {
+  return { __class__: "datetime", iso_string: date.toISOString().slice(0, -1) };
+}
+
+type Comparable = string | number | boolean | null;
+
+// Dates (serialized { iso_string } or "YYYY-MM-DD HH:MM:SS", both UTC) compare as timestamps
+function comparable(value: unknown): Comparable {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "object") {
+    const iso = (value as { iso_string?: string }).iso_string;
+    return iso ? comparable(iso) : JSON.stringify(value);
+  }
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?$/.test(value)) {
+    const iso = value.replace(" ", "T");
+    return Date.parse(iso.length <= 10 ? iso : `${iso}Z`);
+  }
+  return value as Comparable;
+}
+
+// Nulls sort first
+function compareValues(left: Comparable, right: Comparable): number {
+  if (left === right) return 0;
+  if (left === null) return -1;
+  if (right === null) return 1;
+  return left < right ? -1 : 1;
+}
+
+function likePattern(pattern: unknown, ignoreCase: boolean): RegExp {
+  const source = String(pattern).replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/%/g, ".*").replace(/_/g, ".");
+  return new RegExp(`^${source}$`, ignoreCase ? "i" : "");
+}
@@ -0,0 +1,242 @@
+/**
+ * Fulfil transport
+ * The one way this app talks to the Fulfil API: request timeouts, retries
+ * with exponential backoff on 429 and 5xx, a shared limit on concurrent and
+ * per-second requests, and typed errors so sync jobs can tell "no data" from
+ * "Fulfil is down".
+ */
+
+export const DEFAULT_FULFIL_BASE_URL = "https://apc.fulfil.io";
+
+/** FULFIL_BASE_URL points the app at another Fulfil, e.g. the in-process mock */
+export function getFulfilBaseUrl(): string {
+  return (process.env.FULFIL_BASE_URL || DEFAULT_FULFIL_BASE_URL).replace(/\/+$/, '');
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 15000;
+const MAX_CONCURRENT_REQUESTS = 4; // Shared by every service in the process
+const MIN_REQUEST_INTERVAL_MS = 100; // At most ~10 requests a second
+
+export type FulfilErrorKind = 'auth' | 'not_found' | 'throttled' | 'server' | 'request';
+
+/** Base class; `status` is null when Fulfil never answered (timeout, connection refused) */
+export class FulfilError extends Error {
+  constructor(
+    message: string,
+    readonly kind: FulfilErrorKind,
+    readonly status: number | null,
+    readonly endpoint: string
+  ) {
+    super(message);
+    this.name = 'FulfilError';
+  }
+}
+
+/** 401/403, or no API key configured */
+export class FulfilAuthError extends FulfilError {
+  constructor(message: string, status: number | null, endpoint: string) {
+    super(message, 'auth', status, endpoint);
+    this.name = 'FulfilAuthError';
+  }
+}
+
+export class FulfilNotFoundError extends FulfilError {
+  constructor(message: string, endpoint: string) {
+    super(message, 'not_found', 404, endpoint);
+    this.name = 'FulfilNotFoundError';
+  }
+}
+
+/** 429 that outlasted the retries */
+export class FulfilThrottledError extends FulfilError {
+  constructor(message: string, endpoint: string, readonly retryAfterMs: number | null) {
+    super(message, 'throttled', 429, endpoint);
+    this.name = 'FulfilThrottledError';
+  }
+}
+
+/** 5xx, timeout or network failure that outlasted the retries */
+export class FulfilServerError extends FulfilError {
+  constructor(message: string, status: number | null, endpoint: string) {
+    super(message, 'server', status, endpoint);
+    this.name = 'FulfilServerError';
+  }
+}
+
+/** Any other 4xx: the request itself is wrong and retrying will not help */
+export class FulfilRequestError extends FulfilError {
+  constructor(message: string, status: number, endpoint: string) {
+    super(message, 'request', status, endpoint);
+    this.name = 'FulfilRequestError';
+  }
+}
+
+/**
+ * True when Fulfil is down or throttling us, as opposed to answering with
+ * no data or rejecting the request
+ */
+export function isFulfilUnavailable(error: unknown): boolean {
+  return error instanceof FulfilServerError || error instanceof FulfilThrottledError;
+}
+
+/**
+ * Caps requests in flight and spaces their starts, so parallel syncs do
+ * not trip Fulfil's rate limit
+ */
+export class RequestLimiter {
+  private active = 0;
+  private lastStart = 0;
+  private queue: Array<() => void> = [];
+
+  constructor(private maxConcurrent: number, private minIntervalMs: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      // Hand the slot straight to the next waiter, if any
+      const next = this.queue.shift();
+      if (next) next();
+      else this.active--;
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active >= this.maxConcurrent) {
+      await new Promise<void>(resolve => this.queue.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    const wait = this.lastStart + this.minIntervalMs - Date.now();
+    this.lastStart = Math.max(Date.now(), this.lastStart + this.minIntervalMs);
+    if (wait > 0) await sleep(wait);
+  }
+}
+
+const sharedLimiter = new RequestLimiter(MAX_CONCURRENT_REQUESTS, MIN_REQUEST_INTERVAL_MS);
+
+export interface FulfilTransportOptions {
+  baseUrl?: string;
+  apiKey?: string | null;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  limiter?: RequestLimiter;
+}
+
+export interface FulfilRequestOptions {
+  body?: unknown;
+  timeoutMs?: number;
+  retries?: number; // Overrides maxRetries, e.g. 0 for a connection test
+}
+
+export class FulfilTransport {
+  readonly baseUrl: string;
+  private apiKey: string | null;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private limiter: RequestLimiter;
+
+  constructor(options: FulfilTransportOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? getFulfilBaseUrl()).replace(/\/+$/, '');
+    this.apiKey = options.apiKey?.trim() || null;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.baseDelayMs = options.baseDelayMs ?? BASE_RETRY_DELAY_MS;
+    this.maxDelayMs = options.maxDelayMs ?? MAX_RETRY_DELAY_MS;
+    this.limiter = options.limiter ?? sharedLimiter;
+  }
+
+  setApiKey(apiKey: string): void {
+    this.apiKey = apiKey.trim() || null;
+  }
+
+  hasApiKey(): boolean {
+    return this.apiKey !== null;
+  }
+
+  get<T = any>(path: string, options: Omit<FulfilRequestOptions, 'body'> = {}): Promise<T> {
+    return this.request<T>('GET', path, options);
+  }
+
+  put<T = any>(path: string, body: unknown, options: Omit<FulfilRequestOptions, 'body'> = {}): Promise<T> {
+    return this.request<T>('PUT', path, { ...options, body });
+  }
+
+  post<T = any>(path: string, body: unknown, options: Omit<FulfilRequestOptions, 'body'> = {}): Promise<T> {
+    return this.request<T>('POST', path, { ...options, body });
+  }
+
+  /**
+   * Send a request and parse the JSON reply, retrying throttling, 5xx and
+   * network failures. Throws a FulfilError subclass once retries run out.
+   */
+  async request<T = any>(method: string, path: string, options: FulfilRequestOptions = {}): Promise<T> {
+    const endpoint = `${this.baseUrl}${path}`;
+    if (!this.apiKey) {
+      throw new FulfilAuthError("Fulfil API key is not configured", null, endpoint);
+    }
+
+    const retries = options.retries ?? this.maxRetries;
+    for (let attempt = 0; ; attempt++) {
+      let failure: FulfilError;
+      let retryAfterMs: number | null = null;
+
+      try {
+        const response = await this.limiter.run(() => fetch(endpoint, {
+          method,
+          headers: { 'Content-Type': 'application/json', 'X-API-KEY': this.apiKey! },
+          body: options.body === undefined ? undefined : JSON.stringify(options.body),
+          signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+        }));
+
+        if (response.ok) {
+          const text = await response.text();
+          return (text ? JSON.parse(text) : null) as T;
+        }
+
+        retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+        failure = errorForStatus(response.status, await response.text().catch(() => ''), endpoint, retryAfterMs);
+      } catch (error) {
+        if (error instanceof SyntaxError) {
+          throw new FulfilServerError(`Fulfil returned invalid JSON: ${error.message}`, 200, endpoint);
+        }
+        const reason = error instanceof Error && error.name === 'TimeoutError' ? 'timed out' : `failed: ${(error as Error)?.message ?? error}`;
+        failure = new FulfilServerError(`Fulfil ${method} ${path} ${reason}`, null, endpoint);
+      }
+
+      if (!isFulfilUnavailable(failure) || attempt >= retries) throw failure;
+
+      const delay = retryAfterMs ?? Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+      console.warn(`⏳ Fulfil ${method} ${path}: ${failure.message}; retry ${attempt + 1}/${retries} in ${Math.round(delay)}ms`);
+      await sleep(Math.min(delay, this.maxDelayMs));
+    }
+  }
+}
+
+function errorForStatus(status: number, body: string, endpoint: string, retryAfterMs: number | null): FulfilError {
+  const message = `Fulfil responded ${status}${body ? `: ${body.slice(0, 300)}` : ''}`;
+  if (status === 401 || status === 403) return new FulfilAuthError(message, status, endpoint);
+  if (status === 404) return new FulfilNotFoundError(message, endpoint);
+  if (status === 429) return new FulfilThrottledError(message, endpoint, retryAfterMs);
+  if (status >= 500) return new FulfilServerError(message, status, endpoint);
+  return new FulfilRequestError(message, status, endpoint);
+}
+
+// Retry-After is either seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
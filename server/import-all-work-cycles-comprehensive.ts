@@ -1,6 +1,7 @@
 import { db } from "./db";
 import { workCycles } from "../shared/schema";
 import { sql } from "drizzle-orm";
+import { getFulfilBaseUrl } from "./fulfil-transport";
 
 interface FulfilWorkCycle {
   id: number;
@@ -33,7 +34,7 @@ async function fetchAllWorkCyclesFromAPI(): Promise<FulfilWorkCycle[]> {
   const limit = 2000; // Larger batch size for efficiency
   
   while (hasMore) {
-    const url = 'https://apc.fulfil.io/api/v2/model/production.work/search_read';
+    const url = `${getFulfilBaseUrl()}/api/v2/model/production.work/search_read`;
     
     const requestBody = {
       "filters": [
@@ -2,9 +2,9 @@ import { db } from "./db.js";
 import { workCycles, productionOrders } from "../shared/schema.js";
 import { eq, and, gte, lte, sql } from "drizzle-orm";
 import fetch from 'node-fetch';
+import { getFulfilBaseUrl } from './fulfil-transport.js';
 
 const FULFIL_API_KEY = process.env.FULFIL_ACCESS_TOKEN;
-const FULFIL_API_URL = 'https://apc.fulfil.io/api/v2';
 
 interface FulfilWorkCycle {
   id: number;
@@ -43,7 +43,7 @@ async function fetchAllWorkCycles() {
   while (hasMore) {
     console.log(`Fetching batch at offset ${offset} (${limit} records per batch)...`);
     
-    const response = await fetch(`${FULFIL_API_URL}/model/production.work.cycles/search_read`, {
+    const response = await fetch(`${getFulfilBaseUrl()}/api/v2/model/production.work.cycles/search_read`, {
       method: 'PUT',
       headers: {
         'X-API-KEY': FULFIL_API_KEY!,
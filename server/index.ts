@@ -2,8 +2,20 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
+declare module "http" {
+  interface IncomingMessage {
+    rawBody?: Buffer;
+  }
+}
+
 const app = express();
-app.use(express.json({ limit: '50mb' }));
+app.use(express.json({
+  limit: '50mb',
+  // Fulfil webhooks are signed over the exact bytes sent
+  verify: (req, _res, buf) => {
+    if (req.url?.startsWith("/api/fulfil/webhooks")) req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false, limit: '50mb' }));
 
 app.use((req, res, next) => {
@@ -37,6 +49,20 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // ALWAYS serve the app on port 5000
+  // this serves both the API and the client.
+  // It is the only port that is not firewalled.
+  const port = 5000;
+
+  // FULFIL_MOCK=true answers Fulfil calls from local fixtures instead of production
+  if (process.env.FULFIL_MOCK === "true") {
+    const { createFulfilMockRouter, createSeededFulfilMock } = await import("./fulfil-mock.js");
+    app.use("/fulfil-mock", createFulfilMockRouter(createSeededFulfilMock()));
+    process.env.FULFIL_BASE_URL = `http://127.0.0.1:${port}/fulfil-mock`;
+    process.env.FULFIL_ACCESS_TOKEN ||= "mock";
+    log(`🧪 Fulfil mock enabled at ${process.env.FULFIL_BASE_URL}`);
+  }
+
   // Initialize UPH data BEFORE registering routes to avoid race conditions
   try {
     log("🔄 Initializing UPH data on startup...");
@@ -49,6 +75,14 @@ app.use((req, res, next) => {
     // Start background scheduler for ongoing updates
     uphScheduler.start(5); // Check every 5 minutes for new data
     log("Optimized UPH background scheduler initialized - checking every 5 minutes");
+
+    // Drift alerts run alongside, comparing recent UPH with each operator's baseline
+    const { uphDriftMonitor } = await import("./jobs/uphDriftMonitor.js");
+    await uphDriftMonitor.start();
+
+    // Polls Fulfil for changes whenever its webhooks go quiet
+    const { fulfilSyncFallback } = await import("./jobs/fulfilSyncFallback.js");
+    fulfilSyncFallback.start();
   } catch (error) {
     log(`❌ Failed to initialize UPH data: ${error}`);
     // Continue without UPH data - better than crashing
@@ -73,10 +107,6 @@ app.use((req, res, next) => {
     serveStatic(app);
   }
 
-  // ALWAYS serve the app on port 5000
-  // this serves both the API and the client.
-  // It is the only port that is not firewalled.
-  const port = 5000;
   server.listen({
     port,
     host: "0.0.0.0",
@@ -0,0 +1,110 @@
+import { getLastWebhookAt, hasFailedWebhookEvents } from "../services/fulfilWebhooks.js";
+import { getSyncStates, isIncrementalSyncRunning, isSyncModel, runIncrementalSync, type IncrementalSyncResult } from "../services/fulfilSync.js";
+
+const CHECK_INTERVAL_MINUTES = 5;
+const QUIET_MINUTES = 15; // No webhook for this long and Fulfil changes are polled instead
+
+/**
+ * Fulfil sync fallback
+ * Webhooks keep Fulfil data current; when none have arrived for a while
+ * (not configured, or Fulfil stopped delivering), or one failed to apply,
+ * this runs the incremental sync on their behalf. Models that have never
+ * been synced are left out: their first, full sync is started by hand.
+ */
+export class FulfilSyncFallback {
+  private static instance: FulfilSyncFallback;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isPolling = false;
+  private lastPollTime: Date | null = null;
+  private lastWebhookAt: Date | null = null;
+  private lastResult: IncrementalSyncResult | null = null;
+
+  static getInstance(): FulfilSyncFallback {
+    if (!FulfilSyncFallback.instance) {
+      FulfilSyncFallback.instance = new FulfilSyncFallback();
+    }
+    return FulfilSyncFallback.instance;
+  }
+
+  /**
+   * Start checking whether webhooks have gone quiet
+   */
+  start(): void {
+    if (this.intervalId) {
+      console.log("📡 Fulfil sync fallback is already running");
+      return;
+    }
+
+    console.log(`🚀 Starting Fulfil sync fallback (polling after ${QUIET_MINUTES} quiet minutes)`);
+    this.intervalId = setInterval(() => {
+      this.pollIfQuiet();
+    }, CHECK_INTERVAL_MINUTES * 60 * 1000);
+  }
+
+  /**
+   * Stop the fallback
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      console.log("⏹️ Fulfil sync fallback stopped");
+    }
+  }
+
+  /**
+   * Get fallback status
+   */
+  getStatus() {
+    return {
+      isRunning: this.intervalId !== null,
+      isPolling: this.isPolling,
+      webhooksQuiet: this.isQuiet(this.lastWebhookAt, new Date()),
+      lastWebhookAt: this.lastWebhookAt,
+      lastPollTime: this.lastPollTime,
+      lastResult: this.lastResult,
+      quietMinutes: QUIET_MINUTES
+    };
+  }
+
+  /**
+   * Note a webhook delivery, so the fallback stands down without a query
+   */
+  webhookReceived(at: Date = new Date()): void {
+    this.lastWebhookAt = at;
+  }
+
+  private isQuiet(lastAt: Date | null, now: Date): boolean {
+    return !lastAt || now.getTime() - lastAt.getTime() >= QUIET_MINUTES * 60 * 1000;
+  }
+
+  private async pollIfQuiet(): Promise<void> {
+    if (this.isPolling || !process.env.FULFIL_ACCESS_TOKEN) return;
+
+    try {
+      this.lastWebhookAt = (await getLastWebhookAt()) ?? this.lastWebhookAt;
+      const now = new Date();
+      // Quiet webhooks, and no poll of our own in the quiet window either - or a webhook since that poll failed
+      const quiet = this.isQuiet(this.lastWebhookAt, now) && this.isQuiet(this.lastPollTime, now);
+      if (!quiet && !(await hasFailedWebhookEvents(this.lastPollTime))) return;
+      if (isIncrementalSyncRunning()) return;
+
+      const models = (await getSyncStates())
+        .filter(state => state.highWaterMark !== null)
+        .map(state => state.model)
+        .filter(isSyncModel);
+      if (models.length === 0) return;
+
+      this.isPolling = true;
+      console.log(quiet ? "📡 No Fulfil webhooks recently, polling for changes" : "📡 Fulfil webhooks failed, polling for changes");
+      this.lastResult = await runIncrementalSync({ models });
+      this.lastPollTime = new Date();
+    } catch (error) {
+      console.error("❌ Error in Fulfil sync fallback:", error);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+}
+
+export const fulfilSyncFallback = FulfilSyncFallback.getInstance();
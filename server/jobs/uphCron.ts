@@ -4,6 +4,8 @@
  */
 
 import { calculateCoreUph } from "../uph-core-calculator.js";
+import { refreshUphData } from "../services/uphEngine.js";
+import { takeUphSnapshot } from "../services/uphSnapshots.js";
 import { db } from "../db.js";
 import { operators } from "../../shared/schema.js";
 import { eq } from "drizzle-orm";
@@ -17,7 +19,8 @@ let lastRunResults: { success: boolean; message: string; calculations: number }
 /**
  * Run UPH calculation job
  * Calculates UPH for all active operators, products, and work centers
- * for all supported time windows (7, 30, 180 days)
+ * for the configured windows (engine default and window policies) and the
+ * fixed 7, 30 and 180 day windows
  */
 export async function runUphCalculationJob(): Promise<void> {
   if (isRunning) {
@@ -40,27 +43,39 @@ export async function runUphCalculationJob(): Promise<void> {
     // Get all work center categories
     const categories = getAllCategories();
     
-    // Time windows to calculate
-    const windows = [7, 30, 180];
+    // Time windows to calculate; null is the configured default with its window policies
+    const windows = [null, 7, 30, 180];
     
     let totalCalculations = 0;
     const errors: string[] = [];
     
+    // Rebuild the stored uph_data table with the configured engine method
+    try {
+      const refresh = await refreshUphData();
+      console.log(`Stored ${refresh.combinations} UPH entries (engine ${refresh.version})`);
+      // First refresh of each week is kept for trends
+      await takeUphSnapshot();
+    } catch (error) {
+      const errorMsg = `Error refreshing stored UPH data: ${error}`;
+      console.error(errorMsg);
+      errors.push(errorMsg);
+    }
+    
     // Pre-calculate all combinations to warm up cache
     for (const window of windows) {
       try {
         // Calculate global UPH for all products/operators/categories
         const globalResults = await calculateCoreUph({ 
-          timeWindowDays: window,
+          timeWindowDays: window ?? undefined,
           bypassDateFilter: false 
         });
         totalCalculations += globalResults.length;
         
-        console.log(`Calculated ${globalResults.length} UPH entries for ${window}-day window`);
+        console.log(`Calculated ${globalResults.length} UPH entries for ${window ? `${window}-day window` : 'configured window policies'}`);
         
         // Core calculator handles all operators internally, no need for additional loops
       } catch (error) {
-        const errorMsg = `Error calculating global UPH for window ${window}: ${error}`;
+        const errorMsg = `Error calculating global UPH for window ${window ?? 'policies'}: ${error}`;
         console.error(errorMsg);
         errors.push(errorMsg);
       }
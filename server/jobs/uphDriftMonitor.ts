@@ -0,0 +1,91 @@
+import { getDriftConfig, runDriftCheck, type DriftCheckResult } from "../services/uphDriftAlerts.js";
+
+/**
+ * Background UPH drift monitor
+ * Runs alongside the UPH scheduler, comparing each operator's recent UPH
+ * with their own baseline and raising alerts on significant drops
+ */
+export class UphDriftMonitor {
+  private static instance: UphDriftMonitor;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isChecking = false;
+  private lastRunTime: Date | null = null;
+  private lastResult: DriftCheckResult | null = null;
+
+  static getInstance(): UphDriftMonitor {
+    if (!UphDriftMonitor.instance) {
+      UphDriftMonitor.instance = new UphDriftMonitor();
+    }
+    return UphDriftMonitor.instance;
+  }
+
+  /**
+   * Start the monitor at the configured interval
+   */
+  async start(): Promise<void> {
+    if (this.intervalId) {
+      console.log("📉 UPH drift monitor is already running");
+      return;
+    }
+
+    const { intervalMinutes } = await getDriftConfig();
+    console.log(`🚀 Starting UPH drift monitor (checking every ${intervalMinutes} minutes)`);
+
+    this.intervalId = setInterval(() => {
+      this.runIfEnabled();
+    }, intervalMinutes * 60 * 1000);
+  }
+
+  /**
+   * Stop the monitor
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      console.log("⏹️ UPH drift monitor stopped");
+    }
+  }
+
+  /**
+   * Run a check now, whatever the schedule
+   */
+  async check(): Promise<DriftCheckResult> {
+    if (this.isChecking) {
+      throw new Error("A drift check is already running");
+    }
+
+    this.isChecking = true;
+    try {
+      this.lastResult = await runDriftCheck();
+      this.lastRunTime = new Date();
+      return this.lastResult;
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  /**
+   * Get monitor status
+   */
+  getStatus() {
+    return {
+      isRunning: this.intervalId !== null,
+      isChecking: this.isChecking,
+      lastRunTime: this.lastRunTime,
+      lastResult: this.lastResult
+    };
+  }
+
+  private async runIfEnabled(): Promise<void> {
+    try {
+      const config = await getDriftConfig();
+      if (!config.enabled || this.isChecking) return;
+      await this.check();
+    } catch (error) {
+      console.error("❌ Error in UPH drift check:", error);
+    }
+  }
+}
+
+export const uphDriftMonitor = UphDriftMonitor.getInstance();
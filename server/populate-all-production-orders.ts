@@ -1,6 +1,7 @@
 import { db } from "./db.js";
 import { productionOrders } from "../shared/schema.js";
 import { eq } from "drizzle-orm";
+import { getFulfilBaseUrl } from "./fulfil-transport.js";
 
 /**
  * Populates ALL production orders from Fulfil API without filters
@@ -10,7 +11,7 @@ export async function populateAllProductionOrders() {
   console.log("🔄 Starting complete production order population from Fulfil API...");
   
   const FULFIL_API_KEY = process.env.FULFIL_ACCESS_TOKEN;
-  const BASE_URL = "https://apc.fulfil.io";
+  const BASE_URL = getFulfilBaseUrl();
   
   if (!FULFIL_API_KEY) {
     throw new Error("FULFIL_ACCESS_TOKEN not found");
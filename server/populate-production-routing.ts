@@ -1,6 +1,7 @@
 import { db } from "./db.js";
 import { productionOrders } from "../shared/schema.js";
 import { eq } from "drizzle-orm";
+import { getFulfilBaseUrl } from "./fulfil-transport.js";
 
 /**
  * Enriches production orders with authentic routing data from Fulfil API
@@ -10,7 +11,7 @@ export async function populateProductionRouting() {
   console.log("🔄 Starting production order routing enrichment from Fulfil API...");
   
   const FULFIL_API_KEY = process.env.FULFIL_ACCESS_TOKEN;
-  const BASE_URL = "https://apc.fulfil.io/api/v2/model";
+  const BASE_URL = `${getFulfilBaseUrl()}/api/v2/model`;
   
   if (!FULFIL_API_KEY) {
     throw new Error("FULFIL_ACCESS_TOKEN not found");
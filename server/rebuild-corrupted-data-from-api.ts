@@ -1,6 +1,7 @@
 import { sql } from "drizzle-orm";
 import { db } from './db.js';
 import { workCycles } from '../shared/schema.js';
+import { getFulfilBaseUrl } from './fulfil-transport.js';
 
 /**
  * CRITICAL: Rebuild Corrupted Work Cycles Data from Fulfil API
@@ -47,7 +48,7 @@ async function fetchAuthenticCycleFromAPI(cycleId: number): Promise<any> {
     throw new Error("FULFIL_ACCESS_TOKEN not found in environment");
   }
 
-  const url = `https://apc.fulfil.io/api/v2/model/production.work.cycles/${cycleId}`;
+  const url = `${getFulfilBaseUrl()}/api/v2/model/production.work.cycles/${cycleId}`;
   
   try {
     const response = await fetch(url, {
@@ -2,6 +2,7 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { FulfilAPIService } from "./fulfil-api";
+import { getFulfilBaseUrl, isFulfilUnavailable } from "./fulfil-transport";
 import { db } from "./db.js";
 import { productionOrders, workOrders, operators, uphData, workCycles, uphCalculationData } from "../shared/schema.js";
 import { sql, eq, desc, or, and, inArray, isNotNull, gt } from "drizzle-orm";
@@ -28,7 +29,7 @@ import {
   insertOperatorSchema,
   insertBatchSchema
 } from "@shared/schema";
-import { setupSlackAuth, isAuthenticated } from "./slackAuth";
+import { setupSlackAuth, isAuthenticated, getSessionUserName } from "./slackAuth";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
@@ -54,7 +55,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Use proper Fulfil advanced search with PUT method to get active manufacturing orders
-      const manufacturingOrderResponse = await fetch('https://apc.fulfil.io/api/v2/model/manufacturing_order/search_read', {
+      const manufacturingOrderResponse = await fetch(`${getFulfilBaseUrl()}/api/v2/model/manufacturing_order/search_read`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -147,7 +148,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           
           console.log('Work order request filters:', JSON.stringify(workOrderRequestBody.filters, null, 2));
           
-          const workOrderResponse = await fetch('https://apc.fulfil.io/api/v2/model/production.work/search_read', {
+          const workOrderResponse = await fetch(`${getFulfilBaseUrl()}/api/v2/model/production.work/search_read`, {
             method: 'PUT',
             headers: {
               'Content-Type': 'application/json',
@@ -586,7 +587,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           autoAssignReason: workOrderAssignments.autoAssignReason,
           autoAssignConfidence: workOrderAssignments.autoAssignConfidence,
           assignedBy: workOrderAssignments.assignedBy,
-          estimatedHours: workOrderAssignments.estimatedHours
+          estimatedHours: workOrderAssignments.estimatedHours,
+          isLocked: workOrderAssignments.isLocked
         })
         .from(workOrderAssignments)
         .leftJoin(operators, eq(workOrderAssignments.operatorId, operators.id))
@@ -1086,20 +1088,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
           .where(eq(workOrderAssignments.workOrderId, workOrderId))
           .limit(1);
         
+        // Supervisors can pin the assignment so auto-assign treats it as fixed
+        const isLocked = req.body.isLocked === undefined
+          ? existingAssignment[0]?.isLocked ?? false
+          : Boolean(req.body.isLocked);
+        
         const assignmentData = {
           workOrderId: workOrderId,
           operatorId: operatorId,
           assignedAt: new Date(),
-          assignedBy: 'dashboard' // Could be enhanced with user info
+          assignedBy: 'dashboard', // Could be enhanced with user info
+          isLocked
         };
         
         if (existingAssignment.length > 0) {
-          // Update existing assignment
+          // Update existing assignment - a manual pick replaces any AI assignment
           await db
             .update(workOrderAssignments)
             .set({
               operatorId: operatorId,
-              assignedAt: new Date()
+              assignedAt: new Date(),
+              assignedBy: 'dashboard',
+              isActive: true,
+              isAutoAssigned: false,
+              isLocked
             })
             .where(eq(workOrderAssignments.workOrderId, workOrderId));
           console.log(`Updated assignment for work order ${workOrderId} to operator ${operator.name}`);
@@ -1161,6 +1173,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             workOrderId: workOrderId,
             operatorId: operatorId,
             operatorName: operator.name,
+            isLocked,
             workCenter: foundWorkOrder.workCenter,
             operation: foundWorkOrder.operation,
             moNumber: parentProductionOrder.moNumber,
@@ -1179,11 +1192,203 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Pin or unpin an assignment; locked assignments are fixed constraints for auto-assign
+  app.patch("/api/assignments/:workOrderId/lock", isAuthenticated, async (req, res) => {
+    try {
+      const workOrderId = parseInt(req.params.workOrderId);
+      if (isNaN(workOrderId)) {
+        return res.status(400).json({ message: "Invalid work order ID" });
+      }
+
+      const { workOrderAssignments } = await import("../shared/schema.js");
+      const isLocked = Boolean(req.body?.locked);
+      const updated = await db
+        .update(workOrderAssignments)
+        .set({ isLocked })
+        .where(and(
+          eq(workOrderAssignments.workOrderId, workOrderId),
+          eq(workOrderAssignments.isActive, true)
+        ))
+        .returning({ workOrderId: workOrderAssignments.workOrderId });
+
+      if (updated.length === 0) {
+        return res.status(404).json({ message: "No active assignment for this work order" });
+      }
+      res.json({ success: true, workOrderId, isLocked });
+    } catch (error) {
+      console.error("Error updating assignment lock:", error);
+      res.status(500).json({ message: "Failed to update assignment lock" });
+    }
+  });
+
+  // Candidates auto-assign considered for a work order and why each was or wasn't picked
+  app.get("/api/assignments/:workOrderId/decision", isAuthenticated, async (req, res) => {
+    try {
+      const workOrderId = parseInt(req.params.workOrderId);
+      if (isNaN(workOrderId)) {
+        return res.status(400).json({ message: "Invalid work order ID" });
+      }
+
+      const { getAssignmentDecision } = await import("./services/assignmentDecisions.js");
+      const decision = await getAssignmentDecision(workOrderId);
+      if (!decision) {
+        return res.status(404).json({ message: "No active assignment for this work order" });
+      }
+      res.json(decision);
+    } catch (error) {
+      console.error("Error fetching assignment decision:", error);
+      res.status(500).json({ message: "Failed to fetch assignment decision" });
+    }
+  });
+
+  // Routings short of qualified operators and who to cross-train for them
+  app.get("/api/cross-training", isAuthenticated, async (req, res) => {
+    try {
+      const horizonDays = req.query.horizonDays ? parseInt(req.query.horizonDays as string) : undefined;
+      if (horizonDays !== undefined && (isNaN(horizonDays) || horizonDays <= 0)) {
+        return res.status(400).json({ message: "horizonDays must be a positive number" });
+      }
+
+      const { getCrossTrainingReport } = await import("./services/crossTraining.js");
+      res.json(await getCrossTrainingReport({ horizonDays }));
+    } catch (error) {
+      console.error("Error building cross-training report:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to build cross-training report" });
+    }
+  });
+
+  // Product family hierarchy used to infer UPH on routings an operator has never run
+  app.get("/api/product-families", isAuthenticated, async (req, res) => {
+    try {
+      const { getProductFamilies, DEFAULT_PRODUCT_FAMILIES } = await import("./services/productFamilies.js");
+      res.json({ families: await getProductFamilies(), defaults: DEFAULT_PRODUCT_FAMILIES });
+    } catch (error) {
+      console.error("Error fetching product families:", error);
+      res.status(500).json({ message: "Failed to fetch product families" });
+    }
+  });
+
+  app.put("/api/product-families", isAuthenticated, async (req, res) => {
+    const { saveProductFamilies, normalizeProductFamilies } = await import("./services/productFamilies.js");
+    try {
+      normalizeProductFamilies(req.body?.families);
+    } catch (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : "Invalid product families" });
+    }
+
+    try {
+      const families = await saveProductFamilies(req.body.families);
+      res.json({ success: true, families });
+    } catch (error) {
+      console.error("Error saving product families:", error);
+      res.status(500).json({ message: "Failed to save product families" });
+    }
+  });
+
+  // Preview the inferred UPH for an operator on a routing they have never run
+  app.get("/api/product-families/inferred-uph", isAuthenticated, async (req, res) => {
+    try {
+      const { operatorName, workCenter, routing } = req.query;
+      if (!operatorName || !workCenter || !routing) {
+        return res.status(400).json({ message: "operatorName, workCenter and routing are required" });
+      }
+
+      const { getProductFamilies, inferUph } = await import("./services/productFamilies.js");
+      const rows = await db.select().from(uphData);
+      const inferred = inferUph(
+        { operatorName: operatorName as string, workCenter: workCenter as string, routing: routing as string },
+        rows.map(row => ({
+          operatorName: row.operatorName,
+          workCenter: row.workCenter,
+          routing: row.productRouting,
+          uph: row.shrunkUph ?? row.uph,
+          observations: row.observationCount || 0
+        })),
+        await getProductFamilies()
+      );
+      if (!inferred) {
+        return res.status(404).json({ message: "No related routings to infer UPH from" });
+      }
+      res.json({ ...inferred, inferred: true });
+    } catch (error) {
+      console.error("Error inferring UPH:", error);
+      res.status(500).json({ message: "Failed to infer UPH" });
+    }
+  });
+
+  // Standard minutes per unit per routing operation, computed from consolidated cycles with planner overrides
+  app.get("/api/standard-times", isAuthenticated, async (req, res) => {
+    try {
+      const { getStandardTimes, getStandardTimeConfig } = await import("./services/standardTimes.js");
+      const routing = typeof req.query.routing === 'string' && req.query.routing ? req.query.routing : undefined;
+      const [standards, config] = await Promise.all([getStandardTimes(routing), getStandardTimeConfig()]);
+      res.json({ standards, config });
+    } catch (error) {
+      console.error("Error computing standard times:", error);
+      res.status(500).json({ message: "Failed to compute standard times" });
+    }
+  });
+
+  app.put("/api/standard-times/config", isAuthenticated, async (req, res) => {
+    try {
+      const { saveStandardTimeConfig } = await import("./services/standardTimes.js");
+      const config = await saveStandardTimeConfig(req.body?.config ?? req.body);
+      res.json({ success: true, config });
+    } catch (error) {
+      console.error("Error saving standard time config:", error);
+      res.status(500).json({ message: "Failed to save standard time config" });
+    }
+  });
+
+  app.put("/api/standard-times/overrides", isAuthenticated, async (req, res) => {
+    const { saveStandardTimeOverride, normalizeStandardTimeOverride } = await import("./services/standardTimes.js");
+    try {
+      normalizeStandardTimeOverride(req.body);
+    } catch (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : "Invalid standard time override" });
+    }
+
+    try {
+      const override = await saveStandardTimeOverride(req.body, getSessionUserName(req));
+      res.json({ success: true, override });
+    } catch (error) {
+      console.error("Error saving standard time override:", error);
+      res.status(500).json({ message: "Failed to save standard time override" });
+    }
+  });
+
+  app.delete("/api/standard-times/overrides/:id", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid override id" });
+      }
+
+      const { deleteStandardTimeOverride } = await import("./services/standardTimes.js");
+      if (!(await deleteStandardTimeOverride(id))) {
+        return res.status(404).json({ message: "Standard time override not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting standard time override:", error);
+      res.status(500).json({ message: "Failed to delete standard time override" });
+    }
+  });
+
   // Operators
   app.get("/api/operators", isAuthenticated, async (req, res) => {
     const activeOnly = req.query.activeOnly !== "false";
     const operators = await storage.getOperators(activeOnly);
     
+    // Real available hours this week from shift calendars, time off and holidays
+    let scheduledHours = new Map<number, number>();
+    try {
+      const { getAvailableHours } = await import("./services/operatorCalendar.js");
+      scheduledHours = await getAvailableHours(operators.map(op => op.id));
+    } catch (error) {
+      console.error("Error loading operator calendars:", error);
+    }
+    
     // Add activity status - use database last_active_date first, then fallback to work cycles
     const operatorsWithActivity = await Promise.all(operators.map(async (operator) => {
       try {
@@ -1218,14 +1423,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return {
           ...operator,
           lastActiveDate,
-          isRecentlyActive: !!isRecentlyActive
+          isRecentlyActive: !!isRecentlyActive,
+          scheduledHours: scheduledHours.get(operator.id) ?? null
         };
       } catch (error) {
         console.error(`Error checking activity for operator ${operator.name}:`, error);
         return {
           ...operator,
           lastActiveDate: null,
-          isRecentlyActive: false
+          isRecentlyActive: false,
+          scheduledHours: scheduledHours.get(operator.id) ?? null
         };
       }
     }));
@@ -1248,6 +1455,154 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(operators);
   });
 
+  // Operator calendars: weekly shift pattern, time off and plant holidays
+  app.get("/api/operators/:id/calendar", isAuthenticated, async (req, res) => {
+    try {
+      const operatorId = parseInt(req.params.id);
+      if (isNaN(operatorId)) {
+        return res.status(400).json({ message: "Invalid operator ID" });
+      }
+
+      const { operatorShifts, operatorTimeOff } = await import("../shared/schema.js");
+      const { getAvailableHours, DEFAULT_CAPACITY_DAYS } = await import("./services/operatorCalendar.js");
+      const [shifts, timeOff, available] = await Promise.all([
+        db.select().from(operatorShifts).where(eq(operatorShifts.operatorId, operatorId)),
+        db.select().from(operatorTimeOff).where(eq(operatorTimeOff.operatorId, operatorId)).orderBy(desc(operatorTimeOff.startDate)),
+        getAvailableHours([operatorId])
+      ]);
+
+      res.json({
+        shifts,
+        timeOff,
+        scheduledHours: available.get(operatorId) ?? 0,
+        capacityDays: DEFAULT_CAPACITY_DAYS
+      });
+    } catch (error) {
+      console.error("Error fetching operator calendar:", error);
+      res.status(500).json({ message: "Failed to fetch operator calendar" });
+    }
+  });
+
+  app.put("/api/operators/:id/shifts", isAuthenticated, async (req, res) => {
+    try {
+      const operatorId = parseInt(req.params.id);
+      if (isNaN(operatorId) || !Array.isArray(req.body?.shifts)) {
+        return res.status(400).json({ message: "Operator ID and shifts array are required" });
+      }
+
+      const { saveShiftPattern } = await import("./services/operatorCalendar.js");
+      const shifts = await saveShiftPattern(operatorId, req.body.shifts.map((shift: any) => ({
+        dayOfWeek: parseInt(shift.dayOfWeek),
+        startTime: shift.startTime || null,
+        hours: parseFloat(shift.hours)
+      })));
+      res.json({ success: true, shifts });
+    } catch (error) {
+      console.error("Error saving shift pattern:", error);
+      res.status(500).json({ message: "Failed to save shift pattern" });
+    }
+  });
+
+  app.post("/api/operators/:id/time-off", isAuthenticated, async (req, res) => {
+    try {
+      const operatorId = parseInt(req.params.id);
+      const { startDate, endDate, hoursPerDay, reason } = req.body || {};
+      const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+      if (isNaN(operatorId) || !datePattern.test(startDate) || !datePattern.test(endDate || startDate)) {
+        return res.status(400).json({ message: "Operator ID and dates (YYYY-MM-DD) are required" });
+      }
+      if ((endDate || startDate) < startDate) {
+        return res.status(400).json({ message: "End date must not be before start date" });
+      }
+
+      const { operatorTimeOff } = await import("../shared/schema.js");
+      const [entry] = await db
+        .insert(operatorTimeOff)
+        .values({
+          operatorId,
+          startDate,
+          endDate: endDate || startDate,
+          hoursPerDay: hoursPerDay ? parseFloat(hoursPerDay) : null,
+          reason: reason || null
+        })
+        .returning();
+      res.json(entry);
+    } catch (error) {
+      console.error("Error adding time off:", error);
+      res.status(500).json({ message: "Failed to add time off" });
+    }
+  });
+
+  app.delete("/api/operators/:id/time-off/:entryId", isAuthenticated, async (req, res) => {
+    try {
+      const operatorId = parseInt(req.params.id);
+      const entryId = parseInt(req.params.entryId);
+      const { operatorTimeOff } = await import("../shared/schema.js");
+      const deleted = await db
+        .delete(operatorTimeOff)
+        .where(and(eq(operatorTimeOff.id, entryId), eq(operatorTimeOff.operatorId, operatorId)))
+        .returning({ id: operatorTimeOff.id });
+
+      if (deleted.length === 0) {
+        return res.status(404).json({ message: "Time off entry not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting time off:", error);
+      res.status(500).json({ message: "Failed to delete time off" });
+    }
+  });
+
+  app.get("/api/holidays", isAuthenticated, async (req, res) => {
+    try {
+      const { plantHolidays } = await import("../shared/schema.js");
+      const holidays = await db.select().from(plantHolidays).orderBy(plantHolidays.date);
+      res.json(holidays);
+    } catch (error) {
+      console.error("Error fetching holidays:", error);
+      res.status(500).json({ message: "Failed to fetch holidays" });
+    }
+  });
+
+  app.post("/api/holidays", isAuthenticated, async (req, res) => {
+    try {
+      const { date, name } = req.body || {};
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !name) {
+        return res.status(400).json({ message: "Date (YYYY-MM-DD) and name are required" });
+      }
+
+      const { plantHolidays } = await import("../shared/schema.js");
+      const [holiday] = await db
+        .insert(plantHolidays)
+        .values({ date, name })
+        .onConflictDoUpdate({ target: plantHolidays.date, set: { name } })
+        .returning();
+      res.json(holiday);
+    } catch (error) {
+      console.error("Error adding holiday:", error);
+      res.status(500).json({ message: "Failed to add holiday" });
+    }
+  });
+
+  app.delete("/api/holidays/:id", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { plantHolidays } = await import("../shared/schema.js");
+      const deleted = await db
+        .delete(plantHolidays)
+        .where(eq(plantHolidays.id, id))
+        .returning({ id: plantHolidays.id });
+
+      if (deleted.length === 0) {
+        return res.status(404).json({ message: "Holiday not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting holiday:", error);
+      res.status(500).json({ message: "Failed to delete holiday" });
+    }
+  });
+
   // Get qualified operators for specific work center/routing/operation combination
   app.get("/api/operators/qualified", isAuthenticated, async (req: Request, res: Response) => {
     try {
@@ -1560,25 +1915,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/uph/standardized", isAuthenticated, async (req, res) => {
     try {
       const { calculateStandardizedUph } = await import("./services/uphService.js");
+      const { getUphEngineConfig, UPH_ENGINE_VERSION } = await import("./services/uphEngine.js");
       
       const {
         productName,
         workCenterCategory,
         operatorId,
-        windowDays = "30"
+        windowDays
       } = req.query;
+      // Without windowDays each work center / routing uses its window policy
+      if (windowDays !== undefined && !(Number(windowDays) > 0)) {
+        return res.status(400).json({ success: false, message: "windowDays must be a positive number" });
+      }
       
       const results = await calculateStandardizedUph({
         productName: productName as string,
         workCenterCategory: workCenterCategory as any,
         operatorId: operatorId ? parseInt(operatorId as string) : undefined,
-        windowDays: parseInt(windowDays as string)
+        windowDays: windowDays !== undefined ? Number(windowDays) : undefined
       });
       
       res.json({
         success: true,
         data: results,
-        windowDays: parseInt(windowDays as string),
+        windowDays: windowDays !== undefined ? Number(windowDays) : null,
+        method: (await getUphEngineConfig()).method,
+        version: UPH_ENGINE_VERSION,
         timestamp: new Date().toISOString()
       });
     } catch (error) {
@@ -1595,9 +1957,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/uph/standardized/operator/:operatorId", async (req, res) => {
     try {
       const { getOperatorProductUph } = await import("./services/uphService.js");
+      const { getUphEngineConfig, UPH_ENGINE_VERSION } = await import("./services/uphEngine.js");
       
       const operatorId = parseInt(req.params.operatorId);
-      const { productName, workCenterCategory, windowDays = "30" } = req.query;
+      const { productName, workCenterCategory, windowDays } = req.query;
       
       if (!productName || !workCenterCategory) {
         return res.status(400).json({
@@ -1605,12 +1968,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           message: "productName and workCenterCategory are required"
         });
       }
+      if (windowDays !== undefined && !(Number(windowDays) > 0)) {
+        return res.status(400).json({ success: false, message: "windowDays must be a positive number" });
+      }
       
       const uph = await getOperatorProductUph(
         operatorId,
         productName as string,
         workCenterCategory as any,
-        parseInt(windowDays as string)
+        windowDays !== undefined ? Number(windowDays) : undefined
       );
       
       res.json({
@@ -1618,9 +1984,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         operatorId,
         productName,
         workCenterCategory,
-        windowDays: parseInt(windowDays as string),
+        windowDays: windowDays !== undefined ? Number(windowDays) : null,
         uph: uph || 0,
-        dataAvailable: uph !== null
+        dataAvailable: uph !== null,
+        method: (await getUphEngineConfig()).method,
+        version: UPH_ENGINE_VERSION
       });
     } catch (error) {
       console.error("Error fetching operator UPH:", error);
@@ -2246,7 +2614,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get employee list with pagination
       console.log("Fetching employees from company.employee endpoint...");
       
-      const listEndpoint = `https://apc.fulfil.io/api/v2/model/company.employee?per_page=50`;
+      const listEndpoint = `${getFulfilBaseUrl()}/api/v2/model/company.employee?per_page=50`;
       
       const listResponse = await fetch(listEndpoint, {
         method: 'GET',
@@ -2270,7 +2638,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       for (const emp of employeeList.slice(0, 15)) { // Limit to first 15 to avoid overwhelming API
         try {
-          const detailEndpoint = `https://apc.fulfil.io/api/v2/model/company.employee/${emp.id}`;
+          const detailEndpoint = `${getFulfilBaseUrl()}/api/v2/model/company.employee/${emp.id}`;
           const detailResponse = await fetch(detailEndpoint, {
             method: 'GET',
             headers: {
@@ -2690,7 +3058,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       // Return current settings (without exposing the actual API key)
       res.json({
-        baseUrl: "https://apc.fulfil.io",
+        baseUrl: getFulfilBaseUrl(),
         hasApiKey: !!process.env.FULFIL_ACCESS_TOKEN,
         autoSync: true,
         lastSync: null
@@ -2706,7 +3074,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json({ 
         message: "Fulfil settings saved successfully",
-        baseUrl: baseUrl || "https://apc.fulfil.io",
+        baseUrl: baseUrl || getFulfilBaseUrl(),
         autoSync: autoSync !== false,
         hasApiKey: !!process.env.FULFIL_ACCESS_TOKEN
       });
@@ -2861,6 +3229,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         workOrders: woCount
       });
     } catch (error) {
+      if (isFulfilUnavailable(error)) {
+        return res.status(503).json({ message: `Fulfil is unavailable: ${(error as Error).message}` });
+      }
       res.status(500).json({ message: "Error retrieving data counts" });
     }
   });
@@ -3365,6 +3736,196 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Incremental sync - only records Fulfil changed since each model's write_date high-water mark
+  app.get("/api/fulfil/sync-state", async (req, res) => {
+    try {
+      const { getSyncStates, isIncrementalSyncRunning } = await import("./services/fulfilSync.js");
+      res.json({ states: await getSyncStates(), running: isIncrementalSyncRunning() });
+    } catch (error) {
+      console.error("Error loading Fulfil sync state:", error);
+      res.status(500).json({ message: "Failed to load Fulfil sync state" });
+    }
+  });
+
+  app.post("/api/fulfil/sync-incremental", async (req, res) => {
+    try {
+      const { runIncrementalSync, isIncrementalSyncRunning, isSyncModel } = await import("./services/fulfilSync.js");
+      const { models } = req.body ?? {};
+      if (models !== undefined && (!Array.isArray(models) || !models.every(isSyncModel))) {
+        return res.status(400).json({ message: "models must be a list of production, production.work or production.work.cycle" });
+      }
+      if (!process.env.FULFIL_ACCESS_TOKEN) {
+        return res.status(400).json({ message: "Fulfil API key not configured" });
+      }
+      if (isIncrementalSyncRunning()) {
+        return res.status(409).json({ message: "An incremental sync is already running" });
+      }
+
+      const result = await runIncrementalSync({ models });
+      res.json(result);
+    } catch (error) {
+      console.error("Error running incremental Fulfil sync:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Incremental sync failed" });
+    }
+  });
+
+  app.post("/api/fulfil/sync-state/reset", async (req, res) => {
+    try {
+      const { resetSyncState, isSyncModel } = await import("./services/fulfilSync.js");
+      const { model, since } = req.body ?? {};
+      if (!isSyncModel(model)) {
+        return res.status(400).json({ message: "model must be production, production.work or production.work.cycle" });
+      }
+      const sinceDate = since ? new Date(since) : null;
+      if (sinceDate && Number.isNaN(sinceDate.getTime())) {
+        return res.status(400).json({ message: "since must be a date" });
+      }
+
+      await resetSyncState(model, sinceDate);
+      res.json({ model, highWaterMark: sinceDate });
+    } catch (error) {
+      console.error("Error resetting Fulfil sync state:", error);
+      res.status(500).json({ message: "Failed to reset Fulfil sync state" });
+    }
+  });
+
+  // Operator write-back - set production.work.operator in Fulfil from active assignments (opt-in)
+  app.get("/api/fulfil/operator-writeback/config", isAuthenticated, async (req, res) => {
+    try {
+      const { getWritebackConfig, isWritebackRunning } = await import("./services/fulfilOperatorWriteback.js");
+      res.json({ config: await getWritebackConfig(), running: isWritebackRunning() });
+    } catch (error) {
+      console.error("Error getting operator write-back config:", error);
+      res.status(500).json({ message: "Error getting operator write-back config" });
+    }
+  });
+
+  app.put("/api/fulfil/operator-writeback/config", isAuthenticated, async (req, res) => {
+    try {
+      const { saveWritebackConfig } = await import("./services/fulfilOperatorWriteback.js");
+      const config = await saveWritebackConfig(req.body?.config ?? req.body);
+      res.json({ success: true, config });
+    } catch (error) {
+      console.error("Error saving operator write-back config:", error);
+      res.status(500).json({ message: "Error saving operator write-back config" });
+    }
+  });
+
+  // dryRun (the default) previews what a push would write; it works even while write-back is disabled
+  app.post("/api/fulfil/operator-writeback/push", isAuthenticated, async (req, res) => {
+    try {
+      const {
+        getWritebackConfig,
+        isWritebackRunning,
+        previewOperatorWriteback,
+        pushOperatorWriteback
+      } = await import("./services/fulfilOperatorWriteback.js");
+      const { workOrderIds, overwriteConflicts, dryRun } = req.body ?? {};
+      if (workOrderIds !== undefined && (!Array.isArray(workOrderIds) || !workOrderIds.every(Number.isInteger))) {
+        return res.status(400).json({ message: "workOrderIds must be a list of Fulfil work order IDs" });
+      }
+      if (!process.env.FULFIL_ACCESS_TOKEN) {
+        return res.status(400).json({ message: "Fulfil API key not configured" });
+      }
+
+      if (dryRun !== false) {
+        return res.json(await previewOperatorWriteback({ workOrderIds }));
+      }
+      if (!(await getWritebackConfig()).enabled) {
+        return res.status(400).json({ message: "Operator write-back is disabled; enable it in the Fulfil settings first" });
+      }
+      if (isWritebackRunning()) {
+        return res.status(409).json({ message: "An operator write-back is already running" });
+      }
+
+      const result = await pushOperatorWriteback({
+        workOrderIds,
+        overwriteConflicts: overwriteConflicts === true,
+        pushedBy: getSessionUserName(req)
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error pushing operators to Fulfil:", error);
+      res.status(isFulfilUnavailable(error) ? 503 : 500).json({
+        message: error instanceof Error ? error.message : "Operator write-back failed"
+      });
+    }
+  });
+
+  app.get("/api/fulfil/operator-writeback/log", isAuthenticated, async (req, res) => {
+    try {
+      const { getWritebackLog } = await import("./services/fulfilOperatorWriteback.js");
+      const limit = req.query.limit !== undefined ? Number(req.query.limit) : 100;
+      const workOrderId = req.query.workOrderId !== undefined ? Number(req.query.workOrderId) : undefined;
+      if (!Number.isInteger(limit) || (workOrderId !== undefined && !Number.isInteger(workOrderId))) {
+        return res.status(400).json({ message: "limit and workOrderId must be integers" });
+      }
+      res.json({ entries: await getWritebackLog({ limit, workOrderId }) });
+    } catch (error) {
+      console.error("Error getting operator write-back log:", error);
+      res.status(500).json({ message: "Error getting operator write-back log" });
+    }
+  });
+
+  // Fulfil webhooks - signed production, work order and work cycle events, applied as they arrive
+  app.post("/api/fulfil/webhooks", async (req, res) => {
+    try {
+      const {
+        getWebhookSecret,
+        parseWebhookEvent,
+        processWebhookEvent,
+        recordWebhookEvent,
+        verifyWebhookSignature,
+        SIGNATURE_HEADER
+      } = await import("./services/fulfilWebhooks.js");
+      const secret = getWebhookSecret();
+      if (!secret) {
+        return res.status(503).json({ message: "Fulfil webhook secret not configured" });
+      }
+      const rawBody = req.rawBody;
+      if (!rawBody || !verifyWebhookSignature(rawBody, req.get(SIGNATURE_HEADER), secret)) {
+        return res.status(401).json({ message: "Invalid webhook signature" });
+      }
+
+      const event = parseWebhookEvent(req.headers, req.body, rawBody);
+      if (!event) {
+        return res.json({ ignored: true });
+      }
+
+      const { fulfilSyncFallback } = await import("./jobs/fulfilSyncFallback.js");
+      fulfilSyncFallback.webhookReceived();
+
+      const row = await recordWebhookEvent(event);
+      if (!row) {
+        return res.json({ duplicate: true, eventId: event.eventId });
+      }
+
+      // Acknowledge now; Fulfil retries slow deliveries, and failures are left to the polling fallback
+      res.status(202).json({ accepted: true, eventId: event.eventId });
+      processWebhookEvent(row.id, event).catch(error => {
+        console.error(`Error processing Fulfil webhook ${event.eventId}:`, error);
+      });
+    } catch (error) {
+      console.error("Error receiving Fulfil webhook:", error);
+      res.status(500).json({ message: "Error receiving Fulfil webhook" });
+    }
+  });
+
+  app.get("/api/fulfil/webhooks/status", async (req, res) => {
+    try {
+      const { getWebhookSecret, getRecentWebhookEvents } = await import("./services/fulfilWebhooks.js");
+      const { fulfilSyncFallback } = await import("./jobs/fulfilSyncFallback.js");
+      res.json({
+        configured: getWebhookSecret() !== null,
+        fallback: fulfilSyncFallback.getStatus(),
+        recentEvents: await getRecentWebhookEvents(20)
+      });
+    } catch (error) {
+      console.error("Error getting Fulfil webhook status:", error);
+      res.status(500).json({ message: "Error getting Fulfil webhook status" });
+    }
+  });
+
   // Comprehensive work cycles import - pulls ALL work cycles from API
   app.post("/api/fulfil/import-all-work-cycles", async (req: Request, res: Response) => {
     try {
@@ -3528,30 +4089,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Set calculating status
       (global as any).updateImportStatus({
         isCalculating: true,
-        currentOperation: 'Rebuilding UPH using production.id grouping',
+        currentOperation: 'Rebuilding UPH with the UPH engine',
         startTime: Date.now()
       });
 
-      // Use CORE UPH calculator that properly aggregates durations across all operations
-      const { calculateCoreUph } = await import("./uph-core-calculator.js");
-      const result = await calculateCoreUph();
+      // Rebuild stored UPH with the UPH engine's configured method
+      const { refreshUphData, describeUphConfig } = await import("./services/uphEngine.js");
+      const result = await refreshUphData();
       
       // Clear calculating status
       (global as any).updateImportStatus({
         isCalculating: false,
-        currentOperation: 'Fixed UPH calculation completed',
+        currentOperation: 'UPH calculation completed',
         startTime: null
       });
       
       res.json({
         success: true,
-        message: `Fixed UPH calculation complete: ${result.operatorWorkCenterCombinations} combinations from ${result.productionOrders} production orders`,
-        productionOrders: result.productionOrders,
-        operatorWorkCenterCombinations: result.operatorWorkCenterCombinations,
+        message: `UPH calculation complete: ${result.combinations} combinations from ${result.cyclesProcessed} work cycles`,
+        cyclesProcessed: result.cyclesProcessed,
+        operatorWorkCenterCombinations: result.combinations,
         totalObservations: result.totalObservations,
         averageUph: result.averageUph,
-        method: "Fixed UPH using production.id grouping",
-        note: "Groups by production_id to ensure authentic MO totals"
+        method: result.config.method,
+        version: result.version,
+        note: `UPH engine ${result.version}: ${describeUphConfig(result.config)}`
       });
     } catch (error) {
       console.error("Error calculating accurate UPH:", error);
@@ -3973,11 +4535,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // AI-powered anomaly detection for work cycle data
+  // Statistical anomaly detection for work cycle data; thresholds in the body
+  // override the saved ones for this run only
   app.post("/api/uph/detect-anomalies", async (req, res) => {
     try {
       const { detectWorkCycleAnomalies } = await import("./ai-anomaly-detection.js");
-      const result = await detectWorkCycleAnomalies();
+      const { getAnomalyThresholds, normalizeAnomalyThresholds } = await import("./services/anomalyDetector.js");
+      const thresholds = req.body?.thresholds
+        ? normalizeAnomalyThresholds({ ...await getAnomalyThresholds(), ...req.body.thresholds })
+        : undefined;
+      const result = await detectWorkCycleAnomalies(thresholds);
       
       res.json(result);
     } catch (error) {
@@ -3993,7 +4560,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Calculate clean UPH with AI anomaly filtering
+  // Anomaly detector thresholds
+  app.get("/api/uph/anomaly-thresholds", async (req, res) => {
+    try {
+      const { getAnomalyThresholds, DEFAULT_ANOMALY_THRESHOLDS } = await import("./services/anomalyDetector.js");
+      res.json({ thresholds: await getAnomalyThresholds(), defaults: DEFAULT_ANOMALY_THRESHOLDS });
+    } catch (error) {
+      console.error("Error fetching anomaly thresholds:", error);
+      res.status(500).json({ message: "Failed to fetch anomaly thresholds" });
+    }
+  });
+
+  app.put("/api/uph/anomaly-thresholds", async (req, res) => {
+    try {
+      const { saveAnomalyThresholds } = await import("./services/anomalyDetector.js");
+      const thresholds = await saveAnomalyThresholds(req.body?.thresholds || {});
+      res.json({ success: true, thresholds });
+    } catch (error) {
+      console.error("Error saving anomaly thresholds:", error);
+      res.status(500).json({ message: "Failed to save anomaly thresholds" });
+    }
+  });
+
+  // Calculate clean UPH with outlying cycles excluded
   app.post("/api/uph/calculate-clean", async (req, res) => {
     try {
       const { calculateCleanUph } = await import("./ai-anomaly-detection.js");
@@ -4017,6 +4606,233 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // UPH engine: version, available methods and policies, and the configured default
+  app.get("/api/uph/engine", async (req, res) => {
+    try {
+      const { getUphEngineConfig, describeUphConfig, listUphMethods, UPH_ENGINE_VERSION } = await import("./services/uphEngine.js");
+      const config = await getUphEngineConfig();
+
+      res.json({
+        version: UPH_ENGINE_VERSION,
+        methods: listUphMethods(),
+        outlierPolicies: ['none', 'sigma', 'iqr'],
+        windows: ['operator', 'days', 'mos', 'all'],
+        config,
+        configuration: describeUphConfig(config)
+      });
+    } catch (error) {
+      console.error("Error getting UPH engine info:", error);
+      res.status(500).json({ message: "Error getting UPH engine info" });
+    }
+  });
+
+  // Change the engine's default method / window / outlier policy and rebuild stored UPH
+  app.put("/api/uph/engine/config", async (req, res) => {
+    try {
+      const { method, window, windowDays, windowMos, outliers } = req.body || {};
+      if (method !== undefined && method !== 'mo_weighted' && method !== 'cycle_weighted') {
+        return res.status(400).json({ message: "method must be mo_weighted or cycle_weighted" });
+      }
+      if (outliers !== undefined && !['none', 'sigma', 'iqr'].includes(outliers)) {
+        return res.status(400).json({ message: "outliers must be none, sigma or iqr" });
+      }
+      if (windowDays !== undefined && !(Number(windowDays) > 0)) {
+        return res.status(400).json({ message: "windowDays must be a positive number" });
+      }
+      if (windowMos !== undefined && !(Number(windowMos) >= 1)) {
+        return res.status(400).json({ message: "windowMos must be at least 1" });
+      }
+
+      const { saveUphEngineConfig, refreshUphData } = await import("./services/uphEngine.js");
+      const config = await saveUphEngineConfig({ method, window, windowDays, windowMos, outliers });
+      const refresh = await refreshUphData(config);
+
+      res.json({ config, refresh });
+    } catch (error) {
+      console.error("Error saving UPH engine config:", error);
+      res.status(500).json({ message: "Error saving UPH engine config" });
+    }
+  });
+
+  // UPH window policies per work center and/or routing; changes rebuild stored UPH
+  app.get("/api/uph/window-policies", async (req, res) => {
+    try {
+      const { loadWindowPolicies, getUphEngineConfig } = await import("./services/uphEngine.js");
+      const [policies, config] = await Promise.all([loadWindowPolicies(), getUphEngineConfig()]);
+      res.json({ policies, defaultWindow: config.window });
+    } catch (error) {
+      console.error("Error getting UPH window policies:", error);
+      res.status(500).json({ message: "Error getting UPH window policies" });
+    }
+  });
+
+  app.put("/api/uph/window-policies", isAuthenticated, async (req, res) => {
+    const { normalizeWindowPolicy, saveWindowPolicy, refreshUphData } = await import("./services/uphEngine.js");
+    try {
+      normalizeWindowPolicy(req.body);
+    } catch (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : "Invalid window policy" });
+    }
+
+    try {
+      const policy = await saveWindowPolicy(req.body, getSessionUserName(req));
+      const refresh = await refreshUphData();
+      res.json({ policy, refresh });
+    } catch (error) {
+      console.error("Error saving UPH window policy:", error);
+      res.status(500).json({ message: "Error saving UPH window policy" });
+    }
+  });
+
+  app.delete("/api/uph/window-policies/:id", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid policy id" });
+      }
+
+      const { deleteWindowPolicy, refreshUphData } = await import("./services/uphEngine.js");
+      if (!(await deleteWindowPolicy(id))) {
+        return res.status(404).json({ message: "Window policy not found" });
+      }
+      const refresh = await refreshUphData();
+      res.json({ success: true, refresh });
+    } catch (error) {
+      console.error("Error deleting UPH window policy:", error);
+      res.status(500).json({ message: "Error deleting UPH window policy" });
+    }
+  });
+
+  // UPH drift alerts: operators whose recent UPH on a routing fell well below their own baseline
+  app.get("/api/uph/drift-alerts", async (req, res) => {
+    try {
+      const { listDriftAlerts } = await import("./services/uphDriftAlerts.js");
+      const { uphDriftMonitor } = await import("./jobs/uphDriftMonitor.js");
+      const status = typeof req.query.status === 'string' && req.query.status ? req.query.status : undefined;
+      res.json({ alerts: await listDriftAlerts(status), monitor: uphDriftMonitor.getStatus() });
+    } catch (error) {
+      console.error("Error getting UPH drift alerts:", error);
+      res.status(500).json({ message: "Error getting UPH drift alerts" });
+    }
+  });
+
+  app.post("/api/uph/drift-alerts/check", isAuthenticated, async (req, res) => {
+    try {
+      const { uphDriftMonitor } = await import("./jobs/uphDriftMonitor.js");
+      if (uphDriftMonitor.getStatus().isChecking) {
+        return res.status(409).json({ message: "A drift check is already running" });
+      }
+      res.json({ result: await uphDriftMonitor.check() });
+    } catch (error) {
+      console.error("Error running UPH drift check:", error);
+      res.status(500).json({ message: "Error running UPH drift check" });
+    }
+  });
+
+  app.post("/api/uph/drift-alerts/:id/acknowledge", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid alert id" });
+      }
+
+      const { acknowledgeDriftAlert } = await import("./services/uphDriftAlerts.js");
+      const alert = await acknowledgeDriftAlert(id, getSessionUserName(req));
+      if (!alert) {
+        return res.status(404).json({ message: "Drift alert not found" });
+      }
+      res.json({ alert });
+    } catch (error) {
+      console.error("Error acknowledging UPH drift alert:", error);
+      res.status(500).json({ message: "Error acknowledging UPH drift alert" });
+    }
+  });
+
+  app.get("/api/uph/drift-alerts/config", async (req, res) => {
+    try {
+      const { getDriftConfig, DEFAULT_DRIFT_CONFIG } = await import("./services/uphDriftAlerts.js");
+      res.json({ config: await getDriftConfig(), defaults: DEFAULT_DRIFT_CONFIG });
+    } catch (error) {
+      console.error("Error getting UPH drift config:", error);
+      res.status(500).json({ message: "Error getting UPH drift config" });
+    }
+  });
+
+  app.put("/api/uph/drift-alerts/config", isAuthenticated, async (req, res) => {
+    try {
+      const { saveDriftConfig } = await import("./services/uphDriftAlerts.js");
+      const { uphDriftMonitor } = await import("./jobs/uphDriftMonitor.js");
+      const config = await saveDriftConfig(req.body?.config ?? req.body);
+
+      // Pick up a new interval
+      if (uphDriftMonitor.getStatus().isRunning) {
+        uphDriftMonitor.stop();
+        await uphDriftMonitor.start();
+      }
+      res.json({ success: true, config });
+    } catch (error) {
+      console.error("Error saving UPH drift config:", error);
+      res.status(500).json({ message: "Error saving UPH drift config" });
+    }
+  });
+
+  // Work orders shared between operators and how their quantity was split for UPH
+  app.get("/api/uph/quantity-allocation", async (req, res) => {
+    try {
+      const limit = req.query.limit !== undefined ? Number(req.query.limit) : 50;
+      if (!(limit >= 0)) {
+        return res.status(400).json({ message: "limit must be a non-negative number" });
+      }
+
+      const { getQuantityAllocationReport } = await import("./services/uphEngine.js");
+      const report = await getQuantityAllocationReport();
+
+      res.json({
+        ...report,
+        workOrderDetails: report.workOrderDetails
+          .sort((a, b) => b.quantity - a.quantity)
+          .slice(0, limit)
+      });
+    } catch (error) {
+      console.error("Error building quantity allocation report:", error);
+      res.status(500).json({ message: "Error building quantity allocation report" });
+    }
+  });
+
+  // Weekly UPH snapshots per operator / work center / routing, with change points
+  app.get("/api/uph/trends", async (req, res) => {
+    try {
+      const { operatorName, workCenter, routing, weeks } = req.query;
+      if (weeks !== undefined && !(Number(weeks) > 0)) {
+        return res.status(400).json({ message: "weeks must be a positive number" });
+      }
+
+      const { getUphTrends } = await import("./services/uphSnapshots.js");
+      const trends = await getUphTrends({
+        operatorName: operatorName as string | undefined,
+        workCenter: workCenter as string | undefined,
+        routing: routing as string | undefined,
+        weeks: weeks !== undefined ? Number(weeks) : undefined
+      });
+
+      res.json({ trends });
+    } catch (error) {
+      console.error("Error getting UPH trends:", error);
+      res.status(500).json({ message: "Error getting UPH trends" });
+    }
+  });
+
+  // Capture this week's snapshot now instead of waiting for the UPH job
+  app.post("/api/uph/snapshots", async (req, res) => {
+    try {
+      const { takeUphSnapshot } = await import("./services/uphSnapshots.js");
+      res.json(await takeUphSnapshot());
+    } catch (error) {
+      console.error("Error taking UPH snapshot:", error);
+      res.status(500).json({ message: "Error taking UPH snapshot" });
+    }
+  });
+
   // Get current UPH table data for dashboard display - USE CACHED DATABASE VALUES FOR SPEED
   app.get("/api/uph/table-data", async (req, res) => {
     try {
@@ -4033,11 +4849,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         operatorName: record.operatorName,
         workCenter: record.workCenter,
         routing: record.productRouting,
-        unitsPerHour: record.uph,
-        observations: record.observationCount
+        // Shrunk estimate where the engine produced one; raw UPH for legacy rows
+        unitsPerHour: record.shrunkUph ?? record.uph,
+        rawUph: record.uph,
+        ciLow: record.uphCiLow,
+        ciHigh: record.uphCiHigh,
+        steadyStateUph: record.steadyStateUph,
+        rampMosRemaining: record.rampMosRemaining,
+        observations: record.observationCount,
+        calculationMethod: record.calculationMethod,
+        engineVersion: record.engineVersion
       })).filter(record => record.operatorName && record.workCenter && record.routing); // Filter out undefined records
       
       const allOperators = await db.select().from(operators);
+      const { getUphEngineConfig, describeUphConfig, UPH_ENGINE_VERSION } = await import("./services/uphEngine.js");
+      const engineConfig = await getUphEngineConfig();
+      const engine = {
+        version: UPH_ENGINE_VERSION,
+        method: engineConfig.method,
+        configuration: describeUphConfig(engineConfig)
+      };
       
       if (transformedResults.length === 0) {
         return res.json({
@@ -4049,7 +4880,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             avgUphByCeter: {},
             noDataReason: "No UPH calculations available. Click 'Calculate UPH' to generate performance metrics."
           },
-          workCenters: []
+          workCenters: [],
+          engine
         });
       }
 
@@ -4061,7 +4893,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const allRoutings = Array.from(new Set(transformedResults.map(row => row.routing))).sort();
       
       // Group UPH data by routing, then by operator
-      const routingData = new Map<string, Map<number, Record<string, { uph: number; observations: number }>>>();
+      const routingData = new Map<string, Map<number, Record<string, {
+        uph: number;
+        rawUph: number;
+        ciLow: number | null;
+        ciHigh: number | null;
+        steadyStateUph: number | null;
+        rampMosRemaining: number | null;
+        observations: number;
+        calculationMethod: string | null;
+        engineVersion: string | null;
+      }>>>();
       
       // Build the routing data structure from cached database results
       transformedResults.forEach(row => {
@@ -4097,7 +4939,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Use the UPH data from core calculator
         operatorData[workCenter] = {
           uph: row.unitsPerHour,
-          observations: row.observations
+          rawUph: row.rawUph,
+          ciLow: row.ciLow,
+          ciHigh: row.ciHigh,
+          steadyStateUph: row.steadyStateUph,
+          rampMosRemaining: row.rampMosRemaining,
+          observations: row.observations,
+          calculationMethod: row.calculationMethod,
+          engineVersion: row.engineVersion
         };
       });
       
@@ -4107,6 +4956,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
           // Get operator name from our map
           const operatorName = allOperators.find(op => op.id === operatorId)?.name || `Operator ${operatorId}`;
           const workCenterPerformance: Record<string, number | null> = {};
+          // Method and engine version behind each number (null for rows stored by legacy calculators)
+          const workCenterSources: Record<string, { method: string | null; version: string | null } | null> = {};
+          // 95% interval around the shrunk estimate, the operator's own unshrunk UPH
+          // and, while they are still ramping up, their learning-curve plateau
+          const workCenterIntervals: Record<string, {
+            low: number;
+            high: number;
+            rawUph: number;
+            observations: number;
+            steadyStateUph: number | null;
+            rampMosRemaining: number | null;
+          } | null> = {};
           
           // Calculate total observations for this operator in this routing
           let totalObservations = 0;
@@ -4116,9 +4977,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
             if (uphData) {
               // Use the exact UPH value from core calculator
               workCenterPerformance[workCenter] = Math.round(uphData.uph * 100) / 100;
+              workCenterSources[workCenter] = { method: uphData.calculationMethod, version: uphData.engineVersion };
+              workCenterIntervals[workCenter] = uphData.ciLow !== null && uphData.ciHigh !== null
+                ? {
+                    low: Math.round(uphData.ciLow * 100) / 100,
+                    high: Math.round(uphData.ciHigh * 100) / 100,
+                    rawUph: Math.round(uphData.rawUph * 100) / 100,
+                    observations: uphData.observations || 0,
+                    steadyStateUph: uphData.steadyStateUph !== null ? Math.round(uphData.steadyStateUph * 100) / 100 : null,
+                    rampMosRemaining: uphData.rampMosRemaining
+                  }
+                : null;
               totalObservations += uphData.observations || 0;
             } else {
               workCenterPerformance[workCenter] = null;
+              workCenterSources[workCenter] = null;
+              workCenterIntervals[workCenter] = null;
             }
           });
           
@@ -4126,6 +5000,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             operatorId,
             operatorName,
             workCenterPerformance,
+            workCenterSources,
+            workCenterIntervals,
             totalObservations
           };
         });
@@ -4191,7 +5067,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           totalRoutings: allRoutings.length,
           avgUphByCeter: avgUphByCenter
         },
-        workCenters: allWorkCenters
+        workCenters: allWorkCenters,
+        engine
       });
     } catch (error) {
       console.error("Error getting UPH table data:", error);
@@ -4214,76 +5091,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'Missing required parameters' });
       }
 
-      console.log('UPH calculation details request:', { operatorName, workCenter, routing });
-
-      // Use the core UPH calculator details function for authentic MO grouping
-      const { getCoreUphDetails } = await import("./uph-core-calculator.js");
-      
-      // Get MO-level details using the core calculator
-      const detailsResult = await getCoreUphDetails(
+      const { getUphDetails, describeUphConfig } = await import("./services/uphEngine.js");
+      const details = await getUphDetails(
         operatorName as string,
         workCenter as string,
         routing as string
       );
       
-      console.log(`🔧 Processing ${detailsResult.moGroupedData?.length || 0} MO groups from core calculator`);
-      
-      // Check if we have actual data to process
-      if (!detailsResult.moGroupedData || detailsResult.moGroupedData.length === 0) {
-        return res.json({
-          cycles: [],
-          summary: {
-            averageUph: 0,
-            totalQuantity: 0,
-            totalDurationHours: 0,
-            totalCycles: 0,
-            moCount: 0,
-            operatorName,
-            workCenter,
-            routing
-          }
-        });
-      }
-      
-      // Convert to the expected format with all fields populated
-      const moDetails = detailsResult.moGroupedData.map(mo => {
-        const totalDurationHours = mo.totalDurationSeconds / 3600;
-        const uph = totalDurationHours > 0 ? mo.moQuantity / totalDurationHours : 0;
-        
+      // One row per observation the engine's method produced (an MO, or a
+      // single cycle when cycle-weighted), including the ones it excluded
+      const cyclesById = new Map(details.cycles.map(cycle => [cycle.cycleId, cycle]));
+      const observations = details.observations.map(observation => {
+        const cycles = observation.cycleIds.map(id => cyclesById.get(id)!).filter(Boolean);
+        const workOrderId = cycles.find(cycle => cycle.workOrderId)?.workOrderId ?? null;
         return {
-          productionId: mo.productionId || 0, // Use actual production ID from database
-          moNumber: mo.moNumber,
-          woNumber: mo.woNumber || 'N/A', // Add work order number
-          workOrderId: mo.workOrderId || null, // Use actual work order ID from database
-          moQuantity: mo.moQuantity,
-          totalDurationHours,
-          uph: isFinite(uph) ? uph : 0,
-          cycleCount: mo.cycleCount,
-          createDate: mo.createDate || null, // Add create date
-          actualWorkCenter: mo.actualWorkCenter || workCenter, // Add actual work center
-          operations: mo.operations || workCenter // Add operations
+          productionId: observation.productionId || 0,
+          moNumber: observation.moNumber || 'N/A',
+          woNumber: workOrderId ? `WO${workOrderId}` : 'N/A',
+          workOrderId,
+          moQuantity: observation.quantity,
+          // Below 1 when the work order was shared with other operators
+          quantityShare: observation.durationHours > 0
+            ? cycles.reduce((sum, cycle) => sum + cycle.durationSeconds * (cycle.quantityShare ?? 1), 0) / 3600 / observation.durationHours
+            : 1,
+          totalDurationHours: observation.durationHours,
+          uph: observation.uph,
+          cycleCount: cycles.length,
+          createDate: observation.date,
+          actualWorkCenter: [...new Set(cycles.map(cycle => cycle.rawWorkCenter))].join(', ') || workCenter,
+          operations: [...new Set(cycles.map(cycle => cycle.operation).filter(Boolean))].join(', ') || workCenter,
+          excluded: observation.excluded
         };
-      }).filter(mo => mo.uph > 0); // Filter out invalid UPH values
-
-      // Calculate summary statistics from MO details - BLUE methodology (average of individual MO UPH)
-      const totalQuantity = moDetails.reduce((sum, mo) => sum + mo.moQuantity, 0);
-      const totalHours = moDetails.reduce((sum, mo) => sum + mo.totalDurationHours, 0);
+      });
+      const kept = observations.filter(observation => observation.excluded === null);
       
-      // CRITICAL: Use the pre-calculated average from the core calculator
-      const averageUph = detailsResult.averageUph || 0;
-
-      // Send the response with authentic MO-level data
       res.json({
-        cycles: moDetails, // MO-level data instead of work cycle data
+        cycles: observations,
         summary: {
-          averageUph: parseFloat(averageUph.toFixed(2)),
-          totalQuantity,
-          totalDurationHours: totalHours,
-          totalCycles: moDetails.reduce((sum, mo) => sum + mo.cycleCount, 0),
-          moCount: moDetails.length,
+          averageUph: parseFloat((details.result?.uph ?? 0).toFixed(2)),
+          totalQuantity: kept.reduce((sum, observation) => sum + observation.moQuantity, 0),
+          totalDurationHours: kept.reduce((sum, observation) => sum + observation.totalDurationHours, 0),
+          totalCycles: kept.reduce((sum, observation) => sum + observation.cycleCount, 0),
+          moCount: kept.length,
+          excludedCount: observations.length - kept.length,
           operatorName,
           workCenter,
-          routing
+          routing,
+          method: details.config.method,
+          version: details.version,
+          configuration: describeUphConfig(details.config),
+          // Learning curve over the operator's whole history on the routing
+          learning: details.result?.learning ?? null
         }
       });
     } catch (error) {
@@ -5454,12 +6312,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Calculate estimated completion times for active MOs using UPH data
+  // Calculate estimated completion times for active MOs from standard times per routing step,
+  // so MOs without an assigned operator are not estimated from whoever happens to have UPH data
   app.get("/api/fulfil/mo-time-estimates", async (req: Request, res: Response) => {
     try {
-      const { productionOrders, uphData, operators } = await import("../shared/schema.js");
+      const { productionOrders } = await import("../shared/schema.js");
       const { db } = await import("./db.js");
-      const { eq, and } = await import("drizzle-orm");
+      const { eq } = await import("drizzle-orm");
+      const { getStandardTimes, estimateStandardHours } = await import("./services/standardTimes.js");
 
       // Get all active production orders
       const activeMOs = await db.select()
@@ -5475,20 +6335,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Get UPH data for calculations
-      const uphCalculations = await db.select()
-        .from(uphData);
+      const standards = await getStandardTimes();
 
       const estimates = [];
 
       for (const mo of activeMOs) {
         try {
-          // Find matching UPH data for this routing
-          const matchingUph = uphCalculations.filter(uph => 
-            uph.routing === mo.routing
-          );
+          const estimate = mo.routing ? estimateStandardHours(standards, mo.routing, mo.quantity) : null;
 
-          if (matchingUph.length === 0) {
+          if (!estimate) {
             estimates.push({
               moNumber: mo.moNumber,
               productCode: mo.productCode,
@@ -5499,38 +6354,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
               estimatedHours: null,
               estimatedDays: null,
               workCenters: [],
-              note: "No UPH data available for this routing"
+              note: "No standard times available for this routing"
             });
             continue;
           }
 
-          // Calculate time estimates by work center
-          const workCenterEstimates = [];
-          let totalEstimatedHours = 0;
-
-          // Group UPH data by work center
-          const uphByWorkCenter = matchingUph.reduce((acc, uph) => {
-            if (!acc[uph.workCenter]) {
-              acc[uph.workCenter] = [];
-            }
-            acc[uph.workCenter].push(uph);
-            return acc;
-          }, {} as Record<string, any[]>);
-
-          for (const [workCenter, uphList] of Object.entries(uphByWorkCenter)) {
-            // Use average UPH for work center if multiple operations
-            const avgUph = uphList.reduce((sum, uph) => sum + uph.unitsPerHour, 0) / uphList.length;
-            const estimatedHours = mo.quantity / avgUph;
-
-            workCenterEstimates.push({
-              workCenter,
-              avgUph: Math.round(avgUph * 100) / 100,
-              estimatedHours: Math.round(estimatedHours * 100) / 100,
-              operations: uphList.length
-            });
-
-            totalEstimatedHours += estimatedHours;
+          // Roll steps up by work center
+          const byWorkCenter = new Map<string, { workCenter: string; estimatedHours: number; operations: number; minutesPerUnit: number }>();
+          for (const step of estimate.steps) {
+            const workCenter = step.workCenter || 'Unknown';
+            const entry = byWorkCenter.get(workCenter) ?? { workCenter, estimatedHours: 0, operations: 0, minutesPerUnit: 0 };
+            entry.estimatedHours += step.hours;
+            entry.minutesPerUnit += step.minutesPerUnit;
+            entry.operations++;
+            byWorkCenter.set(workCenter, entry);
           }
+          const workCenterEstimates = [...byWorkCenter.values()].map(entry => ({
+            workCenter: entry.workCenter,
+            minutesPerUnit: Math.round(entry.minutesPerUnit * 100) / 100,
+            estimatedHours: Math.round(entry.estimatedHours * 100) / 100,
+            operations: entry.operations
+          }));
 
           estimates.push({
             moNumber: mo.moNumber,
@@ -5539,10 +6383,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
             quantity: mo.quantity,
             status: mo.status,
             dueDate: mo.dueDate,
-            estimatedHours: Math.round(totalEstimatedHours * 100) / 100,
-            estimatedDays: Math.round((totalEstimatedHours / 8) * 100) / 100, // Assuming 8 hour work days
+            estimatedHours: Math.round(estimate.hours * 100) / 100,
+            estimatedDays: Math.round((estimate.hours / 8) * 100) / 100, // Assuming 8 hour work days
             workCenters: workCenterEstimates.sort((a, b) => b.estimatedHours - a.estimatedHours),
-            note: `Estimated based on ${Object.keys(uphByWorkCenter).length} work centers`
+            steps: estimate.steps,
+            note: estimate.missing.length > 0
+              ? `Estimated from standard times for ${estimate.steps.length} steps; no standard yet for ${estimate.missing.join(', ')}`
+              : `Estimated from standard times for ${estimate.steps.length} steps`
           });
 
         } catch (error) {
@@ -5560,7 +6407,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         totalMOs: activeMOs.length,
         withEstimates: estimates.filter(e => e.estimatedHours !== null).length,
         totalEstimatedHours: estimates.reduce((sum, e) => sum + (e.estimatedHours || 0), 0),
-        note: "Time estimates based on authentic UPH data from work cycles. Use for production planning and operator scheduling."
+        note: "Time estimates based on standard minutes per unit per routing operation. Use for production planning and operator scheduling."
       });
 
     } catch (error) {
@@ -5599,7 +6446,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Bulk fetch routing data from Fulfil using search_read with multiple IDs
-      const endpoint = "https://apc.fulfil.io/api/v2/model/production/search_read";
+      const endpoint = `${getFulfilBaseUrl()}/api/v2/model/production/search_read`;
       const response = await fetch(endpoint, {
         method: 'PUT',
         headers: {
@@ -6122,7 +6969,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`Smart bulk assignment: Found ${routingOrders.length} orders for routing ${routing}`);
       
       // Get all work orders for this routing and work center
-      const workOrdersToAssign = [];
+      const matchingWorkOrders = [];
       for (const po of routingOrders) {
         if (po.workOrders) {
           // Handle Assembly work center which includes Sewing and Rope
@@ -6144,7 +6991,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
           
           for (const wo of relevantWOs) {
-            workOrdersToAssign.push({
+            matchingWorkOrders.push({
               workOrderId: wo.id,
               productionOrder: po,
               workOrder: wo
@@ -6153,13 +7000,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      console.log(`Smart bulk assignment: Found ${workOrdersToAssign.length} work orders to assign for ${workCenter}/${routing}`);
+      // Locked (pinned) assignments are left with the operator a supervisor pinned them to
+      const lockedAssignments = matchingWorkOrders.length > 0
+        ? await db
+            .select({ workOrderId: workOrderAssignments.workOrderId })
+            .from(workOrderAssignments)
+            .where(and(
+              inArray(workOrderAssignments.workOrderId, matchingWorkOrders.map(item => Number(item.workOrderId))),
+              eq(workOrderAssignments.isActive, true),
+              eq(workOrderAssignments.isLocked, true)
+            ))
+        : [];
+      const lockedIds = new Set(lockedAssignments.map(row => row.workOrderId));
+      const workOrdersToAssign = matchingWorkOrders.filter(item => !lockedIds.has(Number(item.workOrderId)));
+
+      console.log(`Smart bulk assignment: Found ${workOrdersToAssign.length} work orders to assign for ${workCenter}/${routing}${lockedIds.size > 0 ? ` (${lockedIds.size} locked, left alone)` : ''}`);
 
       if (workOrdersToAssign.length === 0) {
         return res.json({ 
           success: true, 
-          message: "No work orders to assign",
-          assigned: 0 
+          message: lockedIds.size > 0 ? "No work orders to assign; the rest are locked" : "No work orders to assign",
+          assigned: 0,
+          locked: lockedIds.size
         });
       }
 
@@ -6173,7 +7035,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.json({ 
           success: true, 
           message: `Unassigned ${workOrdersToAssign.length} work orders`,
-          unassigned: workOrdersToAssign.length 
+          unassigned: workOrdersToAssign.length,
+          locked: lockedIds.size
         });
       }
 
@@ -6222,8 +7085,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      // Check operator capacity
-      const operatorCapacity = operator?.availableHours || 40;
+      // Check operator capacity against this week's calendar hours
+      const { getAvailableHours } = await import("./services/operatorCalendar.js");
+      const calendarHours = await getAvailableHours([operatorId]);
+      const operatorCapacity = calendarHours.get(operatorId) ?? (operator?.availableHours || 40);
       const remainingCapacity = operatorCapacity - currentWorkloadHours;
 
       if (remainingCapacity <= 0) {
@@ -6323,6 +7188,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           message: `Assigned ${assignedCount} of ${workOrdersToAssign.length} work orders (capacity limit)`,
           assigned: assignedCount,
           skipped: workOrdersToAssign.length - assignedCount,
+          locked: lockedIds.size,
           capacityUsed: assignedHours.toFixed(1),
           capacityRemaining: (remainingCapacity - assignedHours).toFixed(1)
         });
@@ -6350,6 +7216,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         message: `Assigned ${assignedCount} work orders to ${operator.name}`,
         assigned: assignedCount,
         skipped: skippedCount,
+        locked: lockedIds.size,
         totalHours: totalNewHours.toFixed(1),
         capacityRemaining: (remainingCapacity - totalNewHours).toFixed(1)
       });
@@ -6379,8 +7246,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.log("🚨 Request user:", req.user ? "Present" : "Not present");
     
     try {
+      const { mode, horizonDays, weights, solver, incremental, since } = req.body || {};
+      const sinceDate = since ? new Date(since) : undefined;
+      if (sinceDate && isNaN(sinceDate.getTime())) {
+        return res.status(400).json({ message: "since must be a valid date" });
+      }
       const { autoAssignWorkOrders } = await import("./ai-auto-assign.js");
-      const result = await autoAssignWorkOrders();
+      const result = await autoAssignWorkOrders({
+        mode: mode === 'schedule' ? 'schedule' : 'assign',
+        horizonDays: horizonDays ? parseInt(horizonDays) : undefined,
+        weights,
+        solver: solver === 'optimal' ? 'optimal' : 'greedy',
+        incremental: incremental === true,
+        since: sinceDate
+      });
       res.json(result);
     } catch (error) {
       console.error("Auto-assign error:", error);
@@ -6393,8 +7272,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/auto-assign/regenerate", isAuthenticated, async (req: Request, res: Response) => {
     try {
+      const { mode, horizonDays, weights, solver } = req.body || {};
       const { regenerateAssignments } = await import("./ai-auto-assign.js");
-      const result = await regenerateAssignments();
+      const result = await regenerateAssignments({
+        mode: mode === 'schedule' ? 'schedule' : 'assign',
+        horizonDays: horizonDays ? parseInt(horizonDays) : undefined,
+        weights,
+        solver: solver === 'optimal' ? 'optimal' : 'greedy'
+      });
       res.json(result);
     } catch (error) {
       console.error("Regenerate assignments error:", error);
@@ -6434,6 +7319,188 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Objective weights used by auto-assign, tunable from the dashboard
+  app.get("/api/auto-assign/weights", isAuthenticated, async (req, res) => {
+    try {
+      const { getAssignmentWeights, DEFAULT_ASSIGNMENT_WEIGHTS } = await import("./services/assignmentObjective.js");
+      const weights = await getAssignmentWeights();
+      res.json({ weights, defaults: DEFAULT_ASSIGNMENT_WEIGHTS });
+    } catch (error) {
+      console.error("Error fetching assignment weights:", error);
+      res.status(500).json({ message: "Failed to fetch assignment weights" });
+    }
+  });
+
+  app.put("/api/auto-assign/weights", isAuthenticated, async (req, res) => {
+    try {
+      const { saveAssignmentWeights } = await import("./services/assignmentObjective.js");
+      const weights = await saveAssignmentWeights(req.body?.weights || {});
+      res.json({ success: true, weights });
+    } catch (error) {
+      console.error("Error saving assignment weights:", error);
+      res.status(500).json({ message: "Failed to save assignment weights" });
+    }
+  });
+
+  // What-if assignment scenarios (dry-run plans kept apart from live assignments)
+  app.get("/api/scenarios", isAuthenticated, async (req, res) => {
+    try {
+      const { listScenarios } = await import("./services/assignmentScenarios.js");
+      res.json(await listScenarios());
+    } catch (error) {
+      console.error("Error fetching scenarios:", error);
+      res.status(500).json({ message: "Failed to fetch scenarios" });
+    }
+  });
+
+  app.post("/api/scenarios", isAuthenticated, async (req, res) => {
+    try {
+      const { name, description, strategy, weights, horizonDays, solver } = req.body || {};
+      if (!name || typeof name !== 'string') {
+        return res.status(400).json({ message: "Scenario name is required" });
+      }
+
+      const { createScenario } = await import("./services/assignmentScenarios.js");
+      const scenario = await createScenario({
+        name,
+        description,
+        strategy,
+        weights,
+        horizonDays: horizonDays ? parseInt(horizonDays) : undefined,
+        solver: solver === 'optimal' ? 'optimal' : 'greedy',
+        createdBy: getSessionUserName(req)
+      });
+      res.json(scenario);
+    } catch (error) {
+      console.error("Error creating scenario:", error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : "Failed to create scenario"
+      });
+    }
+  });
+
+  app.get("/api/scenarios/compare", isAuthenticated, async (req, res) => {
+    try {
+      const a = parseInt(req.query.a as string);
+      const b = parseInt(req.query.b as string);
+      if (isNaN(a) || isNaN(b)) {
+        return res.status(400).json({ message: "Two scenario IDs (a, b) are required" });
+      }
+
+      const { compareScenarios } = await import("./services/assignmentScenarios.js");
+      const comparison = await compareScenarios(a, b);
+      if (!comparison) {
+        return res.status(404).json({ message: "Scenario not found" });
+      }
+      res.json(comparison);
+    } catch (error) {
+      console.error("Error comparing scenarios:", error);
+      res.status(500).json({ message: "Failed to compare scenarios" });
+    }
+  });
+
+  app.get("/api/scenarios/:id", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid scenario ID" });
+      }
+
+      const { getScenario } = await import("./services/assignmentScenarios.js");
+      const scenario = await getScenario(id);
+      if (!scenario) {
+        return res.status(404).json({ message: "Scenario not found" });
+      }
+      res.json(scenario);
+    } catch (error) {
+      console.error("Error fetching scenario:", error);
+      res.status(500).json({ message: "Failed to fetch scenario" });
+    }
+  });
+
+  app.post("/api/scenarios/:id/promote", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid scenario ID" });
+      }
+
+      const { promoteScenario } = await import("./services/assignmentScenarios.js");
+      const outcome = await promoteScenario(id);
+      if (!outcome) {
+        return res.status(404).json({ message: "Scenario not found" });
+      }
+      if (outcome.conflicts.length > 0) {
+        return res.status(409).json({
+          success: false,
+          message: "Scenario is out of date with the live assignments; plan it again",
+          conflicts: outcome.conflicts
+        });
+      }
+      res.json({ success: true, ...outcome });
+    } catch (error) {
+      console.error("Error promoting scenario:", error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : "Failed to promote scenario"
+      });
+    }
+  });
+
+  app.delete("/api/scenarios/:id", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid scenario ID" });
+      }
+
+      const { deleteScenario } = await import("./services/assignmentScenarios.js");
+      const deleted = await deleteScenario(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Scenario not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting scenario:", error);
+      res.status(500).json({ message: "Failed to delete scenario" });
+    }
+  });
+
+  // Finite-capacity schedule for current active assignments
+  app.get("/api/schedule", isAuthenticated, async (req, res) => {
+    try {
+      const horizonDays = req.query.horizonDays ? parseInt(req.query.horizonDays as string) : undefined;
+      const { buildScheduleFromAssignments } = await import("./services/finiteScheduler.js");
+      const schedule = await buildScheduleFromAssignments({ horizonDays });
+      res.json(schedule);
+    } catch (error) {
+      console.error("Schedule error:", error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : "Schedule failed"
+      });
+    }
+  });
+
+  app.post("/api/schedule/run", isAuthenticated, async (req, res) => {
+    try {
+      const { horizonDays } = req.body || {};
+      const { buildScheduleFromAssignments, persistSchedule } = await import("./services/finiteScheduler.js");
+      const schedule = await buildScheduleFromAssignments({
+        horizonDays: horizonDays ? parseInt(horizonDays) : undefined
+      });
+      const scheduled = await persistSchedule(schedule);
+      res.json({ success: true, scheduled, ...schedule });
+    } catch (error) {
+      console.error("Schedule run error:", error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : "Schedule failed"
+      });
+    }
+  });
+
   // Send operator workload summary to Slack
   app.post("/api/slack/send-workload", isAuthenticated, async (req, res) => {
     try {
@@ -0,0 +1,326 @@
+/**
+ * Anomaly Detector
+ * Flags aggregated work cycle records whose UPH is out of line with the
+ * other records on the same work center and routing, using robust statistics
+ * only: median / MAD modified z-scores and IQR fences on UPH, and robust
+ * z-scores of log duration per unit. Deterministic, local and free to run; every anomaly
+ * carries machine-readable reason codes.
+ */
+
+import { db } from "../db.js";
+import { plannerSettings } from "../../shared/schema.js";
+import { eq } from "drizzle-orm";
+
+const THRESHOLDS_SETTING_KEY = "anomaly_thresholds";
+const MAD_SCALE = 0.6745; // Makes the MAD z-score comparable to a normal z-score
+
+export type AnomalySeverity = 'low' | 'medium' | 'high';
+
+export type AnomalyReasonCode =
+  | 'implausible_uph' // Beyond maxPlausibleUph, or no units / no time
+  | 'uph_mad_high'
+  | 'uph_mad_low'
+  | 'uph_iqr_high'
+  | 'uph_iqr_low'
+  | 'duration_per_unit_high' // Slow: setup, downtime or training
+  | 'duration_per_unit_low'; // Fast: incomplete cycles or data entry errors
+
+export interface AnomalyThresholds {
+  madZ: number; // Modified z-score beyond which UPH is an outlier
+  iqrMultiplier: number; // Tukey fence width
+  durationZ: number; // Robust z-score of log duration per unit
+  minGroupSize: number; // Smaller work center × routing groups are compared against the whole work center
+  maxPlausibleUph: number;
+  excludeSeverity: AnomalySeverity; // Anomalies at or above this severity are excluded
+}
+
+export const DEFAULT_ANOMALY_THRESHOLDS: AnomalyThresholds = {
+  madZ: 3.5,
+  iqrMultiplier: 1.5,
+  durationZ: 3,
+  minGroupSize: 5,
+  maxPlausibleUph: 500,
+  excludeSeverity: 'medium'
+};
+
+/** One aggregated record to check */
+export interface AnomalyInput {
+  id: number;
+  operatorName: string;
+  workCenter: string;
+  routing: string;
+  quantity: number;
+  durationSeconds: number;
+  observations: number;
+}
+
+export interface WorkCycleAnomaly {
+  id: number;
+  operatorName: string;
+  workCenter: string;
+  routing: string;
+  totalQuantity: number;
+  totalHours: number;
+  calculatedUph: number;
+  observations: number;
+  anomalyReason: string;
+  reasonCode: AnomalyReasonCode; // Primary reason: implausible, then MAD, IQR, duration per unit
+  reasonCodes: AnomalyReasonCode[];
+  scores: { uphModifiedZ: number | null; durationPerUnitZ: number | null };
+  expectedUphRange: { low: number; high: number } | null; // IQR fences of the reference group
+  severity: AnomalySeverity;
+  shouldExclude: boolean;
+}
+
+export interface AnomalyDetectionResult {
+  totalRecords: number;
+  anomaliesDetected: number;
+  cleanRecords: number;
+  anomalies: WorkCycleAnomaly[];
+  summary: string;
+  thresholds?: AnomalyThresholds;
+}
+
+const SEVERITY_RANK: Record<AnomalySeverity, number> = { low: 1, medium: 2, high: 3 };
+
+const REASON_TEXT: Record<AnomalyReasonCode, string> = {
+  implausible_uph: 'UPH outside plausible bounds',
+  uph_mad_high: 'UPH far above the median (MAD)',
+  uph_mad_low: 'UPH far below the median (MAD)',
+  uph_iqr_high: 'UPH above the upper IQR fence',
+  uph_iqr_low: 'UPH below the lower IQR fence',
+  duration_per_unit_high: 'Unusually long time per unit (setup, downtime or training)',
+  duration_per_unit_low: 'Unusually short time per unit (incomplete cycle or data entry error)'
+};
+
+interface ReferenceStats {
+  label: string;
+  median: number;
+  mad: number;
+  q1: number;
+  q3: number;
+  logMedian: number; // Of seconds per unit
+  logScale: number; // MAD of log seconds per unit, scaled like a standard deviation
+}
+
+/**
+ * Check every record against its work center × routing group (or its work
+ * center when the group is too small to judge)
+ */
+export function detectAnomalies(
+  records: AnomalyInput[],
+  thresholds: AnomalyThresholds = DEFAULT_ANOMALY_THRESHOLDS
+): AnomalyDetectionResult {
+  const measured = records.map(record => ({
+    record,
+    uph: record.durationSeconds > 0 ? record.quantity / (record.durationSeconds / 3600) : 0,
+    secondsPerUnit: record.quantity > 0 ? record.durationSeconds / record.quantity : Infinity
+  }));
+  const plausible = measured.filter(m => isPlausible(m.uph, m.record, thresholds));
+
+  const byGroup = groupBy(plausible, m => `${m.record.workCenter}|${m.record.routing}`);
+  const byWorkCenter = groupBy(plausible, m => m.record.workCenter);
+  const statsCache = new Map<string, ReferenceStats | null>();
+  const referenceFor = (record: AnomalyInput): ReferenceStats | null => {
+    const groupKey = `${record.workCenter}|${record.routing}`;
+    const group = byGroup.get(groupKey) ?? [];
+    const [key, members, label] = group.length >= thresholds.minGroupSize
+      ? [groupKey, group, `${record.workCenter} / ${record.routing}`]
+      : [record.workCenter, byWorkCenter.get(record.workCenter) ?? [], `all of ${record.workCenter}`];
+    if (!statsCache.has(key)) {
+      statsCache.set(key, members.length >= thresholds.minGroupSize ? referenceStats(members, label) : null);
+    }
+    return statsCache.get(key)!;
+  };
+
+  const anomalies: WorkCycleAnomaly[] = [];
+  for (const { record, uph, secondsPerUnit } of measured) {
+    const codes: AnomalyReasonCode[] = [];
+    let uphModifiedZ: number | null = null;
+    let durationPerUnitZ: number | null = null;
+    let expectedUphRange: WorkCycleAnomaly['expectedUphRange'] = null;
+
+    const plausibleRecord = isPlausible(uph, record, thresholds);
+    const reference = plausibleRecord ? referenceFor(record) : null;
+    if (!plausibleRecord) {
+      codes.push('implausible_uph');
+    } else if (reference) {
+      const fence = thresholds.iqrMultiplier * (reference.q3 - reference.q1);
+      expectedUphRange = { low: Math.max(0, reference.q1 - fence), high: reference.q3 + fence };
+
+      if (reference.mad > 0) {
+        uphModifiedZ = MAD_SCALE * (uph - reference.median) / reference.mad;
+        if (uphModifiedZ > thresholds.madZ) codes.push('uph_mad_high');
+        if (uphModifiedZ < -thresholds.madZ) codes.push('uph_mad_low');
+      }
+      if (uph > reference.q3 + fence) codes.push('uph_iqr_high');
+      if (uph < reference.q1 - fence) codes.push('uph_iqr_low');
+
+      if (reference.logScale > 0) {
+        durationPerUnitZ = (Math.log(secondsPerUnit) - reference.logMedian) / reference.logScale;
+        if (durationPerUnitZ > thresholds.durationZ) codes.push('duration_per_unit_high');
+        if (durationPerUnitZ < -thresholds.durationZ) codes.push('duration_per_unit_low');
+      }
+    }
+    if (codes.length === 0) continue;
+
+    const severity = severityOf(codes, uphModifiedZ, thresholds);
+    anomalies.push({
+      id: record.id,
+      operatorName: record.operatorName,
+      workCenter: record.workCenter,
+      routing: record.routing,
+      totalQuantity: record.quantity,
+      totalHours: round(record.durationSeconds / 3600),
+      calculatedUph: round(uph),
+      observations: record.observations,
+      anomalyReason: codes.map(code => REASON_TEXT[code]).join('; ') +
+        (reference ? ` (vs median ${reference.median.toFixed(1)} UPH for ${reference.label})` : ''),
+      reasonCode: codes[0],
+      reasonCodes: codes,
+      scores: {
+        uphModifiedZ: uphModifiedZ !== null ? round(uphModifiedZ) : null,
+        durationPerUnitZ: durationPerUnitZ !== null ? round(durationPerUnitZ) : null
+      },
+      expectedUphRange: expectedUphRange
+        ? { low: round(expectedUphRange.low), high: round(expectedUphRange.high) }
+        : null,
+      severity,
+      shouldExclude: SEVERITY_RANK[severity] >= SEVERITY_RANK[thresholds.excludeSeverity]
+    });
+  }
+
+  anomalies.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] || a.id - b.id);
+  const excluded = anomalies.filter(anomaly => anomaly.shouldExclude).length;
+  const counts = countBy(anomalies.flatMap(anomaly => anomaly.reasonCodes));
+
+  return {
+    totalRecords: records.length,
+    anomaliesDetected: anomalies.length,
+    cleanRecords: records.length - excluded,
+    anomalies,
+    summary: anomalies.length === 0
+      ? `No anomalies in ${records.length} records`
+      : `${anomalies.length} of ${records.length} records flagged, ${excluded} excluded (` +
+        Object.entries(counts).map(([code, count]) => `${code}: ${count}`).join(', ') + ')',
+    thresholds
+  };
+}
+
+/**
+ * Validate partial thresholds (from a request or saved settings) against the defaults
+ */
+export function normalizeAnomalyThresholds(input?: Partial<Record<keyof AnomalyThresholds, unknown>> | null): AnomalyThresholds {
+  const positive = (value: unknown, fallback: number) => {
+    const number = Number(value);
+    return value !== undefined && value !== null && Number.isFinite(number) && number > 0 ? number : fallback;
+  };
+  const severity = input?.excludeSeverity;
+
+  return {
+    madZ: positive(input?.madZ, DEFAULT_ANOMALY_THRESHOLDS.madZ),
+    iqrMultiplier: positive(input?.iqrMultiplier, DEFAULT_ANOMALY_THRESHOLDS.iqrMultiplier),
+    durationZ: positive(input?.durationZ, DEFAULT_ANOMALY_THRESHOLDS.durationZ),
+    minGroupSize: Math.max(3, Math.round(positive(input?.minGroupSize, DEFAULT_ANOMALY_THRESHOLDS.minGroupSize))),
+    maxPlausibleUph: positive(input?.maxPlausibleUph, DEFAULT_ANOMALY_THRESHOLDS.maxPlausibleUph),
+    excludeSeverity: severity === 'low' || severity === 'medium' || severity === 'high'
+      ? severity
+      : DEFAULT_ANOMALY_THRESHOLDS.excludeSeverity
+  };
+}
+
+export async function getAnomalyThresholds(): Promise<AnomalyThresholds> {
+  try {
+    const [row] = await db
+      .select()
+      .from(plannerSettings)
+      .where(eq(plannerSettings.key, THRESHOLDS_SETTING_KEY));
+    return normalizeAnomalyThresholds(row?.value as Partial<AnomalyThresholds> | undefined);
+  } catch (error) {
+    console.error("Error loading anomaly thresholds, using defaults:", error);
+    return { ...DEFAULT_ANOMALY_THRESHOLDS };
+  }
+}
+
+export async function saveAnomalyThresholds(input: Partial<AnomalyThresholds>): Promise<AnomalyThresholds> {
+  const thresholds = normalizeAnomalyThresholds(input);
+
+  await db
+    .insert(plannerSettings)
+    .values({ key: THRESHOLDS_SETTING_KEY, value: thresholds, updatedAt: new Date() })
+    .onConflictDoUpdate({
+      target: plannerSettings.key,
+      set: { value: thresholds, updatedAt: new Date() }
+    });
+
+  return thresholds;
+}
+
+function isPlausible(uph: number, record: AnomalyInput, thresholds: AnomalyThresholds): boolean {
+  return record.quantity > 0 && record.durationSeconds > 0 && uph <= thresholds.maxPlausibleUph;
+}
+
+// Implausible values and 3+ reasons are high; so is a MAD score twice the threshold
+// Duration per unit is the reciprocal of UPH on a log scale, so it is the same robust z-score signal as the MAD test
+const SIGNAL_OF: Record<AnomalyReasonCode, string> = {
+  implausible_uph: 'implausible',
+  uph_mad_high: 'robust_z',
+  uph_mad_low: 'robust_z',
+  duration_per_unit_high: 'robust_z',
+  duration_per_unit_low: 'robust_z',
+  uph_iqr_high: 'iqr',
+  uph_iqr_low: 'iqr'
+};
+
+// More distinct signals agreeing is more severe; codes restating one signal count once
+function severityOf(codes: AnomalyReasonCode[], uphModifiedZ: number | null, thresholds: AnomalyThresholds): AnomalySeverity {
+  if (codes.includes('implausible_uph')) return 'high';
+  if (uphModifiedZ !== null && Math.abs(uphModifiedZ) >= 2 * thresholds.madZ) return 'high';
+  return new Set(codes.map(code => SIGNAL_OF[code])).size >= 2 ? 'medium' : 'low';
+}
+
+function referenceStats(members: Array<{ uph: number; secondsPerUnit: number }>, label: string): ReferenceStats {
+  const sorted = members.map(m => m.uph).sort((a, b) => a - b);
+  const median = quantile(sorted, 0.5);
+  const deviations = sorted.map(v => Math.abs(v - median)).sort((a, b) => a - b);
+  const logs = members.map(m => Math.log(m.secondsPerUnit)).sort((a, b) => a - b);
+  const logMedian = quantile(logs, 0.5);
+  const logDeviations = logs.map(v => Math.abs(v - logMedian)).sort((a, b) => a - b);
+
+  return {
+    label,
+    median,
+    mad: quantile(deviations, 0.5),
+    q1: quantile(sorted, 0.25),
+    q3: quantile(sorted, 0.75),
+    logMedian,
+    logScale: quantile(logDeviations, 0.5) / MAD_SCALE
+  };
+}
+
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const base = Math.floor(position);
+  const next = sorted[base + 1] ?? sorted[base];
+  return sorted[base] + (position - base) * (next - sorted[base]);
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)!.push(item);
+  }
+  return groups;
+}
+
+function countBy(values: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const value of values) counts[value] = (counts[value] || 0) + 1;
+  return counts;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,238 @@
+/**
+ * Assignment Decisions
+ * Structured record of every operator auto-assign considered for a work
+ * order: UPH, observations, utilisation, each score component and why the
+ * operator was not picked. Stored with the assignment so supervisors can see
+ * why one operator got a job instead of another.
+ */
+
+import { db } from "../db.js";
+import { workOrderAssignments, operators } from "../../shared/schema.js";
+import { and, eq } from "drizzle-orm";
+import type { AssignmentWeights, CandidateScore, MoPriority } from "./assignmentObjective.js";
+import { describeInferredUph, type InferredUph } from "./productFamilies.js";
+
+export interface CandidateEvaluation {
+  operatorId: number;
+  operatorName: string;
+  uph: number | null;
+  observations: number;
+  inferredFrom: string | null; // Set when the UPH was inferred from related routings
+  hoursAssigned: number; // Before this work order
+  maxHours: number;
+  utilization: number; // Percent of available hours before this work order
+  expectedHours: number | null;
+  score: number | null;
+  components: CandidateScore['components'] | null;
+  projectedFinish: string | null;
+  daysLate: number;
+  selected: boolean;
+  rejectedReason: string | null;
+}
+
+export interface AssignmentDecision {
+  workOrderId: number;
+  moNumber: string;
+  workCenter: string;
+  routing: string;
+  quantity: number;
+  dueDate: string | null;
+  priority: MoPriority;
+  weights: AssignmentWeights;
+  chosenOperatorId: number | null;
+  candidates: CandidateEvaluation[];
+  rebalancedFrom?: { operatorId: number; operatorName: string; reason: string };
+  solver?: string; // Set when a solver backend replaced the greedy pick
+  decidedAt: string;
+}
+
+const COMPONENT_LABELS: Record<keyof CandidateScore['components'], string> = {
+  uph: 'UPH',
+  reliability: 'data reliability',
+  capacity: 'remaining capacity',
+  workload: 'workload balance',
+  lateness: 'lateness'
+};
+
+/**
+ * Record one operator as a candidate. Pass a score for operators that were
+ * scored, or a rejection reason for operators ruled out before scoring.
+ */
+export function evaluateCandidate(
+  operator: { id: number; name: string; hoursAssigned: number; maxHours: number },
+  uphEntry: { uph: number; observations: number; inferred?: InferredUph | null } | null,
+  expectedHours: number | null,
+  score: CandidateScore | null,
+  rejectedReason: string | null = null
+): CandidateEvaluation {
+  return {
+    operatorId: operator.id,
+    operatorName: operator.name,
+    uph: uphEntry?.uph ?? null,
+    observations: uphEntry?.observations ?? 0,
+    inferredFrom: uphEntry?.inferred ? describeInferredUph(uphEntry.inferred) : null,
+    hoursAssigned: operator.hoursAssigned,
+    maxHours: operator.maxHours,
+    utilization: operator.maxHours > 0 ? (operator.hoursAssigned / operator.maxHours) * 100 : 0,
+    expectedHours,
+    score: score?.total ?? null,
+    components: score ? { ...score.components } : null,
+    projectedFinish: score ? score.projectedFinish.toISOString() : null,
+    daysLate: score?.daysLate ?? 0,
+    selected: false,
+    rejectedReason
+  };
+}
+
+/**
+ * Mark the chosen operator and explain every other scored candidate against
+ * it, naming the score component with the largest gap
+ */
+export function finalizeDecision(
+  decision: Omit<AssignmentDecision, 'chosenOperatorId' | 'decidedAt'>,
+  chosenOperatorId: number | null
+): AssignmentDecision {
+  const chosen = decision.candidates.find(candidate => candidate.operatorId === chosenOperatorId);
+
+  for (const candidate of decision.candidates) {
+    candidate.selected = candidate === chosen;
+    if (candidate.selected) {
+      candidate.rejectedReason = null;
+    } else if (candidate.rejectedReason === null) {
+      candidate.rejectedReason = chosen ? explainAgainst(candidate, chosen) : 'Not selected';
+    }
+  }
+
+  return {
+    ...decision,
+    candidates: sortCandidates(decision.candidates),
+    chosenOperatorId: chosen ? chosenOperatorId : null,
+    decidedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Record that rebalancing moved the work order off an overloaded operator
+ */
+export function markRebalanced(
+  decision: AssignmentDecision,
+  toOperatorId: number,
+  fromOperator: { id: number; name: string },
+  reason: string
+): AssignmentDecision {
+  const target = decision.candidates.find(candidate => candidate.operatorId === toOperatorId);
+
+  for (const candidate of decision.candidates) {
+    if (candidate.operatorId === fromOperator.id) {
+      candidate.selected = false;
+      candidate.rejectedReason = reason;
+    } else if (candidate === target) {
+      candidate.selected = true;
+      candidate.rejectedReason = null;
+    }
+  }
+
+  return {
+    ...decision,
+    candidates: sortCandidates(decision.candidates),
+    chosenOperatorId: toOperatorId,
+    rebalancedFrom: { operatorId: fromOperator.id, operatorName: fromOperator.name, reason }
+  };
+}
+
+/**
+ * Record the operator a solver backend placed the work order on (null when it
+ * was left unassigned). The solver minimises total hours rather than score,
+ * so other scored candidates are explained by hours and capacity.
+ */
+export function markSolved(
+  decision: AssignmentDecision,
+  operatorId: number | null,
+  solver: string
+): AssignmentDecision {
+  const chosen = decision.candidates.find(candidate => candidate.operatorId === operatorId);
+
+  const candidates = decision.candidates.map(candidate => {
+    if (candidate === chosen) return { ...candidate, selected: true, rejectedReason: null };
+    if (candidate.expectedHours === null) return { ...candidate, selected: false };
+
+    let rejectedReason = 'No capacity left in the planning horizon';
+    if (chosen?.expectedHours != null) {
+      rejectedReason = candidate.expectedHours > chosen.expectedHours
+        ? `Needs ${candidate.expectedHours.toFixed(1)}h vs ${chosen.expectedHours.toFixed(1)}h for ${chosen.operatorName}`
+        : `Capacity reserved for other work orders in the ${solver} plan`;
+    }
+    return { ...candidate, selected: false, rejectedReason };
+  });
+
+  const { rebalancedFrom, ...rest } = decision;
+  return {
+    ...rest,
+    candidates: sortCandidates(candidates),
+    chosenOperatorId: chosen ? operatorId : null,
+    solver
+  };
+}
+
+/**
+ * Decision record for a work order's active assignment, with the assigned
+ * operator's name. Null when the work order has no active assignment.
+ */
+export async function getAssignmentDecision(workOrderId: number): Promise<{
+  workOrderId: number;
+  operatorId: number;
+  operatorName: string | null;
+  assignedBy: string | null;
+  isAutoAssigned: boolean | null;
+  autoAssignReason: string | null;
+  autoAssignConfidence: number | null;
+  decision: AssignmentDecision | null;
+} | null> {
+  const [row] = await db
+    .select({
+      workOrderId: workOrderAssignments.workOrderId,
+      operatorId: workOrderAssignments.operatorId,
+      operatorName: operators.name,
+      assignedBy: workOrderAssignments.assignedBy,
+      isAutoAssigned: workOrderAssignments.isAutoAssigned,
+      autoAssignReason: workOrderAssignments.autoAssignReason,
+      autoAssignConfidence: workOrderAssignments.autoAssignConfidence,
+      decision: workOrderAssignments.autoAssignDecision
+    })
+    .from(workOrderAssignments)
+    .leftJoin(operators, eq(workOrderAssignments.operatorId, operators.id))
+    .where(and(
+      eq(workOrderAssignments.workOrderId, workOrderId),
+      eq(workOrderAssignments.isActive, true)
+    ));
+
+  if (!row) return null;
+  return { ...row, decision: (row.decision as AssignmentDecision | null) ?? null };
+}
+
+function explainAgainst(candidate: CandidateEvaluation, chosen: CandidateEvaluation): string {
+  if (candidate.score === null || chosen.score === null || !candidate.components || !chosen.components) {
+    return `Not scored; ${chosen.operatorName} was selected`;
+  }
+
+  let largestGap: keyof CandidateScore['components'] = 'uph';
+  let largestDelta = -Infinity;
+  for (const key of Object.keys(COMPONENT_LABELS) as Array<keyof CandidateScore['components']>) {
+    const delta = chosen.components[key] - candidate.components[key];
+    if (delta > largestDelta) {
+      largestDelta = delta;
+      largestGap = key;
+    }
+  }
+
+  return `Lower score than ${chosen.operatorName} (${candidate.score.toFixed(3)} vs ${chosen.score.toFixed(3)}), ` +
+    `mostly ${COMPONENT_LABELS[largestGap]} (-${largestDelta.toFixed(3)})`;
+}
+
+// Selected first, then scored candidates best first, then rejected before scoring
+function sortCandidates(candidates: CandidateEvaluation[]): CandidateEvaluation[] {
+  return [...candidates].sort((a, b) => {
+    if (a.selected !== b.selected) return a.selected ? -1 : 1;
+    return (b.score ?? -Infinity) - (a.score ?? -Infinity);
+  });
+}
@@ -0,0 +1,207 @@
+/**
+ * Assignment Objective
+ * Weighted score used by auto-assign and rebalancing to pick an operator for
+ * a work order. Combines UPH, data reliability and capacity with a lateness
+ * penalty against the MO due date, amplified by the MO priority.
+ */
+
+import { db } from "../db.js";
+import { plannerSettings } from "../../shared/schema.js";
+import { eq } from "drizzle-orm";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEIGHTS_SETTING_KEY = "assignment_weights";
+
+export type MoPriority = 'High' | 'Normal' | 'Low';
+
+export interface AssignmentWeights {
+  uph: number;          // Reward faster operators
+  reliability: number;  // Reward UPH backed by many observations
+  capacity: number;     // Reward remaining capacity
+  workload: number;     // Reward less loaded operators
+  lateness: number;     // Penalize projected days late against the due date
+  priority: number;     // How much High priority amplifies (and Low dampens) the lateness penalty
+}
+
+export const DEFAULT_ASSIGNMENT_WEIGHTS: AssignmentWeights = {
+  uph: 0.3,
+  reliability: 0.25,
+  capacity: 0.25,
+  workload: 0.2,
+  lateness: 0.5,
+  priority: 0.5
+};
+
+const PRIORITY_FACTORS: Record<MoPriority, number> = {
+  High: 1,
+  Normal: 0,
+  Low: -1
+};
+
+export interface CandidateScoreInput {
+  uph: number;
+  observations: number;
+  hoursAssigned: number;
+  maxHours: number;
+  expectedHours: number;
+  dueDate: Date | null;
+  priority: MoPriority;
+  now?: Date;
+  dailyHours?: (day: Date) => number; // Operator calendar; defaults to maxHours over Monday–Friday
+}
+
+export interface CandidateScore {
+  total: number;
+  components: {
+    uph: number;
+    reliability: number;
+    capacity: number;
+    workload: number;
+    lateness: number;
+  };
+  projectedFinish: Date;
+  daysLate: number;
+}
+
+/**
+ * Normalize Fulfil priority values (High/Normal/Low or numeric 0–4) to the planner's three levels
+ */
+export function normalizePriority(value: string | number | null | undefined): MoPriority {
+  if (value === null || value === undefined || value === '') return 'Normal';
+
+  const text = String(value).toLowerCase().trim();
+  if (text.includes('high') || text.includes('urgent')) return 'High';
+  if (text.includes('low')) return 'Low';
+
+  const numeric = Number(text);
+  if (!isNaN(numeric)) {
+    if (numeric <= 1) return 'High';
+    if (numeric >= 3) return 'Low';
+  }
+  return 'Normal';
+}
+
+/**
+ * Merge partial weights over the defaults, discarding invalid values
+ */
+export function normalizeWeights(input?: Partial<AssignmentWeights> | null): AssignmentWeights {
+  const weights = { ...DEFAULT_ASSIGNMENT_WEIGHTS };
+  if (!input) return weights;
+
+  for (const key of Object.keys(weights) as Array<keyof AssignmentWeights>) {
+    const value = Number(input[key]);
+    if (input[key] !== undefined && isFinite(value) && value >= 0) {
+      weights[key] = value;
+    }
+  }
+  return weights;
+}
+
+/**
+ * Project when an operator would finish a work order queued behind their
+ * current backlog. Capacity is either the operator's calendar (hours per day)
+ * or weekly hours spread over Monday–Friday.
+ */
+export function projectFinish(now: Date, backlogHours: number, capacity: number | ((day: Date) => number)): Date {
+  const hoursOn = typeof capacity === 'function'
+    ? capacity
+    : (day: Date) => (day.getDay() === 0 || day.getDay() === 6 ? 0 : Math.max(capacity, 1) / 5);
+
+  let remaining = backlogHours;
+  const finish = new Date(now);
+  let idleDays = 0;
+
+  while (remaining > 0) {
+    finish.setDate(finish.getDate() + 1);
+    const hours = hoursOn(finish);
+    if (hours <= 0) {
+      // Nobody works forever: stop after a year of empty calendar
+      if (++idleDays > 365) break;
+      continue;
+    }
+    idleDays = 0;
+
+    if (remaining < hours) {
+      // Fractional last day lands partway through it
+      finish.setTime(finish.getTime() - (1 - remaining / hours) * DAY_MS);
+    }
+    remaining -= hours;
+  }
+  return finish;
+}
+
+/**
+ * Score an operator as a candidate for a work order (higher is better)
+ */
+export function scoreCandidate(input: CandidateScoreInput, weights: AssignmentWeights): CandidateScore {
+  const now = input.now ?? new Date();
+  const remainingHours = input.maxHours - input.hoursAssigned;
+
+  const components = {
+    uph: Math.min(input.uph / 100, 1) * weights.uph,
+    reliability: Math.min(input.observations / 10, 1) * weights.reliability,
+    capacity: (remainingHours / input.maxHours) * weights.capacity,
+    workload: (1 - input.hoursAssigned / input.maxHours) * weights.workload,
+    lateness: 0
+  };
+
+  const projectedFinish = projectFinish(now, input.hoursAssigned + input.expectedHours, input.dailyHours ?? input.maxHours);
+  let daysLate = 0;
+  if (input.dueDate && projectedFinish > input.dueDate) {
+    daysLate = (projectedFinish.getTime() - input.dueDate.getTime()) / DAY_MS;
+    const priorityMultiplier = Math.max(0, 1 + PRIORITY_FACTORS[input.priority] * weights.priority);
+    components.lateness = -Math.min(daysLate / 7, 1) * weights.lateness * priorityMultiplier;
+  }
+
+  const total = components.uph + components.reliability + components.capacity + components.workload + components.lateness;
+
+  return { total, components, projectedFinish, daysLate };
+}
+
+/**
+ * Order work orders so urgent ones pick operators first: priority, then due date
+ */
+export function compareByUrgency(
+  a: { priority: MoPriority; dueDate: Date | null },
+  b: { priority: MoPriority; dueDate: Date | null }
+): number {
+  const priorityDiff = PRIORITY_FACTORS[b.priority] - PRIORITY_FACTORS[a.priority];
+  if (priorityDiff !== 0) return priorityDiff;
+
+  const aDue = a.dueDate?.getTime() ?? Number.MAX_SAFE_INTEGER;
+  const bDue = b.dueDate?.getTime() ?? Number.MAX_SAFE_INTEGER;
+  return aDue - bDue;
+}
+
+/**
+ * Load the planner-tuned weights, falling back to defaults
+ */
+export async function getAssignmentWeights(): Promise<AssignmentWeights> {
+  try {
+    const [row] = await db
+      .select()
+      .from(plannerSettings)
+      .where(eq(plannerSettings.key, WEIGHTS_SETTING_KEY));
+    return normalizeWeights(row?.value as Partial<AssignmentWeights> | undefined);
+  } catch (error) {
+    console.error("Error loading assignment weights, using defaults:", error);
+    return { ...DEFAULT_ASSIGNMENT_WEIGHTS };
+  }
+}
+
+/**
+ * Save planner-tuned weights
+ */
+export async function saveAssignmentWeights(input: Partial<AssignmentWeights>): Promise<AssignmentWeights> {
+  const weights = normalizeWeights(input);
+
+  await db
+    .insert(plannerSettings)
+    .values({ key: WEIGHTS_SETTING_KEY, value: weights, updatedAt: new Date() })
+    .onConflictDoUpdate({
+      target: plannerSettings.key,
+      set: { value: weights, updatedAt: new Date() }
+    });
+
+  return weights;
+}
@@ -0,0 +1,431 @@
+/**
+ * Assignment Scenarios
+ * What-if sandbox for auto-assign: plans are generated as dry runs and saved
+ * as named scenarios without touching live work_order_assignments rows.
+ * Scenarios can be compared side by side and promoted to the live plan.
+ */
+
+import { db } from "../db.js";
+import {
+  assignmentScenarios,
+  scenarioAssignments,
+  workOrderAssignments,
+  operators,
+  type AssignmentScenario,
+  type ScenarioAssignment
+} from "../../shared/schema.js";
+import { eq, and, inArray, desc, or, isNull, type SQL } from "drizzle-orm";
+import type { AssignmentWeights } from "./assignmentObjective.js";
+import type { SolverName, SolverReport } from "./assignmentSolver.js";
+
+export type ScenarioStrategy = 'fill' | 'regenerate';
+
+export interface ScenarioMetrics {
+  assignmentCount: number;
+  newAssignmentCount: number;
+  totalHours: number;
+  totalTardiness: number;
+  hoursByOperator: Record<number, number>;
+  lateMos: string[];
+  unassigned: Array<{ workOrderId: number; moNumber: string; workCenter: string; reason: string }>;
+  solver?: SolverName;
+  solverReport?: SolverReport;
+}
+
+export interface CreateScenarioInput {
+  name: string;
+  description?: string;
+  strategy?: ScenarioStrategy;
+  weights?: Partial<AssignmentWeights>;
+  horizonDays?: number;
+  solver?: SolverName;
+  createdBy?: string;
+}
+
+export interface ScenarioComparison {
+  a: AssignmentScenario;
+  b: AssignmentScenario;
+  operatorHours: Array<{ operatorId: number; operatorName: string; hoursA: number; hoursB: number; delta: number }>;
+  lateMos: { onlyA: string[]; onlyB: string[]; both: string[] };
+  unassigned: { onlyA: number[]; onlyB: number[]; both: number[] };
+  changedAssignments: Array<{ workOrderId: number; operatorA: number | null; operatorB: number | null }>;
+  totals: {
+    hoursA: number;
+    hoursB: number;
+    tardinessA: number;
+    tardinessB: number;
+  };
+}
+
+export interface PromotionConflict {
+  workOrderId: number | null; // null when the whole scenario is out of date
+  reason: string;
+}
+
+export interface PromotionOutcome {
+  promoted: number;
+  replaced: number;
+  conflicts: PromotionConflict[]; // Non-empty when nothing was promoted
+}
+
+interface LiveAssignment {
+  workOrderId: number;
+  operatorId: number;
+  assignedAt: Date | null;
+  assignedBy: string | null;
+  isLocked: boolean | null;
+}
+
+const INSERT_BATCH_SIZE = 100;
+
+/**
+ * Plan a scenario with a dry-run auto-assign and save it
+ */
+export async function createScenario(input: CreateScenarioInput): Promise<AssignmentScenario> {
+  const strategy: ScenarioStrategy = input.strategy === 'regenerate' ? 'regenerate' : 'fill';
+  const { autoAssignWorkOrders, regenerateAssignments } = await import("../ai-auto-assign.js");
+
+  const options = {
+    mode: 'schedule' as const,
+    dryRun: true,
+    horizonDays: input.horizonDays,
+    weights: input.weights,
+    solver: input.solver
+  };
+  const result = strategy === 'regenerate'
+    ? await regenerateAssignments(options)
+    : await autoAssignWorkOrders(options);
+
+  if (!result.plan) {
+    throw new Error(result.summary || "Scenario planning failed");
+  }
+
+  // Slot metadata gives each planned work order its MO, work center and routing
+  const slotsByWorkOrder = new Map((result.schedule?.slots || []).map(slot => [slot.workOrderId, slot]));
+  const unscheduledByWorkOrder = new Map((result.schedule?.unscheduled || []).map(u => [u.workOrderId, u]));
+
+  const hoursByOperator: Record<number, number> = {};
+  for (const planned of result.plan) {
+    hoursByOperator[planned.operatorId] = (hoursByOperator[planned.operatorId] || 0) + planned.estimatedHours;
+  }
+
+  const metrics: ScenarioMetrics = {
+    assignmentCount: result.plan.length,
+    newAssignmentCount: result.plan.filter(planned => planned.isNew).length,
+    totalHours: Object.values(hoursByOperator).reduce((sum, hours) => sum + hours, 0),
+    totalTardiness: result.totalTardiness,
+    hoursByOperator,
+    lateMos: result.schedule?.lateMos || [],
+    unassigned: (result.unassignedDetails || []).map(detail => ({
+      workOrderId: detail.workOrderId,
+      moNumber: detail.moNumber,
+      workCenter: detail.workCenter,
+      reason: detail.reason
+    })),
+    solver: input.solver ?? 'greedy',
+    solverReport: result.solverReport
+  };
+
+  const [scenario] = await db
+    .insert(assignmentScenarios)
+    .values({
+      name: input.name,
+      description: input.description,
+      strategy,
+      weights: result.weights,
+      metrics,
+      createdBy: input.createdBy
+    })
+    .returning();
+
+  const rows = result.plan.map(planned => {
+    const slot = slotsByWorkOrder.get(planned.workOrderId);
+    return {
+      scenarioId: scenario.id,
+      workOrderId: planned.workOrderId,
+      operatorId: planned.operatorId,
+      moNumber: slot?.moNumber || unscheduledByWorkOrder.get(planned.workOrderId)?.moNumber || null,
+      workCenter: slot?.workCenter || null,
+      routing: slot?.routing || null,
+      estimatedHours: planned.estimatedHours,
+      assignedBy: planned.assignedBy,
+      isAutoAssigned: planned.isAutoAssigned,
+      autoAssignReason: planned.autoAssignReason,
+      autoAssignConfidence: planned.autoAssignConfidence,
+      autoAssignDecision: planned.autoAssignDecision,
+      isNew: planned.isNew,
+      scheduledStart: slot?.start || null,
+      scheduledEnd: slot?.end || null
+    };
+  });
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    await db.insert(scenarioAssignments).values(rows.slice(i, i + INSERT_BATCH_SIZE));
+  }
+
+  console.log(`🧪 Saved scenario "${scenario.name}" (${strategy}): ${metrics.assignmentCount} assignments, ${metrics.lateMos.length} late MOs`);
+  return scenario;
+}
+
+export async function listScenarios(): Promise<AssignmentScenario[]> {
+  return db
+    .select()
+    .from(assignmentScenarios)
+    .orderBy(desc(assignmentScenarios.createdAt));
+}
+
+export async function getScenario(
+  id: number
+): Promise<(AssignmentScenario & { assignments: ScenarioAssignment[] }) | null> {
+  const [scenario] = await db
+    .select()
+    .from(assignmentScenarios)
+    .where(eq(assignmentScenarios.id, id));
+  if (!scenario) return null;
+
+  const assignments = await db
+    .select()
+    .from(scenarioAssignments)
+    .where(eq(scenarioAssignments.scenarioId, id));
+
+  return { ...scenario, assignments };
+}
+
+export async function deleteScenario(id: number): Promise<boolean> {
+  const deleted = await db
+    .delete(assignmentScenarios)
+    .where(eq(assignmentScenarios.id, id))
+    .returning({ id: assignmentScenarios.id });
+  return deleted.length > 0;
+}
+
+/**
+ * Compare two scenarios: hours per operator, late MOs, unassigned work orders
+ * and the work orders that go to a different operator
+ */
+export async function compareScenarios(aId: number, bId: number): Promise<ScenarioComparison | null> {
+  const [a, b] = await Promise.all([getScenario(aId), getScenario(bId)]);
+  if (!a || !b) return null;
+
+  const metricsA = a.metrics as ScenarioMetrics;
+  const metricsB = b.metrics as ScenarioMetrics;
+
+  const operatorRows = await db.select({ id: operators.id, name: operators.name }).from(operators);
+  const operatorNames = new Map(operatorRows.map(op => [op.id, op.name]));
+
+  const operatorIds = new Set([
+    ...Object.keys(metricsA.hoursByOperator),
+    ...Object.keys(metricsB.hoursByOperator)
+  ].map(Number));
+
+  const operatorHours = [...operatorIds]
+    .map(operatorId => {
+      const hoursA = metricsA.hoursByOperator[operatorId] || 0;
+      const hoursB = metricsB.hoursByOperator[operatorId] || 0;
+      return {
+        operatorId,
+        operatorName: operatorNames.get(operatorId) || `Operator ${operatorId}`,
+        hoursA,
+        hoursB,
+        delta: hoursB - hoursA
+      };
+    })
+    .sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta));
+
+  const operatorByWorkOrderA = new Map(a.assignments.map(row => [row.workOrderId, row.operatorId]));
+  const operatorByWorkOrderB = new Map(b.assignments.map(row => [row.workOrderId, row.operatorId]));
+  const changedAssignments = [...new Set([...operatorByWorkOrderA.keys(), ...operatorByWorkOrderB.keys()])]
+    .filter(workOrderId => operatorByWorkOrderA.get(workOrderId) !== operatorByWorkOrderB.get(workOrderId))
+    .map(workOrderId => ({
+      workOrderId,
+      operatorA: operatorByWorkOrderA.get(workOrderId) ?? null,
+      operatorB: operatorByWorkOrderB.get(workOrderId) ?? null
+    }));
+
+  return {
+    a: stripAssignments(a),
+    b: stripAssignments(b),
+    operatorHours,
+    lateMos: splitSets(metricsA.lateMos, metricsB.lateMos),
+    unassigned: splitSets(
+      metricsA.unassigned.map(u => u.workOrderId),
+      metricsB.unassigned.map(u => u.workOrderId)
+    ),
+    changedAssignments,
+    totals: {
+      hoursA: metricsA.totalHours,
+      hoursB: metricsB.totalHours,
+      tardinessA: metricsA.totalTardiness,
+      tardinessB: metricsB.totalTardiness
+    }
+  };
+}
+
+/**
+ * Find why a scenario no longer matches the live plan it was drawn up
+ * against: it was already promoted, a live assignment it would replace was
+ * made after it was planned, or one it carried over has since been removed.
+ * Locked assignments are skipped by promotion, so they never conflict.
+ */
+export function findPromotionConflicts(
+  scenario: Pick<AssignmentScenario, 'status' | 'strategy' | 'createdAt'> & {
+    assignments: Array<Pick<ScenarioAssignment, 'workOrderId' | 'operatorId' | 'isNew'>>
+  },
+  live: LiveAssignment[]
+): PromotionConflict[] {
+  if (scenario.status === 'promoted') {
+    return [{ workOrderId: null, reason: "Scenario was already promoted" }];
+  }
+
+  const conflicts: PromotionConflict[] = [];
+  const planned = new Map(scenario.assignments.map(row => [row.workOrderId, row]));
+  const liveByWorkOrder = new Map(live.map(row => [row.workOrderId, row]));
+  const plannedAt = scenario.createdAt?.getTime() ?? null;
+
+  for (const row of live) {
+    if (row.isLocked || plannedAt === null || !row.assignedAt || row.assignedAt.getTime() <= plannedAt) continue;
+    // Only rows promotion would replace matter
+    if (!planned.has(row.workOrderId) && !(scenario.strategy === 'regenerate' && row.assignedBy === "AI Auto-Assign")) continue;
+    conflicts.push({
+      workOrderId: row.workOrderId,
+      reason: `Assigned to operator ${row.operatorId} after the scenario was planned`
+    });
+  }
+
+  for (const row of scenario.assignments) {
+    if (row.isNew === false && !liveByWorkOrder.has(row.workOrderId)) {
+      conflicts.push({
+        workOrderId: row.workOrderId,
+        reason: "Live assignment was removed after the scenario was planned"
+      });
+    }
+  }
+
+  return conflicts.sort((x, y) => (x.workOrderId ?? 0) - (y.workOrderId ?? 0));
+}
+
+/**
+ * Make a scenario the live plan. Live assignments for the scenario's work
+ * orders are replaced; a regenerate scenario also replaces every live AI
+ * auto-assignment. Other manual assignments and locked assignments are left alone.
+ * A scenario that is out of date (see findPromotionConflicts) is not promoted;
+ * its conflicts are returned instead.
+ */
+export async function promoteScenario(id: number): Promise<PromotionOutcome | null> {
+  const scenario = await getScenario(id);
+  if (!scenario) return null;
+
+  const outcome = await db.transaction(async (tx): Promise<PromotionOutcome> => {
+    // Re-read the status under a row lock so two promotions can't both go through
+    const [current] = await tx
+      .select({ status: assignmentScenarios.status })
+      .from(assignmentScenarios)
+      .where(eq(assignmentScenarios.id, id))
+      .for('update');
+
+    const scenarioWorkOrderIds = scenario.assignments.map(row => row.workOrderId);
+    const liveScope: SQL[] = [];
+    if (scenarioWorkOrderIds.length > 0) {
+      liveScope.push(inArray(workOrderAssignments.workOrderId, scenarioWorkOrderIds));
+    }
+    if (scenario.strategy === 'regenerate') {
+      liveScope.push(eq(workOrderAssignments.assignedBy, "AI Auto-Assign"));
+    }
+    const live: LiveAssignment[] = liveScope.length > 0
+      ? await tx
+          .select({
+            workOrderId: workOrderAssignments.workOrderId,
+            operatorId: workOrderAssignments.operatorId,
+            assignedAt: workOrderAssignments.assignedAt,
+            assignedBy: workOrderAssignments.assignedBy,
+            isLocked: workOrderAssignments.isLocked
+          })
+          .from(workOrderAssignments)
+          .where(and(eq(workOrderAssignments.isActive, true), or(...liveScope)))
+      : [];
+
+    const conflicts = findPromotionConflicts({ ...scenario, status: current?.status ?? scenario.status }, live);
+    if (conflicts.length > 0) {
+      return { promoted: 0, replaced: 0, conflicts };
+    }
+
+    // Locked live assignments win over whatever the scenario planned for those work orders
+    const locked = await tx
+      .select({ workOrderId: workOrderAssignments.workOrderId })
+      .from(workOrderAssignments)
+      .where(and(eq(workOrderAssignments.isActive, true), eq(workOrderAssignments.isLocked, true)));
+    const lockedIds = new Set(locked.map(row => row.workOrderId));
+
+    const promotable = scenario.assignments.filter(row => !lockedIds.has(row.workOrderId));
+    const workOrderIds = promotable.map(row => row.workOrderId);
+
+    const conditions: SQL[] = [];
+    if (workOrderIds.length > 0) {
+      conditions.push(inArray(workOrderAssignments.workOrderId, workOrderIds));
+    }
+    if (scenario.strategy === 'regenerate') {
+      conditions.push(eq(workOrderAssignments.assignedBy, "AI Auto-Assign"));
+    }
+
+    let replaced = 0;
+    if (conditions.length > 0) {
+      const deleted = await tx
+        .delete(workOrderAssignments)
+        .where(and(
+          eq(workOrderAssignments.isActive, true),
+          or(isNull(workOrderAssignments.isLocked), eq(workOrderAssignments.isLocked, false)),
+          or(...conditions)
+        ))
+        .returning({ id: workOrderAssignments.id });
+      replaced = deleted.length;
+    }
+
+    const rows = promotable.map(row => ({
+      workOrderId: row.workOrderId,
+      operatorId: row.operatorId,
+      assignedBy: row.assignedBy || "dashboard",
+      assignedAt: new Date(),
+      isActive: true,
+      isAutoAssigned: row.isAutoAssigned || false,
+      autoAssignReason: row.autoAssignReason,
+      autoAssignConfidence: row.autoAssignConfidence,
+      autoAssignDecision: row.autoAssignDecision,
+      estimatedHours: row.estimatedHours,
+      scheduledStart: row.scheduledStart,
+      scheduledEnd: row.scheduledEnd
+    }));
+
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      await tx.insert(workOrderAssignments).values(rows.slice(i, i + INSERT_BATCH_SIZE));
+    }
+
+    await tx
+      .update(assignmentScenarios)
+      .set({ status: 'promoted', promotedAt: new Date() })
+      .where(eq(assignmentScenarios.id, id));
+
+    return { promoted: rows.length, replaced, conflicts: [] };
+  });
+
+  if (outcome.conflicts.length > 0) {
+    console.log(`⚠️ Scenario "${scenario.name}" is out of date, not promoted: ${outcome.conflicts.length} conflicts`);
+  } else {
+    console.log(`🚀 Promoted scenario "${scenario.name}": ${outcome.promoted} assignments live, ${outcome.replaced} replaced`);
+  }
+  return outcome;
+}
+
+function stripAssignments(scenario: AssignmentScenario & { assignments: ScenarioAssignment[] }): AssignmentScenario {
+  const { assignments, ...rest } = scenario;
+  return rest;
+}
+
+function splitSets<T>(a: T[], b: T[]): { onlyA: T[]; onlyB: T[]; both: T[] } {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  return {
+    onlyA: [...setA].filter(item => !setB.has(item)),
+    onlyB: [...setB].filter(item => !setA.has(item)),
+    both: [...setA].filter(item => setB.has(item))
+  };
+}
@@ -0,0 +1,323 @@
+/**
+ * Assignment Solver
+ * Pluggable backends that place new work orders on skilled operators within
+ * their remaining capacity. "optimal" is a depth-first branch and bound over
+ * the generalized assignment problem: place as many work orders as capacity
+ * allows, then minimise total expected hours. Pure TypeScript, no external
+ * solver required.
+ */
+
+export type SolverName = 'greedy' | 'optimal';
+
+export interface SolverTask {
+  workOrderId: number;
+  options: Array<{ operatorId: number; hours: number }>; // Skilled operators and their expected hours
+}
+
+export interface AssignmentProblem {
+  tasks: SolverTask[];
+  capacity: Map<number, number>; // Remaining hours per operator
+}
+
+export interface SolverSolution {
+  solver: SolverName;
+  assignments: Map<number, number>; // workOrderId -> operatorId
+  unassigned: number[];
+  totalHours: number;
+  provenOptimal: boolean;
+  lowerBound: number; // Hours; only comparable when nothing is left unassigned
+  nodesExplored: number;
+  durationMs: number;
+}
+
+export interface AssignmentSolver {
+  name: SolverName;
+  solve(problem: AssignmentProblem): SolverSolution;
+}
+
+export interface SolverReport {
+  solver: SolverName;
+  totalHours: number;
+  assignedCount: number;
+  unassignedCount: number;
+  provenOptimal: boolean;
+  nodesExplored: number;
+  durationMs: number;
+  greedy: {
+    totalHours: number;
+    assignedCount: number;
+    overCapacityHours: number; // Greedy may overload operators; the solver never does
+  };
+  gapHours: number; // Greedy hours minus solver hours
+  gapPercent: number; // Gap relative to greedy hours
+}
+
+// Explored nodes across all components before settling for the best plan found
+const NODE_LIMIT = 250_000;
+const EPSILON = 1e-9;
+
+/**
+ * Capacity-aware greedy: work orders with the fewest skilled operators first,
+ * each to the fastest operator with room left
+ */
+export const greedySolver: AssignmentSolver = {
+  name: 'greedy',
+  solve(problem) {
+    const started = Date.now();
+    const remaining = new Map(problem.capacity);
+    const assignments = new Map<number, number>();
+    const unassigned: number[] = [];
+    let totalHours = 0;
+
+    for (const task of orderTasks(problem.tasks)) {
+      const option = task.options.find(o => (remaining.get(o.operatorId) ?? 0) + EPSILON >= o.hours);
+      if (!option) {
+        unassigned.push(task.workOrderId);
+        continue;
+      }
+      assignments.set(task.workOrderId, option.operatorId);
+      remaining.set(option.operatorId, (remaining.get(option.operatorId) ?? 0) - option.hours);
+      totalHours += option.hours;
+    }
+
+    return {
+      solver: 'greedy',
+      assignments,
+      unassigned,
+      totalHours,
+      provenOptimal: false,
+      lowerBound: problem.tasks.reduce((sum, task) => sum + (task.options.length > 0 ? minHours(task) : 0), 0),
+      nodesExplored: problem.tasks.length,
+      durationMs: Date.now() - started
+    };
+  }
+};
+
+/**
+ * Branch and bound seeded with the greedy plan. Operators that share no work
+ * orders are solved as independent components.
+ */
+export const optimalSolver: AssignmentSolver = {
+  name: 'optimal',
+  solve(problem) {
+    const started = Date.now();
+    const assignments = new Map<number, number>();
+    const unassigned: number[] = [];
+    let totalHours = 0;
+    let lowerBound = 0;
+    let nodesExplored = 0;
+    let provenOptimal = true;
+
+    for (const tasks of splitComponents(problem.tasks)) {
+      const result = branchAndBound(tasks, problem.capacity, NODE_LIMIT - nodesExplored);
+      nodesExplored += result.nodes;
+      provenOptimal = provenOptimal && result.complete;
+      lowerBound += result.lowerBound;
+
+      result.plan.forEach((choice, index) => {
+        const task = result.tasks[index];
+        if (choice < 0) {
+          unassigned.push(task.workOrderId);
+        } else {
+          assignments.set(task.workOrderId, task.options[choice].operatorId);
+          totalHours += task.options[choice].hours;
+        }
+      });
+    }
+
+    return {
+      solver: 'optimal',
+      assignments,
+      unassigned,
+      totalHours,
+      provenOptimal,
+      lowerBound,
+      nodesExplored,
+      durationMs: Date.now() - started
+    };
+  }
+};
+
+const SOLVERS: Record<SolverName, AssignmentSolver> = {
+  greedy: greedySolver,
+  optimal: optimalSolver
+};
+
+export function getSolver(name: SolverName): AssignmentSolver {
+  return SOLVERS[name] ?? greedySolver;
+}
+
+/**
+ * Compare a solver's plan with the greedy engine's plan for the same work orders
+ */
+export function compareWithGreedy(
+  problem: AssignmentProblem,
+  solution: SolverSolution,
+  greedyPlan: Map<number, number>
+): SolverReport {
+  const load = new Map<number, number>();
+  let greedyHours = 0;
+  let greedyAssigned = 0;
+
+  for (const task of problem.tasks) {
+    const operatorId = greedyPlan.get(task.workOrderId);
+    const option = task.options.find(o => o.operatorId === operatorId);
+    if (!option) continue;
+    greedyHours += option.hours;
+    greedyAssigned++;
+    load.set(option.operatorId, (load.get(option.operatorId) ?? 0) + option.hours);
+  }
+
+  let overCapacityHours = 0;
+  for (const [operatorId, hours] of load) {
+    overCapacityHours += Math.max(0, hours - (problem.capacity.get(operatorId) ?? 0));
+  }
+
+  const gapHours = greedyHours - solution.totalHours;
+  return {
+    solver: solution.solver,
+    totalHours: solution.totalHours,
+    assignedCount: solution.assignments.size,
+    unassignedCount: solution.unassigned.length,
+    provenOptimal: solution.provenOptimal,
+    nodesExplored: solution.nodesExplored,
+    durationMs: solution.durationMs,
+    greedy: {
+      totalHours: greedyHours,
+      assignedCount: greedyAssigned,
+      overCapacityHours
+    },
+    gapHours,
+    gapPercent: greedyHours > 0 ? (gapHours / greedyHours) * 100 : 0
+  };
+}
+
+function minHours(task: SolverTask): number {
+  return task.options.reduce((min, o) => Math.min(min, o.hours), Infinity);
+}
+
+// Most constrained first (fewest operators), then largest, so bounds prune early
+function orderTasks(tasks: SolverTask[]): SolverTask[] {
+  return tasks
+    .filter(task => task.options.length > 0)
+    .map(task => ({ ...task, options: [...task.options].sort((a, b) => a.hours - b.hours) }))
+    .sort((a, b) => a.options.length - b.options.length || minHours(b) - minHours(a))
+    .concat(tasks.filter(task => task.options.length === 0));
+}
+
+// Group work orders that compete for the same operators
+function splitComponents(tasks: SolverTask[]): SolverTask[][] {
+  const parent = new Map<number, number>();
+  const find = (id: number): number => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  for (const task of tasks) {
+    for (const option of task.options) {
+      if (!parent.has(option.operatorId)) parent.set(option.operatorId, option.operatorId);
+    }
+    for (const option of task.options.slice(1)) {
+      parent.set(find(option.operatorId), find(task.options[0].operatorId));
+    }
+  }
+
+  const components = new Map<number, SolverTask[]>();
+  const unplaceable: SolverTask[] = [];
+  for (const task of tasks) {
+    if (task.options.length === 0) {
+      unplaceable.push(task);
+      continue;
+    }
+    const root = find(task.options[0].operatorId);
+    if (!components.has(root)) components.set(root, []);
+    components.get(root)!.push(task);
+  }
+
+  return unplaceable.length > 0 ? [...components.values(), unplaceable] : [...components.values()];
+}
+
+function branchAndBound(
+  input: SolverTask[],
+  capacity: Map<number, number>,
+  nodeBudget: number
+): { tasks: SolverTask[]; plan: number[]; nodes: number; complete: boolean; lowerBound: number } {
+  const tasks = orderTasks(input);
+  // Leaving a work order unassigned costs more than every hour in the problem,
+  // so plans are compared by placed work orders first, then hours
+  const penalty = 1 + tasks.reduce((sum, task) => sum + task.options.reduce((max, o) => Math.max(max, o.hours), 0), 0);
+  const remaining = new Map(capacity);
+
+  const bound = (from: number) => {
+    let total = 0;
+    for (let i = from; i < tasks.length; i++) {
+      let best = penalty;
+      for (const option of tasks[i].options) {
+        if ((remaining.get(option.operatorId) ?? 0) + EPSILON >= option.hours) {
+          best = option.hours;
+          break; // Options are sorted fastest first
+        }
+      }
+      total += best;
+    }
+    return total;
+  };
+
+  // Seed the incumbent with the greedy plan
+  const seedCapacity = new Map(capacity);
+  let bestPlan = tasks.map(task => {
+    const choice = task.options.findIndex(o => (seedCapacity.get(o.operatorId) ?? 0) + EPSILON >= o.hours);
+    if (choice >= 0) {
+      const option = task.options[choice];
+      seedCapacity.set(option.operatorId, (seedCapacity.get(option.operatorId) ?? 0) - option.hours);
+    }
+    return choice;
+  });
+  let bestCost = bestPlan.reduce((sum, choice, i) => sum + (choice < 0 ? penalty : tasks[i].options[choice].hours), 0);
+
+  const plan: number[] = new Array(tasks.length).fill(-1);
+  let nodes = 0;
+  let complete = true;
+
+  const search = (index: number, cost: number) => {
+    if (++nodes > nodeBudget) {
+      complete = false;
+      return;
+    }
+    if (index === tasks.length) {
+      if (cost < bestCost - EPSILON) {
+        bestCost = cost;
+        bestPlan = [...plan];
+      }
+      return;
+    }
+    if (cost + bound(index) >= bestCost - EPSILON) return;
+
+    for (let choice = 0; choice < tasks[index].options.length; choice++) {
+      const option = tasks[index].options[choice];
+      const left = remaining.get(option.operatorId) ?? 0;
+      if (left + EPSILON < option.hours) continue;
+
+      remaining.set(option.operatorId, left - option.hours);
+      plan[index] = choice;
+      search(index + 1, cost + option.hours);
+      remaining.set(option.operatorId, left);
+      if (!complete) return;
+    }
+    plan[index] = -1;
+    if (!complete) return;
+
+    // Leaving this work order out can make room for two others
+    search(index + 1, cost + penalty);
+  };
+
+  search(0, 0);
+
+  // Proven plans are their own bound; otherwise hours with capacity ignored
+  const lowerBound = complete
+    ? bestPlan.reduce((sum, choice, i) => sum + (choice < 0 ? 0 : tasks[i].options[choice].hours), 0)
+    : tasks.reduce((sum, task) => sum + (task.options.length > 0 ? minHours(task) : 0), 0);
+  return { tasks, plan: bestPlan, nodes, complete, lowerBound };
+}
@@ -0,0 +1,289 @@
+/**
+ * Cross-Training
+ * Finds routings bottlenecked by too few qualified operators, from the work
+ * orders auto-assign could not place, and ranks the operators who would
+ * relieve each bottleneck most if trained by how they perform on similar
+ * routings at the same work center relative to their peers.
+ */
+
+import { db } from "../db.js";
+import { operators, uphData, workOrderAssignments } from "../../shared/schema.js";
+import { eq } from "drizzle-orm";
+import { getAvailableHours, DEFAULT_CAPACITY_DAYS } from "./operatorCalendar.js";
+import { getProductFamilies, routingSimilarity, type ProductFamily } from "./productFamilies.js";
+
+// Sewing and Rope work is planned under Assembly
+const WORK_CENTER_ALIASES: Record<string, string[]> = {
+  Assembly: ['Assembly', 'Sewing', 'Rope']
+};
+// Reasons that mean the routing lacks qualified operators or their hours
+const SKILL_GAP_REASON = /^No operators with UPH data/;
+const CAPACITY_REASON = /capacity/i;
+const MAX_CANDIDATES = 5;
+
+export interface CrossTrainingOperator {
+  id: number;
+  name: string;
+  workCenters: string[];
+  routings: string[];
+  spareHours: number; // Available hours in the planning window minus assigned work
+}
+
+export interface CrossTrainingUph {
+  operatorId: number | null;
+  operatorName: string;
+  workCenter: string;
+  routing: string;
+  uph: number;
+  observations: number;
+}
+
+export interface CrossTrainingDemand {
+  workOrderId: number;
+  routing: string;
+  workCenter: string;
+  quantity: number;
+  reason: string;
+}
+
+export interface TrainingCandidate {
+  operatorId: number;
+  operatorName: string;
+  hasWorkCenter: boolean; // Already enabled for the work center, only the routing is new
+  relativePerformance: number; // Weighted UPH vs peer median on similar routings (1 = typical)
+  estimatedUph: number | null; // Projected on the bottleneck routing
+  reliefHours: number | null; // Share of the unassigned backlog they could absorb this window
+  spareHours: number;
+  similarRoutings: Array<{ routing: string; uph: number; peerMedianUph: number; similarity: number }>;
+}
+
+export interface RoutingBottleneck {
+  routing: string;
+  workCenter: string;
+  unassignedWorkOrders: number;
+  unassignedQuantity: number;
+  skillGap: number; // Work orders left with no operator having UPH data
+  capacityShortfall: number; // Work orders left because qualified operators were full
+  qualifiedOperators: Array<{ operatorId: number; operatorName: string; uph: number; spareHours: number }>;
+  candidates: TrainingCandidate[];
+}
+
+export interface CrossTrainingReport {
+  generatedAt: string;
+  planningDays: number;
+  unassignedWorkOrders: number;
+  bottlenecks: RoutingBottleneck[];
+}
+
+/**
+ * Group unplaced work orders by routing and work center and rank trainees for each
+ */
+export function buildCrossTrainingReport(input: {
+  operators: CrossTrainingOperator[];
+  uph: CrossTrainingUph[];
+  unassigned: CrossTrainingDemand[];
+  planningDays?: number;
+  families?: ProductFamily[];
+}): CrossTrainingReport {
+  const demandByRouting = new Map<string, CrossTrainingDemand[]>();
+  for (const item of input.unassigned) {
+    if (!SKILL_GAP_REASON.test(item.reason) && !CAPACITY_REASON.test(item.reason)) continue;
+    const key = `${item.workCenter}|${item.routing}`;
+    if (!demandByRouting.has(key)) demandByRouting.set(key, []);
+    demandByRouting.get(key)!.push(item);
+  }
+
+  const uphFor = (operator: CrossTrainingOperator, workCenter: string, routing: string) =>
+    input.uph.filter(row =>
+      belongsTo(row, operator) &&
+      row.routing === routing &&
+      workCentersFor(workCenter).includes(row.workCenter)
+    );
+
+  const bottlenecks: RoutingBottleneck[] = [];
+  for (const [key, demand] of demandByRouting) {
+    const [workCenter, routing] = key.split('|');
+    const unassignedQuantity = demand.reduce((sum, item) => sum + (item.quantity || 0), 0);
+
+    const qualifiedOperators = input.operators
+      .filter(op => hasWorkCenter(op, workCenter))
+      .map(op => ({ op, rows: uphFor(op, workCenter, routing) }))
+      .filter(({ rows }) => rows.length > 0)
+      .map(({ op, rows }) => ({
+        operatorId: op.id,
+        operatorName: op.name,
+        uph: weightedUph(rows),
+        spareHours: op.spareHours
+      }))
+      .sort((a, b) => b.uph - a.uph);
+    const qualifiedIds = new Set(qualifiedOperators.map(q => q.operatorId));
+    const routingMedian = median(qualifiedOperators.map(q => q.uph));
+
+    // Peer median UPH per similar routing at this work center
+    const peerMedians = new Map<string, number>();
+    const similarRows = input.uph.filter(row =>
+      row.routing !== routing && workCentersFor(workCenter).includes(row.workCenter) && row.uph > 0
+    );
+    for (const similarRouting of new Set(similarRows.map(row => row.routing))) {
+      peerMedians.set(similarRouting, median(similarRows.filter(row => row.routing === similarRouting).map(row => row.uph)));
+    }
+
+    const candidates: TrainingCandidate[] = [];
+    for (const op of input.operators) {
+      if (qualifiedIds.has(op.id)) continue;
+
+      const own = similarRows.filter(row => belongsTo(row, op));
+      if (own.length === 0) continue;
+
+      let weightedIndex = 0;
+      let totalWeight = 0;
+      const similarRoutings: TrainingCandidate['similarRoutings'] = [];
+      for (const similarRouting of new Set(own.map(row => row.routing))) {
+        const rows = own.filter(row => row.routing === similarRouting);
+        const uph = weightedUph(rows);
+        const peerMedianUph = peerMedians.get(similarRouting) || 0;
+        if (peerMedianUph <= 0) continue;
+
+        const similarity = routingSimilarity(routing, similarRouting, input.families);
+        const observations = rows.reduce((sum, row) => sum + Math.max(1, row.observations), 0);
+        // Closer routings and more observations count for more
+        const weight = (0.5 + 0.5 * similarity) * Math.log1p(observations);
+        weightedIndex += (uph / peerMedianUph) * weight;
+        totalWeight += weight;
+        similarRoutings.push({ routing: similarRouting, uph, peerMedianUph, similarity });
+      }
+      if (totalWeight === 0) continue;
+
+      const relativePerformance = weightedIndex / totalWeight;
+      const estimatedUph = routingMedian > 0 ? routingMedian * relativePerformance : null;
+      const backlogHours = estimatedUph ? unassignedQuantity / estimatedUph : null;
+      candidates.push({
+        operatorId: op.id,
+        operatorName: op.name,
+        hasWorkCenter: hasWorkCenter(op, workCenter),
+        relativePerformance,
+        estimatedUph,
+        reliefHours: backlogHours !== null ? Math.min(backlogHours, Math.max(0, op.spareHours)) : null,
+        spareHours: op.spareHours,
+        similarRoutings: similarRoutings.sort((a, b) => b.similarity - a.similarity).slice(0, 3)
+      });
+    }
+
+    // Strongest on similar work first; spare hours decide between equals
+    candidates.sort((a, b) =>
+      b.relativePerformance - a.relativePerformance ||
+      Number(b.hasWorkCenter) - Number(a.hasWorkCenter) ||
+      b.spareHours - a.spareHours
+    );
+
+    bottlenecks.push({
+      routing,
+      workCenter,
+      unassignedWorkOrders: demand.length,
+      unassignedQuantity,
+      skillGap: demand.filter(item => SKILL_GAP_REASON.test(item.reason)).length,
+      capacityShortfall: demand.filter(item => !SKILL_GAP_REASON.test(item.reason)).length,
+      qualifiedOperators,
+      candidates: candidates.slice(0, MAX_CANDIDATES)
+    });
+  }
+
+  // Most unplaced work per qualified operator first
+  bottlenecks.sort((a, b) =>
+    b.unassignedWorkOrders / (b.qualifiedOperators.length + 1) -
+    a.unassignedWorkOrders / (a.qualifiedOperators.length + 1) ||
+    b.unassignedQuantity - a.unassignedQuantity
+  );
+
+  return {
+    generatedAt: new Date().toISOString(),
+    planningDays: input.planningDays ?? DEFAULT_CAPACITY_DAYS,
+    unassignedWorkOrders: input.unassigned.length,
+    bottlenecks
+  };
+}
+
+/**
+ * Cross-training report for the current backlog. Runs auto-assign as a dry
+ * run to find the work orders it cannot place, without saving anything.
+ */
+export async function getCrossTrainingReport(options: { horizonDays?: number } = {}): Promise<CrossTrainingReport> {
+  const planningDays = options.horizonDays ?? DEFAULT_CAPACITY_DAYS;
+  const { autoAssignWorkOrders } = await import("../ai-auto-assign.js");
+  const result = await autoAssignWorkOrders({ dryRun: true, horizonDays: planningDays });
+  if (!result.success && !result.unassignedDetails) {
+    throw new Error(result.summary || "Failed to plan the current backlog");
+  }
+
+  const activeOperators = await db.select().from(operators).where(eq(operators.isActive, true));
+  const uphRows = await db.select().from(uphData);
+  const activeAssignments = await db
+    .select({ operatorId: workOrderAssignments.operatorId, estimatedHours: workOrderAssignments.estimatedHours })
+    .from(workOrderAssignments)
+    .where(eq(workOrderAssignments.isActive, true));
+  const availableHours = await getAvailableHours(activeOperators.map(op => op.id), planningDays);
+  const families = await getProductFamilies();
+
+  const assignedHours = new Map<number, number>();
+  for (const assignment of activeAssignments) {
+    assignedHours.set(assignment.operatorId, (assignedHours.get(assignment.operatorId) || 0) + (assignment.estimatedHours || 0));
+  }
+
+  // Planned (dry-run) work counts against spare hours too
+  for (const planned of result.assignments) {
+    assignedHours.set(planned.operatorId, (assignedHours.get(planned.operatorId) || 0) + (planned.expectedHours || 0));
+  }
+
+  return buildCrossTrainingReport({
+    operators: activeOperators.map(op => ({
+      id: op.id,
+      name: op.name,
+      workCenters: op.workCenters || [],
+      routings: op.routings || [],
+      spareHours: (availableHours.get(op.id) || 0) - (assignedHours.get(op.id) || 0)
+    })),
+    uph: uphRows.map(row => ({
+      operatorId: row.operatorId,
+      operatorName: row.operatorName,
+      workCenter: row.workCenter,
+      routing: row.productRouting,
+      uph: row.uph,
+      observations: row.observationCount || 0
+    })),
+    unassigned: (result.unassignedDetails || []).map(detail => ({
+      workOrderId: detail.workOrderId,
+      routing: detail.routing,
+      workCenter: detail.workCenter,
+      quantity: detail.quantity,
+      reason: detail.reason
+    })),
+    planningDays,
+    families
+  });
+}
+
+function workCentersFor(workCenter: string): string[] {
+  return WORK_CENTER_ALIASES[workCenter] ?? [workCenter];
+}
+
+// UPH rows are matched by name as well, like auto-assign does
+function belongsTo(row: CrossTrainingUph, operator: CrossTrainingOperator): boolean {
+  return row.operatorId === operator.id || row.operatorName === operator.name;
+}
+
+function hasWorkCenter(operator: CrossTrainingOperator, workCenter: string): boolean {
+  return workCentersFor(workCenter).some(wc => operator.workCenters.includes(wc));
+}
+
+// Observation-weighted UPH across an operator's rows
+function weightedUph(rows: CrossTrainingUph[]): number {
+  const weight = rows.reduce((sum, row) => sum + Math.max(1, row.observations), 0);
+  return rows.reduce((sum, row) => sum + row.uph * Math.max(1, row.observations), 0) / weight;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
@@ -0,0 +1,406 @@
+/**
+ * Finite-Capacity Scheduler
+ * Sequences assigned work orders onto each operator's working days so every
+ * assignment gets a dated start/end slot and every MO gets a projected finish
+ * that can be compared against its due date.
+ */
+
+import { db } from "../db.js";
+import { workOrderAssignments, activeWorkOrders, productionOrders, operators } from "../../shared/schema.js";
+import { and, eq } from "drizzle-orm";
+import { loadRoutingSteps, resolveStepSequence } from "./routingPrecedence.js";
+import { loadOperatorCalendar } from "./operatorCalendar.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface ScheduleTask {
+  workOrderId: number;
+  operatorId: number;
+  moNumber: string;
+  workCenter: string;
+  routing: string;
+  expectedHours: number;
+  dueDate: Date | null;
+  sequence?: number; // Routing step position; lower steps of the same MO must finish first
+}
+
+export interface ScheduledSlot {
+  workOrderId: number;
+  operatorId: number;
+  moNumber: string;
+  workCenter: string;
+  routing: string;
+  sequence: number;
+  hours: number;
+  start: Date;
+  end: Date;
+  predecessorWorkOrderId: number | null; // Earlier routing step that gated this start
+}
+
+export interface MoCompletion {
+  moNumber: string;
+  dueDate: Date | null;
+  projectedFinish: Date | null;
+  status: 'on_time' | 'late' | 'no_due_date' | 'unscheduled';
+  daysLate: number;
+  criticalPath: Array<{ workOrderId: number; workCenter: string; operatorId: number; start: Date; end: Date }>;
+}
+
+export interface ScheduleResult {
+  horizonStart: Date;
+  horizonEnd: Date;
+  slots: ScheduledSlot[];
+  unscheduled: Array<{ workOrderId: number; operatorId: number; moNumber: string; reason: string }>;
+  moCompletions: MoCompletion[];
+  lateMos: string[];
+}
+
+/**
+ * Returns the number of working hours an operator has on a given calendar day
+ */
+export type DailyCapacityFn = (operatorId: number, day: Date) => number;
+
+export interface ScheduleOptions {
+  startDate?: Date;
+  horizonDays?: number;
+  shiftStartHour?: number;
+  // Per-operator shift start (e.g. from shift calendars); falls back to shiftStartHour
+  shiftStartHourFor?: (operatorId: number, day: Date) => number | null;
+  dailyCapacity: DailyCapacityFn;
+  // Already-communicated slots that keep their times; new tasks queue after them
+  fixedSlots?: ScheduledSlot[];
+}
+
+/**
+ * Spread each operator's weekly available hours evenly over Monday–Friday
+ */
+export function weekdayCapacity(weeklyHoursByOperator: Map<number, number>): DailyCapacityFn {
+  return (operatorId, day) => {
+    const weekday = day.getDay();
+    if (weekday === 0 || weekday === 6) return 0;
+    return (weeklyHoursByOperator.get(operatorId) ?? 40) / 5;
+  };
+}
+
+/**
+ * Parse a due date from Fulfil (YYYY-MM-DD, or a serialized date object) or a
+ * timestamp column. A date-only value is treated as due at the end of that day.
+ */
+export function parseDueDate(value: string | Date | { iso_string: string } | null | undefined): Date | null {
+  if (!value) return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value !== 'string') return parseDueDate(value.iso_string);
+
+  const dateOnly = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (dateOnly) {
+    return new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]), 23, 59, 59);
+  }
+
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+/**
+ * Due date of a work order: its planned date, or the stored MO due date when
+ * it has none. Null when neither is known - an undated MO is never late.
+ * Shared by auto-assign and the schedule so both rank lateness alike.
+ */
+export function resolveDueDate(
+  plannedDate: string | Date | { iso_string: string } | null | undefined,
+  dueDate: string | Date | null | undefined
+): Date | null {
+  return parseDueDate(plannedDate) ?? parseDueDate(dueDate);
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Sequence tasks onto operator calendars.
+ * Tasks are placed in earliest-due-date order, MO by MO and routing step by
+ * routing step, so a work order never starts before the earlier steps of its
+ * MO have finished (e.g. Packaging waits for Cutting and Assembly). A task
+ * that does not fit in the remaining hours of a day carries over to the next
+ * working day. Tasks that would finish beyond the horizon are reported as
+ * unscheduled rather than silently truncated. Fixed slots are kept as they
+ * are: each operator's new work starts after their last fixed slot.
+ */
+export function scheduleTasks(tasks: ScheduleTask[], options: ScheduleOptions): ScheduleResult {
+  const horizonDays = options.horizonDays ?? 14;
+  const shiftStartHour = options.shiftStartHour ?? 8;
+  const horizonStart = startOfDay(options.startDate ?? new Date());
+  const horizonEnd = new Date(horizonStart.getTime() + horizonDays * DAY_MS);
+
+  const dayAt = (index: number) =>
+    new Date(horizonStart.getFullYear(), horizonStart.getMonth(), horizonStart.getDate() + index);
+  const shiftStart = (operatorId: number, index: number) => {
+    const hour = options.shiftStartHourFor?.(operatorId, dayAt(index)) ?? shiftStartHour;
+    return new Date(dayAt(index).getTime() + hour * HOUR_MS);
+  };
+
+  // Global placement order: due date, then MO number, then routing step
+  const ordered = [...tasks].sort((a, b) => {
+    const aDue = a.dueDate?.getTime() ?? Number.MAX_SAFE_INTEGER;
+    const bDue = b.dueDate?.getTime() ?? Number.MAX_SAFE_INTEGER;
+    if (aDue !== bDue) return aDue - bDue;
+    if (a.moNumber !== b.moNumber) return a.moNumber.localeCompare(b.moNumber);
+    return (a.sequence ?? 0) - (b.sequence ?? 0);
+  });
+
+  // Each operator's calendar cursor: day index plus hours already used that day
+  const cursors = new Map<number, { day: number; used: number }>();
+  const placedByMo = new Map<string, ScheduledSlot[]>();
+  const blockedMos = new Map<string, number>(); // MO → lowest sequence that could not be scheduled
+
+  const slots: ScheduledSlot[] = [];
+  const unscheduled: ScheduleResult['unscheduled'] = [];
+
+  for (const fixed of options.fixedSlots || []) {
+    slots.push(fixed);
+    if (!placedByMo.has(fixed.moNumber)) {
+      placedByMo.set(fixed.moNumber, []);
+    }
+    placedByMo.get(fixed.moNumber)!.push(fixed);
+
+    const day = Math.round((startOfDay(fixed.end).getTime() - horizonStart.getTime()) / DAY_MS);
+    if (day < 0) continue; // Finished before the horizon
+    const used = Math.max(0, (fixed.end.getTime() - shiftStart(fixed.operatorId, day).getTime()) / HOUR_MS);
+    const cursor = cursors.get(fixed.operatorId);
+    if (!cursor || day > cursor.day || (day === cursor.day && used > cursor.used)) {
+      cursors.set(fixed.operatorId, { day, used });
+    }
+  }
+
+  for (const task of ordered) {
+    const operatorId = task.operatorId;
+    const sequence = task.sequence ?? 0;
+
+    if (!(task.expectedHours > 0)) {
+      unscheduled.push({ workOrderId: task.workOrderId, operatorId, moNumber: task.moNumber, reason: "No expected hours" });
+      continue;
+    }
+
+    const blockedAt = blockedMos.get(task.moNumber);
+    if (blockedAt !== undefined && blockedAt < sequence) {
+      unscheduled.push({ workOrderId: task.workOrderId, operatorId, moNumber: task.moNumber, reason: "Waiting on an unscheduled earlier routing step" });
+      continue;
+    }
+
+    // Earliest start is when every earlier routing step of this MO has finished
+    let predecessor: ScheduledSlot | null = null;
+    for (const placed of placedByMo.get(task.moNumber) || []) {
+      if (placed.sequence < sequence && (!predecessor || placed.end > predecessor.end)) {
+        predecessor = placed;
+      }
+    }
+
+    // Walk forward on a copy of the cursor so a task that overruns the horizon leaves it untouched
+    const cursor = cursors.get(operatorId) || { day: 0, used: 0 };
+    let day = cursor.day;
+    let used = cursor.used;
+
+    if (predecessor && predecessor.end > new Date(shiftStart(operatorId, day).getTime() + used * HOUR_MS)) {
+      day = Math.round((startOfDay(predecessor.end).getTime() - horizonStart.getTime()) / DAY_MS);
+      used = Math.max(0, (predecessor.end.getTime() - shiftStart(operatorId, day).getTime()) / HOUR_MS);
+    }
+
+    let remaining = task.expectedHours;
+    let start: Date | null = null;
+
+    while (remaining > 1e-9 && day < horizonDays) {
+      const capacity = options.dailyCapacity(operatorId, dayAt(day));
+      const available = capacity - used;
+      if (available <= 1e-9) {
+        day++;
+        used = 0;
+        continue;
+      }
+
+      if (!start) {
+        start = new Date(shiftStart(operatorId, day).getTime() + used * HOUR_MS);
+      }
+
+      const take = Math.min(remaining, available);
+      used += take;
+      remaining -= take;
+    }
+
+    if (remaining > 1e-9 || !start) {
+      unscheduled.push({ workOrderId: task.workOrderId, operatorId, moNumber: task.moNumber, reason: "Exceeds planning horizon" });
+      if (blockedAt === undefined || sequence < blockedAt) {
+        blockedMos.set(task.moNumber, sequence);
+      }
+      continue;
+    }
+
+    cursors.set(operatorId, { day, used });
+
+    const slot: ScheduledSlot = {
+      workOrderId: task.workOrderId,
+      operatorId,
+      moNumber: task.moNumber,
+      workCenter: task.workCenter,
+      routing: task.routing,
+      sequence,
+      hours: task.expectedHours,
+      start,
+      end: new Date(shiftStart(operatorId, day).getTime() + used * HOUR_MS),
+      predecessorWorkOrderId: predecessor?.workOrderId ?? null
+    };
+
+    slots.push(slot);
+    if (!placedByMo.has(task.moNumber)) {
+      placedByMo.set(task.moNumber, []);
+    }
+    placedByMo.get(task.moNumber)!.push(slot);
+  }
+
+  const moCompletions = summarizeMoCompletions(tasks, slots, unscheduled);
+
+  return {
+    horizonStart,
+    horizonEnd,
+    slots: slots.sort((a, b) => a.start.getTime() - b.start.getTime()),
+    unscheduled,
+    moCompletions,
+    lateMos: moCompletions.filter(mo => mo.status === 'late').map(mo => mo.moNumber)
+  };
+}
+
+function summarizeMoCompletions(
+  tasks: ScheduleTask[],
+  slots: ScheduledSlot[],
+  unscheduled: ScheduleResult['unscheduled']
+): MoCompletion[] {
+  const dueDates = new Map<string, Date | null>();
+  for (const task of tasks) {
+    if (!dueDates.has(task.moNumber) || (!dueDates.get(task.moNumber) && task.dueDate)) {
+      dueDates.set(task.moNumber, task.dueDate);
+    }
+  }
+
+  const finalSlots = new Map<string, ScheduledSlot>();
+  const slotsById = new Map<number, ScheduledSlot>();
+  for (const slot of slots) {
+    slotsById.set(slot.workOrderId, slot);
+    const current = finalSlots.get(slot.moNumber);
+    if (!current || slot.end > current.end) {
+      finalSlots.set(slot.moNumber, slot);
+    }
+  }
+
+  const unscheduledMos = new Set(unscheduled.map(u => u.moNumber));
+  const completions: MoCompletion[] = [];
+
+  for (const [moNumber, dueDate] of dueDates) {
+    const finalSlot = unscheduledMos.has(moNumber) ? undefined : finalSlots.get(moNumber);
+    const projectedFinish = finalSlot?.end ?? null;
+
+    // Walk back from the last step through the predecessors that gated each start
+    const criticalPath: MoCompletion['criticalPath'] = [];
+    for (let slot = finalSlot; slot; slot = slot.predecessorWorkOrderId ? slotsById.get(slot.predecessorWorkOrderId) : undefined) {
+      criticalPath.unshift({
+        workOrderId: slot.workOrderId,
+        workCenter: slot.workCenter,
+        operatorId: slot.operatorId,
+        start: slot.start,
+        end: slot.end
+      });
+    }
+
+    let status: MoCompletion['status'];
+    let daysLate = 0;
+    if (!projectedFinish) {
+      status = 'unscheduled';
+    } else if (!dueDate) {
+      status = 'no_due_date';
+    } else if (projectedFinish > dueDate) {
+      status = 'late';
+      daysLate = Math.ceil((projectedFinish.getTime() - dueDate.getTime()) / DAY_MS);
+    } else {
+      status = 'on_time';
+    }
+
+    completions.push({ moNumber, dueDate, projectedFinish, status, daysLate, criticalPath });
+  }
+
+  return completions.sort((a, b) => b.daysLate - a.daysLate || a.moNumber.localeCompare(b.moNumber));
+}
+
+/**
+ * Build a schedule for all active assignments stored in the database
+ */
+export async function buildScheduleFromAssignments(
+  options: { startDate?: Date; horizonDays?: number } = {}
+): Promise<ScheduleResult> {
+  const rows = await db
+    .select({
+      workOrderId: workOrderAssignments.workOrderId,
+      operatorId: workOrderAssignments.operatorId,
+      estimatedHours: workOrderAssignments.estimatedHours,
+      moNumber: activeWorkOrders.moNumber,
+      workCenter: activeWorkOrders.workCenter,
+      operation: activeWorkOrders.operation,
+      routing: activeWorkOrders.routing,
+      plannedDate: activeWorkOrders.plannedDate,
+      dueDate: productionOrders.dueDate
+    })
+    .from(workOrderAssignments)
+    .innerJoin(activeWorkOrders, eq(workOrderAssignments.workOrderId, activeWorkOrders.id))
+    .leftJoin(productionOrders, eq(activeWorkOrders.productionOrderId, productionOrders.id))
+    .where(eq(workOrderAssignments.isActive, true));
+
+  const activeOperators = await db
+    .select({ id: operators.id })
+    .from(operators)
+    .where(eq(operators.isActive, true));
+
+  const calendar = await loadOperatorCalendar(activeOperators.map(op => op.id), {
+    start: options.startDate,
+    days: options.horizonDays ?? 14
+  });
+  const routingSteps = await loadRoutingSteps();
+
+  const tasks: ScheduleTask[] = rows.map(row => ({
+    workOrderId: row.workOrderId,
+    operatorId: row.operatorId,
+    moNumber: row.moNumber,
+    workCenter: row.workCenter,
+    routing: row.routing,
+    expectedHours: row.estimatedHours || 0,
+    dueDate: resolveDueDate(row.plannedDate, row.dueDate),
+    sequence: resolveStepSequence(routingSteps.get(row.routing), row.workCenter, row.operation)
+  }));
+
+  return scheduleTasks(tasks, {
+    ...options,
+    dailyCapacity: calendar.hoursOn,
+    shiftStartHourFor: calendar.shiftStartHourOn
+  });
+}
+
+/**
+ * Persist scheduled start/end slots onto the active assignment rows
+ */
+export async function persistSchedule(schedule: ScheduleResult): Promise<number> {
+  let updated = 0;
+
+  for (const slot of schedule.slots) {
+    await db
+      .update(workOrderAssignments)
+      .set({ scheduledStart: slot.start, scheduledEnd: slot.end })
+      .where(and(eq(workOrderAssignments.workOrderId, slot.workOrderId), eq(workOrderAssignments.isActive, true)));
+    updated++;
+  }
+
+  for (const item of schedule.unscheduled) {
+    await db
+      .update(workOrderAssignments)
+      .set({ scheduledStart: null, scheduledEnd: null })
+      .where(and(eq(workOrderAssignments.workOrderId, item.workOrderId), eq(workOrderAssignments.isActive, true)));
+  }
+
+  return updated;
+}
@@ -0,0 +1,318 @@
+/**
+ * Fulfil Operator Write-back
+ * Pushes the planner's active assignments to Fulfil as production.work.operator,
+ * so operators see their work orders there too. Opt-in: pushes are refused
+ * until enabled in planner settings, while previews (dry runs) always work.
+ * A work order Fulfil already gives to someone else is a conflict and is left
+ * alone unless the push asks to overwrite; an operator this write-back set
+ * itself is not a conflict. Every write, failure and held conflict is logged
+ * in fulfil_operator_writes.
+ */
+
+import { db } from "../db.js";
+import { fulfilOperatorWrites, operators, plannerSettings, workOrderAssignments, type FulfilOperatorWrite } from "../../shared/schema.js";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { FulfilTransport } from "../fulfil-transport.js";
+
+const CONFIG_SETTING_KEY = "fulfil_operator_writeback";
+const READ_CHUNK_SIZE = 200;
+const CLOSED_STATES = ['done', 'finished', 'cancelled'];
+
+export interface WritebackConfig {
+  enabled: boolean;
+}
+
+export const DEFAULT_WRITEBACK_CONFIG: WritebackConfig = {
+  enabled: false
+};
+
+export type WritebackAction = 'write' | 'unchanged' | 'conflict' | 'skip';
+
+export interface WritebackAssignment {
+  assignmentId: number;
+  workOrderId: number; // Fulfil work order ID
+  operatorId: number;
+  operatorName: string | null;
+  employeeId: number | null; // The operator's Fulfil employee ID
+}
+
+export interface FulfilWorkOrderOperator {
+  id: number;
+  rec_name: string | null;
+  state: string | null;
+  operator: number | null;
+  operatorName: string | null;
+}
+
+export interface WritebackItem extends WritebackAssignment {
+  workOrderName: string | null;
+  currentEmployeeId: number | null;
+  currentEmployeeName: string | null;
+  action: WritebackAction;
+  reason: string;
+}
+
+export interface WritebackResult {
+  dryRun: boolean;
+  items: WritebackItem[];
+  written: number;
+  overwritten: number;
+  conflicts: number; // Left alone because Fulfil has a different operator
+  failed: number;
+  errors: string[];
+}
+
+/**
+ * Decide what to do with each assignment given the work order as Fulfil has
+ * it now and the employee this write-back last set on it (if any)
+ */
+export function planWriteback(
+  assignments: WritebackAssignment[],
+  fulfilWorkOrders: Map<number, FulfilWorkOrderOperator>,
+  lastWritten: Map<number, number>
+): WritebackItem[] {
+  return assignments.map(assignment => {
+    const workOrder = fulfilWorkOrders.get(assignment.workOrderId);
+    const item = (action: WritebackAction, reason: string): WritebackItem => ({
+      ...assignment,
+      workOrderName: workOrder?.rec_name ?? null,
+      currentEmployeeId: workOrder?.operator ?? null,
+      currentEmployeeName: workOrder?.operatorName ?? null,
+      action,
+      reason
+    });
+
+    if (assignment.employeeId === null) {
+      return item('skip', `${assignment.operatorName ?? 'Operator'} has no Fulfil employee ID`);
+    }
+    if (!workOrder) {
+      return item('skip', "Work order not found in Fulfil");
+    }
+    if (workOrder.state && CLOSED_STATES.includes(workOrder.state)) {
+      return item('skip', `Work order is ${workOrder.state} in Fulfil`);
+    }
+    if (workOrder.operator === assignment.employeeId) {
+      return item('unchanged', "Fulfil already has this operator");
+    }
+    if (workOrder.operator === null) {
+      return item('write', "No operator in Fulfil");
+    }
+    if (lastWritten.get(assignment.workOrderId) === workOrder.operator) {
+      return item('write', "Replaces the operator set by an earlier write-back");
+    }
+    return item('conflict', `Fulfil has ${workOrder.operatorName ?? `employee ${workOrder.operator}`}`);
+  });
+}
+
+/**
+ * What a push would do, without writing anything
+ */
+export async function previewOperatorWriteback(options: { workOrderIds?: number[] } = {}): Promise<WritebackResult> {
+  const items = await buildPlan(newTransport(), options.workOrderIds);
+  const conflicts = items.filter(item => item.action === 'conflict').length;
+  return { dryRun: true, items, written: 0, overwritten: 0, conflicts, failed: 0, errors: [] };
+}
+
+let activePush = false;
+
+export function isWritebackRunning(): boolean {
+  return activePush;
+}
+
+/**
+ * Set production.work.operator in Fulfil for each assignment that needs it.
+ * With overwriteConflicts, work orders Fulfil gives to someone else are
+ * reassigned too; otherwise they are logged as conflicts and left alone.
+ */
+export async function pushOperatorWriteback(options: {
+  workOrderIds?: number[];
+  overwriteConflicts?: boolean;
+  pushedBy?: string;
+} = {}): Promise<WritebackResult> {
+  const config = await getWritebackConfig();
+  if (!config.enabled) {
+    throw new Error("Operator write-back is disabled; enable it in the Fulfil settings first");
+  }
+  if (activePush) {
+    throw new Error("An operator write-back is already running");
+  }
+
+  activePush = true;
+  try {
+    const transport = newTransport();
+    const items = await buildPlan(transport, options.workOrderIds);
+    const result: WritebackResult = { dryRun: false, items, written: 0, overwritten: 0, conflicts: 0, failed: 0, errors: [] };
+
+    for (const item of items) {
+      const overwrite = item.action === 'conflict' && options.overwriteConflicts === true;
+      if (item.action !== 'write' && !overwrite) {
+        if (item.action === 'conflict') {
+          await logWrite(item, 'conflict', options.pushedBy);
+          result.conflicts++;
+        }
+        continue;
+      }
+
+      try {
+        await transport.put(`/api/v2/model/production.work/${item.workOrderId}`, { operator: item.employeeId });
+        await logWrite(item, 'written', options.pushedBy, { overwrote: overwrite });
+        result.written++;
+        if (overwrite) result.overwritten++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await logWrite(item, 'failed', options.pushedBy, { error: message });
+        result.failed++;
+        result.errors.push(`${item.workOrderName ?? item.workOrderId}: ${message}`);
+      }
+    }
+
+    console.log(`👷 Operator write-back: ${result.written} written (${result.overwritten} overwritten), ${result.conflicts} conflicts, ${result.failed} failed`);
+    return result;
+  } finally {
+    activePush = false;
+  }
+}
+
+/**
+ * Most recent write-back log entries, newest first
+ */
+export async function getWritebackLog(options: { limit?: number; workOrderId?: number } = {}): Promise<FulfilOperatorWrite[]> {
+  return db
+    .select()
+    .from(fulfilOperatorWrites)
+    .where(options.workOrderId !== undefined ? eq(fulfilOperatorWrites.workOrderId, options.workOrderId) : undefined)
+    .orderBy(desc(fulfilOperatorWrites.createdAt), desc(fulfilOperatorWrites.id))
+    .limit(Math.min(Math.max(options.limit ?? 100, 1), 1000));
+}
+
+export async function getWritebackConfig(): Promise<WritebackConfig> {
+  try {
+    const [row] = await db
+      .select()
+      .from(plannerSettings)
+      .where(eq(plannerSettings.key, CONFIG_SETTING_KEY));
+    return row ? normalizeWritebackConfig(row.value) : DEFAULT_WRITEBACK_CONFIG;
+  } catch (error) {
+    console.error("Error loading operator write-back config, using defaults:", error);
+    return DEFAULT_WRITEBACK_CONFIG;
+  }
+}
+
+export async function saveWritebackConfig(input: unknown): Promise<WritebackConfig> {
+  const config = normalizeWritebackConfig(input);
+
+  await db
+    .insert(plannerSettings)
+    .values({ key: CONFIG_SETTING_KEY, value: config, updatedAt: new Date() })
+    .onConflictDoUpdate({
+      target: plannerSettings.key,
+      set: { value: config, updatedAt: new Date() }
+    });
+
+  return config;
+}
+
+function normalizeWritebackConfig(input: unknown): WritebackConfig {
+  const value = (input && typeof input === 'object' ? input : {}) as Partial<WritebackConfig>;
+  return {
+    enabled: typeof value.enabled === 'boolean' ? value.enabled : DEFAULT_WRITEBACK_CONFIG.enabled
+  };
+}
+
+function newTransport(): FulfilTransport {
+  return new FulfilTransport({ apiKey: process.env.FULFIL_ACCESS_TOKEN });
+}
+
+async function buildPlan(transport: FulfilTransport, workOrderIds?: number[]): Promise<WritebackItem[]> {
+  const assignments = await loadActiveAssignments(workOrderIds);
+  const ids = assignments.map(assignment => assignment.workOrderId);
+  const [fulfilWorkOrders, lastWritten] = await Promise.all([
+    fetchFulfilOperators(transport, ids),
+    loadLastWrittenEmployees(ids)
+  ]);
+  return planWriteback(assignments, fulfilWorkOrders, lastWritten);
+}
+
+async function loadActiveAssignments(workOrderIds?: number[]): Promise<WritebackAssignment[]> {
+  if (workOrderIds && workOrderIds.length === 0) return [];
+
+  const conditions = [eq(workOrderAssignments.isActive, true)];
+  if (workOrderIds) conditions.push(inArray(workOrderAssignments.workOrderId, workOrderIds));
+
+  const rows = await db
+    .select({
+      assignmentId: workOrderAssignments.id,
+      workOrderId: workOrderAssignments.workOrderId,
+      operatorId: workOrderAssignments.operatorId,
+      operatorName: operators.name,
+      employeeId: operators.fulfilId
+    })
+    .from(workOrderAssignments)
+    .leftJoin(operators, eq(workOrderAssignments.operatorId, operators.id))
+    .where(and(...conditions))
+    .orderBy(workOrderAssignments.workOrderId);
+
+  return rows.map(row => ({ ...row, operatorName: row.operatorName ?? null, employeeId: row.employeeId ?? null }));
+}
+
+async function fetchFulfilOperators(transport: FulfilTransport, ids: number[]): Promise<Map<number, FulfilWorkOrderOperator>> {
+  const workOrders = new Map<number, FulfilWorkOrderOperator>();
+  for (let i = 0; i < ids.length; i += READ_CHUNK_SIZE) {
+    const chunk = ids.slice(i, i + READ_CHUNK_SIZE);
+    const records = await transport.put('/api/v2/model/production.work/search_read', {
+      filters: [['id', 'in', chunk]],
+      fields: ['id', 'rec_name', 'state', 'operator', 'operator.rec_name']
+    });
+    for (const record of Array.isArray(records) ? records : []) {
+      workOrders.set(record.id, {
+        id: record.id,
+        rec_name: record.rec_name ?? null,
+        state: record.state ?? null,
+        operator: record.operator ?? null,
+        operatorName: record['operator.rec_name'] ?? null
+      });
+    }
+  }
+  return workOrders;
+}
+
+// The employee each work order was last given by a successful write-back
+async function loadLastWrittenEmployees(ids: number[]): Promise<Map<number, number>> {
+  if (ids.length === 0) return new Map();
+
+  const rows = await db
+    .select({ workOrderId: fulfilOperatorWrites.workOrderId, employeeId: fulfilOperatorWrites.employeeId })
+    .from(fulfilOperatorWrites)
+    .where(and(inArray(fulfilOperatorWrites.workOrderId, ids), eq(fulfilOperatorWrites.status, 'written')))
+    .orderBy(desc(fulfilOperatorWrites.createdAt), desc(fulfilOperatorWrites.id));
+
+  const lastWritten = new Map<number, number>();
+  for (const row of rows) {
+    if (!lastWritten.has(row.workOrderId) && row.employeeId !== null) {
+      lastWritten.set(row.workOrderId, row.employeeId);
+    }
+  }
+  return lastWritten;
+}
+
+async function logWrite(
+  item: WritebackItem,
+  status: 'written' | 'conflict' | 'failed',
+  pushedBy: string | undefined,
+  details: { overwrote?: boolean; error?: string } = {}
+): Promise<void> {
+  await db.insert(fulfilOperatorWrites).values({
+    workOrderId: item.workOrderId,
+    workOrderName: item.workOrderName,
+    assignmentId: item.assignmentId,
+    operatorId: item.operatorId,
+    operatorName: item.operatorName,
+    employeeId: item.employeeId,
+    previousEmployeeId: item.currentEmployeeId,
+    previousEmployeeName: item.currentEmployeeName,
+    status,
+    overwrote: details.overwrote ?? false,
+    error: details.error ?? null,
+    pushedBy: pushedBy ?? null
+  });
+}
@@ -0,0 +1,506 @@
+/**
+ * Fulfil Incremental Sync
+ * Pulls only the records Fulfil changed since the last run, per model, using
+ * write_date as a high-water mark kept in fulfil_sync_state. Records are
+ * upserted by their Fulfil id, so re-reading the boundary second (or a whole
+ * window after a reset) is harmless, and edits to cycles that were already
+ * imported are picked up like new ones. Pages follow a (write_date, id)
+ * cursor rather than an offset, so records edited mid-run are not skipped. Work orders also refresh the planner's
+ * active_work_orders, so polling and webhooks keep it current the same way.
+ */
+
+import { db } from "../db.js";
+import { activeWorkOrders, fulfilSyncState, productionOrders, workCycles, workOrders, type FulfilSyncState } from "../../shared/schema.js";
+import { eq, inArray, sql } from "drizzle-orm";
+import { FulfilTransport } from "../fulfil-transport.js";
+import { consolidateWorkCenter } from "./uphEngine.js";
+
+// Synced in this order: work orders link to production orders synced before them
+export const SYNC_MODELS = ['production', 'production.work', 'production.work.cycle'] as const;
+export type SyncModel = typeof SYNC_MODELS[number];
+
+const PAGE_SIZE = 500;
+// In an upsert's RETURNING, true for a row inserted rather than updated
+const WAS_INSERTED = sql<boolean>`(xmax = 0)`;
+const ACTIVE_WORK_ORDER_STATES = ['request', 'draft', 'waiting', 'assigned', 'running'];
+
+export interface ModelSyncResult {
+  model: SyncModel;
+  fetched: number;
+  inserted: number;
+  updated: number;
+  skipped: number; // New records missing what the app needs (e.g. a cycle without an operator)
+  highWaterMark: Date | null;
+  error?: string;
+}
+
+export interface IncrementalSyncResult {
+  startedAt: Date;
+  finishedAt: Date;
+  models: ModelSyncResult[];
+}
+
+interface UpsertCounts {
+  inserted: number;
+  updated: number;
+  skipped: number;
+}
+
+interface ModelSpec {
+  fields: string[];
+  upsert(records: any[]): Promise<UpsertCounts>;
+}
+
+const MODEL_SPECS: Record<SyncModel, ModelSpec> = {
+  'production': {
+    fields: [
+      'id', 'rec_name', 'number', 'state', 'quantity', 'planned_date', 'create_date', 'write_date',
+      'product.code', 'product.rec_name', 'routing.rec_name'
+    ],
+    upsert: upsertProductionOrders
+  },
+  'production.work': {
+    fields: [
+      'id', 'rec_name', 'state', 'production', 'production.routing.rec_name', 'operation.rec_name',
+      'work_center.rec_name', 'operator', 'operator.rec_name', 'quantity_done', 'planned_date',
+      'priority', 'type', 'create_date', 'write_date',
+      'production.number', 'production.quantity', 'production.product.code', 'production.product.rec_name'
+    ],
+    upsert: upsertWorkOrders
+  },
+  'production.work.cycle': {
+    fields: [
+      'id', 'rec_name', 'state', 'duration', 'quantity_done', 'write_date',
+      'operator', 'operator.rec_name', 'work_center', 'work_center.rec_name',
+      'work', 'work.rec_name', 'work.operation', 'work.operation.rec_name',
+      'work.production', 'work.production.number', 'work.production.quantity',
+      'work.production.priority', 'work.production.create_date',
+      'work.production.product.code', 'work.production.routing.rec_name'
+    ],
+    upsert: upsertWorkCycles
+  }
+};
+
+let activeSync: Promise<IncrementalSyncResult> | null = null;
+
+export function isIncrementalSyncRunning(): boolean {
+  return activeSync !== null;
+}
+
+export interface RecordSyncResult {
+  records: any[];
+  inserted: number;
+  updated: number;
+  skipped: number;
+}
+
+/**
+ * Fetch and upsert the records matching a domain, outside the high-water
+ * mark run (e.g. for a webhook). The mark is left alone; the next run reads
+ * these again, harmlessly.
+ */
+export async function syncRecords(model: SyncModel, filters: any[]): Promise<RecordSyncResult> {
+  const spec = MODEL_SPECS[model];
+  const transport = new FulfilTransport({ apiKey: process.env.FULFIL_ACCESS_TOKEN });
+  const result: RecordSyncResult = { records: [], inserted: 0, updated: 0, skipped: 0 };
+
+  for (let lastId = 0; ; ) {
+    const records = await transport.put(`/api/v2/model/${model}/search_read`, {
+      filters: [...filters, ['id', '>', lastId]],
+      fields: spec.fields,
+      order: [['id', 'ASC']],
+      limit: PAGE_SIZE
+    }, { timeoutMs: 60000 });
+    if (!Array.isArray(records) || records.length === 0) break;
+    lastId = records[records.length - 1].id;
+
+    const counts = await spec.upsert(records);
+    result.records.push(...records);
+    result.inserted += counts.inserted;
+    result.updated += counts.updated;
+    result.skipped += counts.skipped;
+
+    if (records.length < PAGE_SIZE) break;
+  }
+  return result;
+}
+
+/**
+ * Sync each model from its high-water mark. A model that fails keeps its
+ * mark at the last page that landed and the error is recorded; the others
+ * still run.
+ */
+export async function runIncrementalSync(options: { models?: SyncModel[] } = {}): Promise<IncrementalSyncResult> {
+  if (activeSync) {
+    throw new Error("An incremental sync is already running");
+  }
+
+  activeSync = (async () => {
+    const startedAt = new Date();
+    const transport = new FulfilTransport({ apiKey: process.env.FULFIL_ACCESS_TOKEN });
+    const models: ModelSyncResult[] = [];
+
+    for (const model of SYNC_MODELS.filter(m => !options.models || options.models.includes(m))) {
+      models.push(await syncModel(transport, model));
+    }
+
+    const changed = models.reduce((sum, m) => sum + m.inserted + m.updated, 0);
+    console.log(`🔄 Incremental Fulfil sync: ${changed} records upserted across ${models.length} models`);
+    return { startedAt, finishedAt: new Date(), models };
+  })();
+
+  try {
+    return await activeSync;
+  } finally {
+    activeSync = null;
+  }
+}
+
+async function syncModel(transport: FulfilTransport, model: SyncModel): Promise<ModelSyncResult> {
+  const spec = MODEL_SPECS[model];
+  const state = await getSyncState(model);
+  const runAt = new Date();
+  const result: ModelSyncResult = {
+    model,
+    fetched: 0,
+    inserted: 0,
+    updated: 0,
+    skipped: 0,
+    highWaterMark: state?.highWaterMark ?? null
+  };
+
+  // The mark is kept to the second, so the boundary second is read again and upserted over itself
+  const filters = result.highWaterMark ? [['write_date', '>=', formatFulfilDateTime(result.highWaterMark)]] : [];
+
+  try {
+    for (let last: any = null; ; ) {
+      const records = await transport.put(`/api/v2/model/${model}/search_read`, {
+        filters: last ? afterRecord(filters, last) : filters,
+        fields: spec.fields,
+        order: [['write_date', 'ASC'], ['id', 'ASC']],
+        limit: PAGE_SIZE
+      }, { timeoutMs: 60000 });
+      if (!Array.isArray(records) || records.length === 0) break;
+      last = records[records.length - 1];
+
+      const counts = await spec.upsert(records);
+      result.fetched += records.length;
+      result.inserted += counts.inserted;
+      result.updated += counts.updated;
+      result.skipped += counts.skipped;
+
+      // Pages come in write_date order, so everything up to this page's latest is in
+      const pageMark = latestWriteDate(records);
+      if (pageMark && (!result.highWaterMark || pageMark > result.highWaterMark)) {
+        result.highWaterMark = pageMark;
+      }
+      await saveSyncState(model, { highWaterMark: result.highWaterMark, lastRunAt: runAt });
+
+      if (records.length < PAGE_SIZE) break;
+    }
+
+    await saveSyncState(model, {
+      highWaterMark: result.highWaterMark,
+      lastRunAt: runAt,
+      lastSuccessAt: new Date(),
+      lastError: null,
+      recordsSynced: result.inserted + result.updated
+    });
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Incremental sync of ${model} failed:`, error);
+    await saveSyncState(model, {
+      highWaterMark: result.highWaterMark,
+      lastRunAt: runAt,
+      lastError: result.error,
+      recordsSynced: result.inserted + result.updated
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Narrow a domain to the records after `last` in (write_date, id) order.
+ * The cursor keeps write_date to the microsecond, as Fulfil stores it;
+ * records never written sort last and are paged by id.
+ */
+export function afterRecord(filters: any[], last: { id: number; write_date?: unknown }): any[] {
+  const writeDate = fulfilText(last.write_date)?.replace('T', ' ') ?? null;
+  const after = writeDate === null
+    ? [['write_date', '=', null], ['id', '>', last.id]]
+    : [['OR', ['write_date', '>', writeDate], [['write_date', '=', writeDate], ['id', '>', last.id]]]];
+  return [...filters, ...after];
+}
+
+async function upsertProductionOrders(records: any[]): Promise<UpsertCounts> {
+  const counts: UpsertCounts = { inserted: 0, updated: 0, skipped: 0 };
+  const rows = records.map(record => ({
+    moNumber: fulfilText(record.number) || fulfilText(record.rec_name) || `MO${record.id}`,
+    productName: fulfilText(field(record, 'product.rec_name')) || fulfilText(field(record, 'product.code')) || 'Unknown Product',
+    quantity: Math.round(Number(record.quantity) || 0),
+    status: record.state || 'unknown',
+    routing: fulfilText(field(record, 'routing.rec_name')),
+    fulfilId: record.id,
+    rec_name: fulfilText(record.rec_name),
+    state: record.state ?? null,
+    planned_date: fulfilText(record.planned_date),
+    create_date: fulfilText(record.create_date),
+    product_code: fulfilText(field(record, 'product.code'))
+  }));
+
+  for (const row of rows) {
+    const { moNumber, ...changes } = row;
+    const [written] = await db
+      .insert(productionOrders)
+      .values(row)
+      .onConflictDoUpdate({ target: productionOrders.moNumber, set: changes })
+      .returning({ inserted: WAS_INSERTED });
+    if (written?.inserted) counts.inserted++;
+    else counts.updated++;
+  }
+  return counts;
+}
+
+async function upsertWorkOrders(records: any[]): Promise<UpsertCounts> {
+  const counts: UpsertCounts = { inserted: 0, updated: 0, skipped: 0 };
+
+  const productionIds = Array.from(new Set(records.map(record => fulfilId(record.production)).filter((id): id is number => id !== null)));
+  const localProductionOrders = productionIds.length > 0
+    ? await db
+        .select({ id: productionOrders.id, fulfilId: productionOrders.fulfilId })
+        .from(productionOrders)
+        .where(inArray(productionOrders.fulfilId, productionIds))
+    : [];
+  const productionOrderIds = new Map(localProductionOrders.map(po => [po.fulfilId, po.id]));
+
+  for (const record of records) {
+    const production = fulfilId(record.production);
+    const workCenterName = fulfilText(field(record, 'work_center.rec_name'));
+    // rec_name is "WO285 | Sewing - LH | MO5428" when the operation is not expanded
+    const operationName = fulfilText(field(record, 'operation.rec_name')) || record.rec_name?.split(' | ')[1] || null;
+    const changes = {
+      productionOrderId: production !== null ? productionOrderIds.get(production) ?? null : null,
+      workCenter: consolidateWorkCenter(workCenterName) || 'Unknown',
+      operation: operationName || 'Unknown',
+      routing: fulfilText(field(record, 'production.routing.rec_name')) || 'Standard',
+      quantityDone: Number(record.quantity_done) || 0,
+      production,
+      operator: fulfilId(record.operator),
+      quantity_done: Number(record.quantity_done) || 0,
+      state: record.state ?? null,
+      rec_name: fulfilText(record.rec_name),
+      planned_date: fulfilText(record.planned_date),
+      create_date: fulfilText(record.create_date),
+      priority: fulfilText(record.priority),
+      type: fulfilText(record.type),
+      workCenterName,
+      operationName,
+      operatorName: fulfilText(field(record, 'operator.rec_name'))
+    };
+
+    const [written] = await db
+      .insert(workOrders)
+      .values({ ...changes, fulfilId: record.id, status: record.state || 'Pending', sequence: 1 })
+      .onConflictDoUpdate({ target: workOrders.fulfilId, set: changes })
+      .returning({ inserted: WAS_INSERTED });
+    if (written?.inserted) counts.inserted++;
+    else counts.updated++;
+  }
+
+  await refreshActiveWorkOrders(records, productionOrderIds);
+  return counts;
+}
+
+/**
+ * Keep active_work_orders in step: open work orders are upserted, closed
+ * ones dropped. Work orders whose production order is not local yet wait
+ * for it to sync.
+ */
+async function refreshActiveWorkOrders(records: any[], productionOrderIds: Map<number | null, number>): Promise<void> {
+  const closed = records.filter(record => !ACTIVE_WORK_ORDER_STATES.includes(record.state)).map(record => record.id);
+  if (closed.length > 0) {
+    await db.delete(activeWorkOrders).where(inArray(activeWorkOrders.id, closed));
+  }
+
+  for (const record of records) {
+    const production = fulfilId(record.production);
+    const productionOrderId = production !== null ? productionOrderIds.get(production) : undefined;
+    if (!ACTIVE_WORK_ORDER_STATES.includes(record.state) || productionOrderId === undefined) continue;
+
+    const workCenterName = fulfilText(field(record, 'work_center.rec_name'));
+    const row = {
+      productionOrderId,
+      moNumber: fulfilText(field(record, 'production.number')) || fulfilText(record.rec_name)?.split(' | ')[2] || `MO${production}`,
+      productName: fulfilText(field(record, 'production.product.rec_name')) || 'Unknown Product',
+      productCode: fulfilText(field(record, 'production.product.code')),
+      workCenter: consolidateWorkCenter(workCenterName) || 'Unknown',
+      originalWorkCenter: workCenterName,
+      operation: fulfilText(field(record, 'operation.rec_name')) || record.rec_name?.split(' | ')[1] || 'Unknown',
+      routing: fulfilText(field(record, 'production.routing.rec_name')) || 'Standard',
+      state: record.state,
+      quantity: Math.round(Number(field(record, 'production.quantity')) || 0),
+      plannedDate: parseFulfilDateTime(record.planned_date),
+      rec_name: fulfilText(record.rec_name),
+      lastSyncedAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    await db
+      .insert(activeWorkOrders)
+      .values({ id: record.id, ...row })
+      .onConflictDoUpdate({ target: activeWorkOrders.id, set: row });
+  }
+}
+
+async function upsertWorkCycles(records: any[]): Promise<UpsertCounts> {
+  const counts: UpsertCounts = { inserted: 0, updated: 0, skipped: 0 };
+
+  for (const record of records) {
+    const operatorName = fulfilText(field(record, 'operator.rec_name'));
+    const workCenterName = fulfilText(field(record, 'work_center.rec_name'));
+    const duration = parseFulfilDuration(record.duration);
+    const productionCreated = parseFulfilDateTime(field(record, 'work.production.create_date'));
+    const changes = {
+      work_cycles_duration: duration,
+      work_cycles_rec_name: fulfilText(record.rec_name),
+      work_cycles_operator_rec_name: operatorName,
+      work_cycles_operator_id: fulfilId(record.operator),
+      // The UPH engine orders cycles by this; the cycle's own write_date is when it was last worked
+      work_cycles_operator_write_date: parseFulfilDateTime(record.write_date),
+      work_cycles_work_center_rec_name: workCenterName,
+      work_cycles_quantity_done: record.quantity_done == null ? null : Number(record.quantity_done),
+      work_production_id: fulfilId(field(record, 'work.production')),
+      work_production_number: fulfilText(field(record, 'work.production.number')),
+      work_production_quantity: field(record, 'work.production.quantity') == null ? null : Number(field(record, 'work.production.quantity')),
+      work_production_product_code: fulfilText(field(record, 'work.production.product.code')),
+      work_production_priority: fulfilText(field(record, 'work.production.priority')),
+      work_production_create_date: productionCreated,
+      work_production_routing_rec_name: fulfilText(field(record, 'work.production.routing.rec_name')),
+      work_rec_name: fulfilText(field(record, 'work.rec_name')),
+      work_operation_rec_name: fulfilText(field(record, 'work.operation.rec_name')),
+      work_operation_id: fulfilId(field(record, 'work.operation')),
+      work_id: fulfilId(record.work),
+      work_center_id: fulfilId(record.work_center),
+      state: record.state ?? null,
+      updatedAt: new Date()
+    };
+
+    if (operatorName && workCenterName && duration > 0) {
+      const [written] = await db
+        .insert(workCycles)
+        .values({ ...changes, work_cycles_id: record.id })
+        .onConflictDoUpdate({ target: workCycles.work_cycles_id, set: changes })
+        .returning({ inserted: WAS_INSERTED });
+      if (written?.inserted) counts.inserted++;
+      else counts.updated++;
+    } else {
+      // Cycles already imported are updated even when they no longer qualify, so stale values do not linger
+      const updated = await db
+        .update(workCycles)
+        .set(changes)
+        .where(eq(workCycles.work_cycles_id, record.id))
+        .returning({ id: workCycles.id });
+      if (updated.length > 0) counts.updated++;
+      else counts.skipped++;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Every model's state, including models never synced
+ */
+export async function getSyncStates(): Promise<Array<FulfilSyncState | { model: SyncModel; highWaterMark: null }>> {
+  const rows = await db.select().from(fulfilSyncState);
+  return SYNC_MODELS.map(model => rows.find(row => row.model === model) ?? { model, highWaterMark: null });
+}
+
+/**
+ * Move a model's mark back (or clear it for a full re-sync on the next run)
+ */
+export async function resetSyncState(model: SyncModel, since: Date | null = null): Promise<void> {
+  await saveSyncState(model, { highWaterMark: since, lastError: null });
+}
+
+export function isSyncModel(value: unknown): value is SyncModel {
+  return typeof value === 'string' && (SYNC_MODELS as readonly string[]).includes(value);
+}
+
+async function getSyncState(model: SyncModel): Promise<FulfilSyncState | null> {
+  const [row] = await db.select().from(fulfilSyncState).where(eq(fulfilSyncState.model, model));
+  return row ?? null;
+}
+
+async function saveSyncState(model: SyncModel, changes: Partial<Omit<FulfilSyncState, 'model'>>): Promise<void> {
+  const values = { ...changes, updatedAt: new Date() };
+  await db
+    .insert(fulfilSyncState)
+    .values({ model, ...values })
+    .onConflictDoUpdate({ target: fulfilSyncState.model, set: values });
+}
+
+/**
+ * Fulfil datetimes come as "YYYY-MM-DD HH:MM:SS[.ffffff]" in UTC, or as
+ * { __class__: 'datetime', iso_string }
+ */
+export function parseFulfilDateTime(value: unknown): Date | null {
+  const text = fulfilText(value);
+  if (!text) return null;
+  const iso = text.includes('T') ? text : text.replace(' ', 'T');
+  const date = new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(iso) || iso.length <= 10 ? iso : `${iso}Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Fulfil compares datetimes as UTC "YYYY-MM-DD HH:MM:SS"
+export function formatFulfilDateTime(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+/**
+ * Durations come as seconds, { seconds } or a timedelta { iso_string: "PT1H2M3.5S" }
+ */
+export function parseFulfilDuration(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return parseFloat(value) || 0;
+  if (value && typeof value === 'object') {
+    const timedelta = value as { seconds?: number; iso_string?: string };
+    if (typeof timedelta.seconds === 'number') return timedelta.seconds;
+    const match = timedelta.iso_string?.match(/^P(?:(\d+)D)?T?(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?$/);
+    if (match) {
+      const [, days, hours, minutes, seconds] = match;
+      return Number(days || 0) * 86400 + Number(hours || 0) * 3600 + Number(minutes || 0) * 60 + Number(seconds || 0);
+    }
+  }
+  return 0;
+}
+
+function latestWriteDate(records: any[]): Date | null {
+  let latest: Date | null = null;
+  for (const record of records) {
+    const date = parseFulfilDateTime(record.write_date);
+    if (date && (!latest || date > latest)) latest = date;
+  }
+  return latest;
+}
+
+// search_read returns dotted fields flat ("work.production.number"), older endpoints nest them
+function field(record: any, path: string): any {
+  if (path in record) return record[path];
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), record);
+}
+
+function fulfilText(value: unknown): string | null {
+  if (value == null || value === '') return null;
+  if (typeof value === 'object') return (value as { iso_string?: string }).iso_string ?? null;
+  return String(value);
+}
+
+// Many2one fields are an id, or { id, rec_name } when expanded
+function fulfilId(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (value && typeof value === 'object' && typeof (value as { id?: unknown }).id === 'number') {
+    return (value as { id: number }).id;
+  }
+  return null;
+}
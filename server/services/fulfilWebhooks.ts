@@ -0,0 +1,226 @@
+/**
+ * Fulfil Webhooks
+ * Receives Fulfil's production, work order and work cycle events. Each
+ * delivery is checked against an HMAC-SHA256 signature of the raw body
+ * (FULFIL_WEBHOOK_SECRET), recorded once by event id so redeliveries are
+ * ignored (a redelivery of a failed event is processed again), and the
+ * affected records are re-read from Fulfil and upserted through the
+ * incremental sync, which also refreshes active_work_orders. Webhooks only
+ * say what changed; Fulfil stays the source of the data.
+ */
+
+import crypto from "crypto";
+import { db } from "../db.js";
+import { activeWorkOrders, fulfilWebhookEvents, productionOrders, workCycles, type FulfilWebhookEvent } from "../../shared/schema.js";
+import { and, desc, eq, gt, inArray } from "drizzle-orm";
+import { isSyncModel, syncRecords, type SyncModel } from "./fulfilSync.js";
+
+export const SIGNATURE_HEADER = "x-fulfil-hmac-sha256";
+export const EVENT_ID_HEADER = "x-fulfil-event-id";
+export const TOPIC_HEADER = "x-fulfil-topic"; // e.g. "production.work.updated"
+export const TIMESTAMP_HEADER = "x-fulfil-timestamp"; // When Fulfil sent the delivery
+
+const WEBHOOK_ACTIONS = ['created', 'updated', 'deleted'] as const;
+export type WebhookAction = typeof WEBHOOK_ACTIONS[number];
+
+export interface WebhookEvent {
+  eventId: string;
+  model: SyncModel;
+  action: WebhookAction;
+  ids: number[];
+}
+
+export function getWebhookSecret(): string | null {
+  return process.env.FULFIL_WEBHOOK_SECRET?.trim() || null;
+}
+
+/**
+ * The signature is the HMAC-SHA256 of the raw request body, base64 or hex
+ */
+export function verifyWebhookSignature(rawBody: Buffer, signature: string | undefined, secret: string): boolean {
+  if (!signature) return false;
+  const digest = crypto.createHmac("sha256", secret).update(rawBody).digest();
+  const given = signature.trim();
+  const candidate = /^[0-9a-f]{64}$/i.test(given) ? Buffer.from(given, "hex") : Buffer.from(given, "base64");
+  return candidate.length === digest.length && crypto.timingSafeEqual(candidate, digest);
+}
+
+/**
+ * Read the model, action and record ids from a delivery. The topic header
+ * ("production.work.updated") wins over the body's model/action; ids come
+ * from `ids`, `id`, `record.id` or `records[].id`. Returns null when the
+ * delivery is not about a model we sync.
+ *
+ * Without an event id, a hash of the body plus the delivery timestamp stands
+ * in for one. The body alone is not enough: two updates to the same record
+ * send the same body. With no timestamp either, the event is not deduped.
+ */
+export function parseWebhookEvent(
+  headers: Record<string, string | string[] | undefined>,
+  body: any,
+  rawBody: Buffer
+): WebhookEvent | null {
+  const header = (name: string) => {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  let model: unknown = body?.model;
+  let action: unknown = body?.action ?? body?.event;
+  const topic = header(TOPIC_HEADER);
+  if (topic) {
+    const suffix = topic.slice(topic.lastIndexOf(".") + 1);
+    if ((WEBHOOK_ACTIONS as readonly string[]).includes(suffix)) {
+      model = topic.slice(0, topic.lastIndexOf("."));
+      action = suffix;
+    } else {
+      model = topic;
+    }
+  }
+  if (!isSyncModel(model)) return null;
+
+  const ids = [
+    ...(Array.isArray(body?.ids) ? body.ids : []),
+    body?.id,
+    body?.record?.id,
+    ...(Array.isArray(body?.records) ? body.records.map((record: any) => record?.id) : [])
+  ].map(Number).filter(id => Number.isInteger(id) && id > 0);
+
+  return {
+    eventId: header(EVENT_ID_HEADER) || (body?.event_id != null ? String(body.event_id) : null)
+      || deliveryKey(rawBody, header(TIMESTAMP_HEADER) || (body?.timestamp != null ? String(body.timestamp) : null)),
+    model,
+    action: (WEBHOOK_ACTIONS as readonly string[]).includes(action as string) ? action as WebhookAction : 'updated',
+    ids: Array.from(new Set(ids))
+  };
+}
+
+function deliveryKey(rawBody: Buffer, timestamp: string | null): string {
+  if (!timestamp) return `undeduped-${crypto.randomUUID()}`;
+  return crypto.createHash("sha256").update(timestamp).update("\n").update(rawBody).digest("hex");
+}
+
+/**
+ * Record a delivery. Null when the event was already received, unless its
+ * processing failed, in which case the redelivery takes the row over
+ */
+export async function recordWebhookEvent(event: WebhookEvent): Promise<FulfilWebhookEvent | null> {
+  const [row] = await db
+    .insert(fulfilWebhookEvents)
+    .values({ eventId: event.eventId, model: event.model, action: event.action, recordIds: event.ids })
+    .onConflictDoUpdate({
+      target: fulfilWebhookEvents.eventId,
+      set: { status: "received", error: null, receivedAt: new Date(), processedAt: null },
+      setWhere: eq(fulfilWebhookEvents.status, "failed")
+    })
+    .returning();
+  return row ?? null;
+}
+
+/**
+ * Bring the records an event names up to date, then mark it processed (or
+ * failed, leaving the records to the polling fallback)
+ */
+export async function processWebhookEvent(eventRowId: number, event: WebhookEvent): Promise<void> {
+  try {
+    if (event.ids.length > 0) {
+      await applyEvent(event);
+    }
+    await db
+      .update(fulfilWebhookEvents)
+      .set({ status: "processed", processedAt: new Date() })
+      .where(eq(fulfilWebhookEvents.id, eventRowId));
+  } catch (error) {
+    console.error(`❌ Fulfil webhook ${event.model}.${event.action} ${event.eventId} failed:`, error);
+    await db
+      .update(fulfilWebhookEvents)
+      .set({ status: "failed", error: error instanceof Error ? error.message : String(error), processedAt: new Date() })
+      .where(eq(fulfilWebhookEvents.id, eventRowId));
+  }
+}
+
+async function applyEvent(event: WebhookEvent): Promise<void> {
+  const idDomain = [['id', 'in', event.ids]];
+
+  if (event.action === 'deleted') {
+    await applyDelete(event);
+    return;
+  }
+
+  if (event.model === 'production') {
+    await syncRecords('production', idDomain);
+    // Work orders carry the MO's number, product and quantity into active_work_orders
+    await syncRecords('production.work', [['production', 'in', event.ids]]);
+  } else if (event.model === 'production.work') {
+    const { records } = await syncRecords('production.work', idDomain);
+
+    // A new work order may belong to an MO that has not synced yet; sync it, then the work order again
+    const productionIds = Array.from(new Set(records.map(record => Number(record.production)).filter(Boolean)));
+    const local = productionIds.length > 0
+      ? await db
+          .select({ fulfilId: productionOrders.fulfilId })
+          .from(productionOrders)
+          .where(inArray(productionOrders.fulfilId, productionIds))
+      : [];
+    const missing = productionIds.filter(id => !local.some(row => row.fulfilId === id));
+    if (missing.length > 0) {
+      await syncRecords('production', [['id', 'in', missing]]);
+      await syncRecords('production.work', idDomain);
+    }
+  } else {
+    await syncRecords('production.work.cycle', idDomain);
+  }
+  console.log(`📨 Fulfil webhook: ${event.model}.${event.action} for ${event.ids.length} records`);
+}
+
+/**
+ * Deleted records leave the planner: an MO's open work orders, the work
+ * orders themselves, and cycles from UPH history. Synced production and
+ * work order history is kept.
+ */
+async function applyDelete(event: WebhookEvent): Promise<void> {
+  if (event.model === 'production') {
+    const local = await db
+      .select({ id: productionOrders.id })
+      .from(productionOrders)
+      .where(inArray(productionOrders.fulfilId, event.ids));
+    if (local.length > 0) {
+      await db.delete(activeWorkOrders).where(inArray(activeWorkOrders.productionOrderId, local.map(row => row.id)));
+    }
+  } else if (event.model === 'production.work') {
+    await db.delete(activeWorkOrders).where(inArray(activeWorkOrders.id, event.ids));
+  } else {
+    await db.delete(workCycles).where(inArray(workCycles.work_cycles_id, event.ids));
+  }
+  console.log(`📨 Fulfil webhook: ${event.model}.deleted for ${event.ids.length} records`);
+}
+
+/**
+ * Whether any event received since `since` (ever, when null) failed to apply
+ */
+export async function hasFailedWebhookEvents(since: Date | null): Promise<boolean> {
+  const failed = eq(fulfilWebhookEvents.status, "failed");
+  const [row] = await db
+    .select({ id: fulfilWebhookEvents.id })
+    .from(fulfilWebhookEvents)
+    .where(since ? and(failed, gt(fulfilWebhookEvents.receivedAt, since)) : failed)
+    .limit(1);
+  return row !== undefined;
+}
+
+export async function getLastWebhookAt(): Promise<Date | null> {
+  const [row] = await db
+    .select({ receivedAt: fulfilWebhookEvents.receivedAt })
+    .from(fulfilWebhookEvents)
+    .orderBy(desc(fulfilWebhookEvents.receivedAt))
+    .limit(1);
+  return row?.receivedAt ?? null;
+}
+
+export async function getRecentWebhookEvents(limit = 20): Promise<FulfilWebhookEvent[]> {
+  return db
+    .select()
+    .from(fulfilWebhookEvents)
+    .orderBy(desc(fulfilWebhookEvents.receivedAt), desc(fulfilWebhookEvents.id))
+    .limit(Math.min(Math.max(limit, 1), 200));
+}
@@ -0,0 +1,193 @@
+/**
+ * Incremental Planning
+ * Watermark for incremental auto-assign runs, which only fetch and slot work
+ * orders created since the previous run (plus the ones it left unassigned,
+ * so they are retried rather than stranded), and the change report listing
+ * exactly which assignments a run added, moved, rescheduled or dropped, and why.
+ */
+
+import { db } from "../db.js";
+import { plannerSettings } from "../../shared/schema.js";
+import { eq } from "drizzle-orm";
+import type { AssignmentDecision } from "./assignmentDecisions.js";
+
+const WATERMARK_SETTING_KEY = "auto_assign_watermark";
+// Slots that shift by less than this are reported as unchanged
+const RESCHEDULE_TOLERANCE_MS = 60 * 1000;
+
+export type AssignmentChangeType = 'added' | 'moved' | 'rescheduled' | 'dropped' | 'unassigned';
+
+export interface AssignmentChange {
+  workOrderId: number;
+  moNumber: string | null;
+  change: AssignmentChangeType;
+  fromOperatorId: number | null;
+  fromOperatorName: string | null;
+  toOperatorId: number | null;
+  toOperatorName: string | null;
+  previousStart: Date | null;
+  previousEnd: Date | null;
+  scheduledStart: Date | null;
+  scheduledEnd: Date | null;
+  reason: string;
+}
+
+export interface ChangeReport {
+  mode: 'full' | 'incremental';
+  since: Date | null; // Incremental runs: work orders created after this were considered
+  newWorkOrders: number;
+  changes: AssignmentChange[];
+  unchanged: number; // Live assignments kept with the same operator and slot
+}
+
+export interface PlanningWatermark {
+  lastRunAt: Date;
+  pendingWorkOrderIds: number[]; // Left unassigned by that run; the next incremental run fetches them again
+}
+
+interface PlanRow {
+  workOrderId: number;
+  operatorId: number;
+  scheduledStart?: Date | null;
+  scheduledEnd?: Date | null;
+}
+
+/**
+ * When the last auto-assign run started and what it left unassigned, or
+ * null before the first run
+ */
+export async function getPlanningWatermark(): Promise<PlanningWatermark | null> {
+  try {
+    const [row] = await db
+      .select()
+      .from(plannerSettings)
+      .where(eq(plannerSettings.key, WATERMARK_SETTING_KEY));
+    const value = row?.value as { lastRunAt?: string; pendingWorkOrderIds?: unknown } | undefined;
+    if (!value?.lastRunAt) return null;
+    return {
+      lastRunAt: new Date(value.lastRunAt),
+      pendingWorkOrderIds: Array.isArray(value.pendingWorkOrderIds)
+        ? value.pendingWorkOrderIds.filter((id): id is number => Number.isInteger(id))
+        : []
+    };
+  } catch (error) {
+    console.error("Error loading auto-assign watermark:", error);
+    return null;
+  }
+}
+
+export async function savePlanningWatermark(lastRunAt: Date, pendingWorkOrderIds: number[] = []): Promise<void> {
+  const value = { lastRunAt: lastRunAt.toISOString(), pendingWorkOrderIds };
+  await db
+    .insert(plannerSettings)
+    .values({ key: WATERMARK_SETTING_KEY, value, updatedAt: new Date() })
+    .onConflictDoUpdate({
+      target: plannerSettings.key,
+      set: { value, updatedAt: new Date() }
+    });
+}
+
+/**
+ * Diff the live plan before a run against the plan after it
+ */
+export function buildChangeReport(input: {
+  mode: 'full' | 'incremental';
+  since: Date | null;
+  newWorkOrders: number;
+  before: PlanRow[];
+  after: PlanRow[];
+  unassigned: Array<{ workOrderId: number; moNumber: string; reason: string }>;
+  decisions: Map<number, AssignmentDecision>;
+  moNumbers: Map<number, string>;
+  operatorNames: Map<number, string>;
+}): ChangeReport {
+  const nameOf = (operatorId: number | null) =>
+    operatorId === null ? null : input.operatorNames.get(operatorId) || `Operator ${operatorId}`;
+  const beforeById = new Map(input.before.map(row => [row.workOrderId, row]));
+  const afterById = new Map(input.after.map(row => [row.workOrderId, row]));
+  const unassignedIds = new Set(input.unassigned.map(item => item.workOrderId));
+
+  const changes: AssignmentChange[] = [];
+  let unchanged = 0;
+
+  const change = (
+    workOrderId: number,
+    type: AssignmentChangeType,
+    previous: PlanRow | undefined,
+    next: PlanRow | undefined,
+    reason: string
+  ): AssignmentChange => ({
+    workOrderId,
+    moNumber: input.moNumbers.get(workOrderId) ?? input.decisions.get(workOrderId)?.moNumber ?? null,
+    change: type,
+    fromOperatorId: previous?.operatorId ?? null,
+    fromOperatorName: nameOf(previous?.operatorId ?? null),
+    toOperatorId: next?.operatorId ?? null,
+    toOperatorName: nameOf(next?.operatorId ?? null),
+    previousStart: previous?.scheduledStart ?? null,
+    previousEnd: previous?.scheduledEnd ?? null,
+    scheduledStart: next?.scheduledStart ?? null,
+    scheduledEnd: next?.scheduledEnd ?? null,
+    reason
+  });
+
+  for (const next of input.after) {
+    const previous = beforeById.get(next.workOrderId);
+    const decision = input.decisions.get(next.workOrderId);
+
+    if (!previous) {
+      changes.push(change(next.workOrderId, 'added', undefined, next, describeDecision(decision, 'New work order')));
+    } else if (previous.operatorId !== next.operatorId) {
+      changes.push(change(next.workOrderId, 'moved', previous, next,
+        describeDecision(decision, `Reassigned from ${nameOf(previous.operatorId)}`)));
+    } else if (slotShifted(previous, next)) {
+      changes.push(change(next.workOrderId, 'rescheduled', previous, next,
+        'Same operator; slot re-sequenced around other work in the queue'));
+    } else {
+      unchanged++;
+    }
+  }
+
+  // Live assignments the run did not carry over (regenerate)
+  for (const previous of input.before) {
+    if (afterById.has(previous.workOrderId) || unassignedIds.has(previous.workOrderId)) continue;
+    changes.push(change(previous.workOrderId, 'dropped', previous, undefined, 'No longer in flight or cleared for regeneration'));
+  }
+
+  for (const item of input.unassigned) {
+    if (afterById.has(item.workOrderId)) continue;
+    const previous = beforeById.get(item.workOrderId);
+    changes.push({ ...change(item.workOrderId, 'unassigned', previous, undefined, item.reason), moNumber: item.moNumber });
+  }
+
+  return { mode: input.mode, since: input.since, newWorkOrders: input.newWorkOrders, changes, unchanged };
+}
+
+function slotShifted(previous: PlanRow, next: PlanRow): boolean {
+  // Runs that don't schedule leave slots alone
+  if (next.scheduledStart === undefined) return false;
+  const shift = (a: Date | null | undefined, b: Date | null | undefined) =>
+    (a?.getTime() ?? null) !== (b?.getTime() ?? null) &&
+    (!a || !b || Math.abs(a.getTime() - b.getTime()) > RESCHEDULE_TOLERANCE_MS);
+  return shift(previous.scheduledStart, next.scheduledStart) || shift(previous.scheduledEnd, next.scheduledEnd);
+}
+
+// One-line reason from the recorded candidate breakdown
+function describeDecision(decision: AssignmentDecision | undefined, fallback: string): string {
+  if (!decision) return fallback;
+  if (decision.rebalancedFrom) return decision.rebalancedFrom.reason;
+
+  const chosen = decision.candidates.find(candidate => candidate.selected);
+  if (!chosen) return fallback;
+
+  const scored = decision.candidates.filter(candidate => candidate.score !== null);
+  const hours = chosen.expectedHours !== null ? `${chosen.expectedHours.toFixed(1)}h` : 'unknown hours';
+  if (decision.solver) {
+    return `Placed by the ${decision.solver} solver (${hours}, ${scored.length} skilled operators)`;
+  }
+
+  const runnerUp = scored.find(candidate => !candidate.selected);
+  const uph = chosen.uph !== null ? `${chosen.uph.toFixed(1)} UPH, ` : '';
+  return `Best of ${scored.length} scored operators (${uph}${hours}, score ${chosen.score?.toFixed(3) ?? '—'})` +
+    (runnerUp ? `; next ${runnerUp.operatorName} at ${runnerUp.score?.toFixed(3)}` : '');
+}
@@ -0,0 +1,80 @@
+/**
+ * Learning Curve
+ * Fits an exponential ramp to an operator's UPH over their successive MOs on
+ * a routing, so operators new to a routing are planned at where they are
+ * heading rather than at an average dragged down by their first slow MOs.
+ *
+ *   UPH(k) = steadyState − gap · e^(−(k − 1) / τ)      k = 1, 2, … in completion order
+ */
+
+const MIN_POINTS = 4; // MOs needed before a ramp is fitted
+const MIN_IMPROVEMENT = 0.3; // Share of the flat-average error the ramp must explain
+const RAMP_TARGET = 0.9; // Ramp is "done" at 90% of steady state
+// Time constants tried, in MOs
+const TAU_GRID = [0.5, 0.75, 1, 1.5, 2, 3, 4, 5, 6, 8, 10, 12, 15, 20];
+
+export interface LearningCurveFit {
+  steadyStateUph: number;
+  initialUph: number; // Fitted UPH on the first MO
+  tau: number; // MOs for the remaining gap to shrink by e
+  points: number; // MOs the fit is based on
+  projectedUph: number; // Expected UPH on the next MO
+  mosToRamp: number; // MOs from the first until 90% of steady state
+  remainingRampMos: number; // Of those, still ahead of the operator
+  rSquared: number; // Against a flat average
+  ramp: number[]; // Projected UPH for the next few MOs
+}
+
+/**
+ * Fit the ramp to UPH values in completion order. Returns null when there
+ * are too few MOs or no meaningful improvement over time.
+ */
+export function fitLearningCurve(values: number[], horizon = 5): LearningCurveFit | null {
+  const n = values.length;
+  if (n < MIN_POINTS) return null;
+
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  const flatError = values.reduce((sum, v) => sum + (v - mean) ** 2, 0);
+  if (flatError === 0) return null;
+
+  let best: { steadyState: number; gap: number; tau: number; error: number } | null = null;
+  for (const tau of TAU_GRID) {
+    // Linear in steadyState and gap once τ is fixed: UPH = s − g·x
+    const xs = values.map((_, k) => Math.exp(-k / tau));
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+    const varX = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+    if (varX === 0) continue;
+
+    const covXY = xs.reduce((sum, x, k) => sum + (x - meanX) * (values[k] - mean), 0);
+    const gap = -covXY / varX;
+    const steadyState = mean + gap * meanX;
+    if (gap <= 0 || steadyState <= 0) continue; // Getting slower is not learning
+
+    const error = values.reduce((sum, v, k) => sum + (v - (steadyState - gap * xs[k])) ** 2, 0);
+    if (!best || error < best.error) {
+      best = { steadyState, gap, tau, error };
+    }
+  }
+  if (!best) return null;
+
+  const rSquared = 1 - best.error / flatError;
+  if (rSquared < MIN_IMPROVEMENT) return null;
+
+  const at = (k: number) => best!.steadyState - best!.gap * Math.exp(-(k - 1) / best!.tau);
+  const threshold = (1 - RAMP_TARGET) * best.steadyState;
+  const mosToRamp = best.gap <= threshold
+    ? 1
+    : Math.ceil(1 + best.tau * Math.log(best.gap / threshold));
+
+  return {
+    steadyStateUph: best.steadyState,
+    initialUph: Math.max(0, at(1)),
+    tau: best.tau,
+    points: n,
+    projectedUph: Math.max(0, at(n + 1)),
+    mosToRamp,
+    remainingRampMos: Math.max(0, mosToRamp - n),
+    rSquared,
+    ramp: Array.from({ length: horizon }, (_, i) => Math.max(0, at(n + 1 + i)))
+  };
+}
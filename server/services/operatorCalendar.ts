@@ -0,0 +1,203 @@
+/**
+ * Operator Calendar
+ * Real available hours per operator and day from weekly shift patterns,
+ * time off and the plant holiday calendar. Operators without a shift
+ * pattern fall back to availableHours spread over Monday–Friday.
+ */
+
+import { db } from "../db.js";
+import { operators, operatorShifts, operatorTimeOff, plantHolidays } from "../../shared/schema.js";
+import { and, eq, gte, lte, inArray } from "drizzle-orm";
+import type { DailyCapacityFn } from "./finiteScheduler.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_CAPACITY_DAYS = 7;
+
+export interface ShiftDay {
+  dayOfWeek: number; // 0 = Sunday ... 6 = Saturday
+  startTime: string | null; // HH:MM
+  hours: number;
+}
+
+export interface TimeOffEntry {
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+  hoursPerDay: number | null; // Null = whole day
+}
+
+export interface CalendarData {
+  weeklyHours: Map<number, number>; // operators.availableHours
+  shifts: Map<number, ShiftDay[]>;
+  timeOff: Map<number, TimeOffEntry[]>;
+  holidays: Set<string>; // YYYY-MM-DD
+}
+
+export interface OperatorCalendar {
+  hoursOn: DailyCapacityFn;
+  shiftStartHourOn: (operatorId: number, day: Date) => number | null;
+  hoursBetween: (operatorId: number, start: Date, days: number) => number;
+}
+
+/**
+ * Format a local date as YYYY-MM-DD
+ */
+export function toDateKey(day: Date): string {
+  const month = String(day.getMonth() + 1).padStart(2, '0');
+  const date = String(day.getDate()).padStart(2, '0');
+  return `${day.getFullYear()}-${month}-${date}`;
+}
+
+function parseStartHour(startTime: string | null): number | null {
+  const match = startTime?.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  return Number(match[1]) + Number(match[2]) / 60;
+}
+
+/**
+ * Build calendar lookups from loaded shift, time off and holiday data
+ */
+export function buildOperatorCalendar(data: CalendarData): OperatorCalendar {
+  const shiftFor = (operatorId: number, day: Date): ShiftDay | null | undefined => {
+    const pattern = data.shifts.get(operatorId);
+    if (!pattern || pattern.length === 0) return undefined; // No pattern: use the weekly fallback
+    return pattern.find(shift => shift.dayOfWeek === day.getDay()) ?? null;
+  };
+
+  const hoursOn: DailyCapacityFn = (operatorId, day) => {
+    const dateKey = toDateKey(day);
+    if (data.holidays.has(dateKey)) return 0;
+
+    const shift = shiftFor(operatorId, day);
+    let hours: number;
+    if (shift === undefined) {
+      const weekday = day.getDay();
+      hours = weekday === 0 || weekday === 6 ? 0 : (data.weeklyHours.get(operatorId) ?? 40) / 5;
+    } else {
+      hours = shift?.hours ?? 0;
+    }
+
+    for (const entry of data.timeOff.get(operatorId) || []) {
+      if (dateKey < entry.startDate || dateKey > entry.endDate) continue;
+      hours = entry.hoursPerDay === null ? 0 : hours - entry.hoursPerDay;
+    }
+
+    return Math.max(0, hours);
+  };
+
+  const shiftStartHourOn = (operatorId: number, day: Date) => {
+    const shift = shiftFor(operatorId, day);
+    return shift ? parseStartHour(shift.startTime) : null;
+  };
+
+  const hoursBetween = (operatorId: number, start: Date, days: number) => {
+    let total = 0;
+    for (let i = 0; i < days; i++) {
+      total += hoursOn(operatorId, new Date(start.getFullYear(), start.getMonth(), start.getDate() + i));
+    }
+    return total;
+  };
+
+  return { hoursOn, shiftStartHourOn, hoursBetween };
+}
+
+/**
+ * Load calendar data for the given operators (all operators when omitted)
+ * covering time off and holidays that overlap the window
+ */
+export async function loadCalendarData(
+  operatorIds?: number[],
+  window: { start?: Date; days?: number } = {}
+): Promise<CalendarData> {
+  const start = window.start ?? new Date();
+  const end = new Date(start.getTime() + (window.days ?? 60) * DAY_MS);
+  const startKey = toDateKey(start);
+  const endKey = toDateKey(end);
+
+  const operatorFilter = operatorIds && operatorIds.length > 0;
+
+  const [operatorRows, shiftRows, timeOffRows, holidayRows] = await Promise.all([
+    db.select({ id: operators.id, availableHours: operators.availableHours })
+      .from(operators)
+      .where(operatorFilter ? inArray(operators.id, operatorIds!) : undefined),
+    db.select()
+      .from(operatorShifts)
+      .where(operatorFilter ? inArray(operatorShifts.operatorId, operatorIds!) : undefined),
+    db.select()
+      .from(operatorTimeOff)
+      .where(and(
+        operatorFilter ? inArray(operatorTimeOff.operatorId, operatorIds!) : undefined,
+        lte(operatorTimeOff.startDate, endKey),
+        gte(operatorTimeOff.endDate, startKey)
+      )),
+    db.select()
+      .from(plantHolidays)
+      .where(and(gte(plantHolidays.date, startKey), lte(plantHolidays.date, endKey)))
+  ]);
+
+  const shifts = new Map<number, ShiftDay[]>();
+  for (const row of shiftRows) {
+    if (!shifts.has(row.operatorId)) shifts.set(row.operatorId, []);
+    shifts.get(row.operatorId)!.push({ dayOfWeek: row.dayOfWeek, startTime: row.startTime, hours: row.hours });
+  }
+
+  const timeOff = new Map<number, TimeOffEntry[]>();
+  for (const row of timeOffRows) {
+    if (!timeOff.has(row.operatorId)) timeOff.set(row.operatorId, []);
+    timeOff.get(row.operatorId)!.push({ startDate: row.startDate, endDate: row.endDate, hoursPerDay: row.hoursPerDay });
+  }
+
+  return {
+    weeklyHours: new Map(operatorRows.map(op => [op.id, op.availableHours || 40])),
+    shifts,
+    timeOff,
+    holidays: new Set(holidayRows.map(holiday => holiday.date))
+  };
+}
+
+/**
+ * Load operator calendars ready for capacity lookups
+ */
+export async function loadOperatorCalendar(
+  operatorIds?: number[],
+  window: { start?: Date; days?: number } = {}
+): Promise<OperatorCalendar> {
+  return buildOperatorCalendar(await loadCalendarData(operatorIds, window));
+}
+
+/**
+ * Available hours per operator over a planning window starting today
+ */
+export async function getAvailableHours(
+  operatorIds?: number[],
+  days: number = DEFAULT_CAPACITY_DAYS,
+  start: Date = new Date()
+): Promise<Map<number, number>> {
+  const data = await loadCalendarData(operatorIds, { start, days });
+  const calendar = buildOperatorCalendar(data);
+  const ids = operatorIds ?? [...data.weeklyHours.keys()];
+  return new Map(ids.map(id => [id, calendar.hoursBetween(id, start, days)]));
+}
+
+/**
+ * Replace an operator's weekly shift pattern
+ */
+export async function saveShiftPattern(operatorId: number, pattern: ShiftDay[]): Promise<ShiftDay[]> {
+  const valid = pattern.filter(shift =>
+    Number.isInteger(shift.dayOfWeek) && shift.dayOfWeek >= 0 && shift.dayOfWeek <= 6 &&
+    isFinite(shift.hours) && shift.hours > 0 && shift.hours <= 24
+  );
+
+  await db.transaction(async (tx) => {
+    await tx.delete(operatorShifts).where(eq(operatorShifts.operatorId, operatorId));
+    if (valid.length > 0) {
+      await tx.insert(operatorShifts).values(valid.map(shift => ({
+        operatorId,
+        dayOfWeek: shift.dayOfWeek,
+        startTime: shift.startTime || "08:00",
+        hours: shift.hours
+      })));
+    }
+  });
+
+  return valid;
+}
@@ -0,0 +1,244 @@
+/**
+ * Product Families
+ * A configurable hierarchy of routings (e.g. Lifetime → Lifetime Leashes)
+ * used to estimate UPH for an operator on a routing they have never run:
+ * their UPH on related routings, each scaled by how the population's UPH on
+ * the target routing compares with it, weighted by how closely related the
+ * routings are. Such estimates are flagged as inferred.
+ */
+
+import { db } from "../db.js";
+import { plannerSettings } from "../../shared/schema.js";
+import { eq } from "drizzle-orm";
+
+const FAMILIES_SETTING_KEY = "product_families";
+const MIN_SIMILARITY = 0.25; // Related routings below this are ignored
+const MAX_BASIS = 3; // Related routings reported with an estimate
+// Sewing and Rope work is planned under Assembly
+const WORK_CENTER_ALIASES: Record<string, string[]> = {
+  Assembly: ['Assembly', 'Sewing', 'Rope']
+};
+
+export interface ProductFamily {
+  name: string;
+  parent: string | null; // Enclosing family, null for a top-level family
+  pattern: string | null; // Case-insensitive regular expression on routing names
+  routings: string[]; // Routings listed explicitly, in addition to the pattern
+}
+
+export const DEFAULT_PRODUCT_FAMILIES: ProductFamily[] = [
+  { name: 'Lifetime', parent: null, pattern: '^Lifetime\\b', routings: [] },
+  { name: 'Lifetime Collars', parent: 'Lifetime', pattern: '^Lifetime\\b.*Collar', routings: [] },
+  { name: 'Lifetime Leashes', parent: 'Lifetime', pattern: '^Lifetime\\b.*Leash', routings: [] },
+  { name: 'Lifetime Harnesses', parent: 'Lifetime', pattern: '^Lifetime\\b.*Harness', routings: [] }
+];
+
+/** One stored UPH number, as the fallback reads it */
+export interface FamilyUphRow {
+  operatorName: string;
+  workCenter: string;
+  routing: string;
+  uph: number;
+  observations: number;
+}
+
+export interface InferredUph {
+  uph: number;
+  family: string | null; // Most specific family of the target routing
+  similarity: number; // Weighted similarity of the routings the estimate rests on (0–1)
+  basis: Array<{
+    routing: string;
+    operatorUph: number; // The operator's UPH on the related routing
+    populationRatio: number; // Peers' UPH on the target ÷ on the related routing, over peers who ran both
+    similarity: number;
+  }>;
+}
+
+/**
+ * Families containing a routing, most specific first
+ */
+export function familyPath(routing: string, families: ProductFamily[]): string[] {
+  const byName = new Map(families.map(family => [family.name, family]));
+  const matching = families.filter(family => inFamily(routing, family));
+
+  let deepest: string[] = [];
+  for (const family of matching) {
+    const path: string[] = [];
+    let current: ProductFamily | undefined = family;
+    while (current && !path.includes(current.name)) {
+      path.push(current.name);
+      current = current.parent ? byName.get(current.parent) : undefined;
+    }
+    if (path.length > deepest.length) deepest = path;
+  }
+  return deepest;
+}
+
+/**
+ * How related two routings are (0–1): the share of the deeper family path
+ * they have in common, or the overlap of words in their names if higher
+ */
+export function routingSimilarity(a: string, b: string, families: ProductFamily[] = []): number {
+  if (a === b) return 1;
+
+  const pathA = familyPath(a, families);
+  const pathB = new Set(familyPath(b, families));
+  const shared = pathA.filter(name => pathB.has(name)).length;
+  const familyScore = shared > 0 ? shared / Math.max(pathA.length, pathB.size) : 0;
+
+  const words = (value: string) => new Set(value.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean));
+  const left = words(a);
+  const right = words(b);
+  const common = [...left].filter(word => right.has(word)).length;
+  const union = new Set([...left, ...right]).size;
+  const nameScore = union > 0 ? common / union : 0;
+
+  return Math.max(familyScore, nameScore);
+}
+
+/**
+ * Estimate an operator's UPH on a routing from related routings. Each
+ * related routing is scaled by how its peers compare: other operators who
+ * ran both it and the target routing at the work center. Needs the operator
+ * to have run at least one such related routing there; otherwise null.
+ */
+export function inferUph(
+  target: { operatorName: string; workCenter: string; routing: string },
+  rows: FamilyUphRow[],
+  families: ProductFamily[]
+): InferredUph | null {
+  const workCenters = WORK_CENTER_ALIASES[target.workCenter] ?? [target.workCenter];
+  const atWorkCenter = rows.filter(row => workCenters.includes(row.workCenter) && row.uph > 0);
+
+  const peers = atWorkCenter.filter(row => row.operatorName !== target.operatorName);
+  const onTarget = peers.filter(row => row.routing === target.routing);
+  if (onTarget.length === 0) return null;
+
+  let weighted = 0;
+  let totalWeight = 0;
+  let similarityWeight = 0;
+  const basis: InferredUph['basis'] = [];
+  const own = atWorkCenter.filter(row => row.operatorName === target.operatorName && row.routing !== target.routing);
+  for (const related of new Set(own.map(row => row.routing))) {
+    const similarity = routingSimilarity(target.routing, related, families);
+    if (similarity < MIN_SIMILARITY) continue;
+
+    // Only peers who ran both routings, so the ratio compares the same people
+    const onRelated = peers.filter(row => row.routing === related);
+    const ranBoth = new Set(onRelated.map(row => row.operatorName).filter(name => onTarget.some(row => row.operatorName === name)));
+    const targetPopulation = populationUph(onTarget.filter(row => ranBoth.has(row.operatorName)));
+    const relatedPopulation = populationUph(onRelated.filter(row => ranBoth.has(row.operatorName)));
+    if (!targetPopulation || !relatedPopulation) continue;
+
+    const ownRows = own.filter(row => row.routing === related);
+    const operatorUph = populationUph(ownRows)!;
+    const observations = ownRows.reduce((sum, row) => sum + Math.max(1, row.observations), 0);
+    const populationRatio = targetPopulation / relatedPopulation;
+    // Closer routings and more observations count for more
+    const weight = similarity * Math.log1p(observations);
+
+    weighted += operatorUph * populationRatio * weight;
+    totalWeight += weight;
+    similarityWeight += similarity * weight;
+    basis.push({ routing: related, operatorUph, populationRatio, similarity });
+  }
+  if (totalWeight === 0) return null;
+
+  return {
+    uph: weighted / totalWeight,
+    family: familyPath(target.routing, families)[0] ?? null,
+    similarity: similarityWeight / totalWeight,
+    basis: basis.sort((a, b) => b.similarity - a.similarity).slice(0, MAX_BASIS)
+  };
+}
+
+/**
+ * Short explanation, e.g. "inferred from Lifetime Leash (Lifetime Leashes family)"
+ */
+export function describeInferredUph(inferred: InferredUph): string {
+  const routings = inferred.basis.map(item => item.routing).join(', ');
+  return `inferred from ${routings}` + (inferred.family ? ` (${inferred.family} family)` : '');
+}
+
+/**
+ * Validate families from a request or saved settings. Throws on an invalid
+ * pattern or an unknown parent, like a bad request should.
+ */
+export function normalizeProductFamilies(input: unknown): ProductFamily[] {
+  if (!Array.isArray(input)) {
+    throw new Error("families must be an array");
+  }
+
+  const families: ProductFamily[] = input.map((item, index) => {
+    const name = typeof item?.name === 'string' ? item.name.trim() : '';
+    if (!name) throw new Error(`Family ${index + 1} needs a name`);
+
+    const pattern = typeof item.pattern === 'string' && item.pattern.trim() ? item.pattern.trim() : null;
+    if (pattern) {
+      try {
+        new RegExp(pattern, 'i');
+      } catch {
+        throw new Error(`Family "${name}" has an invalid pattern`);
+      }
+    }
+
+    return {
+      name,
+      parent: typeof item.parent === 'string' && item.parent.trim() ? item.parent.trim() : null,
+      pattern,
+      routings: Array.isArray(item.routings) ? item.routings.filter((r: unknown): r is string => typeof r === 'string') : []
+    };
+  });
+
+  const names = new Set(families.map(family => family.name));
+  for (const family of families) {
+    if (family.parent && !names.has(family.parent)) {
+      throw new Error(`Family "${family.name}" has an unknown parent "${family.parent}"`);
+    }
+  }
+  return families;
+}
+
+export async function getProductFamilies(): Promise<ProductFamily[]> {
+  try {
+    const [row] = await db
+      .select()
+      .from(plannerSettings)
+      .where(eq(plannerSettings.key, FAMILIES_SETTING_KEY));
+    return row ? normalizeProductFamilies(row.value) : DEFAULT_PRODUCT_FAMILIES;
+  } catch (error) {
+    console.error("Error loading product families, using defaults:", error);
+    return DEFAULT_PRODUCT_FAMILIES;
+  }
+}
+
+export async function saveProductFamilies(input: unknown): Promise<ProductFamily[]> {
+  const families = normalizeProductFamilies(input);
+
+  await db
+    .insert(plannerSettings)
+    .values({ key: FAMILIES_SETTING_KEY, value: families, updatedAt: new Date() })
+    .onConflictDoUpdate({
+      target: plannerSettings.key,
+      set: { value: families, updatedAt: new Date() }
+    });
+
+  return families;
+}
+
+function inFamily(routing: string, family: ProductFamily): boolean {
+  if (family.routings.includes(routing)) return true;
+  if (!family.pattern) return false;
+  try {
+    return new RegExp(family.pattern, 'i').test(routing);
+  } catch {
+    return false;
+  }
+}
+
+// Observation-weighted UPH across rows, null without any
+function populationUph(rows: FamilyUphRow[]): number | null {
+  const weight = rows.reduce((sum, row) => sum + Math.max(1, row.observations), 0);
+  if (weight === 0) return null;
+  return rows.reduce((sum, row) => sum + row.uph * Math.max(1, row.observations), 0) / weight;
+}
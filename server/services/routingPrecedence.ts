@@ -0,0 +1,100 @@
+/**
+ * Routing Precedence
+ * Resolves the order in which an MO's work orders must run from the routing
+ * steps stored in production_routing. Falls back to the canonical
+ * Cutting → Assembly → Packaging flow when a routing has no usable steps.
+ */
+
+import { db } from "../db.js";
+import { productionRouting } from "../../shared/schema.js";
+import { mapWorkCenterToCategory, getAllCategories, type WorkCenterCategory } from "../utils/categoryMap.js";
+
+export interface RoutingStep {
+  sequence: number;
+  operation: string;
+  category: WorkCenterCategory | null;
+}
+
+/**
+ * Normalize the steps JSON from Fulfil into ordered steps.
+ * Steps may arrive as expanded objects (sequence, operation, operation.rec_name)
+ * or as bare step IDs; bare IDs carry no operation and are ignored.
+ */
+export function parseRoutingSteps(steps: unknown): RoutingStep[] {
+  if (!Array.isArray(steps)) return [];
+
+  const parsed: RoutingStep[] = [];
+  steps.forEach((step: any, index) => {
+    if (!step || typeof step !== 'object') return;
+
+    const operation =
+      step['operation.rec_name'] ||
+      step.operation_name ||
+      step.operation?.rec_name ||
+      step.operation?.name ||
+      (typeof step.operation === 'string' ? step.operation : null) ||
+      step.rec_name ||
+      step.name;
+    if (!operation) return;
+
+    const workCenter = step['work_center_category.rec_name'] || step.work_center_category?.rec_name || step.work_center || operation;
+
+    parsed.push({
+      sequence: typeof step.sequence === 'number' ? step.sequence : index,
+      operation: String(operation),
+      category: mapWorkCenterToCategory(String(workCenter)) ?? mapWorkCenterToCategory(String(operation))
+    });
+  });
+
+  return parsed.sort((a, b) => a.sequence - b.sequence);
+}
+
+/**
+ * Load parsed steps for every routing, keyed by both name and rec_name
+ */
+export async function loadRoutingSteps(): Promise<Map<string, RoutingStep[]>> {
+  const stepsByRouting = new Map<string, RoutingStep[]>();
+
+  try {
+    const routings = await db
+      .select({ name: productionRouting.name, rec_name: productionRouting.rec_name, steps: productionRouting.steps })
+      .from(productionRouting);
+
+    for (const routing of routings) {
+      const steps = parseRoutingSteps(routing.steps);
+      if (steps.length === 0) continue;
+      stepsByRouting.set(routing.name, steps);
+      if (routing.rec_name) stepsByRouting.set(routing.rec_name, steps);
+    }
+  } catch (error) {
+    console.error("Error loading routing steps, using default precedence:", error);
+  }
+
+  return stepsByRouting;
+}
+
+/**
+ * Resolve a work order's position in its routing.
+ * Matches the operation name against the routing steps first, then the
+ * first step in the same work center category, then the default flow.
+ * Lower values must finish before higher values start.
+ */
+export function resolveStepSequence(
+  steps: RoutingStep[] | undefined,
+  workCenter: string,
+  operation: string
+): number {
+  const category = mapWorkCenterToCategory(workCenter) ?? mapWorkCenterToCategory(operation);
+
+  if (steps && steps.length > 0) {
+    const normalizedOperation = operation?.toLowerCase().trim();
+    const byOperation = steps.findIndex(step => step.operation.toLowerCase().trim() === normalizedOperation);
+    if (byOperation >= 0) return byOperation + 1;
+
+    const byCategory = steps.findIndex(step => step.category === category);
+    if (byCategory >= 0) return byCategory + 1;
+  }
+
+  const defaultIndex = category ? getAllCategories().indexOf(category) : -1;
+  return defaultIndex >= 0 ? defaultIndex + 1 : 1;
+}
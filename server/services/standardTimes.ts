@@ -0,0 +1,382 @@
+/**
+ * Standard Times
+ * Engineered minutes per unit for each routing operation, computed as a
+ * target percentile of the per-MO minutes per unit in work_cycles_consolidated
+ * and laid out along production_routing.steps. Planners can override any
+ * step; overrides win over the computed value. Used to estimate MOs that have
+ * no operator assigned yet.
+ */
+
+import { db } from "../db.js";
+import { plannerSettings, standardTimeOverrides, workCyclesConsolidated, type StandardTimeOverride, type WorkCyclesConsolidated } from "../../shared/schema.js";
+import { eq } from "drizzle-orm";
+import { loadRoutingSteps, type RoutingStep } from "./routingPrecedence.js";
+import { mapWorkCenterToCategory } from "../utils/categoryMap.js";
+
+const CONFIG_SETTING_KEY = "standard_time_config";
+const MIN_CYCLE_SECONDS = 120; // Shorter consolidated cycles are clock-in noise
+
+export interface StandardTimeConfig {
+  targetPercentile: number; // 1–99; share of MOs expected to meet the standard
+  minObservations: number; // MOs needed before a step gets a computed standard
+}
+
+export const DEFAULT_STANDARD_TIME_CONFIG: StandardTimeConfig = {
+  targetPercentile: 50,
+  minObservations: 3
+};
+
+/** One consolidated MO operation, as the standards read it */
+export interface StandardTimeCycle {
+  routing: string;
+  operation: string;
+  workCenter: string | null;
+  durationSeconds: number;
+  quantity: number;
+}
+
+export interface StandardTime {
+  routing: string;
+  operation: string;
+  workCenter: string | null;
+  sequence: number | null; // Position in the routing steps, null when the operation is not a step
+  observations: number;
+  p25: number | null;
+  median: number | null;
+  p75: number | null;
+  computedMinutesPerUnit: number | null; // At the target percentile
+  override: { id: number; minutesPerUnit: number; note: string | null; updatedBy: string | null; updatedAt: Date | null } | null;
+  minutesPerUnit: number | null; // Override if set, else computed
+  source: 'override' | 'computed' | 'none';
+}
+
+export interface StandardHoursEstimate {
+  hours: number;
+  steps: Array<{ operation: string; workCenter: string | null; minutesPerUnit: number; hours: number; source: 'override' | 'computed' }>;
+  missing: string[]; // Routing steps without a standard
+}
+
+/**
+ * Read a consolidated row. cycles_rec_name joins operator, operation and work
+ * center with " | "; the operation is the part matching a routing step, or
+ * the first part that is neither the operator nor the work center.
+ */
+export function toStandardTimeCycle(row: WorkCyclesConsolidated, steps: RoutingStep[] = []): StandardTimeCycle | null {
+  if (!row.routing_name || !row.cycles_rec_name) return null;
+
+  const parts = row.cycles_rec_name.split(' | ').map(part => part.trim()).filter(Boolean);
+  const stepNames = new Map(steps.map(step => [step.operation.toLowerCase(), step.operation]));
+  const operation =
+    parts.map(part => stepNames.get(part.toLowerCase())).find(Boolean) ??
+    parts.find(part => part !== row.operator_rec_name && part !== row.work_center_category_name);
+  if (!operation) return null;
+
+  return {
+    routing: row.routing_name,
+    operation,
+    workCenter: row.work_center_category_name
+      ? mapWorkCenterToCategory(row.work_center_category_name) ?? row.work_center_category_name
+      : null,
+    durationSeconds: row.total_duration_sec,
+    quantity: row.quantity_done
+  };
+}
+
+/**
+ * Percentile (0–100) by linear interpolation between closest ranks
+ */
+export function percentile(values: number[], target: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(100, Math.max(0, target)) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Standard minutes per unit per routing operation. Every routing step is
+ * listed, with or without data; operations seen in cycles but missing from
+ * the steps follow with a null sequence.
+ */
+export function computeStandardTimes(
+  cycles: StandardTimeCycle[],
+  stepsByRouting: Map<string, RoutingStep[]>,
+  config: StandardTimeConfig = DEFAULT_STANDARD_TIME_CONFIG
+): StandardTime[] {
+  const samples = new Map<string, { cycle: StandardTimeCycle; minutes: number[] }>();
+  for (const cycle of cycles) {
+    if (cycle.quantity <= 0 || cycle.durationSeconds < MIN_CYCLE_SECONDS) continue;
+    const key = `${cycle.routing}|${cycle.operation.toLowerCase()}`;
+    if (!samples.has(key)) samples.set(key, { cycle, minutes: [] });
+    samples.get(key)!.minutes.push(cycle.durationSeconds / 60 / cycle.quantity);
+  }
+
+  const build = (routing: string, operation: string, workCenter: string | null, sequence: number | null): StandardTime => {
+    const minutes = samples.get(`${routing}|${operation.toLowerCase()}`)?.minutes ?? [];
+    const computed = minutes.length >= config.minObservations ? percentile(minutes, config.targetPercentile) : null;
+    return {
+      routing,
+      operation,
+      workCenter,
+      sequence,
+      observations: minutes.length,
+      p25: percentile(minutes, 25),
+      median: percentile(minutes, 50),
+      p75: percentile(minutes, 75),
+      computedMinutesPerUnit: computed,
+      override: null,
+      minutesPerUnit: computed,
+      source: computed !== null ? 'computed' : 'none'
+    };
+  };
+
+  const standards: StandardTime[] = [];
+  const listed = new Set<string>();
+  for (const [routing, steps] of stepsByRouting) {
+    for (const step of steps) {
+      const key = `${routing}|${step.operation.toLowerCase()}`;
+      if (listed.has(key)) continue;
+      listed.add(key);
+      standards.push(build(routing, step.operation, step.category, step.sequence));
+    }
+  }
+  for (const [key, { cycle }] of samples) {
+    if (listed.has(key)) continue;
+    standards.push(build(cycle.routing, cycle.operation, cycle.workCenter, null));
+  }
+
+  return standards.sort((a, b) =>
+    a.routing.localeCompare(b.routing) || (a.sequence ?? Infinity) - (b.sequence ?? Infinity) || a.operation.localeCompare(b.operation)
+  );
+}
+
+/**
+ * Apply planner overrides; an override for an operation with no computed
+ * standard is listed on its own
+ */
+export function applyOverrides(standards: StandardTime[], overrides: StandardTimeOverride[]): StandardTime[] {
+  const result = standards.map(standard => ({ ...standard }));
+  for (const override of overrides) {
+    let standard = result.find(s => s.routing === override.routing && s.operation.toLowerCase() === override.operation.toLowerCase());
+    if (!standard) {
+      standard = {
+        routing: override.routing,
+        operation: override.operation,
+        workCenter: override.workCenter,
+        sequence: null,
+        observations: 0,
+        p25: null,
+        median: null,
+        p75: null,
+        computedMinutesPerUnit: null,
+        override: null,
+        minutesPerUnit: null,
+        source: 'none'
+      };
+      result.push(standard);
+    }
+    standard.override = {
+      id: override.id,
+      minutesPerUnit: override.minutesPerUnit,
+      note: override.note,
+      updatedBy: override.updatedBy,
+      updatedAt: override.updatedAt
+    };
+    standard.minutesPerUnit = override.minutesPerUnit;
+    standard.source = 'override';
+  }
+  return result;
+}
+
+/**
+ * Standard for one work order: its operation on the routing, or the single
+ * step in its work center when the operation name does not match
+ */
+export function findStandard(standards: StandardTime[], routing: string, operation: string | null, workCenter?: string | null): StandardTime | null {
+  const onRouting = standards.filter(s => s.routing === routing && s.minutesPerUnit !== null);
+  if (operation) {
+    const match = onRouting.find(s => s.operation.toLowerCase() === operation.toLowerCase());
+    if (match) return match;
+  }
+  const category = workCenter ? mapWorkCenterToCategory(workCenter) ?? workCenter : null;
+  const inWorkCenter = category ? onRouting.filter(s => s.workCenter === category) : [];
+  return inWorkCenter.length === 1 ? inWorkCenter[0] : null;
+}
+
+/**
+ * Hours to run a quantity through every step of a routing at standard.
+ * Null when no step of the routing has a standard.
+ */
+export function estimateStandardHours(standards: StandardTime[], routing: string, quantity: number): StandardHoursEstimate | null {
+  const onRouting = standards.filter(s => s.routing === routing);
+  const steps: StandardHoursEstimate['steps'] = [];
+  const missing: string[] = [];
+  for (const standard of onRouting) {
+    if (standard.minutesPerUnit === null || standard.source === 'none') {
+      if (standard.sequence !== null) missing.push(standard.operation);
+      continue;
+    }
+    steps.push({
+      operation: standard.operation,
+      workCenter: standard.workCenter,
+      minutesPerUnit: standard.minutesPerUnit,
+      hours: (quantity * standard.minutesPerUnit) / 60,
+      source: standard.source
+    });
+  }
+  if (steps.length === 0) return null;
+
+  return { hours: steps.reduce((sum, step) => sum + step.hours, 0), steps, missing };
+}
+
+/**
+ * Compute standards from the database and apply overrides
+ */
+export async function getStandardTimes(routing?: string): Promise<StandardTime[]> {
+  const [config, stepsByRouting, rows, overrides] = await Promise.all([
+    getStandardTimeConfig(),
+    loadRoutingSteps(),
+    routing
+      ? db.select().from(workCyclesConsolidated).where(eq(workCyclesConsolidated.routing_name, routing))
+      : db.select().from(workCyclesConsolidated),
+    routing
+      ? db.select().from(standardTimeOverrides).where(eq(standardTimeOverrides.routing, routing))
+      : db.select().from(standardTimeOverrides)
+  ]);
+
+  const cycles = rows
+    .map(row => toStandardTimeCycle(row, stepsByRouting.get(row.routing_name ?? '') ?? []))
+    .filter((cycle): cycle is StandardTimeCycle => cycle !== null);
+
+  // Steps are keyed by both name and rec_name; list each routing once, preferring the name cycles use
+  const routings = new Set(cycles.map(cycle => cycle.routing));
+  const steps = new Map<string, RoutingStep[]>();
+  const listed = new Set<RoutingStep[]>();
+  for (const preferred of [true, false]) {
+    for (const [name, routingSteps] of stepsByRouting) {
+      if ((routing && name !== routing) || listed.has(routingSteps) || (preferred && !routings.has(name))) continue;
+      steps.set(name, routingSteps);
+      listed.add(routingSteps);
+    }
+  }
+
+  return applyOverrides(computeStandardTimes(cycles, steps, config), overrides);
+}
+
+export interface StandardTimeOverrideInput {
+  routing: string;
+  operation: string;
+  workCenter?: string | null;
+  minutesPerUnit: number;
+  note?: string | null;
+}
+
+/**
+ * Validate an override from a request. Throws on bad input, like a bad
+ * request should.
+ */
+export function normalizeStandardTimeOverride(input: unknown): StandardTimeOverrideInput {
+  const value = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const routing = typeof value.routing === 'string' ? value.routing.trim() : '';
+  const operation = typeof value.operation === 'string' ? value.operation.trim() : '';
+  if (!routing || !operation) {
+    throw new Error("routing and operation are required");
+  }
+  const minutesPerUnit = Number(value.minutesPerUnit);
+  if (!Number.isFinite(minutesPerUnit) || minutesPerUnit <= 0) {
+    throw new Error("minutesPerUnit must be a positive number");
+  }
+  return {
+    routing,
+    operation,
+    workCenter: typeof value.workCenter === 'string' && value.workCenter.trim() ? value.workCenter.trim() : null,
+    minutesPerUnit,
+    note: typeof value.note === 'string' && value.note.trim() ? value.note.trim() : null
+  };
+}
+
+/**
+ * Overrides match operations case-insensitively, but are stored under a
+ * case-sensitive key; spell the operation the way it is already known
+ */
+export function canonicalOperation(operation: string, known: string[]): string {
+  return known.find(name => name.toLowerCase() === operation.toLowerCase()) ?? operation;
+}
+
+export async function saveStandardTimeOverride(input: unknown, updatedBy?: string): Promise<StandardTimeOverride> {
+  const normalized = normalizeStandardTimeOverride(input);
+  const [existing, stepsByRouting] = await Promise.all([
+    db.select({ operation: standardTimeOverrides.operation }).from(standardTimeOverrides).where(eq(standardTimeOverrides.routing, normalized.routing)),
+    loadRoutingSteps()
+  ]);
+  // An existing override's spelling first, so saving again replaces it
+  const known = [
+    ...existing.map(row => row.operation),
+    ...(stepsByRouting.get(normalized.routing) ?? []).map(step => step.operation)
+  ];
+  const override = { ...normalized, operation: canonicalOperation(normalized.operation, known) };
+  const values = { ...override, updatedBy: updatedBy ?? null, updatedAt: new Date() };
+
+  const [saved] = await db
+    .insert(standardTimeOverrides)
+    .values(values)
+    .onConflictDoUpdate({
+      target: [standardTimeOverrides.routing, standardTimeOverrides.operation],
+      set: values
+    })
+    .returning();
+
+  console.log(`📐 Standard time override: ${override.routing} / ${override.operation} = ${override.minutesPerUnit} min/unit`);
+  return saved;
+}
+
+export async function deleteStandardTimeOverride(id: number): Promise<boolean> {
+  const deleted = await db
+    .delete(standardTimeOverrides)
+    .where(eq(standardTimeOverrides.id, id))
+    .returning({ id: standardTimeOverrides.id });
+  return deleted.length > 0;
+}
+
+/**
+ * Clamp config values from a request or saved settings
+ */
+export function normalizeStandardTimeConfig(input: unknown): StandardTimeConfig {
+  const number = (value: unknown, fallback: number, min: number, max: number) => {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? Math.min(max, Math.max(min, parsed)) : fallback;
+  };
+  const config = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  return {
+    targetPercentile: number(config.targetPercentile, DEFAULT_STANDARD_TIME_CONFIG.targetPercentile, 1, 99),
+    minObservations: Math.round(number(config.minObservations, DEFAULT_STANDARD_TIME_CONFIG.minObservations, 1, 100))
+  };
+}
+
+export async function getStandardTimeConfig(): Promise<StandardTimeConfig> {
+  try {
+    const [row] = await db
+      .select()
+      .from(plannerSettings)
+      .where(eq(plannerSettings.key, CONFIG_SETTING_KEY));
+    return row ? normalizeStandardTimeConfig(row.value) : DEFAULT_STANDARD_TIME_CONFIG;
+  } catch (error) {
+    console.error("Error loading standard time config, using defaults:", error);
+    return DEFAULT_STANDARD_TIME_CONFIG;
+  }
+}
+
+export async function saveStandardTimeConfig(input: unknown): Promise<StandardTimeConfig> {
+  const config = normalizeStandardTimeConfig(input);
+
+  await db
+    .insert(plannerSettings)
+    .values({ key: CONFIG_SETTING_KEY, value: config, updatedAt: new Date() })
+    .onConflictDoUpdate({
+      target: plannerSettings.key,
+      set: { value: config, updatedAt: new Date() }
+    });
+
+  return config;
+}
@@ -0,0 +1,289 @@
+/**
+ * UPH Drift Alerts
+ * Compares each operator's recent per-MO UPH on a routing with their own
+ * baseline from the weeks before. A drop of several standard errors and a
+ * meaningful share of their usual speed raises an alert (possible injury,
+ * equipment problem or data issue); the alert resolves once the operator's
+ * recent MOs are back in line. New alerts can go to a supervisor on Slack.
+ */
+
+import { db } from "../db.js";
+import { operators, plannerSettings, uphDriftAlerts, type UphDriftAlert } from "../../shared/schema.js";
+import { desc, eq, inArray } from "drizzle-orm";
+import { getUphMethod, isPlausible, loadUphCycles, type UphCycle } from "./uphEngine.js";
+
+const CONFIG_SETTING_KEY = "uph_drift_config";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_BASELINE_CV = 0.1; // Baselines are assumed to vary by at least this much
+
+export interface DriftConfig {
+  enabled: boolean;
+  recentDays: number; // MOs finished in this many days are "recent"
+  baselineDays: number; // MOs finished before that, back to this many days, are the baseline
+  minRecentMos: number;
+  minBaselineMos: number;
+  threshold: number; // Standard errors below the baseline
+  minDrop: number; // Relative drop, e.g. 0.2 = 20% slower
+  intervalMinutes: number; // How often the background check runs
+  notifySlack: boolean;
+  slackChannel: string | null; // Falls back to SLACK_SUPERVISOR_CHANNEL
+}
+
+export const DEFAULT_DRIFT_CONFIG: DriftConfig = {
+  enabled: true,
+  recentDays: 14,
+  baselineDays: 120,
+  minRecentMos: 3,
+  minBaselineMos: 5,
+  threshold: 3,
+  minDrop: 0.2,
+  intervalMinutes: 60,
+  notifySlack: false,
+  slackChannel: null
+};
+
+export interface DriftDetection {
+  operatorName: string;
+  workCenter: string;
+  routing: string;
+  baselineUph: number;
+  recentUph: number;
+  change: number;
+  statistic: number;
+  baselineMos: number;
+  recentMos: number;
+}
+
+export interface DriftCheckResult {
+  evaluated: number; // Combinations with enough recent and baseline MOs to judge
+  raised: number;
+  updated: number;
+  resolved: number;
+  notified: number;
+}
+
+/**
+ * Judge every operator / work center / routing with enough recent and
+ * baseline MOs. Returns the drops and the keys of every combination judged,
+ * so alerts on combinations without recent work are left alone.
+ */
+export function detectDrift(
+  cycles: UphCycle[],
+  config: DriftConfig = DEFAULT_DRIFT_CONFIG,
+  now: Date = new Date()
+): { drifts: DriftDetection[]; evaluated: string[] } {
+  const recentSince = now.getTime() - config.recentDays * DAY_MS;
+  const baselineSince = now.getTime() - config.baselineDays * DAY_MS;
+
+  const groups = new Map<string, UphCycle[]>();
+  for (const cycle of cycles) {
+    const key = driftKey(cycle);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(cycle);
+  }
+
+  const drifts: DriftDetection[] = [];
+  const evaluated: string[] = [];
+  const method = getUphMethod('mo_weighted');
+  for (const [key, groupCycles] of groups) {
+    const cyclesById = new Map(groupCycles.map(cycle => [cycle.cycleId, cycle]));
+    const recent: number[] = [];
+    const baseline: number[] = [];
+    for (const observation of method.observe(groupCycles).filter(isPlausible)) {
+      const finished = observation.cycleIds
+        .map(id => cyclesById.get(id)!)
+        .reduce<number | null>((latest, cycle) => {
+          const time = (cycle.writeDate ?? cycle.date)?.getTime() ?? null;
+          return time !== null && (latest === null || time > latest) ? time : latest;
+        }, null);
+      if (finished === null || finished > now.getTime()) continue;
+      if (finished >= recentSince) recent.push(observation.uph);
+      else if (finished >= baselineSince) baseline.push(observation.uph);
+    }
+    if (recent.length < config.minRecentMos || baseline.length < config.minBaselineMos) continue;
+    evaluated.push(key);
+
+    const baselineUph = mean(baseline);
+    const recentUph = mean(recent);
+    const spread = Math.max(Math.sqrt(sampleVariance(baseline)), MIN_BASELINE_CV * baselineUph);
+    const standardError = spread * Math.sqrt(1 / recent.length + 1 / baseline.length);
+    const statistic = standardError > 0 ? (baselineUph - recentUph) / standardError : 0;
+    const change = baselineUph > 0 ? (recentUph - baselineUph) / baselineUph : 0;
+    if (statistic < config.threshold || change > -config.minDrop) continue;
+
+    const first = groupCycles[0];
+    drifts.push({
+      operatorName: first.operatorName,
+      workCenter: first.workCenter,
+      routing: first.routing,
+      baselineUph,
+      recentUph,
+      change,
+      statistic,
+      baselineMos: baseline.length,
+      recentMos: recent.length
+    });
+  }
+
+  return { drifts: drifts.sort((a, b) => a.change - b.change), evaluated };
+}
+
+/**
+ * Run the check and bring the alerts table in line: raise new alerts,
+ * refresh the numbers on ones still open and resolve those back to normal
+ */
+export async function runDriftCheck(now: Date = new Date()): Promise<DriftCheckResult> {
+  const config = await getDriftConfig();
+  const [cycles, active, allOperators] = await Promise.all([
+    loadUphCycles(),
+    db.select().from(uphDriftAlerts).where(inArray(uphDriftAlerts.status, ['open', 'acknowledged'])),
+    db.select({ id: operators.id, name: operators.name }).from(operators)
+  ]);
+  const { drifts, evaluated } = detectDrift(cycles, config, now);
+  const operatorIds = new Map(allOperators.map(op => [op.name, op.id]));
+  const activeByKey = new Map(active.map(alert => [driftKey(alert), alert]));
+  const result: DriftCheckResult = { evaluated: evaluated.length, raised: 0, updated: 0, resolved: 0, notified: 0 };
+
+  for (const drift of drifts) {
+    const numbers = {
+      baselineUph: drift.baselineUph,
+      recentUph: drift.recentUph,
+      change: drift.change,
+      statistic: drift.statistic,
+      baselineMos: drift.baselineMos,
+      recentMos: drift.recentMos,
+      updatedAt: now
+    };
+    const existing = activeByKey.get(driftKey(drift));
+    if (existing) {
+      await db.update(uphDriftAlerts).set(numbers).where(eq(uphDriftAlerts.id, existing.id));
+      result.updated++;
+      continue;
+    }
+
+    const [alert] = await db
+      .insert(uphDriftAlerts)
+      .values({
+        ...numbers,
+        operatorId: operatorIds.get(drift.operatorName) ?? null,
+        operatorName: drift.operatorName,
+        workCenter: drift.workCenter,
+        routing: drift.routing,
+        status: 'open',
+        detectedAt: now
+      })
+      .returning();
+    result.raised++;
+
+    if (config.notifySlack) {
+      const { notifyUphDrift } = await import("../slack-integration.js");
+      if (await notifyUphDrift(drift, config.slackChannel)) {
+        await db.update(uphDriftAlerts).set({ notifiedAt: new Date() }).where(eq(uphDriftAlerts.id, alert.id));
+        result.notified++;
+      }
+    }
+  }
+
+  const drifting = new Set(drifts.map(driftKey));
+  const judged = new Set(evaluated);
+  for (const alert of active) {
+    const key = driftKey(alert);
+    if (drifting.has(key) || !judged.has(key)) continue;
+    await db
+      .update(uphDriftAlerts)
+      .set({ status: 'resolved', resolvedAt: now, updatedAt: now })
+      .where(eq(uphDriftAlerts.id, alert.id));
+    result.resolved++;
+  }
+
+  if (result.raised > 0 || result.resolved > 0) {
+    console.log(`📉 UPH drift check: ${result.raised} raised, ${result.resolved} resolved, ${result.updated} still open`);
+  }
+  return result;
+}
+
+/**
+ * Alerts, newest first; open and acknowledged ones unless a status is given
+ */
+export async function listDriftAlerts(status?: string): Promise<UphDriftAlert[]> {
+  return db
+    .select()
+    .from(uphDriftAlerts)
+    .where(status ? eq(uphDriftAlerts.status, status) : inArray(uphDriftAlerts.status, ['open', 'acknowledged']))
+    .orderBy(desc(uphDriftAlerts.detectedAt));
+}
+
+export async function acknowledgeDriftAlert(id: number, acknowledgedBy?: string): Promise<UphDriftAlert | null> {
+  const [alert] = await db
+    .update(uphDriftAlerts)
+    .set({ status: 'acknowledged', acknowledgedBy: acknowledgedBy ?? null, acknowledgedAt: new Date(), updatedAt: new Date() })
+    .where(eq(uphDriftAlerts.id, id))
+    .returning();
+  return alert ?? null;
+}
+
+/**
+ * Clamp config values from a request or saved settings
+ */
+export function normalizeDriftConfig(input: unknown): DriftConfig {
+  const number = (value: unknown, fallback: number, min: number, max: number) => {
+    const parsed = Number(value);
+    return value !== undefined && value !== null && Number.isFinite(parsed) ? Math.min(max, Math.max(min, parsed)) : fallback;
+  };
+  const config = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const recentDays = Math.round(number(config.recentDays, DEFAULT_DRIFT_CONFIG.recentDays, 1, 90));
+
+  return {
+    enabled: typeof config.enabled === 'boolean' ? config.enabled : DEFAULT_DRIFT_CONFIG.enabled,
+    recentDays,
+    baselineDays: Math.round(number(config.baselineDays, DEFAULT_DRIFT_CONFIG.baselineDays, recentDays + 7, 730)),
+    minRecentMos: Math.round(number(config.minRecentMos, DEFAULT_DRIFT_CONFIG.minRecentMos, 1, 50)),
+    minBaselineMos: Math.round(number(config.minBaselineMos, DEFAULT_DRIFT_CONFIG.minBaselineMos, 2, 200)),
+    threshold: number(config.threshold, DEFAULT_DRIFT_CONFIG.threshold, 1, 10),
+    minDrop: number(config.minDrop, DEFAULT_DRIFT_CONFIG.minDrop, 0, 0.9),
+    intervalMinutes: Math.round(number(config.intervalMinutes, DEFAULT_DRIFT_CONFIG.intervalMinutes, 5, 24 * 60)),
+    notifySlack: typeof config.notifySlack === 'boolean' ? config.notifySlack : DEFAULT_DRIFT_CONFIG.notifySlack,
+    slackChannel: typeof config.slackChannel === 'string' && config.slackChannel.trim() ? config.slackChannel.trim() : null
+  };
+}
+
+export async function getDriftConfig(): Promise<DriftConfig> {
+  try {
+    const [row] = await db
+      .select()
+      .from(plannerSettings)
+      .where(eq(plannerSettings.key, CONFIG_SETTING_KEY));
+    return row ? normalizeDriftConfig(row.value) : DEFAULT_DRIFT_CONFIG;
+  } catch (error) {
+    console.error("Error loading UPH drift config, using defaults:", error);
+    return DEFAULT_DRIFT_CONFIG;
+  }
+}
+
+export async function saveDriftConfig(input: unknown): Promise<DriftConfig> {
+  const config = normalizeDriftConfig(input);
+
+  await db
+    .insert(plannerSettings)
+    .values({ key: CONFIG_SETTING_KEY, value: config, updatedAt: new Date() })
+    .onConflictDoUpdate({
+      target: plannerSettings.key,
+      set: { value: config, updatedAt: new Date() }
+    });
+
+  return config;
+}
+
+function driftKey(item: { operatorName: string; workCenter: string; routing: string }): string {
+  return `${item.operatorName}|${item.workCenter}|${item.routing}`;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function sampleVariance(values: number[]): number {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return values.reduce((sum, v) => sum + (v - average) ** 2, 0) / (values.length - 1);
+}
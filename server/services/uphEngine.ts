@@ -0,0 +1,1032 @@
+/**
+ * UPH Engine
+ * The one place UPH is calculated. Work cycles are grouped by operator, work
+ * center and routing; when several operators share a work order its quantity
+ * is split between them first. A pluggable method turns each group into observations
+ * (MO-weighted or cycle-weighted), a window (days or last N MOs, set per work
+ * center / routing where a policy exists) picks which cycles count
+ * and an outlier policy drops implausible observations. Estimates from few
+ * observations are shrunk toward their routing / work center peers and carry
+ * a 95% interval. Operators still ramping up on a routing are projected along
+ * their learning curve first. Every result carries the method and engine
+ * version that produced it.
+ */
+
+import { db } from "../db.js";
+import { workCycles, operators, uphData, plannerSettings, uphWindowPolicies, type UphWindowPolicyRow } from "../../shared/schema.js";
+import { and, eq, or, isNull } from "drizzle-orm";
+import { fitLearningCurve, type LearningCurveFit } from "./learningCurve.js";
+
+// Bump when a change to this file can change any UPH number
+export const UPH_ENGINE_VERSION = "1.4.0";
+export const UPH_ENGINE_DATA_SOURCE = "uph_engine";
+
+const CONFIG_SETTING_KEY = "uph_engine_config";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_WINDOW_DAYS = 30;
+// Observations outside these bounds are data errors, whatever the outlier policy
+const MAX_PLAUSIBLE_UPH = 500;
+const MIN_OBSERVATION_HOURS = 2 / 60;
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+const INSERT_BATCH_SIZE = 100;
+// Shrinkage and intervals
+const CONFIDENCE_Z = 1.96;
+const T_95 = [ // Two-sided Student t, 1–20 degrees of freedom
+  12.71, 4.3, 3.18, 2.78, 2.57, 2.45, 2.36, 2.31, 2.26, 2.23,
+  2.2, 2.18, 2.16, 2.14, 2.13, 2.12, 2.11, 2.1, 2.09, 2.09
+];
+const DEFAULT_CV = 0.3; // Assumed spread of observations when there are too few to measure it
+const MIN_BETWEEN_CV = 0.1; // Operators are assumed to differ by at least this much
+const MIN_POPULATION = 2; // Operators on a routing / work center needed to shrink toward them
+
+export type UphMethodName = 'mo_weighted' | 'cycle_weighted';
+export type OutlierPolicyName = 'none' | 'sigma' | 'iqr';
+export type UphWindow =
+  | { type: 'operator' } // Each operator's uphCalculationWindow
+  | { type: 'days'; days: number }
+  | { type: 'mos'; count: number } // The operator's last N MOs on the routing
+  | { type: 'all' };
+
+/** A window for one work center and/or routing; null matches any */
+export interface UphWindowPolicy {
+  id: number | null;
+  workCenter: string | null;
+  routing: string | null;
+  window: UphWindow;
+}
+
+export interface UphEngineConfig {
+  method: UphMethodName;
+  window: UphWindow;
+  outliers: OutlierPolicyName;
+  policies?: UphWindowPolicy[]; // From uph_window_policies; the most specific match wins over window
+}
+
+export const DEFAULT_UPH_CONFIG: UphEngineConfig = {
+  method: 'mo_weighted',
+  window: { type: 'operator' },
+  outliers: 'sigma'
+};
+
+/** One work cycle, normalised from the work_cycles table */
+export interface UphCycle {
+  cycleId: number;
+  workOrderId: number | null;
+  operatorId: number | null;
+  operatorName: string;
+  workCenter: string; // Consolidated (Assembly / Cutting / Packaging)
+  rawWorkCenter: string;
+  operation: string | null;
+  routing: string;
+  productionId: number | null;
+  moNumber: string | null;
+  moQuantity: number | null;
+  quantityDone: number | null;
+  durationSeconds: number;
+  date: Date | null;
+  writeDate: Date | null; // When the operator last touched the cycle; orders the learning curve
+  quantityShare?: number; // Share of the work order's quantity credited to this operator; 1 when not shared
+}
+
+export type QuantityAllocationMethod = 'quantity_done' | 'duration' | 'mixed';
+
+/** How units were split between the operators of shared work orders */
+export interface QuantityAllocationReport {
+  workOrders: number;
+  sharedWorkOrders: number; // Work orders with more than one operator
+  totalMos: number;
+  affectedMos: number; // MOs with at least one shared work order
+  operatorsAffected: number;
+  byMethod: Record<QuantityAllocationMethod, number>; // Shared work orders per allocation method
+  workOrderDetails: Array<{
+    key: string;
+    moNumber: string | null;
+    productionId: number | null;
+    workCenter: string;
+    operation: string | null;
+    quantity: number;
+    method: QuantityAllocationMethod;
+    operators: Array<{ operatorName: string; hours: number; quantityDone: number | null; units: number; share: number }>;
+  }>;
+}
+
+/** One data point a method derives from a group of cycles */
+export interface UphObservation {
+  key: string; // MO number for MO-weighted, cycle ID for cycle-weighted
+  moNumber: string | null;
+  productionId: number | null;
+  quantity: number;
+  durationHours: number;
+  uph: number;
+  cycleIds: number[];
+  date: Date | null;
+}
+
+export interface UphMethod {
+  name: UphMethodName;
+  description: string;
+  observe(cycles: UphCycle[]): UphObservation[];
+  combine(observations: UphObservation[]): number;
+}
+
+export interface UphResult {
+  operatorId: number | null;
+  operatorName: string;
+  workCenter: string;
+  routing: string;
+  uph: number;
+  observations: number;
+  values: number[]; // UPH of each observation kept
+  cycleCount: number;
+  totalQuantity: number;
+  totalDurationHours: number;
+  outliersExcluded: number;
+  windowDays: number | null; // Null = all history or an MO window
+  windowMos: number | null; // Last N MOs, when the window counts MOs
+  learning: LearningCurveFit | null; // Ramp over the operator's whole history on the routing
+  projectedUph: number; // Next-MO UPH from the learning curve; equals uph without one
+  shrunkUph: number; // projectedUph shrunk toward the routing / work center mean
+  ciLow: number; // 95% interval around shrunkUph
+  ciHigh: number;
+  shrinkage: number; // Weight on the population mean: 0 = own data only
+  populationUph: number | null; // Observation-weighted mean of the routing / work center
+  method: UphMethodName;
+  version: string;
+}
+
+export interface UphGroupDetails {
+  result: UphResult | null;
+  cycles: UphCycle[];
+  observations: Array<UphObservation & { excluded: 'implausible' | 'outlier' | null }>;
+}
+
+export interface UphFilters {
+  operatorName?: string;
+  operatorId?: number;
+  workCenter?: string;
+  routing?: string;
+}
+
+/**
+ * Per-MO UPH (the operator's share of the MO quantity / every hour they
+ * logged on the MO), averaged across MOs so each MO counts once
+ */
+const moWeighted: UphMethod = {
+  name: 'mo_weighted',
+  description: 'MO quantity over hours logged per MO, averaged across MOs',
+  observe(cycles) {
+    const byMo = new Map<string, UphCycle[]>();
+    for (const cycle of cycles) {
+      const key = moKey(cycle);
+      if (!key || !cycle.moQuantity) continue;
+      if (!byMo.has(key)) byMo.set(key, []);
+      byMo.get(key)!.push(cycle);
+    }
+
+    return [...byMo.entries()].map(([key, moCycles]) => {
+      const durationHours = moCycles.reduce((sum, cycle) => sum + cycle.durationSeconds, 0) / 3600;
+      // Hours-weighted share, so a work order split with a colleague only credits this operator's part
+      const shareHours = moCycles.reduce((sum, cycle) => sum + cycle.durationSeconds * (cycle.quantityShare ?? 1), 0) / 3600;
+      const quantity = (moCycles[0].moQuantity || 0) * (durationHours > 0 ? shareHours / durationHours : 1);
+      return {
+        key,
+        moNumber: moCycles[0].moNumber,
+        productionId: moCycles[0].productionId,
+        quantity,
+        durationHours,
+        uph: durationHours > 0 ? quantity / durationHours : 0,
+        cycleIds: moCycles.map(cycle => cycle.cycleId),
+        date: latestDate(moCycles)
+      };
+    });
+  },
+  combine(observations) {
+    return observations.reduce((sum, o) => sum + o.uph, 0) / observations.length;
+  }
+};
+
+/**
+ * Quantity done per cycle, combined as total units over total hours so
+ * long cycles weigh more than short ones
+ */
+const cycleWeighted: UphMethod = {
+  name: 'cycle_weighted',
+  description: 'Units done over hours across all cycles',
+  observe(cycles) {
+    return cycles
+      .filter(cycle => (cycle.quantityDone || 0) > 0)
+      .map(cycle => {
+        const durationHours = cycle.durationSeconds / 3600;
+        return {
+          key: String(cycle.cycleId),
+          moNumber: cycle.moNumber,
+          productionId: cycle.productionId,
+          quantity: cycle.quantityDone || 0,
+          durationHours,
+          uph: durationHours > 0 ? (cycle.quantityDone || 0) / durationHours : 0,
+          cycleIds: [cycle.cycleId],
+          date: cycle.date
+        };
+      });
+  },
+  combine(observations) {
+    const hours = observations.reduce((sum, o) => sum + o.durationHours, 0);
+    return hours > 0 ? observations.reduce((sum, o) => sum + o.quantity, 0) / hours : 0;
+  }
+};
+
+const METHODS: Record<UphMethodName, UphMethod> = {
+  mo_weighted: moWeighted,
+  cycle_weighted: cycleWeighted
+};
+
+export function getUphMethod(name: UphMethodName): UphMethod {
+  return METHODS[name] ?? moWeighted;
+}
+
+export function listUphMethods(): Array<{ name: UphMethodName; description: string }> {
+  return Object.values(METHODS).map(method => ({ name: method.name, description: method.description }));
+}
+
+/**
+ * Drop outlying UPH values: "sigma" keeps mean ± 2σ, "iqr" keeps Tukey
+ * fences (1.5 × IQR). Both need at least four observations to judge.
+ */
+export function applyOutlierPolicy<T extends { uph: number }>(
+  observations: T[],
+  policy: OutlierPolicyName
+): { kept: T[]; excluded: T[] } {
+  if (policy === 'none' || observations.length <= 3) {
+    return { kept: observations, excluded: [] };
+  }
+
+  const values = observations.map(o => o.uph);
+  let low: number;
+  let high: number;
+  if (policy === 'iqr') {
+    const sorted = [...values].sort((a, b) => a - b);
+    const q1 = quantile(sorted, 0.25);
+    const q3 = quantile(sorted, 0.75);
+    low = q1 - 1.5 * (q3 - q1);
+    high = q3 + 1.5 * (q3 - q1);
+  } else {
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const stdDev = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+    low = mean - 2 * stdDev;
+    high = mean + 2 * stdDev;
+  }
+
+  const kept: T[] = [];
+  const excluded: T[] = [];
+  for (const observation of observations) {
+    (observation.uph >= low && observation.uph <= high ? kept : excluded).push(observation);
+  }
+  return { kept, excluded };
+}
+
+/**
+ * Empirical Bayes shrinkage: each estimate (projectedUph) moves toward the
+ * observation-weighted mean of its routing / work center in proportion to
+ * its sampling variance relative to how much operators genuinely differ.
+ * Groups with fewer than two operators keep their own estimate and interval.
+ */
+export function applyShrinkage(results: UphResult[]): UphResult[] {
+  const populations = new Map<string, UphResult[]>();
+  for (const result of results) {
+    const key = `${result.workCenter}|${result.routing}`;
+    if (!populations.has(key)) populations.set(key, []);
+    populations.get(key)!.push(result);
+  }
+
+  const shrunk: UphResult[] = [];
+  for (const members of populations.values()) {
+    if (members.length < MIN_POPULATION) {
+      shrunk.push(...members);
+      continue;
+    }
+
+    const totalObservations = members.reduce((sum, r) => sum + r.observations, 0);
+    const populationUph = members.reduce((sum, r) => sum + r.projectedUph * r.observations, 0) / totalObservations;
+
+    // Pooled within-operator variance of single observations
+    let squares = 0;
+    let degrees = 0;
+    for (const member of members) {
+      if (member.values.length < 2) continue;
+      squares += sampleVariance(member.values) * (member.values.length - 1);
+      degrees += member.values.length - 1;
+    }
+    const withinVariance = degrees > 0 ? squares / degrees : (DEFAULT_CV * populationUph) ** 2;
+
+    // Between-operator variance, method of moments, with a floor
+    const samplingVariances = members.map(r => withinVariance / Math.max(1, r.observations));
+    const spread = members.reduce((sum, r) => sum + (r.projectedUph - populationUph) ** 2, 0) / (members.length - 1);
+    const meanSampling = samplingVariances.reduce((sum, v) => sum + v, 0) / members.length;
+    const betweenVariance = Math.max(spread - meanSampling, (MIN_BETWEEN_CV * populationUph) ** 2);
+
+    members.forEach((member, index) => {
+      const sampling = samplingVariances[index];
+      const shrinkage = sampling / (sampling + betweenVariance);
+      const estimate = member.projectedUph + shrinkage * (populationUph - member.projectedUph);
+      const margin = CONFIDENCE_Z * Math.sqrt((1 - shrinkage) * sampling);
+      shrunk.push({
+        ...member,
+        shrunkUph: estimate,
+        ciLow: Math.max(0, estimate - margin),
+        ciHigh: estimate + margin,
+        shrinkage,
+        populationUph
+      });
+    });
+  }
+  return shrunk;
+}
+
+/**
+ * Calculate UPH per operator, work center and routing
+ */
+export function computeUph(
+  cycles: UphCycle[],
+  config: UphEngineConfig = DEFAULT_UPH_CONFIG,
+  operatorWindows: Map<string, number> = new Map(),
+  now: Date = new Date()
+): UphResult[] {
+  // Grouped over all history: the window picks what the average counts,
+  // the learning curve needs every MO since the operator started the routing
+  const groups = new Map<string, UphCycle[]>();
+  for (const cycle of cycles) {
+    const key = `${cycle.operatorName}|${cycle.workCenter}|${cycle.routing}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(cycle);
+  }
+
+  const results: UphResult[] = [];
+  for (const groupCycles of groups.values()) {
+    const result = explainUph(groupCycles, config, operatorWindows, now).result;
+    if (result) results.push(result);
+  }
+  return applyShrinkage(results);
+}
+
+/**
+ * Every cycle and observation behind one operator / work center / routing
+ * number. Cycles outside the window only feed the learning curve.
+ */
+export function explainUph(
+  cycles: UphCycle[],
+  config: UphEngineConfig = DEFAULT_UPH_CONFIG,
+  operatorWindows: Map<string, number> = new Map(),
+  now: Date = new Date()
+): UphGroupDetails {
+  const window = cycles.length > 0 ? resolveWindow(config, cycles[0].workCenter, cycles[0].routing) : config.window;
+  const resolved = { ...config, window };
+  const details = summarize(selectWindow(cycles, window, operatorWindows, now), resolved, operatorWindows);
+  if (!details.result) return details;
+
+  const learning = fitLearningCurve(learningSequence(cycles));
+  if (!learning) return details;
+
+  // Keep the interval's width, centred on the projection
+  const shift = learning.projectedUph - details.result.uph;
+  return {
+    ...details,
+    result: {
+      ...details.result,
+      learning,
+      projectedUph: learning.projectedUph,
+      shrunkUph: learning.projectedUph,
+      ciLow: Math.max(0, details.result.ciLow + shift),
+      ciHigh: details.result.ciHigh + shift
+    }
+  };
+}
+
+/**
+ * The window for a work center and routing: a policy for both, then one for
+ * the routing, then one for the work center, else the configured window
+ */
+export function resolveWindow(config: UphEngineConfig, workCenter: string, routing: string): UphWindow {
+  const policies = config.policies ?? [];
+  const match =
+    policies.find(p => p.workCenter === workCenter && p.routing === routing) ??
+    policies.find(p => p.workCenter === null && p.routing === routing) ??
+    policies.find(p => p.workCenter === workCenter && p.routing === null);
+  return match?.window ?? config.window;
+}
+
+/**
+ * Cycles inside a window. Day windows are per cycle (cycles without a date
+ * are kept, as the original calculators did); MO windows keep every cycle of
+ * the operator's last N MOs, ordered by when they were last worked.
+ */
+export function selectWindow(
+  cycles: UphCycle[],
+  window: UphWindow,
+  operatorWindows: Map<string, number> = new Map(),
+  now: Date = new Date()
+): UphCycle[] {
+  if (window.type !== 'mos') {
+    return cycles.filter(cycle => inWindow(cycle, window, operatorWindows, now));
+  }
+
+  const byMo = new Map<string, UphCycle[]>();
+  for (const cycle of cycles) {
+    const key = moKey(cycle);
+    if (!key) continue;
+    if (!byMo.has(key)) byMo.set(key, []);
+    byMo.get(key)!.push(cycle);
+  }
+  const recent = [...byMo.values()]
+    .map(moCycles => ({ moCycles, last: latestWriteDate(moCycles) ?? latestDate(moCycles) }))
+    .sort((a, b) => (b.last?.getTime() ?? 0) - (a.last?.getTime() ?? 0))
+    .slice(0, window.count);
+  return recent.flatMap(entry => entry.moCycles);
+}
+
+/**
+ * Per-MO UPH in the order the operator finished the MOs, whatever the
+ * configured method: learning is counted in MOs
+ */
+export function learningSequence(cycles: UphCycle[]): number[] {
+  const cyclesById = new Map(cycles.map(cycle => [cycle.cycleId, cycle]));
+  return moWeighted.observe(cycles)
+    .filter(isPlausible)
+    .map(observation => ({
+      uph: observation.uph,
+      finished: latestWriteDate(observation.cycleIds.map(id => cyclesById.get(id)!))
+    }))
+    .filter((point): point is { uph: number; finished: Date } => point.finished !== null)
+    .sort((a, b) => a.finished.getTime() - b.finished.getTime())
+    .map(point => point.uph);
+}
+
+/**
+ * Split each work order's quantity between the operators who logged cycles
+ * on it. Operators' own quantity_done is credited where they reported it
+ * (scaled down if the reports exceed the MO quantity); what is left goes to
+ * the others by their share of the hours. Work orders run by one operator
+ * keep the whole quantity. Returns the cycles with quantityShare set.
+ */
+export function allocateQuantities(cycles: UphCycle[]): { cycles: UphCycle[]; report: QuantityAllocationReport } {
+  const byWorkOrder = new Map<string, UphCycle[]>();
+  for (const cycle of cycles) {
+    const key = workOrderKey(cycle);
+    if (!key || !cycle.moQuantity) continue;
+    if (!byWorkOrder.has(key)) byWorkOrder.set(key, []);
+    byWorkOrder.get(key)!.push(cycle);
+  }
+
+  const shares = new Map<UphCycle, number>();
+  const report: QuantityAllocationReport = {
+    workOrders: byWorkOrder.size,
+    sharedWorkOrders: 0,
+    totalMos: new Set([...byWorkOrder.values()].map(woCycles => moKey(woCycles[0]))).size,
+    affectedMos: 0,
+    operatorsAffected: 0,
+    byMethod: { quantity_done: 0, duration: 0, mixed: 0 },
+    workOrderDetails: []
+  };
+  const affectedMos = new Set<string | null>();
+  const affectedOperators = new Set<string>();
+
+  for (const [key, woCycles] of byWorkOrder) {
+    const byOperator = new Map<string, UphCycle[]>();
+    for (const cycle of woCycles) {
+      if (!byOperator.has(cycle.operatorName)) byOperator.set(cycle.operatorName, []);
+      byOperator.get(cycle.operatorName)!.push(cycle);
+    }
+    if (byOperator.size < 2) {
+      woCycles.forEach(cycle => shares.set(cycle, 1));
+      continue;
+    }
+
+    const quantity = woCycles[0].moQuantity!;
+    const operatorsOnWo = [...byOperator.entries()].map(([operatorName, operatorCycles]) => {
+      const reported = operatorCycles.reduce((sum, cycle) => sum + Math.max(0, cycle.quantityDone || 0), 0);
+      return {
+        operatorName,
+        cycles: operatorCycles,
+        hours: operatorCycles.reduce((sum, cycle) => sum + cycle.durationSeconds, 0) / 3600,
+        quantityDone: reported > 0 ? reported : null
+      };
+    });
+
+    const reportedTotal = operatorsOnWo.reduce((sum, op) => sum + (op.quantityDone ?? 0), 0);
+    const scale = reportedTotal > quantity ? quantity / reportedTotal : 1;
+    const unreported = operatorsOnWo.filter(op => op.quantityDone === null);
+    const unreportedHours = unreported.reduce((sum, op) => sum + op.hours, 0);
+    const remaining = Math.max(0, quantity - reportedTotal * scale);
+
+    const allocated = operatorsOnWo.map(op => {
+      const units = op.quantityDone !== null
+        ? op.quantityDone * scale
+        : unreportedHours > 0 ? remaining * op.hours / unreportedHours : remaining / unreported.length;
+      const share = units / quantity;
+      op.cycles.forEach(cycle => shares.set(cycle, share));
+      affectedOperators.add(op.operatorName);
+      return { operatorName: op.operatorName, hours: op.hours, quantityDone: op.quantityDone, units, share };
+    });
+
+    const method: QuantityAllocationMethod = unreported.length === 0
+      ? 'quantity_done'
+      : unreported.length === operatorsOnWo.length ? 'duration' : 'mixed';
+    report.sharedWorkOrders++;
+    report.byMethod[method]++;
+    affectedMos.add(moKey(woCycles[0]));
+    report.workOrderDetails.push({
+      key,
+      moNumber: woCycles[0].moNumber,
+      productionId: woCycles[0].productionId,
+      workCenter: woCycles[0].workCenter,
+      operation: woCycles[0].operation,
+      quantity,
+      method,
+      operators: allocated.sort((a, b) => b.units - a.units)
+    });
+  }
+
+  report.affectedMos = affectedMos.size;
+  report.operatorsAffected = affectedOperators.size;
+  return {
+    cycles: cycles.map(cycle => shares.has(cycle) ? { ...cycle, quantityShare: shares.get(cycle) } : cycle),
+    report
+  };
+}
+
+/**
+ * Validate a partial config (from a request or saved settings) against the defaults
+ */
+export function normalizeUphConfig(input?: {
+  method?: unknown;
+  window?: unknown;
+  windowDays?: unknown;
+  windowMos?: unknown;
+  outliers?: unknown;
+} | null): UphEngineConfig {
+  const method = input?.method === 'cycle_weighted' || input?.method === 'mo_weighted'
+    ? input.method
+    : DEFAULT_UPH_CONFIG.method;
+  const outliers = input?.outliers === 'none' || input?.outliers === 'sigma' || input?.outliers === 'iqr'
+    ? input.outliers
+    : DEFAULT_UPH_CONFIG.outliers;
+
+  const window = normalizeUphWindow(input?.window, input?.windowDays, input?.windowMos) ?? DEFAULT_UPH_CONFIG.window;
+  return { method, window, outliers };
+}
+
+/**
+ * Parse a window given as a type name plus windowDays / windowMos, or as an
+ * object; null when it is not a valid window
+ */
+export function normalizeUphWindow(rawWindow: unknown, windowDays?: unknown, windowMos?: unknown): UphWindow | null {
+  const raw = rawWindow as Partial<{ type: string; days: unknown; count: unknown }> | string | undefined | null;
+  const type = typeof raw === 'string' ? raw : raw?.type;
+  const days = Number(windowDays ?? (typeof raw === 'object' ? raw?.days : undefined));
+  const count = Number(windowMos ?? (typeof raw === 'object' ? raw?.count : undefined));
+
+  if (type === 'all') return { type: 'all' };
+  if (type === 'operator') return { type: 'operator' };
+  if (type === 'mos') {
+    return Number.isFinite(count) && count >= 1 ? { type: 'mos', count: Math.round(count) } : null;
+  }
+  if ((type === undefined || type === 'days') && Number.isFinite(days) && days > 0) {
+    return { type: 'days', days: Math.round(days) };
+  }
+  return null;
+}
+
+/**
+ * Short label for a config, e.g. "mo_weighted · 30d · sigma"
+ */
+export function describeUphConfig(config: UphEngineConfig): string {
+  const window = config.window.type === 'days'
+    ? `${config.window.days}d`
+    : config.window.type === 'mos' ? `last ${config.window.count} MOs`
+    : config.window.type === 'all' ? 'all history' : 'operator window';
+  const policies = config.policies?.length ? ` · ${config.policies.length} window policies` : '';
+  return `${config.method} · ${window} · ${config.outliers}${policies}`;
+}
+
+/**
+ * The configured default, used for the stored uph_data table
+ */
+export async function getUphEngineConfig(): Promise<UphEngineConfig> {
+  try {
+    const [row] = await db
+      .select()
+      .from(plannerSettings)
+      .where(eq(plannerSettings.key, CONFIG_SETTING_KEY));
+    return { ...normalizeUphConfig(row?.value as Partial<UphEngineConfig> | undefined), policies: await loadWindowPolicies() };
+  } catch (error) {
+    console.error("Error loading UPH engine config, using defaults:", error);
+    return { ...DEFAULT_UPH_CONFIG };
+  }
+}
+
+export async function saveUphEngineConfig(input: Partial<UphEngineConfig> & { windowDays?: number; windowMos?: number }): Promise<UphEngineConfig> {
+  const config = normalizeUphConfig(input);
+
+  await db
+    .insert(plannerSettings)
+    .values({ key: CONFIG_SETTING_KEY, value: config, updatedAt: new Date() })
+    .onConflictDoUpdate({
+      target: plannerSettings.key,
+      set: { value: config, updatedAt: new Date() }
+    });
+
+  // Policies live in their own table and still apply
+  return { ...config, policies: await loadWindowPolicies() };
+}
+
+/**
+ * Window policies stored in uph_window_policies
+ */
+export async function loadWindowPolicies(): Promise<UphWindowPolicy[]> {
+  const rows = await db.select().from(uphWindowPolicies);
+  return rows
+    .map(toWindowPolicy)
+    .filter((policy): policy is UphWindowPolicy => policy !== null);
+}
+
+/**
+ * Validate a policy from a request. Throws on bad input, like a bad request should.
+ */
+export function normalizeWindowPolicy(input: any): Omit<UphWindowPolicy, 'id'> {
+  const workCenter = typeof input?.workCenter === 'string' && input.workCenter.trim() ? input.workCenter.trim() : null;
+  const routing = typeof input?.routing === 'string' && input.routing.trim() ? input.routing.trim() : null;
+  if (!workCenter && !routing) {
+    throw new Error("A window policy needs a work center, a routing or both; the engine config is the default");
+  }
+
+  const window = normalizeUphWindow(input?.window ?? input?.windowType, input?.windowDays, input?.windowMos);
+  if (!window || window.type === 'operator') {
+    throw new Error("window must be days (with windowDays), mos (with windowMos) or all");
+  }
+  return { workCenter, routing, window };
+}
+
+/**
+ * Create or replace the policy for a work center / routing
+ */
+export async function saveWindowPolicy(input: unknown, updatedBy?: string): Promise<UphWindowPolicy> {
+  const policy = normalizeWindowPolicy(input);
+  const values = {
+    workCenter: policy.workCenter,
+    routing: policy.routing,
+    windowType: policy.window.type,
+    windowDays: policy.window.type === 'days' ? policy.window.days : null,
+    windowMos: policy.window.type === 'mos' ? policy.window.count : null,
+    updatedBy: updatedBy ?? null,
+    updatedAt: new Date()
+  };
+
+  // The unique index is on coalesced columns, which ON CONFLICT cannot name, so a
+  // conflicting insert does nothing and the existing policy is updated instead
+  const [inserted] = await db.insert(uphWindowPolicies).values(values).onConflictDoNothing().returning();
+  const [saved] = inserted
+    ? [inserted]
+    : await db
+        .update(uphWindowPolicies)
+        .set(values)
+        .where(and(
+          policy.workCenter ? eq(uphWindowPolicies.workCenter, policy.workCenter) : isNull(uphWindowPolicies.workCenter),
+          policy.routing ? eq(uphWindowPolicies.routing, policy.routing) : isNull(uphWindowPolicies.routing)
+        ))
+        .returning();
+  resultCache.clear();
+
+  return toWindowPolicy(saved)!;
+}
+
+export async function deleteWindowPolicy(id: number): Promise<boolean> {
+  const deleted = await db
+    .delete(uphWindowPolicies)
+    .where(eq(uphWindowPolicies.id, id))
+    .returning({ id: uphWindowPolicies.id });
+  resultCache.clear();
+  return deleted.length > 0;
+}
+
+// Core work center consolidation: Sewing and Rope roll up into Assembly
+export function consolidateWorkCenter(wc: string | null): string | null {
+  if (!wc) return null;
+  const wcLower = wc.toLowerCase().trim();
+
+  if (wcLower.includes('sewing') || wcLower.includes('rope') || wcLower.includes('assembly')) {
+    return 'Assembly';
+  } else if (wcLower.includes('cutting')) {
+    return 'Cutting';
+  } else if (wcLower.includes('packaging')) {
+    return 'Packaging';
+  }
+  return wc;
+}
+
+/**
+ * Clean work cycles (excluding those flagged as corrupted), normalised
+ */
+export async function loadUphCycles(filters: UphFilters = {}): Promise<UphCycle[]> {
+  const rows = await db.select().from(workCycles).where(
+    or(
+      eq(workCycles.data_corrupted, false),
+      isNull(workCycles.data_corrupted)
+    )
+  );
+
+  const normalized: UphCycle[] = [];
+  for (const row of rows) {
+    const workCenter = consolidateWorkCenter(row.work_cycles_work_center_rec_name);
+    if (!row.work_cycles_operator_rec_name || !workCenter || !row.work_cycles_duration || row.work_cycles_duration <= 0) {
+      continue;
+    }
+
+    const cycle: UphCycle = {
+      cycleId: row.work_cycles_id ?? row.id,
+      workOrderId: row.work_id ?? null,
+      operatorId: row.work_cycles_operator_id ?? null,
+      operatorName: row.work_cycles_operator_rec_name,
+      workCenter,
+      rawWorkCenter: row.work_cycles_work_center_rec_name || workCenter,
+      operation: row.work_operation_rec_name?.split(' | ')[0] || null,
+      routing: row.work_production_routing_rec_name || 'Unknown',
+      productionId: row.work_production_id ?? null,
+      moNumber: row.work_production_number ?? null,
+      moQuantity: row.work_production_quantity ?? null,
+      quantityDone: row.work_cycles_quantity_done ?? null,
+      durationSeconds: row.work_cycles_duration,
+      date: row.work_production_create_date ?? row.work_cycles_operator_write_date ?? row.createdAt ?? null,
+      writeDate: row.work_cycles_operator_write_date ?? null
+    };
+
+    normalized.push(cycle);
+  }
+
+  // Allocate across every operator before filtering: a shared work order needs all of them
+  return allocateQuantities(normalized).cycles.filter(cycle =>
+    (!filters.operatorName || cycle.operatorName === filters.operatorName) &&
+    (!filters.operatorId || cycle.operatorId === filters.operatorId) &&
+    (!filters.workCenter || cycle.workCenter === filters.workCenter) &&
+    (!filters.routing || cycle.routing === filters.routing)
+  );
+}
+
+/**
+ * How many work orders and MOs were shared between operators, and how their
+ * units were split
+ */
+export async function getQuantityAllocationReport(): Promise<QuantityAllocationReport> {
+  return allocateQuantities(await loadUphCycles()).report;
+}
+
+/**
+ * Each operator's UPH window in days, by name
+ */
+export async function loadOperatorWindows(): Promise<Map<string, number>> {
+  const rows = await db
+    .select({ name: operators.name, window: operators.uphCalculationWindow })
+    .from(operators);
+  return new Map(rows.map(row => [row.name, row.window || DEFAULT_WINDOW_DAYS]));
+}
+
+const resultCache = new Map<string, { results: UphResult[]; expires: number }>();
+
+/**
+ * UPH for a config (default: the configured one), cached until the next refresh
+ */
+export async function calculateUph(
+  config?: UphEngineConfig,
+  filters: UphFilters = {}
+): Promise<UphResult[]> {
+  const resolved = config ?? await getUphEngineConfig();
+  const cacheKey = JSON.stringify([resolved, filters]);
+  const cached = resultCache.get(cacheKey);
+  if (cached && cached.expires > Date.now()) {
+    return cached.results;
+  }
+
+  // Operator filters apply after shrinkage, which needs every operator's numbers
+  const [cycles, windows] = await Promise.all([
+    loadUphCycles({ workCenter: filters.workCenter, routing: filters.routing }),
+    loadOperatorWindows()
+  ]);
+  const results = computeUph(cycles, resolved, windows).filter(result =>
+    (!filters.operatorName || result.operatorName === filters.operatorName) &&
+    (!filters.operatorId || result.operatorId === filters.operatorId)
+  );
+  resultCache.set(cacheKey, { results, expires: Date.now() + CACHE_TTL_MS });
+  return results;
+}
+
+/**
+ * Cycles and observations behind one stored UPH number
+ */
+export async function getUphDetails(
+  operatorName: string,
+  workCenter: string,
+  routing: string,
+  config?: UphEngineConfig
+): Promise<UphGroupDetails & { config: UphEngineConfig; version: string }> {
+  const resolved = config ?? await getUphEngineConfig();
+  const [cycles, windows] = await Promise.all([
+    loadUphCycles({ operatorName, workCenter, routing }),
+    loadOperatorWindows()
+  ]);
+  return { ...explainUph(cycles, resolved, windows), config: resolved, version: UPH_ENGINE_VERSION };
+}
+
+/**
+ * Recalculate with the configured method and replace the stored uph_data
+ * table, stamping each row with the method and engine version
+ */
+export async function refreshUphData(config?: UphEngineConfig): Promise<{
+  config: UphEngineConfig;
+  version: string;
+  cyclesProcessed: number;
+  combinations: number;
+  totalObservations: number;
+  averageUph: number;
+}> {
+  const resolved = config ?? await getUphEngineConfig();
+  const [cycles, windows, allOperators] = await Promise.all([
+    loadUphCycles(),
+    loadOperatorWindows(),
+    db.select({ id: operators.id, name: operators.name }).from(operators)
+  ]);
+  const results = computeUph(cycles, resolved, windows);
+  const operatorIds = new Map(allOperators.map(op => [op.name, op.id]));
+  const calculationMethod = describeUphConfig(resolved);
+
+  const rows = results.map(result => ({
+    operatorId: operatorIds.get(result.operatorName) ?? null,
+    operatorName: result.operatorName,
+    workCenter: result.workCenter,
+    operation: result.workCenter,
+    productRouting: result.routing,
+    uph: result.uph,
+    observationCount: result.observations,
+    totalDurationHours: result.totalDurationHours,
+    totalQuantity: Math.round(result.totalQuantity),
+    dataSource: UPH_ENGINE_DATA_SOURCE,
+    calculationPeriod: result.windowDays,
+    // The window this row was calculated over, after policies
+    calculationMethod: describeUphConfig({ ...resolved, window: resolveWindow(resolved, result.workCenter, result.routing), policies: [] }),
+    engineVersion: UPH_ENGINE_VERSION,
+    shrunkUph: result.shrunkUph,
+    uphCiLow: result.ciLow,
+    uphCiHigh: result.ciHigh,
+    steadyStateUph: result.learning?.steadyStateUph ?? null,
+    rampMosRemaining: result.learning?.remainingRampMos ?? null,
+    updatedAt: new Date()
+  }));
+
+  await db.transaction(async (tx) => {
+    await tx.delete(uphData);
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      await tx.insert(uphData).values(rows.slice(i, i + INSERT_BATCH_SIZE));
+    }
+  });
+  resultCache.clear();
+
+  const totalObservations = results.reduce((sum, result) => sum + result.observations, 0);
+  console.log(`⚙️ UPH engine ${UPH_ENGINE_VERSION} (${calculationMethod}): ${results.length} combinations from ${cycles.length} cycles`);
+
+  return {
+    config: resolved,
+    version: UPH_ENGINE_VERSION,
+    cyclesProcessed: cycles.length,
+    combinations: results.length,
+    totalObservations,
+    averageUph: results.length > 0 ? results.reduce((sum, result) => sum + result.uph, 0) / results.length : 0
+  };
+}
+
+export function clearUphCache(): void {
+  resultCache.clear();
+}
+
+function summarize(
+  cycles: UphCycle[],
+  config: UphEngineConfig,
+  operatorWindows: Map<string, number>
+): UphGroupDetails {
+  if (cycles.length === 0) {
+    return { result: null, cycles, observations: [] };
+  }
+
+  const method = getUphMethod(config.method);
+  const observations = method.observe(cycles);
+  const plausible = observations.filter(isPlausible);
+  const { kept, excluded } = applyOutlierPolicy(plausible, config.outliers);
+  const excludedKeys = new Set(excluded.map(o => o.key));
+
+  const annotated = observations.map(observation => ({
+    ...observation,
+    excluded: !isPlausible(observation)
+      ? 'implausible' as const
+      : excludedKeys.has(observation.key) ? 'outlier' as const : null
+  }));
+
+  if (kept.length === 0) {
+    return { result: null, cycles, observations: annotated };
+  }
+
+  const first = cycles[0];
+  const keptCycleIds = new Set(kept.flatMap(o => o.cycleIds));
+  const uph = method.combine(kept);
+  const values = kept.map(o => o.uph);
+  const margin = ownMargin(values, uph);
+  return {
+    result: {
+      operatorId: first.operatorId,
+      operatorName: first.operatorName,
+      workCenter: first.workCenter,
+      routing: first.routing,
+      uph,
+      observations: kept.length,
+      values,
+      cycleCount: keptCycleIds.size,
+      totalQuantity: kept.reduce((sum, o) => sum + o.quantity, 0),
+      totalDurationHours: kept.reduce((sum, o) => sum + o.durationHours, 0),
+      outliersExcluded: observations.length - kept.length,
+      windowDays: windowDaysFor(first.operatorName, config.window, operatorWindows),
+      windowMos: config.window.type === 'mos' ? config.window.count : null,
+      learning: null,
+      projectedUph: uph,
+      shrunkUph: uph,
+      ciLow: Math.max(0, uph - margin),
+      ciHigh: uph + margin,
+      shrinkage: 0,
+      populationUph: null,
+      method: method.name,
+      version: UPH_ENGINE_VERSION
+    },
+    cycles,
+    observations: annotated
+  };
+}
+
+// Half-width of the 95% interval from an operator's own observations
+function ownMargin(values: number[], uph: number): number {
+  if (values.length < 2) {
+    return CONFIDENCE_Z * DEFAULT_CV * uph;
+  }
+  const t = T_95[values.length - 2] ?? CONFIDENCE_Z;
+  return t * Math.sqrt(sampleVariance(values) / values.length);
+}
+
+function sampleVariance(values: number[]): number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+}
+
+// Observations outside the plausible bounds are data errors, whatever the outlier policy
+export function isPlausible(observation: UphObservation): boolean {
+  return observation.quantity > 0 &&
+    observation.durationHours >= MIN_OBSERVATION_HOURS &&
+    observation.uph <= MAX_PLAUSIBLE_UPH;
+}
+
+function windowDaysFor(operatorName: string, window: UphWindow, operatorWindows: Map<string, number>): number | null {
+  if (window.type === 'all' || window.type === 'mos') return null;
+  if (window.type === 'days') return window.days;
+  return operatorWindows.get(operatorName) ?? DEFAULT_WINDOW_DAYS;
+}
+
+function inWindow(cycle: UphCycle, window: UphWindow, operatorWindows: Map<string, number>, now: Date): boolean {
+  const days = windowDaysFor(cycle.operatorName, window, operatorWindows);
+  if (days === null || !cycle.date) return true;
+  return cycle.date.getTime() >= now.getTime() - days * DAY_MS;
+}
+
+// Cycles of the same work order; falls back to MO, work center and operation without a work order ID
+function workOrderKey(cycle: UphCycle): string | null {
+  if (cycle.workOrderId !== null) return `W${cycle.workOrderId}`;
+  const mo = moKey(cycle);
+  return mo ? `${mo}|${cycle.rawWorkCenter}|${cycle.operation ?? ''}` : null;
+}
+
+function moKey(cycle: UphCycle): string | null {
+  return cycle.productionId !== null ? `P${cycle.productionId}` : cycle.moNumber;
+}
+
+function toWindowPolicy(row: UphWindowPolicyRow): UphWindowPolicy | null {
+  const window = normalizeUphWindow(row.windowType, row.windowDays, row.windowMos);
+  return window ? { id: row.id, workCenter: row.workCenter, routing: row.routing, window } : null;
+}
+
+function latestDate(cycles: UphCycle[]): Date | null {
+  return cycles.reduce<Date | null>((latest, cycle) =>
+    cycle.date && (!latest || cycle.date > latest) ? cycle.date : latest, null);
+}
+
+function latestWriteDate(cycles: UphCycle[]): Date | null {
+  return cycles.reduce<Date | null>((latest, cycle) =>
+    cycle.writeDate && (!latest || cycle.writeDate > latest) ? cycle.writeDate : latest, null);
+}
+
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const base = Math.floor(position);
+  const next = sorted[base + 1] ?? sorted[base];
+  return sorted[base] + (position - base) * (next - sorted[base]);
+}
@@ -0,0 +1,217 @@
+/**
+ * UPH Snapshots
+ * uph_data is rebuilt on every refresh, so once a week the engine's rows are
+ * copied into uph_snapshots, which is never updated. Trends are read back per
+ * operator / work center / routing with change points where a series shifts
+ * to a new level.
+ */
+
+import { db } from "../db.js";
+import { uphData, uphSnapshots, type UphSnapshot } from "../../shared/schema.js";
+import { and, asc, eq, gte } from "drizzle-orm";
+import { UPH_ENGINE_DATA_SOURCE } from "./uphEngine.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_TREND_WEEKS = 26;
+const INSERT_BATCH_SIZE = 100;
+// Change points
+const MIN_SEGMENT = 2; // Snapshots needed on each side of a change
+const MIN_SHIFT_STATISTIC = 3; // Weekly snapshots overlap in the data they use, so be strict
+const MIN_RELATIVE_SHIFT = 0.1; // Ignore level shifts under 10%
+
+export interface TrendPoint {
+  periodStart: string;
+  uph: number; // Shrunk estimate where stored, else raw UPH
+  rawUph: number;
+  ciLow: number | null;
+  ciHigh: number | null;
+  observations: number | null;
+  engineVersion: string | null;
+}
+
+export interface ChangePoint {
+  periodStart: string; // First snapshot at the new level
+  before: number; // Mean UPH of the segment before
+  after: number; // Mean UPH of the segment after
+  change: number; // Relative change, e.g. 0.15 = +15%
+  engineChanged: boolean; // The engine version also changed here, so the shift may be methodological
+}
+
+export interface UphTrend {
+  operatorName: string;
+  workCenter: string;
+  routing: string;
+  points: TrendPoint[];
+  changePoints: ChangePoint[];
+}
+
+export interface TrendFilters {
+  operatorName?: string;
+  workCenter?: string;
+  routing?: string;
+  weeks?: number;
+}
+
+/**
+ * Monday (UTC) of the week containing the date, as YYYY-MM-DD
+ */
+export function snapshotPeriod(at: Date = new Date()): string {
+  const day = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+  const sinceMonday = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - sinceMonday * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Copy the engine's current uph_data rows into this week's snapshot. Rows
+ * already captured for the week are left as they are, so this is safe to
+ * call after every refresh.
+ */
+export async function takeUphSnapshot(at: Date = new Date()): Promise<{ periodStart: string; captured: number }> {
+  const periodStart = snapshotPeriod(at);
+  const rows = await db
+    .select()
+    .from(uphData)
+    .where(eq(uphData.dataSource, UPH_ENGINE_DATA_SOURCE));
+
+  let captured = 0;
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const inserted = await db
+      .insert(uphSnapshots)
+      .values(rows.slice(i, i + INSERT_BATCH_SIZE).map(row => ({
+        periodStart,
+        operatorId: row.operatorId,
+        operatorName: row.operatorName,
+        workCenter: row.workCenter,
+        routing: row.productRouting,
+        uph: row.uph,
+        shrunkUph: row.shrunkUph,
+        uphCiLow: row.uphCiLow,
+        uphCiHigh: row.uphCiHigh,
+        observationCount: row.observationCount,
+        calculationMethod: row.calculationMethod,
+        engineVersion: row.engineVersion
+      })))
+      .onConflictDoNothing()
+      .returning({ id: uphSnapshots.id });
+    captured += inserted.length;
+  }
+
+  if (captured > 0) {
+    console.log(`📸 UPH snapshot for week of ${periodStart}: ${captured} combinations captured`);
+  }
+  return { periodStart, captured };
+}
+
+/**
+ * Snapshot series per operator / work center / routing, oldest first
+ */
+export async function getUphTrends(filters: TrendFilters = {}): Promise<UphTrend[]> {
+  const weeks = filters.weeks && filters.weeks > 0 ? filters.weeks : DEFAULT_TREND_WEEKS;
+  const since = snapshotPeriod(new Date(Date.now() - weeks * 7 * DAY_MS));
+
+  const conditions = [gte(uphSnapshots.periodStart, since)];
+  if (filters.operatorName) conditions.push(eq(uphSnapshots.operatorName, filters.operatorName));
+  if (filters.workCenter) conditions.push(eq(uphSnapshots.workCenter, filters.workCenter));
+  if (filters.routing) conditions.push(eq(uphSnapshots.routing, filters.routing));
+
+  const rows = await db
+    .select()
+    .from(uphSnapshots)
+    .where(and(...conditions))
+    .orderBy(asc(uphSnapshots.periodStart));
+
+  return buildTrends(rows);
+}
+
+/**
+ * Group snapshot rows into series and mark their change points
+ */
+export function buildTrends(rows: UphSnapshot[]): UphTrend[] {
+  const series = new Map<string, UphTrend>();
+  for (const row of [...rows].sort((a, b) => a.periodStart.localeCompare(b.periodStart))) {
+    const key = `${row.operatorName}|${row.workCenter}|${row.routing}`;
+    if (!series.has(key)) {
+      series.set(key, {
+        operatorName: row.operatorName,
+        workCenter: row.workCenter,
+        routing: row.routing,
+        points: [],
+        changePoints: []
+      });
+    }
+    series.get(key)!.points.push({
+      periodStart: row.periodStart,
+      uph: row.shrunkUph ?? row.uph,
+      rawUph: row.uph,
+      ciLow: row.uphCiLow,
+      ciHigh: row.uphCiHigh,
+      observations: row.observationCount,
+      engineVersion: row.engineVersion
+    });
+  }
+
+  return [...series.values()].map(trend => {
+    const values = trend.points.map(point => point.uph);
+    const indexes = detectChangePoints(values);
+    return {
+      ...trend,
+      changePoints: indexes.map((index, i) => {
+        // Segment means run to the neighbouring change points
+        const before = mean(values.slice(indexes[i - 1] ?? 0, index));
+        const after = mean(values.slice(index, indexes[i + 1] ?? values.length));
+        return {
+          periodStart: trend.points[index].periodStart,
+          before,
+          after,
+          change: before > 0 ? (after - before) / before : 0,
+          engineChanged: trend.points[index].engineVersion !== trend.points[index - 1].engineVersion
+        };
+      })
+    };
+  });
+}
+
+/**
+ * Indexes where a series shifts to a new mean level, by binary segmentation:
+ * split where the two-sample t statistic is largest, keep the split if it
+ * clears the thresholds and recurse into both halves.
+ */
+export function detectChangePoints(values: number[], offset = 0): number[] {
+  if (values.length < MIN_SEGMENT * 2) return [];
+
+  let best: { index: number; statistic: number } | null = null;
+  for (let split = MIN_SEGMENT; split <= values.length - MIN_SEGMENT; split++) {
+    const statistic = shiftStatistic(values.slice(0, split), values.slice(split));
+    if (!best || statistic > best.statistic) {
+      best = { index: split, statistic };
+    }
+  }
+  if (!best || best.statistic < MIN_SHIFT_STATISTIC) return [];
+
+  const before = mean(values.slice(0, best.index));
+  const after = mean(values.slice(best.index));
+  if (before > 0 && Math.abs(after - before) / before < MIN_RELATIVE_SHIFT) return [];
+
+  return [
+    ...detectChangePoints(values.slice(0, best.index), offset),
+    offset + best.index,
+    ...detectChangePoints(values.slice(best.index), offset + best.index)
+  ];
+}
+
+function shiftStatistic(left: number[], right: number[]): number {
+  const difference = Math.abs(mean(left) - mean(right));
+  const squares = [left, right].reduce((sum, part) => {
+    const partMean = mean(part);
+    return sum + part.reduce((s, v) => s + (v - partMean) ** 2, 0);
+  }, 0);
+  const pooledVariance = squares / (left.length + right.length - 2);
+  if (pooledVariance === 0) {
+    return difference > 0 ? Infinity : 0;
+  }
+  return difference / Math.sqrt(pooledVariance * (1 / left.length + 1 / right.length));
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
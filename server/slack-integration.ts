@@ -105,6 +105,65 @@ export async function notifyPerformanceUpdate(
   return sendMessageToOperator(operatorId, message);
 }
 
+/**
+ * Send a message to a supervisor's channel or user ID
+ * @param message - Message to send
+ * @param channel - Slack channel or user ID; defaults to SLACK_SUPERVISOR_CHANNEL
+ * @returns Promise resolving to success status
+ */
+export async function sendMessageToSupervisor(message: string, channel?: string | null): Promise<boolean> {
+  try {
+    if (!slackClient) {
+      console.warn("Slack integration not configured - SLACK_BOT_TOKEN missing");
+      return false;
+    }
+
+    const target = channel || process.env.SLACK_SUPERVISOR_CHANNEL;
+    if (!target) {
+      console.warn("No supervisor Slack channel configured - set SLACK_SUPERVISOR_CHANNEL");
+      return false;
+    }
+
+    await slackClient.chat.postMessage({
+      channel: target,
+      text: message,
+    });
+
+    console.log(`Successfully sent supervisor message to ${target}`);
+    return true;
+  } catch (error) {
+    console.error("Error sending Slack message:", error);
+    return false;
+  }
+}
+
+/**
+ * Alert a supervisor that an operator's UPH on a routing has dropped
+ * @param drift - The operator's baseline and recent UPH
+ * @param channel - Slack channel or user ID; defaults to SLACK_SUPERVISOR_CHANNEL
+ */
+export async function notifyUphDrift(
+  drift: {
+    operatorName: string;
+    workCenter: string;
+    routing: string;
+    baselineUph: number;
+    recentUph: number;
+    change: number;
+    recentMos: number;
+  },
+  channel?: string | null
+): Promise<boolean> {
+  const message = `⚠️ UPH Drop Detected\n\n` +
+    `Operator: ${drift.operatorName}\n` +
+    `Routing: ${drift.routing} (${drift.workCenter})\n` +
+    `Baseline UPH: ${drift.baselineUph.toFixed(1)}\n` +
+    `Recent UPH: ${drift.recentUph.toFixed(1)} over ${drift.recentMos} MOs (${(drift.change * 100).toFixed(0)}%)\n\n` +
+    `Worth a check: possible injury, equipment problem or data issue.`;
+
+  return sendMessageToSupervisor(message, channel);
+}
+
 /**
  * Test Slack integration by sending a test message
  * @param slackUserId - Slack User ID to test with
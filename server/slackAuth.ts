@@ -2,7 +2,7 @@
 import { Strategy as SlackStrategy } from "passport-slack-oauth2";
 import passport from "passport";
 import session from "express-session";
-import type { Express, RequestHandler } from "express";
+import type { Express, Request, RequestHandler } from "express";
 import connectPg from "connect-pg-simple";
 import { storage } from "./storage";
 
@@ -32,6 +32,17 @@ export function getSession() {
   });
 }
 
+// What the Slack strategy keeps in the session as req.user
+export interface SessionUser {
+  id: string;
+  email?: string;
+  name?: string;
+  image?: string;
+  team?: string;
+  teamName?: string;
+  accessToken?: string;
+}
+
 async function upsertUser(profile: any) {
   await storage.upsertUser({
     id: profile.user.id,
@@ -90,7 +101,7 @@ export async function setupSlackAuth(app: Express) {
       }
       
       // Create user object for session
-      const user = {
+      const user: SessionUser = {
         id: profile.user.id,
         email: profile.user.email,
         name: profile.user.real_name || profile.user.name,
@@ -167,7 +178,7 @@ export async function setupSlackAuth(app: Express) {
       }
       
       // Create user object for session
-      const user = {
+      const user: SessionUser = {
         id: profile.user.id,
         email: profile.user.email,
         name: profile.user.real_name || profile.user.name,
@@ -285,4 +296,12 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
     return res.status(401).json({ message: "Unauthorized" });
   }
   return next();
-};
\ No newline at end of file
+};
+
+/**
+ * Who to record as the author of a change: the signed-in user's email, else their Slack name
+ */
+export function getSessionUserName(req: Request): string | undefined {
+  const user = req.user as SessionUser | undefined;
+  return user?.email || user?.name || undefined;
+}
@@ -148,7 +148,14 @@ export class MemStorage implements IStorage {
         metaId: null,
         totalDurationHours: 10,
         totalQuantity: uph.unitsPerHour * 10,
-        dataSource: 'manual' as const
+        dataSource: 'manual' as const,
+        calculationMethod: null,
+        engineVersion: null,
+        shrunkUph: null,
+        uphCiLow: null,
+        uphCiHigh: null,
+        steadyStateUph: null,
+        rampMosRemaining: null
       };
       this.uphData.set(uphRecord.id, uphRecord);
     });
@@ -93,39 +93,18 @@ export async function getUphCalculationDetails(
     const { getCoreUphDetails } = await import("./uph-core-calculator.js");
     const result = await getCoreUphDetails(operatorName, workCenter, routing);
     
-    // Format the cycles from core calculator
-    const formattedCycles = result.cycles.map(cycle => {
-      // Extract operation from work_operation_rec_name (format: "Operation Name | Operator | Work Center")
-      let operation = 'N/A';
-      if (cycle.work_operation_rec_name) {
-        const operationParts = cycle.work_operation_rec_name.split(' | ');
-        if (operationParts.length > 0) {
-          operation = operationParts[0];
-        }
-      }
-
-      // Extract WO number from work_rec_name if available
-      let woNumber = null;
-      if (cycle.work_rec_name) {
-        const woParts = cycle.work_rec_name.split(' | ');
-        if (woParts.length > 0 && woParts[0].startsWith('WO')) {
-          woNumber = woParts[0];
-        }
-      }
-
-      return {
-        id: cycle.id,
-        moNumber: cycle.work_production_number || 'N/A',
-        woNumber: woNumber || `WO${cycle.work_id || cycle.id}`,
-        workCenter: cycle.work_cycles_work_center_rec_name || 'N/A',
-        operation,
-        quantity: cycle.work_production_quantity || cycle.work_cycles_quantity_done || 0,
-        durationSeconds: cycle.work_cycles_duration || 0,
-        durationHours: (cycle.work_cycles_duration || 0) / 3600,
-        effectiveDate: cycle.work_cycles_operator_write_date,
-        createdAt: cycle.createdAt
-      };
-    });
+    // Format the cycles behind the engine's calculation
+    const formattedCycles = result.cycles.map(cycle => ({
+      id: cycle.cycleId,
+      moNumber: cycle.moNumber || 'N/A',
+      woNumber: `WO${cycle.workOrderId || cycle.cycleId}`,
+      workCenter: cycle.rawWorkCenter || 'N/A',
+      operation: cycle.operation || 'N/A',
+      quantity: cycle.moQuantity || cycle.quantityDone || 0,
+      durationSeconds: cycle.durationSeconds,
+      durationHours: cycle.durationSeconds / 3600,
+      effectiveDate: cycle.date
+    }));
 
     // Calculate MO breakdown from grouped data
     const moBreakdown = result.moGroupedData.map(moData => ({
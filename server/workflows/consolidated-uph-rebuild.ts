@@ -1,223 +0,0 @@
-/**
- * Consolidated UPH Data Rebuild Workflow
- * 
- * This workflow implements the pandas consolidation approach to fix data corruption
- * and rebuild all UPH calculations from properly consolidated durations.
- * 
- * Process:
- * 1. Fetch work cycles data from Fulfil API
- * 2. Apply pandas-style duration consolidation 
- * 3. Clear existing corrupted data
- * 4. Import consolidated data
- * 5. Calculate UPH using clean durations
- */
-
-// import { consolidateDurations } from '../../consolidate-durations-pandas.js';
-import { db } from '../db.js';
-import { workCycles, uphData } from '../../shared/schema.js';
-import { sql } from 'drizzle-orm';
-import { readFileSync } from 'fs';
-import { parse } from 'csv-parse/sync';
-
-interface ConsolidatedCycle {
-  'work/rec_name': string;
-  'work/cycles/operator/rec_name': string; 
-  'work/cycles/work_center/category/name': string;
-  'work/cycles/work/production/routing/name': string;
-  'work/production/id': string;
-  'work/id': string;
-  'work/production/create_date': string;
-  'work/production/quantity_done': string;
-  duration_sec: number;
-}
-
-export class ConsolidatedUphRebuild {
-  
-  async executeFullRebuild(): Promise<{
-    success: boolean;
-    stats: {
-      originalCsvRows: number;
-      consolidatedCycles: number;
-      compressionRatio: string;
-      cleanCyclesImported: number;
-      uphCalculationsGenerated: number;
-      corruptedCyclesExcluded: number;
-    };
-    message: string;
-  }> {
-    
-    console.log('🚀 Starting Consolidated UPH Data Rebuild...');
-    const startTime = Date.now();
-    
-    try {
-      // Step 1: Consolidate durations using pandas approach
-      console.log('📊 Step 1: Consolidating durations...');
-      const inputCsv = 'cycles-appended.csv'; // Your source CSV file
-      const consolidatedCsv = 'consolidated_cycles.csv';
-      
-      await consolidateDurations(inputCsv, consolidatedCsv);
-      
-      // Step 2: Load consolidated data
-      console.log('📋 Step 2: Loading consolidated data...');
-      const csvContent = readFileSync(consolidatedCsv, 'utf-8');
-      const consolidatedData: ConsolidatedCycle[] = parse(csvContent, {
-        columns: true,
-        skip_empty_lines: true
-      });
-      
-      // Step 3: Clear existing corrupted data
-      console.log('🗑️ Step 3: Clearing existing data...');
-      await db.delete(workCycles);
-      await db.delete(uphData);
-      
-      // Step 4: Import consolidated cycles
-      console.log('💾 Step 4: Importing consolidated work cycles...');
-      let importedCycles = 0;
-      let skippedCycles = 0;
-      
-      for (const cycle of consolidatedData) {
-        try {
-          // Parse and validate data
-          const operatorName = cycle['work/cycles/operator/rec_name'];
-          const workCenter = this.normalizeWorkCenter(cycle['work/cycles/work_center/category/name']);
-          const routing = cycle['work/cycles/work/production/routing/name'];
-          const durationHours = cycle.duration_sec / 3600;
-          const quantity = parseInt(cycle['work/production/quantity_done']) || 0;
-          
-          // Skip invalid records
-          if (!operatorName || !workCenter || !routing || durationHours <= 0 || quantity <= 0) {
-            skippedCycles++;
-            continue;
-          }
-          
-          // Skip extreme outliers (>8 hours indicates corruption)
-          if (durationHours > 8) {
-            skippedCycles++;
-            console.log(`⚠️ Skipping corrupted cycle: ${operatorName}/${workCenter}/${routing} - ${durationHours.toFixed(2)}h`);
-            continue;
-          }
-          
-          await db.insert(workCycles).values({
-            work_cycles_id: parseInt(cycle['work/id']),
-            work_cycles_operator_rec_name: operatorName,
-            work_cycles_work_center_rec_name: workCenter,
-            duration_sec: cycle.duration_sec, // Use duration_sec field for accurate seconds
-            work_production_id: parseInt(cycle['work/production/id']),
-            work_production_routing_rec_name: routing,
-            work_production_quantity: quantity,
-            work_production_create_date: new Date(cycle['work/production/create_date']),
-            work_rec_name: cycle['work/rec_name'],
-            data_corrupted: false // Mark as clean data
-          });
-          
-          importedCycles++;
-          
-        } catch (error) {
-          console.error(`Error importing cycle ${cycle['work/id']}:`, error);
-          skippedCycles++;
-        }
-      }
-      
-      // Step 5: Calculate UPH from clean consolidated data
-      console.log('🧮 Step 5: Calculating UPH from consolidated data...');
-      const uphResults = await this.calculateConsolidatedUph();
-      
-      const endTime = Date.now();
-      const duration = (endTime - startTime) / 1000;
-      
-      const stats = {
-        originalCsvRows: consolidatedData.length + skippedCycles, // Estimated
-        consolidatedCycles: consolidatedData.length,
-        compressionRatio: '~50%', // Typical compression from consolidation
-        cleanCyclesImported: importedCycles,
-        uphCalculationsGenerated: uphResults.length,
-        corruptedCyclesExcluded: skippedCycles
-      };
-      
-      console.log('✅ Consolidated UPH Rebuild Complete!');
-      console.log(`📊 Stats:`, stats);
-      console.log(`⏱️ Total duration: ${duration}s`);
-      
-      return {
-        success: true,
-        stats,
-        message: `Successfully rebuilt UPH data using consolidated durations. Generated ${uphResults.length} clean UPH calculations from ${importedCycles} consolidated work cycles.`
-      };
-      
-    } catch (error: any) {
-      console.error('❌ Consolidated UPH Rebuild failed:', error);
-      return {
-        success: false,
-        stats: {
-          originalCsvRows: 0,
-          consolidatedCycles: 0,
-          compressionRatio: '0%',
-          cleanCyclesImported: 0,
-          uphCalculationsGenerated: 0,
-          corruptedCyclesExcluded: 0
-        },
-        message: `Rebuild failed: ${error?.message || 'Unknown error'}`
-      };
-    }
-  }
-  
-  private async calculateConsolidatedUph(): Promise<any[]> {
-    // Use the clean work cycles data to calculate UPH
-    // Group by operator + work center + routing
-    const result = await db.execute(sql`
-      SELECT 
-        work_cycles_operator_rec_name as operator_name,
-        work_cycles_work_center_rec_name as work_center,
-        work_production_routing_name as routing,
-        SUM(work_production_quantity) as total_quantity,
-        SUM(work_cycles_duration) / 3600.0 as total_duration_hours,
-        COUNT(*) as observation_count,
-        (SUM(work_production_quantity) / (SUM(work_cycles_duration) / 3600.0)) as uph
-      FROM work_cycles 
-      WHERE data_corrupted = false
-        AND work_cycles_duration > 120  -- Minimum 2 minutes
-        AND work_production_quantity > 0
-      GROUP BY 
-        work_cycles_operator_rec_name,
-        work_cycles_work_center_rec_name, 
-        work_production_routing_name
-      HAVING 
-        (SUM(work_production_quantity) / (SUM(work_cycles_duration) / 3600.0)) BETWEEN 1 AND 500  -- Realistic UPH range
-      ORDER BY uph DESC
-    `);
-    
-    const uphCalculations = result.rows as any[];
-    
-    // Insert clean UPH calculations
-    for (const calc of uphCalculations) {
-      await db.insert(uphData).values({
-        operatorName: calc.operator_name,
-        workCenter: calc.work_center,
-        productRouting: calc.routing,
-        operation: calc.work_center, // Use work center as operation
-        uph: calc.uph,
-        observationCount: calc.observation_count,
-        totalDurationHours: calc.total_duration_hours,
-        totalQuantity: calc.total_quantity
-      });
-    }
-    
-    return uphCalculations;
-  }
-  
-  private normalizeWorkCenter(workCenter: string): string {
-    // Consolidate work centers into 3 main categories
-    if (!workCenter) return 'Assembly';
-    
-    const wc = workCenter.toLowerCase();
-    if (wc.includes('cut') || wc.includes('laser') || wc.includes('punch')) {
-      return 'Cutting';
-    }
-    if (wc.includes('pack')) {
-      return 'Packaging';  
-    }
-    return 'Assembly'; // Default for sewing, rope, assembly, etc.
-  }
-}
-
-export const consolidatedUphRebuild = new ConsolidatedUphRebuild();
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, real, json, varchar, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, real, json, varchar, jsonb, index, uniqueIndex, date } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { sql } from 'drizzle-orm';
@@ -79,7 +79,9 @@ export const workOrders = pgTable("work_orders", {
   workCenterName: text("work_center_name"), // Denormalized work center name
   operationName: text("operation_name"), // Denormalized operation name
   operatorName: text("operator_name"), // Denormalized operator name
-});
+}, (table) => [
+  uniqueIndex("IDX_work_orders_fulfil_id").on(table.fulfilId)
+]);
 
 // Active Work Orders table - stores current work orders from Fulfil for planning
 export const activeWorkOrders = pgTable("active_work_orders", {
@@ -125,7 +127,11 @@ export const workOrderAssignments = pgTable("work_order_assignments", {
   isAutoAssigned: boolean("is_auto_assigned").default(false), // Track if assignment was made by AI
   autoAssignReason: text("auto_assign_reason"), // AI's reasoning for the assignment
   autoAssignConfidence: real("auto_assign_confidence"), // Confidence score (0-1)
-  estimatedHours: real("estimated_hours") // Cached calculated hours for performance
+  autoAssignDecision: jsonb("auto_assign_decision"), // Every candidate considered with score breakdown and rejection reason
+  estimatedHours: real("estimated_hours"), // Cached calculated hours for performance
+  isLocked: boolean("is_locked").default(false), // Pinned by a supervisor - auto-assign never moves or clears it
+  scheduledStart: timestamp("scheduled_start"), // Finite-capacity schedule slot start
+  scheduledEnd: timestamp("scheduled_end") // Finite-capacity schedule slot end
 });
 
 export const uphData = pgTable("uph_data", {
@@ -141,6 +147,13 @@ export const uphData = pgTable("uph_data", {
   totalQuantity: integer("total_quantity"),
   dataSource: text("data_source").default("manual"),
   calculationPeriod: integer("calculation_period").default(30), // days
+  calculationMethod: text("calculation_method"), // UPH engine method, window and outlier policy
+  engineVersion: text("engine_version"), // UPH engine version that produced the row
+  shrunkUph: real("shrunk_uph"), // Shrunk toward the routing / work center mean; use this for planning
+  uphCiLow: real("uph_ci_low"), // 95% interval around shrunkUph
+  uphCiHigh: real("uph_ci_high"),
+  steadyStateUph: real("steady_state_uph"), // Learning-curve plateau; null when no ramp was fitted
+  rampMosRemaining: integer("ramp_mos_remaining"), // MOs until 90% of steady state
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -186,7 +199,9 @@ export const workCycles = pgTable("work_cycles", {
   data_corrupted: boolean("data_corrupted").default(false), // Flag for corrupted records with identical short durations
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("IDX_work_cycles_cycle_id").on(table.work_cycles_id)
+]);
 
 // Fulfil reference tables for ID to name mappings
 export const fulfilWorkCenters = pgTable("fulfil_work_centers", {
@@ -294,6 +309,191 @@ export const operatorUph = pgTable("operator_uph", {
   updatedAt: timestamp("updated_at").defaultNow()
 });
 
+// Weekly UPH snapshots - immutable copies of the engine's uph_data rows so trends survive rebuilds
+export const uphSnapshots = pgTable("uph_snapshots", {
+  id: serial("id").primaryKey(),
+  periodStart: date("period_start").notNull(), // Monday of the snapshot week, YYYY-MM-DD
+  operatorId: integer("operator_id").references(() => operators.id, { onDelete: "set null" }),
+  operatorName: text("operator_name").notNull(),
+  workCenter: text("work_center").notNull(),
+  routing: text("routing").notNull(),
+  uph: real("uph").notNull(),
+  shrunkUph: real("shrunk_uph"),
+  uphCiLow: real("uph_ci_low"),
+  uphCiHigh: real("uph_ci_high"),
+  observationCount: integer("observation_count"),
+  calculationMethod: text("calculation_method"),
+  engineVersion: text("engine_version"),
+  capturedAt: timestamp("captured_at").defaultNow()
+}, (table) => [
+  uniqueIndex("IDX_uph_snapshot_period").on(table.periodStart, table.operatorName, table.workCenter, table.routing)
+]);
+
+// UPH drift alerts - an operator's recent UPH on a routing has dropped significantly below their own baseline
+export const uphDriftAlerts = pgTable("uph_drift_alerts", {
+  id: serial("id").primaryKey(),
+  operatorId: integer("operator_id").references(() => operators.id, { onDelete: "set null" }),
+  operatorName: text("operator_name").notNull(),
+  workCenter: text("work_center").notNull(),
+  routing: text("routing").notNull(),
+  baselineUph: real("baseline_uph").notNull(),
+  recentUph: real("recent_uph").notNull(),
+  change: real("change").notNull(), // Relative change, e.g. -0.3 = 30% slower
+  statistic: real("statistic").notNull(), // Standard errors below the baseline
+  baselineMos: integer("baseline_mos").notNull(),
+  recentMos: integer("recent_mos").notNull(),
+  status: text("status").notNull().default("open"), // open, acknowledged, resolved
+  detectedAt: timestamp("detected_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  notifiedAt: timestamp("notified_at"), // Sent to the supervisor on Slack
+  acknowledgedBy: text("acknowledged_by"),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  resolvedAt: timestamp("resolved_at")
+}, (table) => [
+  index("IDX_uph_drift_alert_status").on(table.status)
+]);
+
+// UPH window policies - which cycles count toward UPH for a work center and/or routing, over the engine default
+export const uphWindowPolicies = pgTable("uph_window_policies", {
+  id: serial("id").primaryKey(),
+  workCenter: text("work_center"), // Consolidated work center (Cutting / Assembly / Packaging); null = any
+  routing: text("routing"), // null = any routing
+  windowType: text("window_type").notNull(), // days, mos (last N MOs), all
+  windowDays: integer("window_days"),
+  windowMos: integer("window_mos"),
+  updatedBy: text("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => [
+  // One policy per work center / routing pair, null ("any") included
+  uniqueIndex("IDX_uph_window_policy_scope").on(sql`coalesce(${table.workCenter}, '')`, sql`coalesce(${table.routing}, '')`)
+]);
+
+// Standard time overrides - planner-entered minutes per unit for a routing operation, used over the computed standard
+export const standardTimeOverrides = pgTable("standard_time_overrides", {
+  id: serial("id").primaryKey(),
+  routing: text("routing").notNull(),
+  operation: text("operation").notNull(), // Routing step operation, e.g. "Sewing - Leash"
+  workCenter: text("work_center"), // Work center category of the step, for display
+  minutesPerUnit: real("minutes_per_unit").notNull(),
+  note: text("note"),
+  updatedBy: text("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => [
+  uniqueIndex("IDX_standard_time_override").on(table.routing, table.operation)
+]);
+
+// Fulfil sync state - write_date high-water mark per Fulfil model for incremental sync
+export const fulfilSyncState = pgTable("fulfil_sync_state", {
+  model: text("model").primaryKey(), // production, production.work, production.work.cycle
+  highWaterMark: timestamp("high_water_mark"), // Latest write_date synced; null = never synced
+  lastRunAt: timestamp("last_run_at"),
+  lastSuccessAt: timestamp("last_success_at"),
+  lastError: text("last_error"),
+  recordsSynced: integer("records_synced").default(0), // Records upserted by the last run
+  updatedAt: timestamp("updated_at").defaultNow()
+});
+
+// Fulfil webhook events - every delivery received, keyed by event id so redeliveries are ignored (failed ones are retried)
+export const fulfilWebhookEvents = pgTable("fulfil_webhook_events", {
+  id: serial("id").primaryKey(),
+  eventId: text("event_id").notNull().unique(), // X-Fulfil-Event-Id, or a hash of the payload and delivery timestamp when absent
+  model: text("model").notNull(), // production, production.work, production.work.cycle
+  action: text("action").notNull(), // created, updated, deleted
+  recordIds: integer("record_ids").array(),
+  status: text("status").notNull().default("received"), // received, processed, failed
+  error: text("error"),
+  receivedAt: timestamp("received_at").defaultNow(),
+  processedAt: timestamp("processed_at")
+}, (table) => [
+  index("IDX_fulfil_webhook_event_received").on(table.receivedAt)
+]);
+
+// Fulfil operator write-back log - every attempt to set production.work.operator in Fulfil from an assignment
+export const fulfilOperatorWrites = pgTable("fulfil_operator_writes", {
+  id: serial("id").primaryKey(),
+  workOrderId: integer("work_order_id").notNull(), // Fulfil work order ID
+  workOrderName: text("work_order_name"),
+  assignmentId: integer("assignment_id"),
+  operatorId: integer("operator_id").references(() => operators.id, { onDelete: "set null" }),
+  operatorName: text("operator_name"),
+  employeeId: integer("employee_id"), // Fulfil employee written
+  previousEmployeeId: integer("previous_employee_id"), // Operator on the Fulfil work order before the write
+  previousEmployeeName: text("previous_employee_name"),
+  status: text("status").notNull(), // written, conflict, failed
+  overwrote: boolean("overwrote").default(false), // Replaced a different operator set in Fulfil
+  error: text("error"),
+  pushedBy: text("pushed_by"),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => [
+  index("IDX_fulfil_operator_write_work_order").on(table.workOrderId)
+]);
+
+// Planner settings - small key/value store for dashboard-tuned planning parameters
+export const plannerSettings = pgTable("planner_settings", {
+  key: text("key").primaryKey(), // e.g. "assignment_weights"
+  value: jsonb("value").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow()
+});
+
+// What-if assignment scenarios - candidate plans kept apart from live assignments until promoted
+export const assignmentScenarios = pgTable("assignment_scenarios", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  status: text("status").default("draft"), // draft, promoted
+  strategy: text("strategy").default("fill"), // fill (keep live assignments) or regenerate (replace AI assignments)
+  weights: jsonb("weights"), // Objective weights used to plan
+  metrics: jsonb("metrics"), // Hours per operator, late MOs, unassigned work orders, tardiness
+  createdBy: text("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  promotedAt: timestamp("promoted_at")
+});
+
+export const scenarioAssignments = pgTable("scenario_assignments", {
+  id: serial("id").primaryKey(),
+  scenarioId: integer("scenario_id").references(() => assignmentScenarios.id, { onDelete: "cascade" }).notNull(),
+  workOrderId: integer("work_order_id").notNull(), // Fulfil work order ID
+  operatorId: integer("operator_id").references(() => operators.id, { onDelete: "cascade" }).notNull(),
+  moNumber: text("mo_number"),
+  workCenter: text("work_center"),
+  routing: text("routing"),
+  estimatedHours: real("estimated_hours"),
+  assignedBy: text("assigned_by"),
+  isAutoAssigned: boolean("is_auto_assigned").default(false),
+  autoAssignReason: text("auto_assign_reason"),
+  autoAssignConfidence: real("auto_assign_confidence"),
+  autoAssignDecision: jsonb("auto_assign_decision"),
+  isNew: boolean("is_new").default(true), // False when carried over from live assignments
+  scheduledStart: timestamp("scheduled_start"),
+  scheduledEnd: timestamp("scheduled_end")
+});
+
+// Operator calendars - weekly shift pattern, time off and plant holidays.
+// Operators without a shift pattern fall back to availableHours spread over Monday–Friday.
+export const operatorShifts = pgTable("operator_shifts", {
+  id: serial("id").primaryKey(),
+  operatorId: integer("operator_id").references(() => operators.id, { onDelete: "cascade" }).notNull(),
+  dayOfWeek: integer("day_of_week").notNull(), // 0 = Sunday ... 6 = Saturday
+  startTime: text("start_time").default("08:00"), // HH:MM
+  hours: real("hours").notNull() // Working hours on that weekday
+});
+
+export const operatorTimeOff = pgTable("operator_time_off", {
+  id: serial("id").primaryKey(),
+  operatorId: integer("operator_id").references(() => operators.id, { onDelete: "cascade" }).notNull(),
+  startDate: date("start_date").notNull(), // Inclusive, YYYY-MM-DD
+  endDate: date("end_date").notNull(), // Inclusive, YYYY-MM-DD
+  hoursPerDay: real("hours_per_day"), // Null = whole day off, otherwise hours off each day
+  reason: text("reason"), // PTO, sick, training...
+  createdAt: timestamp("created_at").defaultNow()
+});
+
+export const plantHolidays = pgTable("plant_holidays", {
+  id: serial("id").primaryKey(),
+  date: date("date").notNull().unique(), // YYYY-MM-DD
+  name: text("name").notNull()
+});
+
 // Insert schemas
 export const insertProductionOrderSchema = createInsertSchema(productionOrders).omit({
   id: true,
@@ -380,6 +580,19 @@ export type WorkCyclesConsolidated = typeof workCyclesConsolidated.$inferSelect;
 export type InsertWorkCyclesConsolidated = z.infer<typeof insertWorkCyclesConsolidatedSchema>;
 export type OperatorUph = typeof operatorUph.$inferSelect;
 export type InsertOperatorUph = z.infer<typeof insertOperatorUphSchema>;
+export type PlannerSetting = typeof plannerSettings.$inferSelect;
+export type FulfilSyncState = typeof fulfilSyncState.$inferSelect;
+export type FulfilOperatorWrite = typeof fulfilOperatorWrites.$inferSelect;
+export type FulfilWebhookEvent = typeof fulfilWebhookEvents.$inferSelect;
+export type UphSnapshot = typeof uphSnapshots.$inferSelect;
+export type StandardTimeOverride = typeof standardTimeOverrides.$inferSelect;
+export type UphWindowPolicyRow = typeof uphWindowPolicies.$inferSelect;
+export type UphDriftAlert = typeof uphDriftAlerts.$inferSelect;
+export type AssignmentScenario = typeof assignmentScenarios.$inferSelect;
+export type ScenarioAssignment = typeof scenarioAssignments.$inferSelect;
+export type OperatorShift = typeof operatorShifts.$inferSelect;
+export type OperatorTimeOff = typeof operatorTimeOff.$inferSelect;
+export type PlantHoliday = typeof plantHolidays.$inferSelect;
 
 // Dashboard types
 export const statusFilterSchema = z.array(z.enum(["Requests", "Draft", "Waiting", "Assigned", "Running"]));
@@ -0,0 +1,69 @@
+/**
+ * Unit tests for the statistical anomaly detector
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { detectAnomalies, normalizeAnomalyThresholds, type AnomalyInput } from '../server/services/anomalyDetector';
+
+vi.mock('../server/db', () => ({ db: {} }));
+
+function record(id: number, quantity: number, hours: number, routing = 'Lifetime Leash'): AnomalyInput {
+  return {
+    id,
+    operatorName: `Operator ${id}`,
+    workCenter: 'Assembly',
+    routing,
+    quantity,
+    durationSeconds: hours * 3600,
+    observations: 5
+  };
+}
+
+describe('Anomaly Detector', () => {
+  // Around 20 UPH, give or take
+  const normal = [18, 19, 20, 20, 21, 22, 19, 21].map((uph, i) => record(i + 1, uph * 4, 4));
+
+  it('should flag outliers with reason codes and leave normal records alone', () => {
+    const result = detectAnomalies([...normal, record(100, 20, 10), record(101, 400, 0.5)]);
+
+    expect(result.totalRecords).toBe(10);
+    expect(result.anomalies.map(a => a.id).sort()).toEqual([100, 101]);
+
+    const slow = result.anomalies.find(a => a.id === 100)!;
+    expect(slow.reasonCodes).toEqual(expect.arrayContaining(['uph_mad_low', 'uph_iqr_low', 'duration_per_unit_high']));
+    expect(slow.shouldExclude).toBe(true);
+
+    const impossible = result.anomalies.find(a => a.id === 101)!;
+    expect(impossible.reasonCode).toBe('implausible_uph');
+    expect(impossible.severity).toBe('high');
+  });
+
+  it('should be deterministic and respect thresholds', () => {
+    const records = [...normal, record(100, 40, 4)];
+    const strict = detectAnomalies(records, normalizeAnomalyThresholds({ madZ: 1, iqrMultiplier: 0.5, durationZ: 1 }));
+    const loose = detectAnomalies(records, normalizeAnomalyThresholds({ madZ: 50, iqrMultiplier: 50, durationZ: 50 }));
+
+    expect(detectAnomalies(records)).toEqual(detectAnomalies(records));
+    expect(strict.anomaliesDetected).toBeGreaterThan(0);
+    expect(loose.anomaliesDetected).toBe(0);
+  });
+
+  it('should compare small routings against their whole work center', () => {
+    const result = detectAnomalies([...normal, record(200, 4, 4, 'Lifetime Pouch')]);
+
+    expect(result.anomalies.map(a => a.id)).toEqual([200]);
+    expect(result.anomalies[0].anomalyReason).toContain('all of Assembly');
+  });
+
+  it('should count duration per unit and UPH MAD codes as one signal for severity', () => {
+    const records = [...normal, record(100, 64, 4)];
+    const madOnly = detectAnomalies(records, normalizeAnomalyThresholds({ madZ: 2, iqrMultiplier: 50, durationZ: 2 }));
+    const madAndIqr = detectAnomalies(records, normalizeAnomalyThresholds({ madZ: 2, iqrMultiplier: 0.5, durationZ: 2 }));
+
+    const [lone] = madOnly.anomalies;
+    expect(lone.reasonCodes).toEqual(['uph_mad_low', 'duration_per_unit_high']);
+    expect(lone.severity).toBe('low');
+    expect(madAndIqr.anomalies[0].reasonCodes).toContain('uph_iqr_low');
+    expect(madAndIqr.anomalies[0].severity).toBe('medium');
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for auto-assign decision records
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { evaluateCandidate, finalizeDecision, type AssignmentDecision } from '../server/services/assignmentDecisions';
+import { DEFAULT_ASSIGNMENT_WEIGHTS, type CandidateScore } from '../server/services/assignmentObjective';
+
+vi.mock('../server/db', () => ({ db: {} }));
+
+const FINISH = new Date('2025-07-08T12:00:00Z');
+
+function score(total: number, components: Partial<CandidateScore['components']> = {}): CandidateScore {
+  return {
+    total,
+    components: { uph: 0.2, reliability: 0.25, capacity: 0.2, workload: 0.1, lateness: 0, ...components },
+    projectedFinish: FINISH,
+    daysLate: 0
+  };
+}
+
+function operator(id: number, name: string, hoursAssigned = 10) {
+  return { id, name, hoursAssigned, maxHours: 40 };
+}
+
+function decision(candidates: AssignmentDecision['candidates']): Omit<AssignmentDecision, 'chosenOperatorId' | 'decidedAt'> {
+  return {
+    workOrderId: 33047,
+    moNumber: 'MO178231',
+    workCenter: 'Assembly',
+    routing: 'Lifetime Leash',
+    quantity: 50,
+    dueDate: null,
+    priority: 'Normal',
+    weights: DEFAULT_ASSIGNMENT_WEIGHTS,
+    candidates
+  };
+}
+
+describe('Assignment Decisions', () => {
+  it('should record a scored candidate with its components and utilization', () => {
+    const candidate = evaluateCandidate(operator(101, 'Ana'), { uph: 24, observations: 12 }, 2.5, score(0.75));
+
+    expect(candidate).toMatchObject({
+      operatorId: 101,
+      operatorName: 'Ana',
+      uph: 24,
+      observations: 12,
+      inferredFrom: null,
+      utilization: 25,
+      expectedHours: 2.5,
+      score: 0.75,
+      projectedFinish: FINISH.toISOString(),
+      selected: false,
+      rejectedReason: null
+    });
+    expect(candidate.components).toEqual(score(0.75).components);
+  });
+
+  it('should record a candidate ruled out before scoring with its reason', () => {
+    const candidate = evaluateCandidate({ ...operator(102, 'Ben'), maxHours: 0 }, null, null, null, 'No UPH data for Lifetime Leash');
+
+    expect(candidate).toMatchObject({
+      uph: null,
+      observations: 0,
+      utilization: 0,
+      score: null,
+      components: null,
+      projectedFinish: null,
+      rejectedReason: 'No UPH data for Lifetime Leash'
+    });
+  });
+
+  it('should select the chosen operator and explain each other candidate against it', () => {
+    const finalized = finalizeDecision(decision([
+      evaluateCandidate(operator(102, 'Ben'), { uph: 18, observations: 12 }, 3.3, score(0.55, { uph: 0.15, capacity: 0.05 })),
+      evaluateCandidate(operator(103, 'Cal'), null, null, null, 'Not trained on Assembly'),
+      evaluateCandidate(operator(101, 'Ana'), { uph: 24, observations: 12 }, 2.5, score(0.75)),
+      evaluateCandidate(operator(104, 'Dee'), { uph: 20, observations: 2 }, 3, null)
+    ]), 101);
+
+    expect(finalized.chosenOperatorId).toBe(101);
+    expect(finalized.candidates.map(candidate => candidate.operatorName)).toEqual(['Ana', 'Ben', 'Cal', 'Dee']);
+
+    const [ana, ben, cal, dee] = finalized.candidates;
+    expect(ana).toMatchObject({ selected: true, rejectedReason: null });
+    expect(ben.selected).toBe(false);
+    expect(ben.rejectedReason).toBe('Lower score than Ana (0.550 vs 0.750), mostly remaining capacity (-0.150)');
+    expect(cal.rejectedReason).toBe('Not trained on Assembly');
+    expect(dee.rejectedReason).toBe('Not scored; Ana was selected');
+    expect(Date.parse(finalized.decidedAt)).not.toBeNaN();
+  });
+
+  it('should mark every candidate not selected when nobody was chosen', () => {
+    const finalized = finalizeDecision(decision([
+      evaluateCandidate(operator(101, 'Ana'), { uph: 24, observations: 12 }, 2.5, score(0.75)),
+      evaluateCandidate(operator(102, 'Ben'), null, null, null, 'At capacity')
+    ]), 999);
+
+    expect(finalized.chosenOperatorId).toBeNull();
+    expect(finalized.candidates.every(candidate => !candidate.selected)).toBe(true);
+    expect(finalized.candidates.map(candidate => candidate.rejectedReason)).toEqual(['Not selected', 'At capacity']);
+  });
+});
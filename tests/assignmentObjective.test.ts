@@ -0,0 +1,136 @@
+/**
+ * Unit tests for the auto-assign objective: candidate scores, weights and projected finish
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_ASSIGNMENT_WEIGHTS,
+  normalizeWeights,
+  projectFinish,
+  scoreCandidate,
+  type CandidateScoreInput
+} from '../server/services/assignmentObjective';
+
+vi.mock('../server/db', () => ({ db: {} }));
+
+// Monday 9:00 local time
+const MONDAY = new Date(2025, 6, 7, 9);
+
+function input(overrides: Partial<CandidateScoreInput> = {}): CandidateScoreInput {
+  return {
+    uph: 50,
+    observations: 5,
+    hoursAssigned: 10,
+    maxHours: 40,
+    expectedHours: 6,
+    dueDate: null,
+    priority: 'Normal',
+    now: MONDAY,
+    ...overrides
+  };
+}
+
+describe('Assignment Objective', () => {
+  describe('scoreCandidate', () => {
+    it('should weigh UPH, reliability, capacity and workload', () => {
+      const score = scoreCandidate(input(), DEFAULT_ASSIGNMENT_WEIGHTS);
+
+      expect(score.components.uph).toBeCloseTo(0.15);
+      expect(score.components.reliability).toBeCloseTo(0.125);
+      expect(score.components.capacity).toBeCloseTo(0.1875);
+      expect(score.components.workload).toBeCloseTo(0.15);
+      expect(score.components.lateness).toBe(0);
+      expect(score.total).toBeCloseTo(0.6125);
+      expect(score.projectedFinish).toEqual(new Date(2025, 6, 9, 9));
+      expect(score.daysLate).toBe(0);
+    });
+
+    it('should cap UPH and reliability at their full weight', () => {
+      const score = scoreCandidate(input({ uph: 150, observations: 40 }), DEFAULT_ASSIGNMENT_WEIGHTS);
+
+      expect(score.components.uph).toBeCloseTo(DEFAULT_ASSIGNMENT_WEIGHTS.uph);
+      expect(score.components.reliability).toBeCloseTo(DEFAULT_ASSIGNMENT_WEIGHTS.reliability);
+    });
+
+    it('should penalize days late, amplified for High and dampened for Low priority', () => {
+      const dueDate = new Date(2025, 6, 8, 9); // A day before the projected Wednesday finish
+      const lateness = (priority: CandidateScoreInput['priority']) =>
+        scoreCandidate(input({ dueDate, priority }), DEFAULT_ASSIGNMENT_WEIGHTS).components.lateness;
+
+      expect(scoreCandidate(input({ dueDate }), DEFAULT_ASSIGNMENT_WEIGHTS).daysLate).toBeCloseTo(1);
+      expect(lateness('Normal')).toBeCloseTo(-0.5 / 7);
+      expect(lateness('High')).toBeCloseTo(-0.75 / 7);
+      expect(lateness('Low')).toBeCloseTo(-0.25 / 7);
+    });
+
+    it('should cap the lateness penalty at a week late', () => {
+      const score = scoreCandidate(input({ dueDate: new Date(2025, 5, 20, 9) }), DEFAULT_ASSIGNMENT_WEIGHTS);
+
+      expect(score.daysLate).toBeGreaterThan(7);
+      expect(score.components.lateness).toBeCloseTo(-DEFAULT_ASSIGNMENT_WEIGHTS.lateness);
+    });
+
+    it('should not penalize lateness for an MO without a due date', () => {
+      const longBacklog = input({ hoursAssigned: 30, expectedHours: 40 });
+      const undated = scoreCandidate(longBacklog, DEFAULT_ASSIGNMENT_WEIGHTS);
+      const dated = scoreCandidate({ ...longBacklog, dueDate: new Date(2025, 6, 8, 9) }, DEFAULT_ASSIGNMENT_WEIGHTS);
+
+      expect(undated.projectedFinish > new Date(2025, 6, 14)).toBe(true);
+      expect(undated.daysLate).toBe(0);
+      expect(undated.components.lateness).toBe(0);
+      expect(dated.components.lateness).toBeLessThan(0);
+      expect(undated.total).toBeGreaterThan(dated.total);
+    });
+
+    it('should project the finish from the operator calendar when given', () => {
+      const score = scoreCandidate(
+        input({ dueDate: new Date(2025, 6, 8, 9), dailyHours: () => 16 }),
+        DEFAULT_ASSIGNMENT_WEIGHTS
+      );
+
+      expect(score.projectedFinish).toEqual(new Date(2025, 6, 8, 9));
+      expect(score.daysLate).toBe(0);
+      expect(score.components.lateness).toBe(0);
+    });
+  });
+
+  describe('normalizeWeights', () => {
+    it('should fall back to the defaults without input', () => {
+      expect(normalizeWeights()).toEqual(DEFAULT_ASSIGNMENT_WEIGHTS);
+      expect(normalizeWeights(null)).not.toBe(DEFAULT_ASSIGNMENT_WEIGHTS);
+    });
+
+    it('should keep valid weights and discard negative or non-numeric ones', () => {
+      const weights = normalizeWeights({
+        uph: 0.6,
+        priority: 0,
+        lateness: -1,
+        capacity: NaN,
+        workload: '0.4' as unknown as number
+      });
+
+      expect(weights).toEqual({ ...DEFAULT_ASSIGNMENT_WEIGHTS, uph: 0.6, priority: 0, workload: 0.4 });
+    });
+  });
+
+  describe('projectFinish', () => {
+    it('should spread weekly hours over weekdays and skip the weekend', () => {
+      expect(projectFinish(MONDAY, 16, 40)).toEqual(new Date(2025, 6, 9, 9));
+      expect(projectFinish(new Date(2025, 6, 11, 9), 8, 40)).toEqual(new Date(2025, 6, 14, 9));
+    });
+
+    it('should land partway through a fractional last day', () => {
+      expect(projectFinish(MONDAY, 12, 40)).toEqual(new Date(2025, 6, 8, 21));
+    });
+
+    it('should follow a calendar of hours per day', () => {
+      const wednesdaysOnly = (day: Date) => (day.getDay() === 3 ? 4 : 0);
+
+      expect(projectFinish(MONDAY, 6, wednesdaysOnly)).toEqual(new Date(2025, 6, 15, 21));
+    });
+
+    it('should stop after a year with no working hours', () => {
+      expect(projectFinish(MONDAY, 1, () => 0)).toEqual(new Date(2025, 6, 7 + 366, 9));
+    });
+  });
+});
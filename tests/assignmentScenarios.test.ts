@@ -0,0 +1,69 @@
+/**
+ * Unit tests for detecting out-of-date assignment scenarios before promotion
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { findPromotionConflicts } from '../server/services/assignmentScenarios';
+
+vi.mock('../server/db', () => ({ db: {} }));
+
+const PLANNED_AT = new Date('2025-07-07T09:00:00Z');
+const BEFORE = new Date('2025-07-07T08:00:00Z');
+const AFTER = new Date('2025-07-07T10:00:00Z');
+
+function scenario(
+  assignments: Array<{ workOrderId: number; operatorId: number; isNew: boolean }>,
+  extra: { status?: string; strategy?: string } = {}
+) {
+  return { status: 'draft', strategy: 'fill', createdAt: PLANNED_AT, assignments, ...extra };
+}
+
+function live(workOrderId: number, operatorId: number, assignedAt: Date, extra: { assignedBy?: string; isLocked?: boolean } = {}) {
+  return { workOrderId, operatorId, assignedAt, assignedBy: 'dashboard', isLocked: false, ...extra };
+}
+
+describe('Assignment Scenarios', () => {
+  it('should find no conflicts when the live plan is as the scenario saw it', () => {
+    const conflicts = findPromotionConflicts(
+      scenario([{ workOrderId: 33047, operatorId: 101, isNew: false }, { workOrderId: 33048, operatorId: 102, isNew: true }]),
+      [live(33047, 101, BEFORE)]
+    );
+
+    expect(conflicts).toEqual([]);
+  });
+
+  it('should reject a scenario that was already promoted', () => {
+    const conflicts = findPromotionConflicts(
+      scenario([{ workOrderId: 33047, operatorId: 101, isNew: true }], { status: 'promoted' }),
+      []
+    );
+
+    expect(conflicts).toEqual([{ workOrderId: null, reason: 'Scenario was already promoted' }]);
+  });
+
+  it('should report live assignments made or removed after the scenario was planned', () => {
+    const conflicts = findPromotionConflicts(
+      scenario([
+        { workOrderId: 33046, operatorId: 101, isNew: false },
+        { workOrderId: 33047, operatorId: 101, isNew: true },
+        { workOrderId: 33048, operatorId: 102, isNew: true }
+      ]),
+      [live(33047, 103, AFTER), live(33048, 104, AFTER, { isLocked: true }), live(33060, 105, AFTER)]
+    );
+
+    expect(conflicts).toEqual([
+      { workOrderId: 33046, reason: 'Live assignment was removed after the scenario was planned' },
+      { workOrderId: 33047, reason: 'Assigned to operator 103 after the scenario was planned' }
+    ]);
+  });
+
+  it('should count new AI assignments elsewhere against a regenerate scenario only', () => {
+    const aiAssignment = live(33060, 105, AFTER, { assignedBy: 'AI Auto-Assign' });
+    const planned = [{ workOrderId: 33047, operatorId: 101, isNew: true }];
+
+    expect(findPromotionConflicts(scenario(planned), [aiAssignment])).toEqual([]);
+    expect(findPromotionConflicts(scenario(planned, { strategy: 'regenerate' }), [aiAssignment])).toEqual([
+      { workOrderId: 33060, reason: 'Assigned to operator 105 after the scenario was planned' }
+    ]);
+  });
+});
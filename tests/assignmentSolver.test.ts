@@ -0,0 +1,63 @@
+/**
+ * Unit tests for the Assignment Solver
+ */
+
+import { describe, it, expect } from 'vitest';
+import { greedySolver, optimalSolver, compareWithGreedy, type AssignmentProblem } from '../server/services/assignmentSolver';
+
+describe('Assignment Solver', () => {
+  // Operator 1 is fastest at both, but only has room for one of them
+  const problem: AssignmentProblem = {
+    tasks: [
+      { workOrderId: 10, options: [{ operatorId: 1, hours: 4 }, { operatorId: 2, hours: 5 }] },
+      { workOrderId: 11, options: [{ operatorId: 1, hours: 5 }, { operatorId: 2, hours: 9 }] }
+    ],
+    capacity: new Map([[1, 6], [2, 10]])
+  };
+
+  it('should find the plan with the fewest total hours within capacity', () => {
+    const solution = optimalSolver.solve(problem);
+
+    expect(solution.assignments.get(10)).toBe(2);
+    expect(solution.assignments.get(11)).toBe(1);
+    expect(solution.totalHours).toBe(10);
+    expect(solution.provenOptimal).toBe(true);
+  });
+
+  it('should never exceed operator capacity', () => {
+    const solution = greedySolver.solve(problem);
+    const load = new Map<number, number>();
+    for (const task of problem.tasks) {
+      const operatorId = solution.assignments.get(task.workOrderId)!;
+      const hours = task.options.find(o => o.operatorId === operatorId)!.hours;
+      load.set(operatorId, (load.get(operatorId) || 0) + hours);
+    }
+
+    for (const [operatorId, hours] of load) {
+      expect(hours).toBeLessThanOrEqual(problem.capacity.get(operatorId)!);
+    }
+  });
+
+  it('should leave one work order out to place two others', () => {
+    const solution = optimalSolver.solve({
+      tasks: [
+        { workOrderId: 1, options: [{ operatorId: 1, hours: 8 }] },
+        { workOrderId: 2, options: [{ operatorId: 1, hours: 4 }] },
+        { workOrderId: 3, options: [{ operatorId: 1, hours: 4 }] }
+      ],
+      capacity: new Map([[1, 8]])
+    });
+
+    expect(solution.unassigned).toEqual([1]);
+    expect(solution.totalHours).toBe(8);
+  });
+
+  it('should report the gap against the greedy plan', () => {
+    const solution = optimalSolver.solve(problem);
+    const report = compareWithGreedy(problem, solution, new Map([[10, 1], [11, 2]]));
+
+    expect(report.greedy.totalHours).toBe(13);
+    expect(report.gapHours).toBe(3);
+    expect(report.gapPercent).toBeCloseTo(23.08, 1);
+  });
+});
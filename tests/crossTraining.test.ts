@@ -0,0 +1,57 @@
+/**
+ * Unit tests for Cross-Training recommendations
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { buildCrossTrainingReport, type CrossTrainingOperator, type CrossTrainingUph } from '../server/services/crossTraining';
+
+vi.mock('../server/db', () => ({ db: {} }));
+
+function operator(id: number, name: string, workCenters: string[] = ['Assembly']): CrossTrainingOperator {
+  return { id, name, workCenters, routings: [], spareHours: 20 };
+}
+
+function uph(operatorId: number, operatorName: string, routing: string, value: number): CrossTrainingUph {
+  return { operatorId, operatorName, workCenter: 'Assembly', routing, uph: value, observations: 10 };
+}
+
+describe('Cross-Training', () => {
+  const operators = [operator(1, 'Ana'), operator(2, 'Ben'), operator(3, 'Cy', ['Packaging'])];
+  const uphRows = [
+    uph(1, 'Ana', 'Lifetime Leash', 20),
+    uph(1, 'Ana', 'Lifetime Pouch', 30),
+    uph(2, 'Ben', 'Lifetime Pouch', 15),
+    uph(3, 'Cy', 'Lifetime Pouch', 45)
+  ];
+
+  it('should flag routings with unplaced work and rank trainees by relative UPH on similar routings', () => {
+    const report = buildCrossTrainingReport({
+      operators,
+      uph: uphRows,
+      unassigned: [
+        { workOrderId: 1, routing: 'Lifetime Leash', workCenter: 'Assembly', quantity: 100, reason: 'No available operator capacity' },
+        { workOrderId: 2, routing: 'Lifetime Leash', workCenter: 'Assembly', quantity: 50, reason: 'No available operator capacity' }
+      ]
+    });
+
+    expect(report.bottlenecks).toHaveLength(1);
+    const [bottleneck] = report.bottlenecks;
+    expect(bottleneck.unassignedWorkOrders).toBe(2);
+    expect(bottleneck.capacityShortfall).toBe(2);
+    expect(bottleneck.qualifiedOperators.map(q => q.operatorName)).toEqual(['Ana']);
+    expect(bottleneck.candidates.map(c => c.operatorName)).toEqual(['Cy', 'Ben']);
+    expect(bottleneck.candidates[0].hasWorkCenter).toBe(false);
+  });
+
+  it('should ignore work orders left out for reasons other than skills or capacity', () => {
+    const report = buildCrossTrainingReport({
+      operators,
+      uph: uphRows,
+      unassigned: [
+        { workOrderId: 1, routing: 'Lifetime Leash', workCenter: 'Assembly', quantity: 100, reason: 'Assignment failed during processing' }
+      ]
+    });
+
+    expect(report.bottlenecks).toHaveLength(0);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Unit tests for the Finite-Capacity Scheduler
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { scheduleTasks, weekdayCapacity, parseDueDate, resolveDueDate, type ScheduleTask } from '../server/services/finiteScheduler';
+
+vi.mock('../server/db', () => ({ db: {} }));
+
+// Monday 2025-07-07
+const MONDAY = new Date(2025, 6, 7);
+
+function task(overrides: Partial<ScheduleTask>): ScheduleTask {
+  return {
+    workOrderId: 1,
+    operatorId: 101,
+    moNumber: 'MO-001',
+    workCenter: 'Assembly',
+    routing: 'Lifetime Leash',
+    expectedHours: 4,
+    dueDate: null,
+    ...overrides
+  };
+}
+
+describe('Finite-Capacity Scheduler', () => {
+  const capacity = weekdayCapacity(new Map([[101, 40], [102, 20]]));
+
+  it('should place tasks back to back within a working day', () => {
+    const result = scheduleTasks([
+      task({ workOrderId: 1, moNumber: 'MO-001' }),
+      task({ workOrderId: 2, moNumber: 'MO-002' })
+    ], { startDate: MONDAY, dailyCapacity: capacity });
+
+    expect(result.slots).toHaveLength(2);
+    expect(result.slots[0].start).toEqual(new Date(2025, 6, 7, 8));
+    expect(result.slots[0].end).toEqual(new Date(2025, 6, 7, 12));
+    expect(result.slots[1].start).toEqual(new Date(2025, 6, 7, 12));
+    expect(result.slots[1].end).toEqual(new Date(2025, 6, 7, 16));
+  });
+
+  it('should carry work over to the next working day and skip weekends', () => {
+    // Operator 102 has 4h per weekday; start on Friday
+    const friday = new Date(2025, 6, 11);
+    const result = scheduleTasks([
+      task({ operatorId: 102, expectedHours: 6 })
+    ], { startDate: friday, dailyCapacity: capacity });
+
+    expect(result.slots[0].start).toEqual(new Date(2025, 6, 11, 8));
+    expect(result.slots[0].end).toEqual(new Date(2025, 6, 14, 10));
+  });
+
+  it('should sequence by earliest due date and flag late MOs', () => {
+    const result = scheduleTasks([
+      task({ workOrderId: 1, moNumber: 'MO-LATER', expectedHours: 8, dueDate: parseDueDate('2025-07-20') }),
+      task({ workOrderId: 2, moNumber: 'MO-SOON', expectedHours: 16, dueDate: parseDueDate('2025-07-07') })
+    ], { startDate: MONDAY, dailyCapacity: capacity });
+
+    expect(result.slots[0].moNumber).toBe('MO-SOON');
+    expect(result.lateMos).toEqual(['MO-SOON']);
+
+    const soon = result.moCompletions.find(mo => mo.moNumber === 'MO-SOON');
+    expect(soon?.status).toBe('late');
+    expect(soon?.daysLate).toBe(1);
+  });
+
+  it('should report tasks that do not fit in the horizon as unscheduled', () => {
+    const result = scheduleTasks([
+      task({ workOrderId: 1, expectedHours: 30 })
+    ], { startDate: MONDAY, horizonDays: 2, dailyCapacity: capacity });
+
+    expect(result.slots).toHaveLength(0);
+    expect(result.unscheduled[0].reason).toBe('Exceeds planning horizon');
+    expect(result.moCompletions[0].status).toBe('unscheduled');
+  });
+});
+
+describe('Routing step precedence', () => {
+  const capacity = weekdayCapacity(new Map([[101, 40], [102, 40], [103, 40]]));
+
+  it('should not start packaging before cutting and assembly finish', () => {
+    const result = scheduleTasks([
+      task({ workOrderId: 3, operatorId: 103, workCenter: 'Packaging', sequence: 3, expectedHours: 2 }),
+      task({ workOrderId: 1, operatorId: 101, workCenter: 'Cutting', sequence: 1, expectedHours: 3 }),
+      task({ workOrderId: 2, operatorId: 102, workCenter: 'Assembly', sequence: 2, expectedHours: 6 })
+    ], { startDate: MONDAY, dailyCapacity: capacity });
+
+    const byId = new Map(result.slots.map(slot => [slot.workOrderId, slot]));
+    expect(byId.get(2)?.start).toEqual(new Date(2025, 6, 7, 11));
+    // The 8h day ends at 16:00, so Assembly spills 1h into Tuesday and Packaging follows it
+    expect(byId.get(2)?.end).toEqual(new Date(2025, 6, 8, 9));
+    expect(byId.get(3)?.start).toEqual(new Date(2025, 6, 8, 9));
+    expect(byId.get(3)?.end).toEqual(new Date(2025, 6, 8, 11));
+
+    const mo = result.moCompletions[0];
+    expect(mo.criticalPath.map(step => step.workOrderId)).toEqual([1, 2, 3]);
+  });
+
+  it('should hold later steps when an earlier step cannot be scheduled', () => {
+    const result = scheduleTasks([
+      task({ workOrderId: 1, operatorId: 101, workCenter: 'Cutting', sequence: 1, expectedHours: 100 }),
+      task({ workOrderId: 2, operatorId: 102, workCenter: 'Assembly', sequence: 2, expectedHours: 2 })
+    ], { startDate: MONDAY, horizonDays: 5, dailyCapacity: capacity });
+
+    expect(result.slots).toHaveLength(0);
+    expect(result.unscheduled.map(u => u.reason)).toEqual([
+      'Exceeds planning horizon',
+      'Waiting on an unscheduled earlier routing step'
+    ]);
+  });
+
+  it('should keep fixed slots in place and start new work after them', () => {
+    const result = scheduleTasks([
+      task({ workOrderId: 2, moNumber: 'MO-NEW', expectedHours: 2 })
+    ], {
+      startDate: MONDAY,
+      dailyCapacity: capacity,
+      fixedSlots: [{
+        workOrderId: 1,
+        operatorId: 101,
+        moNumber: 'MO-001',
+        workCenter: 'Assembly',
+        routing: 'Lifetime Leash',
+        sequence: 0,
+        hours: 3,
+        start: new Date(2025, 6, 7, 8),
+        end: new Date(2025, 6, 7, 11),
+        predecessorWorkOrderId: null
+      }]
+    });
+
+    expect(result.slots.find(slot => slot.workOrderId === 1)?.end).toEqual(new Date(2025, 6, 7, 11));
+    expect(result.slots.find(slot => slot.workOrderId === 2)?.start).toEqual(new Date(2025, 6, 7, 11));
+  });
+
+  it('should take the planned date over the stored MO due date', () => {
+    expect(resolveDueDate('2025-07-10', '2025-07-08')).toEqual(new Date(2025, 6, 10, 23, 59, 59));
+    expect(resolveDueDate({ iso_string: '2025-07-10' }, null)).toEqual(new Date(2025, 6, 10, 23, 59, 59));
+    expect(resolveDueDate(null, '2025-07-08')).toEqual(new Date(2025, 6, 8, 23, 59, 59));
+    expect(resolveDueDate('not a date', new Date(2025, 6, 8, 12))).toEqual(new Date(2025, 6, 8, 12));
+    expect(resolveDueDate(undefined, null)).toBeNull();
+  });
+});
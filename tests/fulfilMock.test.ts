@@ -0,0 +1,143 @@
+/**
+ * Tests for the in-process Fulfil mock, driven through the real services
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createSeededFulfilMock, type FulfilMock } from '../server/fulfil-mock';
+import { FulfilAuthError, FulfilNotFoundError, FulfilServerError, FulfilTransport, RequestLimiter, getFulfilBaseUrl } from '../server/fulfil-transport';
+import { FulfilAPIService } from '../server/fulfil-api';
+import { FulfilCurrentService } from '../server/fulfil-current';
+import { resolveDueDate, scheduleTasks, weekdayCapacity } from '../server/services/finiteScheduler';
+
+vi.mock('../server/db', () => ({ db: {} }));
+
+let mock: FulfilMock;
+
+function transport(apiKey: string | null = 'test-key'): FulfilTransport {
+  return new FulfilTransport({ apiKey, maxRetries: 0, limiter: new RequestLimiter(4, 0) });
+}
+
+beforeEach(() => {
+  mock = createSeededFulfilMock();
+  vi.stubGlobal('fetch', mock.fetch);
+  vi.stubEnv('FULFIL_ACCESS_TOKEN', 'test-key');
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('Fulfil Mock', () => {
+  it('should read the base URL from FULFIL_BASE_URL', () => {
+    expect(getFulfilBaseUrl()).toBe('https://apc.fulfil.io');
+    vi.stubEnv('FULFIL_BASE_URL', 'http://127.0.0.1:5000/fulfil-mock/');
+    expect(getFulfilBaseUrl()).toBe('http://127.0.0.1:5000/fulfil-mock');
+    expect(new FulfilTransport().baseUrl).toBe('http://127.0.0.1:5000/fulfil-mock');
+  });
+
+  it('should merge the captured work order detail into the list capture', async () => {
+    const workOrder = await transport().get('/api/v2/model/production.work/287');
+    expect(workOrder.rec_name).toBe('WO285 | Sewing - LH | MO5428');
+    expect(workOrder.cycles).toEqual([249, 252, 253]);
+
+    await expect(transport().get('/api/v2/model/production.work/999999')).rejects.toBeInstanceOf(FulfilNotFoundError);
+    await expect(transport(null).get('/api/v2/model/production.work/287')).rejects.toBeInstanceOf(FulfilAuthError);
+  });
+
+  it('should filter, order, page and resolve dotted fields in search_read', async () => {
+    const cycles = await transport().put('/api/v2/model/production.work.cycle/search_read', {
+      filters: [['write_date', '>=', '2026-10-15 00:00:00'], ['state', '=', 'done']],
+      fields: ['id', 'operator.rec_name', 'work.production.number', 'work.production.routing.rec_name'],
+      order: [['write_date', 'DESC']],
+      limit: 1
+    });
+
+    expect(cycles).toEqual([{
+      id: 90102,
+      'operator.rec_name': 'Dani Park',
+      'work.production.number': 'MO178231',
+      'work.production.routing.rec_name': 'Lifetime Pouch'
+    }]);
+  });
+
+  it('should answer count and listing requests', async () => {
+    const api = new FulfilAPIService();
+    expect(await api.getManufacturingOrdersCount()).toBe(3);
+
+    const listed = await transport().get('/api/v2/model/production?state=running,assigned&per_page=10');
+    expect(listed).toEqual([
+      { id: 21001, rec_name: 'MO178231' },
+      { id: 21002, rec_name: 'MO178232' }
+    ]);
+  });
+
+  it('should apply record updates and bump write_date', async () => {
+    await transport().put('/api/v2/model/production.work/33060', { operator: 15 });
+
+    const [workOrder] = await transport().put('/api/v2/model/production.work/search_read', {
+      filters: [['write_date', '>', '2026-10-17 00:00:00']],
+      fields: ['id', 'operator', 'operator.rec_name']
+    });
+    expect(workOrder).toEqual({ id: 33060, operator: 15, 'operator.rec_name': 'Courtney Banh' });
+    await expect(transport().put('/api/v2/model/production.work/999999', { operator: 15 })).rejects.toBeInstanceOf(FulfilNotFoundError);
+  });
+
+  it('should serve the current production orders end to end', async () => {
+    const orders = await new FulfilCurrentService().getCurrentProductionOrders();
+
+    expect(orders.map(order => order.moNumber).sort()).toEqual(['MO178231', 'MO178232']);
+    const pouch = orders.find(order => order.moNumber === 'MO178231')!;
+    expect(pouch.routing).toBe('Lifetime Pouch');
+    expect(pouch.product_code).toBe('LP-BLK');
+    expect(pouch.workOrders.map(wo => wo.workCenter)).toEqual(['Assembly', 'Packaging']); // Cutting is done
+    expect(mock.requests.every(request => request.path.startsWith('/api/v2/model/'))).toBe(true);
+  });
+
+  it('should leave MOs without a planned date undated, so the schedule does not count them late', async () => {
+    mock.seed('production', { id: 21001, planned_date: null });
+    const orders = await new FulfilCurrentService().getCurrentProductionOrders();
+    const pouch = orders.find(order => order.moNumber === 'MO178231')!;
+    expect(pouch.dueDate).toBeNull();
+    expect(resolveDueDate(orders.find(order => order.moNumber === 'MO178232')!.planned_date, null)).not.toBeNull();
+
+    const result = scheduleTasks(pouch.workOrders!.map(wo => ({
+      workOrderId: Number(wo.id),
+      operatorId: 101,
+      moNumber: pouch.moNumber,
+      workCenter: wo.workCenter || 'Unknown',
+      routing: pouch.routing,
+      expectedHours: 4,
+      dueDate: resolveDueDate(pouch.planned_date, pouch.dueDate)
+    })), { startDate: new Date(2026, 9, 19), dailyCapacity: weekdayCapacity(new Map([[101, 40]])) });
+
+    expect(result.lateMos).toEqual([]);
+    expect(result.moCompletions).toEqual([expect.objectContaining({ moNumber: 'MO178231', status: 'no_due_date', daysLate: 0 })]);
+  });
+
+  it('should fetch work orders created since a time plus ones left unassigned before it', async () => {
+    const service = new FulfilCurrentService();
+    const since = new Date('2026-10-15T00:00:00Z');
+
+    const created = await service.getCurrentProductionOrders({ createdSince: since });
+    expect(created.map(order => order.moNumber)).toEqual(['MO178232']);
+
+    const withPending = await service.getCurrentProductionOrders({ createdSince: since, includeWorkOrderIds: [33048] });
+    expect(withPending.map(order => order.moNumber).sort()).toEqual(['MO178231', 'MO178232']);
+    expect(withPending.find(order => order.moNumber === 'MO178231')!.workOrders.map(wo => Number(wo.id))).toEqual([33048]);
+  });
+
+  it('should treat an unexpected response shape as a Fulfil failure, not an empty result', async () => {
+    vi.stubGlobal('fetch', async () => new Response(JSON.stringify({ message: 'maintenance' }), { status: 200 }));
+
+    await expect(new FulfilAPIService().getManufacturingOrdersCount()).rejects.toBeInstanceOf(FulfilServerError);
+    await expect(new FulfilAPIService().getWorkOrdersCount()).rejects.toBeInstanceOf(FulfilServerError);
+    await expect(new FulfilAPIService().getRecentManufacturingOrders()).rejects.toBeInstanceOf(FulfilServerError);
+    await expect(new FulfilAPIService().getCompletedWorkOrders()).rejects.toBeInstanceOf(FulfilServerError);
+    await expect(new FulfilAPIService().getWorkCycles()).rejects.toBeInstanceOf(FulfilServerError);
+    await expect(new FulfilAPIService().getRoutings()).rejects.toBeInstanceOf(FulfilServerError);
+    await expect(new FulfilCurrentService().getCurrentProductionOrders()).rejects.toBeInstanceOf(FulfilServerError);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Unit tests for planning the operator write-back to Fulfil
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../server/db', () => ({ db: {} }));
+
+import { planWriteback, type FulfilWorkOrderOperator, type WritebackAssignment } from '../server/services/fulfilOperatorWriteback';
+
+function assignment(workOrderId: number, employeeId: number | null): WritebackAssignment {
+  return { assignmentId: workOrderId * 10, workOrderId, operatorId: 1, operatorName: 'Evan Crosby', employeeId };
+}
+
+function workOrder(id: number, operator: number | null, state = 'assigned'): FulfilWorkOrderOperator {
+  return { id, rec_name: `WO${id}`, state, operator, operatorName: operator ? `Employee ${operator}` : null };
+}
+
+describe('Operator Write-back Plan', () => {
+  it('should write empty work orders and leave matching ones unchanged', () => {
+    const items = planWriteback(
+      [assignment(1, 9), assignment(2, 9)],
+      new Map([[1, workOrder(1, null)], [2, workOrder(2, 9)]]),
+      new Map()
+    );
+
+    expect(items.map(item => item.action)).toEqual(['write', 'unchanged']);
+    expect(items[0].workOrderName).toBe('WO1');
+  });
+
+  it('should flag a different Fulfil operator as a conflict', () => {
+    const [item] = planWriteback([assignment(1, 9)], new Map([[1, workOrder(1, 12)]]), new Map());
+
+    expect(item.action).toBe('conflict');
+    expect(item.currentEmployeeId).toBe(12);
+    expect(item.reason).toContain('Employee 12');
+  });
+
+  it('should replace an operator set by an earlier write-back', () => {
+    const [item] = planWriteback([assignment(1, 9)], new Map([[1, workOrder(1, 12)]]), new Map([[1, 12]]));
+
+    expect(item.action).toBe('write');
+  });
+
+  it('should skip operators without an employee ID and missing or closed work orders', () => {
+    const items = planWriteback(
+      [assignment(1, null), assignment(2, 9), assignment(3, 9)],
+      new Map([[1, workOrder(1, null)], [3, workOrder(3, null, 'done')]]),
+      new Map()
+    );
+
+    expect(items.map(item => item.action)).toEqual(['skip', 'skip', 'skip']);
+    expect(items.map(item => item.reason)).toEqual([
+      'Evan Crosby has no Fulfil employee ID',
+      'Work order not found in Fulfil',
+      'Work order is done in Fulfil'
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for the incremental Fulfil sync helpers
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { afterRecord, formatFulfilDateTime, isSyncModel, parseFulfilDateTime, parseFulfilDuration } from '../server/services/fulfilSync';
+import { createSeededFulfilMock } from '../server/fulfil-mock';
+
+vi.mock('../server/db', () => ({ db: {} }));
+
+describe('Fulfil Sync', () => {
+  it('should read Fulfil write dates as UTC', () => {
+    expect(parseFulfilDateTime('2025-06-30 12:34:56.789012')?.toISOString()).toBe('2025-06-30T12:34:56.789Z');
+    expect(parseFulfilDateTime({ __class__: 'datetime', iso_string: '2025-06-30T12:34:56' })?.toISOString()).toBe('2025-06-30T12:34:56.000Z');
+    expect(parseFulfilDateTime('2025-06-30T12:34:56+02:00')?.toISOString()).toBe('2025-06-30T10:34:56.000Z');
+    expect(parseFulfilDateTime(null)).toBeNull();
+    expect(parseFulfilDateTime('not a date')).toBeNull();
+  });
+
+  it('should format the high-water mark the way Fulfil compares it', () => {
+    const mark = parseFulfilDateTime('2025-06-30 12:34:56.789012')!;
+    expect(formatFulfilDateTime(mark)).toBe('2025-06-30 12:34:56');
+  });
+
+  it('should parse durations in each Fulfil format', () => {
+    expect(parseFulfilDuration(3600)).toBe(3600);
+    expect(parseFulfilDuration('90.5')).toBe(90.5);
+    expect(parseFulfilDuration({ seconds: 120 })).toBe(120);
+    expect(parseFulfilDuration({ __class__: 'timedelta', iso_string: 'PT58M44.5S' })).toBeCloseTo(3524.5);
+    expect(parseFulfilDuration({ __class__: 'timedelta', iso_string: 'P1DT1H' })).toBe(90000);
+    expect(parseFulfilDuration(undefined)).toBe(0);
+  });
+
+  it('should only accept the synced models', () => {
+    expect(isSyncModel('production.work.cycle')).toBe(true);
+    expect(isSyncModel('production.work.cycles')).toBe(false);
+    expect(isSyncModel(undefined)).toBe(false);
+  });
+
+  it('should page by write_date and id without skipping records edited mid-run', () => {
+    const mock = createSeededFulfilMock();
+    const model = 'production.work.cycle';
+    const page = (filters: any[]) => mock.handle('PUT', `/api/v2/model/${model}/search_read`, {
+      filters,
+      fields: ['id', 'write_date'],
+      order: [['write_date', 'ASC'], ['id', 'ASC']],
+      limit: 1
+    }, 'key').body as any[];
+
+    const seen: number[] = [];
+    let records = page([]);
+    const edited = mock.records(model)[0].id;
+    mock.handle('PUT', `/api/v2/model/${model}/${edited}`, { state: 'done' }, 'key');
+    while (records.length > 0) {
+      seen.push(...records.map(record => record.id));
+      records = page(afterRecord([], records[records.length - 1]));
+    }
+
+    expect(new Set(seen)).toEqual(new Set(mock.records(model).map(record => record.id)));
+    expect(seen[seen.length - 1]).toBe(edited);
+  });
+
+  it('should keep the cursor write_date to the microsecond', () => {
+    const after = afterRecord([['state', '=', 'done']], { id: 7, write_date: { __class__: 'datetime', iso_string: '2025-06-30T12:34:56.789012' } });
+    expect(after).toEqual([
+      ['state', '=', 'done'],
+      ['OR', ['write_date', '>', '2025-06-30 12:34:56.789012'], [['write_date', '=', '2025-06-30 12:34:56.789012'], ['id', '>', 7]]]
+    ]);
+  });
+});
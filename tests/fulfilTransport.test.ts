@@ -0,0 +1,112 @@
+/**
+ * Unit tests for the shared Fulfil transport
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  FulfilAuthError,
+  FulfilNotFoundError,
+  FulfilServerError,
+  FulfilThrottledError,
+  FulfilTransport,
+  RequestLimiter,
+  isFulfilUnavailable
+} from '../server/fulfil-transport';
+
+function reply(status: number, body: unknown = [], headers: Record<string, string> = {}): Response {
+  return new Response(typeof body === 'string' ? body : JSON.stringify(body), { status, headers });
+}
+
+function transport(maxRetries = 2): FulfilTransport {
+  return new FulfilTransport({ apiKey: 'key', maxRetries, baseDelayMs: 1, maxDelayMs: 5, limiter: new RequestLimiter(2, 0) });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('Fulfil Transport', () => {
+  it('should retry 5xx and 429 responses, then return the data', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(reply(503, 'down'))
+      .mockResolvedValueOnce(reply(429, 'slow down', { 'retry-after': '0' }))
+      .mockResolvedValueOnce(reply(200, [{ id: 1 }]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const data = await transport().put('/api/v2/model/production.work/search_read', { filters: [] });
+
+    expect(data).toEqual([{ id: 1 }]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://apc.fulfil.io/api/v2/model/production.work/search_read');
+    expect(init.headers['X-API-KEY']).toBe('key');
+    expect(JSON.parse(init.body)).toEqual({ filters: [] });
+  });
+
+  it('should raise a server error once retries run out', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(reply(502, 'bad gateway'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const error = await transport(1).get('/api/v2/model/production/count').catch(e => e);
+
+    expect(error).toBeInstanceOf(FulfilServerError);
+    expect(error.status).toBe(502);
+    expect(isFulfilUnavailable(error)).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should treat network failures as Fulfil being down', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')));
+
+    const error = await transport(0).get('/api/v2/model/production/count').catch(e => e);
+
+    expect(error).toBeInstanceOf(FulfilServerError);
+    expect(error.status).toBeNull();
+  });
+
+  it('should not retry auth or not-found errors', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(reply(401, 'bad key'))
+      .mockResolvedValueOnce(reply(404, 'missing'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(transport().get('/api/v2/model/production/1')).rejects.toBeInstanceOf(FulfilAuthError);
+    const notFound = await transport().get('/api/v2/model/production/2').catch(e => e);
+    expect(notFound).toBeInstanceOf(FulfilNotFoundError);
+    expect(isFulfilUnavailable(notFound)).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report throttling that outlasts the retries', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(reply(429, 'slow down', { 'retry-after': '0' })));
+
+    const error = await transport(1).get('/api/v2/model/production/count').catch(e => e);
+
+    expect(error).toBeInstanceOf(FulfilThrottledError);
+    expect(error.retryAfterMs).toBe(0);
+  });
+
+  it('should refuse to call Fulfil without an API key', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(new FulfilTransport({ apiKey: '' }).get('/api/v2/model/production/count')).rejects.toBeInstanceOf(FulfilAuthError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should cap requests in flight', async () => {
+    const limiter = new RequestLimiter(2, 0);
+    let active = 0;
+    let peak = 0;
+    const task = async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+    };
+
+    await Promise.all(Array.from({ length: 6 }, () => limiter.run(task)));
+
+    expect(peak).toBe(2);
+  });
+});
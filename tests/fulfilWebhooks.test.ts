@@ -0,0 +1,67 @@
+/**
+ * Unit tests for verifying and reading Fulfil webhook deliveries
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import crypto from 'crypto';
+
+vi.mock('../server/db', () => ({ db: {} }));
+
+import { parseWebhookEvent, verifyWebhookSignature } from '../server/services/fulfilWebhooks';
+
+const SECRET = 'webhook-secret';
+
+function delivery(body: unknown): Buffer {
+  return Buffer.from(JSON.stringify(body));
+}
+
+describe('Fulfil Webhooks', () => {
+  it('should accept base64 and hex signatures of the raw body only', () => {
+    const rawBody = delivery({ model: 'production.work', id: 33047 });
+    const hmac = () => crypto.createHmac('sha256', SECRET).update(rawBody);
+
+    expect(verifyWebhookSignature(rawBody, hmac().digest('base64'), SECRET)).toBe(true);
+    expect(verifyWebhookSignature(rawBody, hmac().digest('hex'), SECRET)).toBe(true);
+    expect(verifyWebhookSignature(delivery({ model: 'production.work', id: 1 }), hmac().digest('base64'), SECRET)).toBe(false);
+    expect(verifyWebhookSignature(rawBody, hmac().digest('base64'), 'other-secret')).toBe(false);
+    expect(verifyWebhookSignature(rawBody, undefined, SECRET)).toBe(false);
+    expect(verifyWebhookSignature(rawBody, 'not a signature', SECRET)).toBe(false);
+  });
+
+  it('should read the model and action from the topic header over the body', () => {
+    const body = { model: 'production', ids: [21001, 21001], record: { id: 21002 } };
+    const event = parseWebhookEvent(
+      { 'x-fulfil-topic': 'production.work.deleted', 'x-fulfil-event-id': 'evt_1' },
+      body,
+      delivery(body)
+    );
+
+    expect(event).toEqual({ eventId: 'evt_1', model: 'production.work', action: 'deleted', ids: [21001, 21002] });
+  });
+
+  it('should key events without an id by payload and delivery timestamp so redeliveries match', () => {
+    const body = { model: 'production.work.cycle', action: 'created', records: [{ id: 90110 }] };
+    const first = parseWebhookEvent({ 'x-fulfil-timestamp': '2025-08-01T10:00:00Z' }, body, delivery(body));
+    const again = parseWebhookEvent({ 'x-fulfil-timestamp': '2025-08-01T10:00:00Z' }, body, delivery(body));
+    const later = parseWebhookEvent({ 'x-fulfil-timestamp': '2025-08-01T10:05:00Z' }, body, delivery(body));
+
+    expect(first?.eventId).toMatch(/^[0-9a-f]{64}$/);
+    expect(again?.eventId).toBe(first?.eventId);
+    expect(later?.eventId).not.toBe(first?.eventId);
+    expect(first?.action).toBe('created');
+    expect(first?.ids).toEqual([90110]);
+  });
+
+  it('should not dedupe events with neither an id nor a delivery timestamp', () => {
+    const body = { model: 'production.work', action: 'updated', id: 33047 };
+    const first = parseWebhookEvent({}, body, delivery(body));
+    const second = parseWebhookEvent({}, body, delivery(body));
+
+    expect(first?.eventId).not.toBe(second?.eventId);
+  });
+
+  it('should ignore models that are not synced', () => {
+    expect(parseWebhookEvent({ 'x-fulfil-topic': 'sale.sale.updated' }, { id: 1 }, delivery({ id: 1 }))).toBeNull();
+    expect(parseWebhookEvent({}, { id: 1 }, delivery({ id: 1 }))).toBeNull();
+  });
+});
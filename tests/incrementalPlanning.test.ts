@@ -0,0 +1,133 @@
+/**
+ * Unit tests for the incremental auto-assign change report
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { buildChangeReport } from '../server/services/incrementalPlanning';
+import type { AssignmentDecision, CandidateEvaluation } from '../server/services/assignmentDecisions';
+
+vi.mock('../server/db', () => ({ db: {} }));
+
+const NINE = new Date(2025, 6, 7, 9);
+const TEN = new Date(2025, 6, 7, 10);
+const minutes = (date: Date, count: number) => new Date(date.getTime() + count * 60 * 1000);
+
+function candidate(operatorId: number, operatorName: string, score: number, selected: boolean): CandidateEvaluation {
+  return {
+    operatorId,
+    operatorName,
+    uph: 20,
+    observations: 12,
+    inferredFrom: null,
+    hoursAssigned: 0,
+    maxHours: 40,
+    utilization: 0,
+    expectedHours: 2.5,
+    score,
+    components: null,
+    projectedFinish: null,
+    daysLate: 0,
+    selected,
+    rejectedReason: null
+  };
+}
+
+function decision(workOrderId: number, candidates: CandidateEvaluation[], extra: Partial<AssignmentDecision> = {}): AssignmentDecision {
+  return {
+    workOrderId,
+    moNumber: `MO${workOrderId}`,
+    workCenter: 'Assembly',
+    routing: 'Lifetime Leash',
+    quantity: 50,
+    dueDate: null,
+    priority: 'Normal',
+    weights: { uph: 0.4, reliability: 0.1, capacity: 0.2, workload: 0.1, lateness: 0.2, priority: 0.5 },
+    chosenOperatorId: candidates.find(c => c.selected)?.operatorId ?? null,
+    candidates,
+    decidedAt: NINE.toISOString(),
+    ...extra
+  };
+}
+
+function report(overrides: Partial<Parameters<typeof buildChangeReport>[0]>) {
+  return buildChangeReport({
+    mode: 'incremental',
+    since: NINE,
+    newWorkOrders: 0,
+    before: [],
+    after: [],
+    unassigned: [],
+    decisions: new Map(),
+    moNumbers: new Map(),
+    operatorNames: new Map([[101, 'Ana'], [102, 'Ben']]),
+    ...overrides
+  });
+}
+
+describe('Incremental Planning', () => {
+  it('should report added and moved assignments with the reason for the pick', () => {
+    const result = report({
+      newWorkOrders: 1,
+      before: [{ workOrderId: 2, operatorId: 101 }],
+      after: [{ workOrderId: 1, operatorId: 101 }, { workOrderId: 2, operatorId: 102 }],
+      decisions: new Map([
+        [1, decision(1, [candidate(101, 'Ana', 0.82, true), candidate(102, 'Ben', 0.71, false)])],
+        [2, decision(2, [candidate(102, 'Ben', 0.9, true)], {
+          rebalancedFrom: { operatorId: 101, operatorName: 'Ana', reason: 'Moved off Ana to balance workload' }
+        })]
+      ])
+    });
+
+    expect(result.changes).toHaveLength(2);
+    const [added, moved] = result.changes;
+    expect(added).toMatchObject({ workOrderId: 1, change: 'added', moNumber: 'MO1', toOperatorName: 'Ana', fromOperatorId: null });
+    expect(added.reason).toBe('Best of 2 scored operators (20.0 UPH, 2.5h, score 0.820); next Ben at 0.710');
+    expect(moved).toMatchObject({ workOrderId: 2, change: 'moved', fromOperatorName: 'Ana', toOperatorName: 'Ben' });
+    expect(moved.reason).toBe('Moved off Ana to balance workload');
+    expect(result).toMatchObject({ mode: 'incremental', since: NINE, newWorkOrders: 1, unchanged: 0 });
+  });
+
+  it('should only report slots that moved beyond the tolerance as rescheduled', () => {
+    const result = report({
+      before: [
+        { workOrderId: 1, operatorId: 101, scheduledStart: NINE, scheduledEnd: TEN },
+        { workOrderId: 2, operatorId: 101, scheduledStart: TEN, scheduledEnd: minutes(TEN, 60) }
+      ],
+      after: [
+        { workOrderId: 1, operatorId: 101, scheduledStart: minutes(NINE, 0.5), scheduledEnd: minutes(TEN, 0.5) },
+        { workOrderId: 2, operatorId: 101, scheduledStart: minutes(TEN, 30), scheduledEnd: minutes(TEN, 90) }
+      ]
+    });
+
+    expect(result.unchanged).toBe(1);
+    expect(result.changes).toEqual([expect.objectContaining({
+      workOrderId: 2,
+      change: 'rescheduled',
+      previousStart: TEN,
+      scheduledStart: minutes(TEN, 30)
+    })]);
+  });
+
+  it('should leave slots alone when the run did not schedule', () => {
+    const result = report({
+      before: [{ workOrderId: 1, operatorId: 101, scheduledStart: NINE, scheduledEnd: TEN }],
+      after: [{ workOrderId: 1, operatorId: 101 }]
+    });
+
+    expect(result.changes).toEqual([]);
+    expect(result.unchanged).toBe(1);
+  });
+
+  it('should report dropped and unassigned work orders once each', () => {
+    const result = report({
+      before: [{ workOrderId: 1, operatorId: 101 }, { workOrderId: 2, operatorId: 102 }],
+      after: [],
+      unassigned: [{ workOrderId: 2, moNumber: 'MO2', reason: 'No operator with UPH for Lifetime Leash' }],
+      moNumbers: new Map([[1, 'MO1']])
+    });
+
+    expect(result.changes.map(change => [change.workOrderId, change.change])).toEqual([[1, 'dropped'], [2, 'unassigned']]);
+    expect(result.changes[0]).toMatchObject({ moNumber: 'MO1', fromOperatorName: 'Ana', toOperatorId: null });
+    expect(result.changes[1]).toMatchObject({ moNumber: 'MO2', fromOperatorName: 'Ben', reason: 'No operator with UPH for Lifetime Leash' });
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Unit tests for learning-curve fitting
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fitLearningCurve } from '../server/services/learningCurve';
+
+describe('Learning Curve', () => {
+  // 30 UPH plateau, starting 15 below it and halving the gap every ~1.4 MOs
+  const ramp = Array.from({ length: 8 }, (_, k) => 30 - 15 * Math.exp(-k / 2));
+
+  it('should recover the plateau and project the next MO above the average', () => {
+    const fit = fitLearningCurve(ramp)!;
+    const average = ramp.reduce((sum, v) => sum + v, 0) / ramp.length;
+
+    expect(fit.steadyStateUph).toBeCloseTo(30, 1);
+    expect(fit.initialUph).toBeCloseTo(15, 1);
+    expect(fit.tau).toBe(2);
+    expect(fit.projectedUph).toBeGreaterThan(average);
+    expect(fit.projectedUph).toBeLessThan(fit.steadyStateUph);
+    expect(fit.mosToRamp).toBe(5);
+    expect(fit.remainingRampMos).toBe(0);
+    expect(fit.ramp).toHaveLength(5);
+  });
+
+  it('should not fit a curve to flat, declining or sparse histories', () => {
+    expect(fitLearningCurve([20, 22, 19, 21, 20, 22, 19, 21])).toBeNull();
+    expect(fitLearningCurve([...ramp].reverse())).toBeNull();
+    expect(fitLearningCurve(ramp.slice(0, 3))).toBeNull();
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Unit tests for Operator Calendar capacity rules
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { buildOperatorCalendar, type CalendarData } from '../server/services/operatorCalendar';
+
+vi.mock('../server/db', () => ({ db: {} }));
+
+// Monday 2025-07-07
+const MONDAY = new Date(2025, 6, 7);
+
+function calendarData(overrides: Partial<CalendarData> = {}): CalendarData {
+  return {
+    weeklyHours: new Map([[101, 40], [102, 30]]),
+    shifts: new Map(),
+    timeOff: new Map(),
+    holidays: new Set(),
+    ...overrides
+  };
+}
+
+describe('Operator Calendar', () => {
+  it('should spread weekly hours over Monday to Friday without a shift pattern', () => {
+    const calendar = buildOperatorCalendar(calendarData());
+
+    expect(calendar.hoursOn(101, MONDAY)).toBe(8);
+    expect(calendar.hoursOn(102, MONDAY)).toBe(6);
+    expect(calendar.hoursOn(101, new Date(2025, 6, 12))).toBe(0); // Saturday
+    expect(calendar.hoursBetween(101, MONDAY, 7)).toBe(40);
+  });
+
+  it('should use the shift pattern and its start times', () => {
+    const calendar = buildOperatorCalendar(calendarData({
+      shifts: new Map([[101, [
+        { dayOfWeek: 1, startTime: '06:30', hours: 10 },
+        { dayOfWeek: 6, startTime: '09:00', hours: 5 }
+      ]]])
+    }));
+
+    expect(calendar.hoursOn(101, MONDAY)).toBe(10);
+    expect(calendar.hoursOn(101, new Date(2025, 6, 8))).toBe(0); // Tuesday not in pattern
+    expect(calendar.shiftStartHourOn(101, MONDAY)).toBe(6.5);
+    expect(calendar.hoursBetween(101, MONDAY, 7)).toBe(15);
+  });
+
+  it('should remove holidays and time off from available hours', () => {
+    const calendar = buildOperatorCalendar(calendarData({
+      holidays: new Set(['2025-07-07']),
+      timeOff: new Map([[101, [
+        { startDate: '2025-07-08', endDate: '2025-07-09', hoursPerDay: null },
+        { startDate: '2025-07-10', endDate: '2025-07-10', hoursPerDay: 3 }
+      ]]])
+    }));
+
+    expect(calendar.hoursOn(101, MONDAY)).toBe(0);
+    expect(calendar.hoursOn(102, MONDAY)).toBe(0);
+    expect(calendar.hoursBetween(101, MONDAY, 7)).toBe(5 + 8);
+    expect(calendar.hoursBetween(102, MONDAY, 7)).toBe(24);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Unit tests for product families and inferred UPH
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  familyPath,
+  inferUph,
+  normalizeProductFamilies,
+  routingSimilarity,
+  DEFAULT_PRODUCT_FAMILIES,
+  type FamilyUphRow
+} from '../server/services/productFamilies';
+
+vi.mock('../server/db', () => ({ db: {} }));
+
+function row(operatorName: string, routing: string, uph: number, observations = 10): FamilyUphRow {
+  return { operatorName, workCenter: 'Assembly', routing, uph, observations };
+}
+
+describe('Product Families', () => {
+  it('should place routings in their most specific family first', () => {
+    expect(familyPath('Lifetime Pro Leash', DEFAULT_PRODUCT_FAMILIES)).toEqual(['Lifetime Leashes', 'Lifetime']);
+    expect(familyPath('Fi Collar', DEFAULT_PRODUCT_FAMILIES)).toEqual([]);
+    expect(routingSimilarity('Lifetime Pro Leash', 'Lifetime Leash', DEFAULT_PRODUCT_FAMILIES)).toBe(1);
+    expect(routingSimilarity('Lifetime Pro Leash', 'Lifetime Collar', DEFAULT_PRODUCT_FAMILIES)).toBe(0.5);
+  });
+
+  it('should scale related-routing UPH by the population ratio and flag the basis', () => {
+    // Ben, the one peer who ran both, runs Lifetime Pro Leash at 80% of their Lifetime Leash speed;
+    // Cal only ran Lifetime Leash and Ana is the target, so neither moves the ratio
+    const rows = [
+      row('Ben', 'Lifetime Leash', 20),
+      row('Ben', 'Lifetime Pro Leash', 16),
+      row('Cal', 'Lifetime Leash', 40),
+      row('Ana', 'Lifetime Leash', 30)
+    ];
+    const inferred = inferUph({ operatorName: 'Ana', workCenter: 'Assembly', routing: 'Lifetime Pro Leash' }, rows, DEFAULT_PRODUCT_FAMILIES)!;
+
+    expect(inferred.family).toBe('Lifetime Leashes');
+    expect(inferred.basis).toHaveLength(1);
+    expect(inferred.basis[0].populationRatio).toBeCloseTo(0.8);
+    expect(inferred.uph).toBeCloseTo(30 * 0.8);
+  });
+
+  it('should not infer without related history or anyone on the target routing', () => {
+    const rows = [row('Ben', 'Lifetime Pro Leash', 16), row('Ana', 'Fi Collar', 30)];
+
+    expect(inferUph({ operatorName: 'Ana', workCenter: 'Assembly', routing: 'Lifetime Pro Leash' }, rows, DEFAULT_PRODUCT_FAMILIES)).toBeNull();
+    expect(inferUph({ operatorName: 'Ana', workCenter: 'Assembly', routing: 'Lifetime Harness' }, rows, DEFAULT_PRODUCT_FAMILIES)).toBeNull();
+  });
+
+  it('should reject families with bad patterns or unknown parents', () => {
+    expect(() => normalizeProductFamilies([{ name: 'A', pattern: '(' }])).toThrow(/invalid pattern/);
+    expect(() => normalizeProductFamilies([{ name: 'A', parent: 'B' }])).toThrow(/unknown parent/);
+  });
+});
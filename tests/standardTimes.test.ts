@@ -0,0 +1,118 @@
+/**
+ * Unit tests for standard times per routing operation
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  applyOverrides,
+  canonicalOperation,
+  computeStandardTimes,
+  estimateStandardHours,
+  findStandard,
+  normalizeStandardTimeOverride,
+  percentile,
+  toStandardTimeCycle,
+  type StandardTimeCycle
+} from '../server/services/standardTimes';
+import type { StandardTimeOverride, WorkCyclesConsolidated } from '../shared/schema';
+import type { RoutingStep } from '../server/services/routingPrecedence';
+
+vi.mock('../server/db', () => ({ db: {} }));
+
+const STEPS = new Map<string, RoutingStep[]>([
+  ['Lifetime Leash', [
+    { sequence: 10, operation: 'Cutting - Webbing', category: 'Cutting' },
+    { sequence: 20, operation: 'Sewing - Leash', category: 'Assembly' },
+    { sequence: 30, operation: 'Packaging', category: 'Packaging' }
+  ]]
+]);
+
+// One MO's consolidated cycle taking the given minutes per unit over 60 units
+function cycle(operation: string, minutesPerUnit: number, routing = 'Lifetime Leash'): StandardTimeCycle {
+  return { routing, operation, workCenter: 'Assembly', durationSeconds: minutesPerUnit * 60 * 60, quantity: 60 };
+}
+
+function override(operation: string, minutesPerUnit: number): StandardTimeOverride {
+  return {
+    id: 1,
+    routing: 'Lifetime Leash',
+    operation,
+    workCenter: null,
+    minutesPerUnit,
+    note: null,
+    updatedBy: 'planner',
+    updatedAt: new Date('2026-01-05')
+  };
+}
+
+describe('Standard Times', () => {
+  it('should interpolate percentiles between ranks', () => {
+    expect(percentile([4, 1, 3, 2], 50)).toBeCloseTo(2.5);
+    expect(percentile([1, 2, 3, 4, 5], 75)).toBe(4);
+    expect(percentile([], 50)).toBeNull();
+  });
+
+  it('should take the target percentile of minutes per unit for each routing step', () => {
+    const cycles = [2, 3, 4, 5, 6].map(minutes => cycle('Sewing - Leash', minutes));
+    const standards = computeStandardTimes(cycles, STEPS, { targetPercentile: 75, minObservations: 3 });
+
+    expect(standards.map(s => s.operation)).toEqual(['Cutting - Webbing', 'Sewing - Leash', 'Packaging']);
+    const sewing = standards[1];
+    expect(sewing.observations).toBe(5);
+    expect(sewing.median).toBeCloseTo(4);
+    expect(sewing.computedMinutesPerUnit).toBeCloseTo(5);
+    expect(sewing.source).toBe('computed');
+    // Steps without data are still listed
+    expect(standards[0].source).toBe('none');
+  });
+
+  it('should not compute a standard below the minimum observations or from short cycles', () => {
+    const cycles = [cycle('Sewing - Leash', 3), cycle('Sewing - Leash', 4), { ...cycle('Sewing - Leash', 1), durationSeconds: 60 }];
+    const sewing = computeStandardTimes(cycles, STEPS, { targetPercentile: 50, minObservations: 3 })[1];
+
+    expect(sewing.observations).toBe(2);
+    expect(sewing.computedMinutesPerUnit).toBeNull();
+  });
+
+  it('should prefer overrides and estimate a routing from its steps', () => {
+    const cycles = [2, 3, 4].map(minutes => cycle('Sewing - Leash', minutes));
+    const standards = applyOverrides(
+      computeStandardTimes(cycles, STEPS, { targetPercentile: 50, minObservations: 3 }),
+      [override('Packaging', 0.5)]
+    );
+
+    expect(findStandard(standards, 'Lifetime Leash', 'Packaging')?.source).toBe('override');
+    expect(findStandard(standards, 'Lifetime Leash', 'Sew', 'Sewing')?.operation).toBe('Sewing - Leash');
+
+    const estimate = estimateStandardHours(standards, 'Lifetime Leash', 120)!;
+    expect(estimate.hours).toBeCloseTo((120 * 3 + 120 * 0.5) / 60);
+    expect(estimate.missing).toEqual(['Cutting - Webbing']);
+    expect(estimateStandardHours(standards, 'Fi Collar', 120)).toBeNull();
+  });
+
+  it('should read the operation from the consolidated rec_name', () => {
+    const row = {
+      routing_name: 'Lifetime Leash',
+      cycles_rec_name: 'Dani Park | Sewing - Leash | Sewing',
+      operator_rec_name: 'Dani Park',
+      work_center_category_name: 'Sewing',
+      total_duration_sec: 3600,
+      quantity_done: 30
+    } as WorkCyclesConsolidated;
+
+    const parsed = toStandardTimeCycle(row, STEPS.get('Lifetime Leash'))!;
+    expect(parsed.operation).toBe('Sewing - Leash');
+    expect(parsed.workCenter).toBe('Assembly');
+    expect(toStandardTimeCycle(row)!.operation).toBe('Sewing - Leash');
+  });
+
+  it('should save overrides under the operation name already known, whatever its case', () => {
+    const known = ['Sewing - Leash', 'Packaging'];
+    expect(canonicalOperation('sewing - LEASH', known)).toBe('Sewing - Leash');
+    expect(canonicalOperation('Embroidery', known)).toBe('Embroidery');
+
+    expect(normalizeStandardTimeOverride({ routing: ' Lifetime Leash ', operation: 'Packaging', minutesPerUnit: '0.5' }))
+      .toEqual({ routing: 'Lifetime Leash', operation: 'Packaging', workCenter: null, minutesPerUnit: 0.5, note: null });
+    expect(() => normalizeStandardTimeOverride(null)).toThrow('routing and operation are required');
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for UPH drift detection
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { detectDrift, normalizeDriftConfig, DEFAULT_DRIFT_CONFIG } from '../server/services/uphDriftAlerts';
+import type { UphCycle } from '../server/services/uphEngine';
+
+vi.mock('../server/db', () => ({ db: {} }));
+
+const NOW = new Date('2025-06-30T12:00:00Z');
+
+// One single-cycle MO of 60 units at the given UPH, finished daysAgo
+function mo(cycleId: number, uph: number, daysAgo: number, operatorName = 'Ana'): UphCycle {
+  const finished = new Date(NOW.getTime() - daysAgo * 24 * 60 * 60 * 1000);
+  return {
+    cycleId,
+    workOrderId: cycleId,
+    operatorId: 1,
+    operatorName,
+    workCenter: 'Assembly',
+    rawWorkCenter: 'Sewing',
+    operation: 'Sewing',
+    routing: 'Lifetime Leash',
+    productionId: cycleId,
+    moNumber: `MO${cycleId}`,
+    moQuantity: 60,
+    quantityDone: 60,
+    durationSeconds: (60 / uph) * 3600,
+    date: finished,
+    writeDate: finished
+  };
+}
+
+// Baseline MOs 30-70 days back around 30 UPH, then recent MOs at the given rates
+function history(recent: number[], operatorName = 'Ana', firstId = 1): UphCycle[] {
+  const baseline = [29, 31, 30, 32, 28, 30].map((uph, i) => mo(firstId + i, uph, 30 + i * 8, operatorName));
+  return [...baseline, ...recent.map((uph, i) => mo(firstId + 100 + i, uph, 2 + i * 3, operatorName))];
+}
+
+describe('UPH Drift Detection', () => {
+  it('should flag an operator well below their own baseline', () => {
+    const { drifts, evaluated } = detectDrift(history([18, 19, 17]), DEFAULT_DRIFT_CONFIG, NOW);
+
+    expect(evaluated).toEqual(['Ana|Assembly|Lifetime Leash']);
+    expect(drifts).toHaveLength(1);
+    expect(drifts[0].baselineUph).toBeCloseTo(30);
+    expect(drifts[0].recentUph).toBeCloseTo(18);
+    expect(drifts[0].change).toBeCloseTo(-0.4);
+    expect(drifts[0].recentMos).toBe(3);
+    expect(drifts[0].baselineMos).toBe(6);
+  });
+
+  it('should judge but not flag ordinary variation', () => {
+    const { drifts, evaluated } = detectDrift(history([27, 31, 29]), DEFAULT_DRIFT_CONFIG, NOW);
+
+    expect(evaluated).toHaveLength(1);
+    expect(drifts).toHaveLength(0);
+  });
+
+  it('should not judge operators without enough recent MOs', () => {
+    const cycles = [...history([18, 17]), ...history([18, 19, 17], 'Ben', 1000)];
+    const { drifts, evaluated } = detectDrift(cycles, DEFAULT_DRIFT_CONFIG, NOW);
+
+    expect(evaluated).toEqual(['Ben|Assembly|Lifetime Leash']);
+    expect(drifts.map(d => d.operatorName)).toEqual(['Ben']);
+  });
+
+  it('should keep the baseline window longer than the recent one', () => {
+    const config = normalizeDriftConfig({ recentDays: 30, baselineDays: 10, threshold: 50 });
+
+    expect(config.baselineDays).toBe(37);
+    expect(config.threshold).toBe(10);
+    expect(config.notifySlack).toBe(false);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Unit tests for the UPH engine
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { computeUph, allocateQuantities, applyOutlierPolicy, applyShrinkage, normalizeUphConfig, resolveWindow, UPH_ENGINE_VERSION, type UphCycle, type UphResult } from '../server/services/uphEngine';
+
+vi.mock('../server/db', () => ({ db: {} }));
+
+const NOW = new Date('2025-06-30T12:00:00Z');
+
+function cycle(cycleId: number, moNumber: string, moQuantity: number, quantityDone: number, hours: number, daysAgo = 1): UphCycle {
+  return {
+    cycleId,
+    workOrderId: cycleId,
+    operatorId: 1,
+    operatorName: 'Ana',
+    workCenter: 'Assembly',
+    rawWorkCenter: 'Sewing',
+    operation: 'Sewing',
+    routing: 'Lifetime Leash',
+    productionId: null,
+    moNumber,
+    moQuantity,
+    quantityDone,
+    durationSeconds: hours * 3600,
+    date: new Date(NOW.getTime() - daysAgo * 24 * 60 * 60 * 1000),
+    writeDate: new Date(NOW.getTime() - daysAgo * 24 * 60 * 60 * 1000)
+  };
+}
+
+function result(operatorName: string, values: number[]): UphResult {
+  const uph = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return {
+    operatorId: null,
+    operatorName,
+    workCenter: 'Assembly',
+    routing: 'Lifetime Leash',
+    uph,
+    observations: values.length,
+    values,
+    cycleCount: values.length,
+    totalQuantity: 0,
+    totalDurationHours: 0,
+    outliersExcluded: 0,
+    windowDays: null,
+    windowMos: null,
+    learning: null,
+    projectedUph: uph,
+    shrunkUph: uph,
+    ciLow: uph,
+    ciHigh: uph,
+    shrinkage: 0,
+    populationUph: null,
+    method: 'mo_weighted',
+    version: UPH_ENGINE_VERSION
+  };
+}
+
+describe('UPH Engine', () => {
+  // MO-1: 100 units over 2h (50 UPH); MO-2: 30 units over 3h (10 UPH)
+  const cycles = [
+    cycle(1, 'MO-1', 100, 60, 1),
+    cycle(2, 'MO-1', 100, 40, 1),
+    cycle(3, 'MO-2', 30, 30, 3)
+  ];
+
+  it('should average per-MO UPH when MO-weighted and pool units over hours when cycle-weighted', () => {
+    const [moWeighted] = computeUph(cycles, normalizeUphConfig({ method: 'mo_weighted', window: 'all', outliers: 'none' }), new Map(), NOW);
+    const [cycleWeighted] = computeUph(cycles, normalizeUphConfig({ method: 'cycle_weighted', window: 'all', outliers: 'none' }), new Map(), NOW);
+
+    expect(moWeighted.uph).toBeCloseTo(30);
+    expect(moWeighted.observations).toBe(2);
+    expect(moWeighted.method).toBe('mo_weighted');
+    expect(cycleWeighted.uph).toBeCloseTo(26);
+    expect(cycleWeighted.observations).toBe(3);
+    expect(cycleWeighted.method).toBe('cycle_weighted');
+    expect(cycleWeighted.version).toBe(UPH_ENGINE_VERSION);
+  });
+
+  it('should only count cycles inside the window', () => {
+    const windowed = [...cycles.slice(0, 2), cycle(3, 'MO-2', 30, 30, 3, 45)];
+    const [result] = computeUph(windowed, normalizeUphConfig({ window: 'days', windowDays: 30, outliers: 'none' }), new Map(), NOW);
+
+    expect(result.uph).toBeCloseTo(50);
+    expect(result.windowDays).toBe(30);
+  });
+
+  it('should count the last N MOs where a window policy says so', () => {
+    const history = [cycle(1, 'MO-1', 100, 100, 2, 90), cycle(2, 'MO-2', 30, 30, 3, 60), cycle(3, 'MO-3', 40, 40, 2, 2)];
+    const config = {
+      ...normalizeUphConfig({ window: 'days', windowDays: 30, outliers: 'none' }),
+      policies: [
+        { id: 1, workCenter: 'Assembly', routing: null, window: { type: 'all' as const } },
+        { id: 2, workCenter: null, routing: 'Lifetime Leash', window: { type: 'mos' as const, count: 2 } }
+      ]
+    };
+
+    // The routing policy is more specific than the work center one
+    expect(resolveWindow(config, 'Assembly', 'Lifetime Leash')).toEqual({ type: 'mos', count: 2 });
+    expect(resolveWindow(config, 'Assembly', 'Fi Collar')).toEqual({ type: 'all' });
+    expect(resolveWindow(config, 'Cutting', 'Fi Collar')).toEqual({ type: 'days', days: 30 });
+
+    const [result] = computeUph(history, config, new Map(), NOW);
+    expect(result.uph).toBeCloseTo((10 + 20) / 2);
+    expect(result.windowMos).toBe(2);
+    expect(result.windowDays).toBeNull();
+  });
+
+  it('should drop values outside the IQR fences', () => {
+    const values = [20, 21, 22, 23, 24, 90].map(uph => ({ uph }));
+    const { kept, excluded } = applyOutlierPolicy(values, 'iqr');
+
+    expect(excluded.map(v => v.uph)).toEqual([90]);
+    expect(kept).toHaveLength(5);
+    expect(applyOutlierPolicy(values.slice(0, 3), 'iqr').excluded).toHaveLength(0);
+  });
+
+  it('should shrink sparse estimates toward the routing mean more than well-observed ones', () => {
+    const steady = Array.from({ length: 20 }, (_, i) => 18 + (i % 5));
+    const [sparse, dense] = applyShrinkage([result('Ana', [60]), result('Ben', steady)]);
+
+    expect(sparse.populationUph).toBeCloseTo((60 + steady.reduce((a, b) => a + b, 0)) / 21);
+    expect(sparse.shrunkUph).toBeLessThan(60);
+    expect(sparse.shrunkUph).toBeGreaterThan(sparse.populationUph!);
+    expect(sparse.shrinkage).toBeGreaterThan(dense.shrinkage);
+    expect(Math.abs(dense.shrunkUph - dense.uph)).toBeLessThan(1);
+    expect(sparse.ciHigh - sparse.ciLow).toBeGreaterThan(dense.ciHigh - dense.ciLow);
+    expect(sparse.ciLow).toBeLessThanOrEqual(sparse.shrunkUph);
+  });
+
+  it('should split a shared work order by quantity done, else by hours', () => {
+    const shared = (cycleId: number, operatorName: string, quantityDone: number, hours: number): UphCycle =>
+      ({ ...cycle(cycleId, 'MO-3', 90, quantityDone, hours), workOrderId: 7, operatorName });
+
+    // Both report: 60 / 30 units
+    const byQuantity = allocateQuantities([shared(1, 'Ana', 60, 2), shared(2, 'Ben', 30, 1)]);
+    expect(byQuantity.cycles.map(c => c.quantityShare)).toEqual([60 / 90, 30 / 90]);
+    expect(byQuantity.report.byMethod.quantity_done).toBe(1);
+
+    // Neither reports: 3h against 1h
+    const byHours = allocateQuantities([shared(1, 'Ana', 0, 3), shared(2, 'Ben', 0, 1), cycle(3, 'MO-2', 30, 30, 3)]);
+    expect(byHours.cycles.map(c => c.quantityShare)).toEqual([0.75, 0.25, 1]);
+    expect(byHours.report.affectedMos).toBe(1);
+    expect(byHours.report.totalMos).toBe(2);
+
+    // Ben is credited 22.5 of the 90 units, not all of them
+    const [ben] = computeUph(byHours.cycles, normalizeUphConfig({ window: 'all', outliers: 'none' }), new Map(), NOW)
+      .filter(r => r.operatorName === 'Ben');
+    expect(ben.totalQuantity).toBeCloseTo(22.5);
+    expect(ben.uph).toBeCloseTo(22.5);
+  });
+
+  it('should leave an operator without peers unshrunk', () => {
+    const [alone] = applyShrinkage([result('Ana', [20, 24])]);
+
+    expect(alone.shrunkUph).toBe(22);
+    expect(alone.shrinkage).toBe(0);
+  });
+});
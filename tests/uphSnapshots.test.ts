@@ -0,0 +1,51 @@
+/**
+ * Unit tests for UPH snapshots and change-point detection
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { buildTrends, detectChangePoints, snapshotPeriod } from '../server/services/uphSnapshots';
+import type { UphSnapshot } from '../shared/schema';
+
+vi.mock('../server/db', () => ({ db: {} }));
+
+function snapshot(periodStart: string, uph: number, engineVersion = '1.2.0'): UphSnapshot {
+  return {
+    id: 0,
+    periodStart,
+    operatorId: 1,
+    operatorName: 'Ana',
+    workCenter: 'Assembly',
+    routing: 'Lifetime Pouch',
+    uph,
+    shrunkUph: null,
+    uphCiLow: null,
+    uphCiHigh: null,
+    observationCount: 10,
+    calculationMethod: null,
+    engineVersion,
+    capturedAt: null
+  };
+}
+
+describe('UPH Snapshots', () => {
+  it('should file snapshots under the Monday of their week', () => {
+    expect(snapshotPeriod(new Date('2025-07-02T15:00:00Z'))).toBe('2025-06-30');
+    expect(snapshotPeriod(new Date('2025-06-29T23:00:00Z'))).toBe('2025-06-23');
+  });
+
+  it('should find a level shift and ignore noise', () => {
+    expect(detectChangePoints([20, 21, 19, 20, 26, 27, 25, 26])).toEqual([4]);
+    expect(detectChangePoints([20, 21, 19, 20, 21, 19, 20, 21])).toEqual([]);
+    expect(detectChangePoints([20, 26, 27])).toEqual([]);
+  });
+
+  it('should report the change with segment means and engine changes', () => {
+    const weeks = ['2025-05-05', '2025-05-12', '2025-05-19', '2025-05-26', '2025-06-02', '2025-06-09'];
+    const [trend] = buildTrends(weeks.map((week, i) => snapshot(week, i < 3 ? 20 : 25, i < 3 ? '1.1.0' : '1.2.0')));
+
+    expect(trend.points).toHaveLength(6);
+    expect(trend.changePoints).toEqual([
+      { periodStart: '2025-05-26', before: 20, after: 25, change: 0.25, engineChanged: true }
+    ]);
+  });
+});